@@ -1,34 +1,37 @@
-import { S3Client, ListBucketsCommand } from "@aws-sdk/client-s3";
-import { Storage } from "@google-cloud/storage";
-
-interface S3Config {
-  accessKeyId: string;
-  secretAccessKey: string;
-  region: string;
-}
-
-interface GCSConfig {
-  projectId: string;
-  keyFile?: string; // JSON key file content (base64 encoded)
-}
+import { ListBucketsCommand } from "@aws-sdk/client-s3";
+import {
+  createGCSStorage,
+  createS3Client,
+  type GCSConfig,
+  type S3Config,
+} from "@/lib/cloud-storage";
+import { resolveConnection } from "@/lib/credential-vault";
 
 export async function POST(req: Request) {
   try {
-    const { provider, config } = await req.json() as {
+    const { provider, connectionId, config } = await req.json() as {
       provider: "s3" | "gcs";
-      config: S3Config | GCSConfig;
+      // Stored connection profile (from /api/connections)
+      connectionId?: string;
+      config?: S3Config | GCSConfig;
     };
 
+    if (provider !== "s3" && provider !== "gcs") {
+      return Response.json(
+        { error: "Invalid provider" },
+        { status: 400 }
+      );
+    }
+
+    const connection = resolveConnection(req, provider, { connectionId, config });
+    if (!connection.success) {
+      return Response.json({ error: connection.error }, { status: connection.status });
+    }
+
     if (provider === "s3") {
-      const s3Config = config as S3Config;
+      const s3Config = connection.config as S3Config;
 
-      const client = new S3Client({
-        region: s3Config.region,
-        credentials: {
-          accessKeyId: s3Config.accessKeyId,
-          secretAccessKey: s3Config.secretAccessKey,
-        },
-      });
+      const client = createS3Client(s3Config);
 
       const command = new ListBucketsCommand({});
       const response = await client.send(command);
@@ -43,24 +46,9 @@ export async function POST(req: Request) {
     }
 
     if (provider === "gcs") {
-      const gcsConfig = config as GCSConfig;
-
-      let storage: Storage;
+      const gcsConfig = connection.config as GCSConfig;
 
-      if (gcsConfig.keyFile) {
-        // Parse base64-encoded JSON key file
-        const keyFileContent = Buffer.from(gcsConfig.keyFile, "base64").toString("utf-8");
-        const credentials = JSON.parse(keyFileContent);
-        storage = new Storage({
-          projectId: gcsConfig.projectId,
-          credentials,
-        });
-      } else {
-        // Use default credentials (e.g., from environment)
-        storage = new Storage({
-          projectId: gcsConfig.projectId,
-        });
-      }
+      const storage = createGCSStorage(gcsConfig);
 
       const [buckets] = await storage.getBuckets();
 
@@ -1,16 +1,11 @@
-import { S3Client, ListObjectsV2Command } from "@aws-sdk/client-s3";
-import { Storage } from "@google-cloud/storage";
-
-interface S3Config {
-  accessKeyId: string;
-  secretAccessKey: string;
-  region: string;
-}
-
-interface GCSConfig {
-  projectId: string;
-  keyFile?: string;
-}
+import { ListObjectsV2Command } from "@aws-sdk/client-s3";
+import {
+  createGCSStorage,
+  createS3Client,
+  type GCSConfig,
+  type S3Config,
+} from "@/lib/cloud-storage";
+import { resolveConnection } from "@/lib/credential-vault";
 
 interface CloudFile {
   key: string;
@@ -22,9 +17,11 @@ interface CloudFile {
 
 export async function POST(req: Request) {
   try {
-    const { provider, config, bucket, prefix = "" } = await req.json() as {
+    const { provider, connectionId, config, bucket, prefix = "" } = await req.json() as {
       provider: "s3" | "gcs";
-      config: S3Config | GCSConfig;
+      // Stored connection profile (from /api/connections)
+      connectionId?: string;
+      config?: S3Config | GCSConfig;
       bucket: string;
       prefix?: string;
     };
@@ -36,18 +33,24 @@ export async function POST(req: Request) {
       );
     }
 
+    if (provider !== "s3" && provider !== "gcs") {
+      return Response.json(
+        { error: "Invalid provider" },
+        { status: 400 }
+      );
+    }
+
+    const connection = resolveConnection(req, provider, { connectionId, config });
+    if (!connection.success) {
+      return Response.json({ error: connection.error }, { status: connection.status });
+    }
+
     const files: CloudFile[] = [];
 
     if (provider === "s3") {
-      const s3Config = config as S3Config;
-
-      const client = new S3Client({
-        region: s3Config.region,
-        credentials: {
-          accessKeyId: s3Config.accessKeyId,
-          secretAccessKey: s3Config.secretAccessKey,
-        },
-      });
+      const s3Config = connection.config as S3Config;
+
+      const client = createS3Client(s3Config);
 
       const command = new ListObjectsV2Command({
         Bucket: bucket,
@@ -96,22 +99,9 @@ export async function POST(req: Request) {
     }
 
     if (provider === "gcs") {
-      const gcsConfig = config as GCSConfig;
+      const gcsConfig = connection.config as GCSConfig;
 
-      let storage: Storage;
-
-      if (gcsConfig.keyFile) {
-        const keyFileContent = Buffer.from(gcsConfig.keyFile, "base64").toString("utf-8");
-        const credentials = JSON.parse(keyFileContent);
-        storage = new Storage({
-          projectId: gcsConfig.projectId,
-          credentials,
-        });
-      } else {
-        storage = new Storage({
-          projectId: gcsConfig.projectId,
-        });
-      }
+      const storage = createGCSStorage(gcsConfig);
 
       const [gcsFiles, , apiResponse] = await storage.bucket(bucket).getFiles({
         prefix,
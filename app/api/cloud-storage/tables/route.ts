@@ -0,0 +1,119 @@
+import {
+  createObjectStore,
+  isGlobPattern,
+  resolveObjects,
+  type CloudProvider,
+  type GCSConfig,
+  type S3Config,
+} from "@/lib/cloud-storage";
+import { CloudTable, detectCloudFormat, type CloudFileFormat } from "@/lib/cloud-table";
+import { resolveConnection } from "@/lib/credential-vault";
+import { getDatasetStore } from "@/lib/dataset-store";
+import { getOrCreateSessionId, sessionCookie } from "@/lib/session";
+
+const SAMPLE_ROWS = 100;
+
+/**
+ * Register a cloud object, or every object matching a glob, as a table.
+ * Nothing is downloaded up front: the response carries a small sample,
+ * and queries read the columns they need from the bucket when they run.
+ */
+export async function POST(req: Request) {
+  try {
+    const { provider, connectionId, config, bucket, pattern, tableName, format } = (await req.json()) as {
+      provider: CloudProvider;
+      // Stored connection profile (from /api/connections)
+      connectionId?: string;
+      config?: S3Config | GCSConfig;
+      bucket: string;
+      /** Object key or glob pattern within the bucket */
+      pattern: string;
+      tableName?: string;
+      format?: CloudFileFormat;
+    };
+
+    if (provider !== "s3" && provider !== "gcs") {
+      return Response.json({ error: "Invalid provider" }, { status: 400 });
+    }
+    if (!bucket || !pattern) {
+      return Response.json({ error: "Bucket and pattern are required" }, { status: 400 });
+    }
+
+    const connection = resolveConnection(req, provider, { connectionId, config });
+    if (!connection.success) {
+      return Response.json({ error: connection.error }, { status: connection.status });
+    }
+
+    const store = createObjectStore(provider, connection.config, bucket);
+    const objects = await resolveObjects(store, pattern);
+    if (objects.length === 0) {
+      return Response.json({ error: `No objects match ${pattern}` }, { status: 404 });
+    }
+
+    const fileFormat = format ?? detectCloudFormat(objects[0]!.key);
+    if (!fileFormat) {
+      return Response.json(
+        { error: "Only Parquet, CSV and NDJSON files are supported" },
+        { status: 400 },
+      );
+    }
+    const mixed = objects.find((obj) => detectCloudFormat(obj.key) !== fileFormat);
+    if (!format && mixed) {
+      return Response.json(
+        { error: `${mixed.key} is not a ${fileFormat} file; narrow the pattern` },
+        { status: 400 },
+      );
+    }
+
+    const name = tableName ?? defaultTableName(pattern);
+    if (!/^\w+$/.test(name)) {
+      return Response.json(
+        { error: "tableName may only contain letters, digits and underscores" },
+        { status: 400 },
+      );
+    }
+
+    const source = new CloudTable(store, objects, fileFormat);
+    const info = await source.describe(SAMPLE_ROWS);
+
+    const { sessionId, isNew } = getOrCreateSessionId(req);
+    const prefix = provider === "s3" ? "s3" : "gs";
+    const result = getDatasetStore().putCloud(sessionId, {
+      tableName: name,
+      uri: `${prefix}://${bucket}/${pattern}`,
+      source,
+      info,
+    });
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: 413 });
+    }
+
+    const headers = new Headers();
+    if (isNew) {
+      headers.set("Set-Cookie", sessionCookie(sessionId));
+    }
+    return Response.json(
+      { dataset: result.dataset, sampleRows: info.sampleRows },
+      { status: 201, headers },
+    );
+  } catch (error) {
+    console.error("Cloud table registration error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to register cloud table" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Table name from a key or glob: the file name without its extension, or
+ * for globs the last directory without wildcards.
+ */
+function defaultTableName(pattern: string): string {
+  const segments = pattern.split("/").filter(Boolean);
+  const literal = isGlobPattern(pattern)
+    ? segments.filter((segment) => !isGlobPattern(segment)).pop()
+    : segments.pop()?.replace(/\.[^.]+$/, "");
+  const name = (literal ?? "cloud_table").replace(/\W+/g, "_").replace(/^(\d)/, "_$1");
+  return name || "cloud_table";
+}
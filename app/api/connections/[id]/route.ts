@@ -0,0 +1,47 @@
+import { getCredentialVault } from "@/lib/credential-vault";
+import { getSessionId } from "@/lib/session";
+
+/**
+ * Rotate a profile's credentials. Blank secret fields (password,
+ * secretAccessKey, keyFile) keep the stored values.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { name, config } = (await req.json()) as {
+      name?: string;
+      config?: Record<string, unknown>;
+    };
+
+    const result = getCredentialVault().rotate(getSessionId(req), id, { name, config });
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: 404 });
+    }
+    return Response.json({ connection: result.value });
+  } catch (error) {
+    console.error("Connection rotate error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to update connection" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Delete a connection profile and its stored credentials.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const removed = getCredentialVault().remove(getSessionId(req), id);
+
+  if (!removed) {
+    return Response.json({ error: "Connection not found" }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}
@@ -0,0 +1,43 @@
+import { ListBucketsCommand } from "@aws-sdk/client-s3";
+import {
+  createGCSStorage,
+  createS3Client,
+  type GCSConfig,
+  type S3Config,
+} from "@/lib/cloud-storage";
+import { getCredentialVault } from "@/lib/credential-vault";
+import { testConnection, type DBConfig } from "@/lib/db";
+import { getSessionId } from "@/lib/session";
+
+/**
+ * Test a stored connection: connect to the database, or list the
+ * buckets of a cloud storage account.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const found = getCredentialVault().get(getSessionId(req), id);
+  if (!found.success) {
+    return Response.json({ error: found.error }, { status: 404 });
+  }
+
+  try {
+    const { profile, config } = found.value;
+    if (profile.kind === "database") {
+      await testConnection(config as DBConfig);
+    } else if (profile.kind === "s3") {
+      await createS3Client(config as S3Config).send(new ListBucketsCommand({}));
+    } else {
+      await createGCSStorage(config as GCSConfig).getBuckets();
+    }
+    return Response.json({ success: true, message: "Connection successful" });
+  } catch (error) {
+    console.error("Connection test error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Connection failed" },
+      { status: 500 },
+    );
+  }
+}
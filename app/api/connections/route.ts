@@ -0,0 +1,55 @@
+import { getCredentialVault, type ConnectionKind } from "@/lib/credential-vault";
+import { getOrCreateSessionId, getSessionId, sessionCookie } from "@/lib/session";
+
+const KINDS: ConnectionKind[] = ["database", "s3", "gcs"];
+
+/**
+ * Store a connection's credentials server-side and get back a profile id.
+ * Other routes take `connectionId` instead of the credentials themselves.
+ * Profiles are scoped to the caller's session cookie.
+ */
+export async function POST(req: Request) {
+  try {
+    const { name, kind, config } = (await req.json()) as {
+      name?: string;
+      kind: ConnectionKind;
+      config: Record<string, unknown>;
+    };
+
+    if (!KINDS.includes(kind)) {
+      return Response.json({ error: `kind must be one of ${KINDS.join(", ")}` }, { status: 400 });
+    }
+    if (!config || typeof config !== "object") {
+      return Response.json({ error: "config is required" }, { status: 400 });
+    }
+
+    const { sessionId, isNew } = getOrCreateSessionId(req);
+    const connection = getCredentialVault().create(sessionId, {
+      name: name || kind,
+      kind,
+      config: config as never,
+    });
+
+    const headers = new Headers();
+    if (isNew) {
+      headers.set("Set-Cookie", sessionCookie(sessionId));
+    }
+    return Response.json({ connection }, { status: 201, headers });
+  } catch (error) {
+    console.error("Connection create error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to save connection" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * List the caller's connection profiles (without secrets).
+ */
+export async function GET(req: Request) {
+  const sessionId = getSessionId(req);
+  return Response.json({
+    connections: sessionId ? getCredentialVault().list(sessionId) : [],
+  });
+}
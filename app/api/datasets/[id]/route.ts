@@ -0,0 +1,19 @@
+import { getDatasetStore } from "@/lib/dataset-store";
+import { getSessionId } from "@/lib/session";
+
+/**
+ * Remove an uploaded dataset from the caller's session.
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const sessionId = getSessionId(req);
+  const removed = sessionId ? getDatasetStore().remove(sessionId, id) : false;
+
+  if (!removed) {
+    return Response.json({ error: "Dataset not found" }, { status: 404 });
+  }
+  return Response.json({ success: true });
+}
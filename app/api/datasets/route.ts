@@ -0,0 +1,55 @@
+import { getDatasetStore } from "@/lib/dataset-store";
+import { getOrCreateSessionId, getSessionId, sessionCookie } from "@/lib/session";
+
+/**
+ * Upload a parsed file once and get back a dataset id.
+ * The query routes reference the dataset by id instead of re-posting rows.
+ * Datasets are scoped to the caller's session cookie.
+ */
+export async function POST(req: Request) {
+  try {
+    const { tableName, fileName, data } = (await req.json()) as {
+      tableName: string;
+      fileName?: string;
+      data: Record<string, unknown>[];
+    };
+
+    if (!tableName || !/^\w+$/.test(tableName)) {
+      return Response.json(
+        { error: "tableName may only contain letters, digits and underscores" },
+        { status: 400 },
+      );
+    }
+    if (!Array.isArray(data)) {
+      return Response.json({ error: "data array is required" }, { status: 400 });
+    }
+
+    const { sessionId, isNew } = getOrCreateSessionId(req);
+    const result = getDatasetStore().put(sessionId, { tableName, fileName, data });
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: 413 });
+    }
+
+    const headers = new Headers();
+    if (isNew) {
+      headers.set("Set-Cookie", sessionCookie(sessionId));
+    }
+    return Response.json({ dataset: result.dataset }, { status: 201, headers });
+  } catch (error) {
+    console.error("Dataset upload error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Upload failed" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * List the datasets stored for the caller's session.
+ */
+export async function GET(req: Request) {
+  const sessionId = getSessionId(req);
+  return Response.json({
+    datasets: sessionId ? getDatasetStore().list(sessionId) : [],
+  });
+}
@@ -1,4 +1,4 @@
-import { executeQuery, DBConfig } from "@/lib/db";
+import { executeLimitedQuery, DBConfig, LimitedQueryResult, type DatabaseType } from "@/lib/db";
 import { validateQuery } from "@/lib/query-validator";
 import {
   injectFilterParams,
@@ -10,11 +10,34 @@ import {
 import {
   FilterMeta,
   buildFilteredQuery,
-  buildAutoFilteredQuery,
+  inferFilterMeta,
+  isLookupQueryKey,
   validateFilterMeta,
 } from "@/lib/filter-metadata";
+import { resolveRelativeDateParams } from "@/lib/relative-dates";
+import {
+  comparisonParams,
+  isComparedQuery,
+  isComparisonMode,
+  type ComparisonMode,
+} from "@/lib/comparison";
 import { apiCache } from "@/lib/api-cache";
-import { getInMemoryDb } from "@/lib/in-memory-db";
+import {
+  columnLookup,
+  crossFilterMeta,
+  crossFilterParams,
+  type CrossFilter,
+} from "@/lib/cross-filter";
+import { introspectSchema, schemaToPrompt } from "@/lib/schema-introspector";
+import { resolveDatabaseConnection } from "@/lib/credential-vault";
+import {
+  queryFileWorkspace,
+  resolveFileWorkspace,
+  type FileWorkspace,
+  type DataScope,
+} from "@/lib/dataset-store";
+import { getSessionId } from "@/lib/session";
+import { applyResultBudget } from "@/lib/db-adapters/row-limit";
 
 export const maxDuration = 30; // 30 seconds
 
@@ -33,13 +56,30 @@ interface QueryResult {
   error?: string;
 }
 
+/** Reported for each query whose rows were cut to the row/byte budget */
+interface TruncationInfo {
+  truncated: true;
+  rowCount: number;
+  totalRowsEstimate?: number;
+}
+
 /**
- * Execute a query against the in-memory database
+ * Execute a query against the uploaded file tables
  */
-function executeInMemoryQuery(sql: string): unknown[] {
-  const db = getInMemoryDb();
-  const result = db.query(sql);
-  return result.rows;
+async function executeInMemoryQuery(
+  workspace: FileWorkspace,
+  sql: string,
+  params: unknown[] = [],
+): Promise<LimitedQueryResult<unknown>> {
+  const result = await queryFileWorkspace(workspace, sql, params);
+  const { rows, truncated } = applyResultBudget(result.rows);
+  return {
+    rows,
+    rowCount: rows.length,
+    truncated,
+    // All rows are in memory, so the total is exact
+    totalRowsEstimate: truncated ? result.rows.length : undefined,
+  };
 }
 
 /**
@@ -50,22 +90,43 @@ function executeInMemoryQuery(sql: string): unknown[] {
  * Supports both database and file (in-memory) data sources.
  */
 export async function POST(req: Request) {
+  // Releases a request-scoped file workspace once the batch is done
+  let releaseWorkspace = () => {};
   try {
     const {
       queries,
-      filterParams,
-      dbConfig,
+      filterParams: requestFilterParams,
+      connectionId,
+      dbConfig: inlineDbConfig,
       dataSourceType,
+      datasetIds,
       fileData,
+      filesData,
+      crossFilters,
+      comparison: comparisonMode,
     } = (await req.json()) as {
       queries: SQLQuery[];
       filterParams?: Record<string, string>;
+      // Values selected by clicking chart segments (cross-filter mode)
+      crossFilters?: CrossFilter[];
+      // Also run date-filtered queries over this comparison period
+      comparison?: ComparisonMode | null;
+      // Stored connection profile (from /api/connections)
+      connectionId?: string;
+      // Inline config, for the demo database and older clients
       dbConfig?: DBConfig;
       dataSourceType?: "database" | "file";
+      // Uploaded datasets (from /api/datasets) in the caller's session
+      datasetIds?: string[];
       fileData?: {
         tableName: string;
         data: Record<string, unknown>[];
       };
+      // All uploaded files, so queries can join across them
+      filesData?: {
+        tableName: string;
+        data: Record<string, unknown>[];
+      }[];
     };
 
     if (!queries || !Array.isArray(queries)) {
@@ -77,19 +138,86 @@ export async function POST(req: Request) {
 
     const isFileSource = dataSourceType === "file";
 
-    // If file source, ensure data is loaded into in-memory DB
-    if (isFileSource && fileData && fileData.tableName && fileData.data) {
-      const db = getInMemoryDb();
-      db.addTable(fileData.tableName, fileData.data);
+    // Relative date ranges (e.g. quarter_to_date) become dates here, on the
+    // server's clock, so the cache key below holds the actual dates
+    const filterParams = requestFilterParams && resolveRelativeDateParams(requestFilterParams);
+    const comparison =
+      filterParams && isComparisonMode(comparisonMode) ? comparisonParams(filterParams, comparisonMode) : null;
+
+    let dbConfig: DBConfig | undefined;
+    let connectionKey: string | undefined;
+    if (!isFileSource) {
+      const connection = resolveDatabaseConnection(req, { connectionId, dbConfig: inlineDbConfig });
+      if (!connection.success) {
+        return Response.json({ error: connection.error }, { status: connection.status });
+      }
+      dbConfig = connection.config;
+      connectionKey = connection.cacheKey;
     }
 
+    const sessionId = isFileSource ? getSessionId(req) : null;
+
+    // If file source, find the session's datasets (or load rows posted inline)
+    let workspace: FileWorkspace | undefined;
+    let dataScope: DataScope | undefined;
+    if (isFileSource) {
+      const resolved = resolveFileWorkspace(
+        sessionId,
+        datasetIds,
+        filesData && filesData.length > 0 ? filesData : fileData ? [fileData] : [],
+      );
+      if (!resolved.success) {
+        return Response.json(
+          { error: resolved.error, missingDatasetIds: resolved.missingDatasetIds },
+          { status: 410 },
+        );
+      }
+      workspace = resolved.workspace;
+      dataScope = resolved.scope;
+      releaseWorkspace = resolved.release;
+    }
+
+    const dialect: DatabaseType | undefined = isFileSource ? "sqlite" : dbConfig?.type;
+
+    // Cross filters apply to the queries over tables that have the column
+    let columnsOf: (table: string) => string[] | undefined = () => undefined;
+    if (crossFilters && crossFilters.length > 0) {
+      if (workspace) {
+        columnsOf = columnLookup(workspace.tables.getAllSchemas());
+      } else if (dbConfig) {
+        const config = dbConfig;
+        try {
+          const schema = await apiCache.getOrCompute(
+            apiCache.generateKey("schema", { connection: connectionKey }),
+            async () => {
+              const tables = await introspectSchema(config);
+              return { tables, prompt: schemaToPrompt(tables) };
+            },
+            10 * 60 * 1000, // 10 minutes
+          );
+          columnsOf = columnLookup(schema.tables);
+        } catch (error) {
+          // Without the schema no query gets the cross filters; the queries still run
+          console.error("Failed to introspect schema for cross filters:", error);
+        }
+      }
+    }
+    const crossParams = crossFilterParams(crossFilters ?? []);
+
     // Generate cache key for the entire batch
     const cacheKey = apiCache.generateKey("execute-queries", {
       queries,
       filterParams,
-      dbConfig: isFileSource ? undefined : dbConfig,
+      crossFilters,
+      comparison: comparison?.mode,
+      // Never the config itself, which holds the password
+      connection: connectionKey,
       dataSourceType,
+      // Datasets are per session, so two sessions never share cached results
+      sessionId: datasetIds && datasetIds.length > 0 ? sessionId : undefined,
+      datasetIds,
       fileTableName: isFileSource && fileData ? fileData.tableName : undefined,
+      fileTableNames: isFileSource && filesData ? filesData.map((f) => f.tableName) : undefined,
     });
 
     // Try to get cached result
@@ -99,12 +227,59 @@ export async function POST(req: Request) {
         const results: Record<string, unknown[]> = {};
         const executedQueries: Record<string, string> = {};
         const errors: QueryResult[] = [];
+        const truncation: Record<string, TruncationInfo> = {};
+        const comparisonResults: Record<string, unknown[]> = {};
+
+        const storeResult = (key: string, result: LimitedQueryResult<unknown>) => {
+          results[key] = result.rows;
+          if (result.truncated) {
+            truncation[key] = {
+              truncated: true,
+              rowCount: result.rowCount,
+              totalRowsEstimate: result.totalRowsEstimate,
+            };
+          }
+        };
+
+        const execute = (sql: string, params: unknown[]) =>
+          workspace
+            ? executeInMemoryQuery(workspace, sql, params)
+            : executeLimitedQuery(sql, params, dbConfig, { signal: req.signal });
+
+        // Run a date-filtered query again over the comparison period. A
+        // failure only loses the comparison, so it is logged, not reported.
+        const executeComparison = async (
+          key: string,
+          sql: string,
+          filterMeta: FilterMeta[],
+          crossMeta: FilterMeta[],
+          comparisonFilterParams: Record<string, string>,
+        ) => {
+          const compared = buildFilteredQuery(
+            sql,
+            [...filterMeta, ...crossMeta],
+            { ...comparisonFilterParams, ...crossParams },
+            { dialect },
+          );
+          const validation = validateQuery(compared.sql, dialect);
+          if (!validation.valid) {
+            console.warn(`Query ${key} - comparison query rejected: ${validation.error}`);
+            return;
+          }
+          try {
+            comparisonResults[key] = (await execute(compared.sql, compared.params)).rows;
+          } catch (err) {
+            console.warn(`Query ${key} - comparison query failed:`, err instanceof Error ? err.message : err);
+          }
+        };
 
         // Execute all queries in parallel
         await Promise.all(
           queries.map(async ({ key, sql, filterMeta }) => {
             let processedSql: string;
             let params: unknown[] = [];
+            // The filters applied to the query, given or inferred
+            let appliedMeta: FilterMeta[] | undefined;
 
             // ================================================================
             // NEW SYSTEM: Use filter metadata for parameterized queries
@@ -126,9 +301,11 @@ export async function POST(req: Request) {
                 sql,
                 filterMeta,
                 filterParams,
+                { dialect },
               );
               processedSql = filtered.sql;
               params = filtered.params;
+              appliedMeta = filterMeta;
 
               // Store the processed SQL for display (without actual param values for security)
               executedQueries[key] = processedSql;
@@ -140,9 +317,9 @@ export async function POST(req: Request) {
               // Check if the SQL has any {{placeholders}}
               const hasPlaceholders = /\{\{[^}]+\}\}/.test(sql);
 
-              // Skip auto-filtering for lookup queries (distinct-* keys)
+              // Skip auto-filtering for lookup queries (distinct-* and bounds-* keys)
               // These queries fetch filter options and shouldn't be filtered themselves
-              const isLookupQuery = key.startsWith("distinct-");
+              const isLookupQuery = isLookupQueryKey(key);
 
               if (isLookupQuery) {
                 // Lookup queries should always execute as-is without filtering
@@ -150,12 +327,15 @@ export async function POST(req: Request) {
                 executedQueries[key] = processedSql;
               } else if (!hasPlaceholders) {
                 // No placeholders and no filterMeta - try auto-inference
-                const autoResult = buildAutoFilteredQuery(sql, filterParams);
+                const inferred = inferFilterMeta(filterParams, sql);
+                const autoResult =
+                  inferred.length > 0 ? buildFilteredQuery(sql, inferred, filterParams, { dialect }) : null;
 
                 if (autoResult && autoResult.params.length > 0) {
                   // Auto-inference found applicable filters
                   processedSql = autoResult.sql;
                   params = autoResult.params;
+                  appliedMeta = inferred;
                   executedQueries[key] = processedSql;
                 } else {
                   // No filters could be inferred, execute as-is
@@ -195,8 +375,23 @@ export async function POST(req: Request) {
               executedQueries[key] = processedSql;
             }
 
+            // Cross filters go on top of the query's own filters (not on
+            // the lookups that fill filter dropdowns)
+            const crossMeta = isLookupQueryKey(key)
+              ? []
+              : crossFilterMeta(key, sql, crossFilters ?? [], columnsOf, dialect);
+            if (crossMeta.length > 0) {
+              const crossed = buildFilteredQuery(processedSql, crossMeta, crossParams, {
+                params,
+                dialect,
+              });
+              processedSql = crossed.sql;
+              params = crossed.params;
+              executedQueries[key] = processedSql;
+            }
+
             // Validate query
-            const validation = validateQuery(processedSql);
+            const validation = validateQuery(processedSql, dialect);
             if (!validation.valid) {
               errors.push({
                 key,
@@ -208,32 +403,23 @@ export async function POST(req: Request) {
 
             // Execute query based on data source type
             try {
-              let rows: unknown[];
-
-              if (isFileSource) {
-                // Execute against in-memory database
-                // Note: In-memory DB doesn't support parameterized queries,
-                // so we need to inline parameters for now
-                let inMemorySql = processedSql;
-                if (params.length > 0) {
-                  // Simple parameter substitution for in-memory queries
-                  let paramIndex = 0;
-                  inMemorySql = processedSql.replace(/\$\d+/g, () => {
-                    const value = params[paramIndex++];
-                    if (value === null || value === undefined) return "NULL";
-                    if (typeof value === "string") return `'${value.replace(/'/g, "''")}'`;
-                    if (typeof value === "number") return String(value);
-                    if (value instanceof Date) return `'${value.toISOString()}'`;
-                    return String(value);
-                  });
-                }
-                rows = executeInMemoryQuery(inMemorySql);
+              let result: LimitedQueryResult<unknown>;
+
+              if (workspace) {
+                // Execute against the uploaded tables (SQLite, parameters bound)
+                result = await executeInMemoryQuery(workspace, processedSql, params);
               } else {
                 // Execute against PostgreSQL/MySQL/SQLite database
-                rows = await executeQuery(processedSql, params, dbConfig);
+                result = await executeLimitedQuery(processedSql, params, dbConfig, {
+                  signal: req.signal,
+                });
               }
 
-              results[key] = rows;
+              storeResult(key, result);
+
+              if (comparison && appliedMeta && filterParams && isComparedQuery(appliedMeta, filterParams, comparison)) {
+                await executeComparison(key, sql, appliedMeta, crossMeta, comparison.params);
+              }
             } catch (err) {
               const errorMessage = err instanceof Error ? err.message : "Query execution failed";
 
@@ -251,16 +437,18 @@ export async function POST(req: Request) {
                 );
 
                 try {
-                  let rows: unknown[];
+                  let result: LimitedQueryResult<unknown>;
                   const fallbackSql = sql;
 
-                  if (isFileSource) {
-                    rows = executeInMemoryQuery(fallbackSql);
+                  if (workspace) {
+                    result = await executeInMemoryQuery(workspace, fallbackSql);
                   } else {
-                    rows = await executeQuery(fallbackSql, [], dbConfig);
+                    result = await executeLimitedQuery(fallbackSql, [], dbConfig, {
+                      signal: req.signal,
+                    });
                   }
 
-                  results[key] = rows;
+                  storeResult(key, result);
                   executedQueries[key] = fallbackSql + " /* filters skipped: column not found */";
                 } catch (fallbackErr) {
                   errors.push({
@@ -280,10 +468,23 @@ export async function POST(req: Request) {
           }),
         );
 
+        // Don't cache results of a batch the client abandoned
+        if (req.signal.aborted) {
+          throw new Error("Request cancelled");
+        }
+
         return {
           results,
           executedQueries,
           errors: errors.length > 0 ? errors : undefined,
+          truncation: Object.keys(truncation).length > 0 ? truncation : undefined,
+          // Comparison mode: the comparison period's results and date ranges
+          ...(comparison && {
+            comparisonResults,
+            comparison: { mode: comparison.mode, ranges: comparison.ranges },
+          }),
+          // File sources: whether the results cover the complete files
+          dataScope,
         };
       },
       60 * 1000, // 1 minute TTL
@@ -291,10 +492,16 @@ export async function POST(req: Request) {
 
     return Response.json(cachedResult);
   } catch (error) {
+    if (req.signal.aborted) {
+      // Client cancelled (filters changed or navigated away)
+      return Response.json({ error: "Request cancelled" }, { status: 499 });
+    }
     console.error("Execute queries error:", error);
     return Response.json(
       { error: error instanceof Error ? error.message : "Execution failed" },
       { status: 500 },
     );
+  } finally {
+    releaseWorkspace();
   }
 }
@@ -0,0 +1,163 @@
+import { executeLimitedQuery, type DBConfig, type DatabaseType } from "@/lib/db";
+import { validateQuery } from "@/lib/query-validator";
+import type { FilterMeta } from "@/lib/filter-metadata";
+import {
+  buildOptionsPageQuery,
+  buildSelectedCheckQuery,
+  optionsColumn,
+  optionsPageSize,
+  optionValues,
+  type BuiltQuery,
+  type OptionsQueryInput,
+} from "@/lib/filter-options";
+import { resolveRelativeDateParams } from "@/lib/relative-dates";
+import { apiCache } from "@/lib/api-cache";
+import { resolveDatabaseConnection } from "@/lib/credential-vault";
+import { queryFileWorkspace, resolveFileWorkspace } from "@/lib/dataset-store";
+import { getSessionId } from "@/lib/session";
+
+export const maxDuration = 30;
+
+/**
+ * One page of a dropdown filter's options, from its lookup query with the
+ * parent filters applied (lib/filter-options.ts). With `selected`, also
+ * answers which of those values the parent filters still allow.
+ */
+export async function POST(req: Request) {
+  let releaseWorkspace = () => {};
+  try {
+    const {
+      query,
+      column: filterColumn,
+      filterParams,
+      search,
+      offset,
+      limit,
+      selected,
+      connectionId,
+      dbConfig: inlineDbConfig,
+      dataSourceType,
+      datasetIds,
+      fileData,
+      filesData,
+    } = (await req.json()) as {
+      // The lookup query named by the filter's optionsQueryKey
+      query?: { sql?: string; filterMeta?: FilterMeta[] };
+      // The filter's column
+      column?: string;
+      // Values of the filter's parent filters
+      filterParams?: Record<string, string>;
+      search?: string;
+      offset?: number;
+      limit?: number;
+      selected?: string[];
+      connectionId?: string;
+      dbConfig?: DBConfig;
+      dataSourceType?: "database" | "file";
+      datasetIds?: string[];
+      fileData?: { tableName: string; data: Record<string, unknown>[] };
+      filesData?: { tableName: string; data: Record<string, unknown>[] }[];
+    };
+
+    if (!query?.sql || typeof query.sql !== "string") {
+      return Response.json({ error: "query.sql is required" }, { status: 400 });
+    }
+    const column = filterColumn ? optionsColumn(filterColumn) : null;
+    if (!column) {
+      return Response.json({ error: "column must be a plain column name" }, { status: 400 });
+    }
+
+    const isFileSource = dataSourceType === "file";
+    let dbConfig: DBConfig | undefined;
+    let connectionKey: string | undefined;
+    if (!isFileSource) {
+      const connection = resolveDatabaseConnection(req, { connectionId, dbConfig: inlineDbConfig });
+      if (!connection.success) {
+        return Response.json({ error: connection.error }, { status: connection.status });
+      }
+      dbConfig = connection.config;
+      connectionKey = connection.cacheKey;
+    }
+
+    const sessionId = isFileSource ? getSessionId(req) : null;
+    let run: (built: BuiltQuery) => Promise<Record<string, unknown>[]>;
+    if (isFileSource) {
+      const resolved = resolveFileWorkspace(
+        sessionId,
+        datasetIds,
+        filesData && filesData.length > 0 ? filesData : fileData ? [fileData] : [],
+      );
+      if (!resolved.success) {
+        return Response.json(
+          { error: resolved.error, missingDatasetIds: resolved.missingDatasetIds },
+          { status: 410 },
+        );
+      }
+      const workspace = resolved.workspace;
+      releaseWorkspace = resolved.release;
+      run = async ({ sql, params }) => (await queryFileWorkspace(workspace, sql, params)).rows;
+    } else {
+      run = async ({ sql, params }) =>
+        (await executeLimitedQuery<Record<string, unknown>>(sql, params, dbConfig, { signal: req.signal })).rows;
+    }
+
+    const dialect: DatabaseType | undefined = isFileSource ? "sqlite" : dbConfig?.type;
+    const input: OptionsQueryInput = {
+      sql: query.sql,
+      filterMeta: query.filterMeta,
+      parentParams: filterParams && resolveRelativeDateParams(filterParams),
+      column,
+      search: typeof search === "string" ? search : undefined,
+      offset,
+      limit,
+      dialect,
+    };
+    const pageSize = optionsPageSize(limit);
+    const page = buildOptionsPageQuery(input);
+    const selectedValues = Array.isArray(selected) ? selected.filter((value) => typeof value === "string") : [];
+    const check = selectedValues.length > 0 ? buildSelectedCheckQuery(input, selectedValues) : null;
+
+    for (const built of check ? [page, check] : [page]) {
+      const validation = validateQuery(built.sql, dialect);
+      if (!validation.valid) {
+        return Response.json({ error: validation.error }, { status: 400 });
+      }
+    }
+
+    const cacheKey = apiCache.generateKey("filter-options", {
+      page,
+      check,
+      connection: connectionKey,
+      dataSourceType,
+      sessionId: datasetIds && datasetIds.length > 0 ? sessionId : undefined,
+      datasetIds,
+      fileTableNames: isFileSource ? (filesData ?? (fileData ? [fileData] : [])).map((f) => f.tableName) : undefined,
+    });
+    const result = await apiCache.getOrCompute(
+      cacheKey,
+      async () => {
+        const values = optionValues(await run(page));
+        const allowed = check ? optionValues(await run(check)) : undefined;
+        return {
+          options: values.slice(0, pageSize),
+          hasMore: values.length > pageSize,
+          ...(allowed && { selected: selectedValues.filter((value) => allowed.includes(value)) }),
+        };
+      },
+      60 * 1000, // 1 minute, like query results
+    );
+
+    return Response.json(result);
+  } catch (error) {
+    if (req.signal.aborted) {
+      return Response.json({ error: "Request cancelled" }, { status: 499 });
+    }
+    console.error("Filter options error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to load filter options" },
+      { status: 500 },
+    );
+  } finally {
+    releaseWorkspace();
+  }
+}
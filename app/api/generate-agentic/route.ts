@@ -1,19 +1,53 @@
-import { streamText, stepCountIs } from "ai";
-import { createGoogleGenerativeAI } from "@ai-sdk/google";
-import { componentList } from "@/lib/catalog";
+import { generateText, Output, streamText, stepCountIs } from "ai";
+import { CHART_COMPONENT_TYPES, componentList } from "@/lib/catalog";
 import { createSQLTools } from "@/lib/sql-agent";
 import { createInMemorySQLTools, inMemorySchemaToPrompt } from "@/lib/in-memory-sql-agent";
-import { getInMemoryDb } from "@/lib/in-memory-db";
+import { resolveFileWorkspace } from "@/lib/dataset-store";
+import { getOrCreateSessionId, getSessionId, sessionCookie } from "@/lib/session";
 import { introspectSchema, schemaToPrompt } from "@/lib/schema-introspector";
-import { getCustomModelProvider, type CustomModelSettings } from "@/lib/ai-providers";
+import type { CustomModelSettings } from "@/lib/ai-providers";
+import { lastStepFailedSql, resolveSqlRepairModel, runWithModel, streamWithModel } from "@/lib/model-router";
+import { needsSchemaRetrieval, SchemaIndex, schemaPromptFor } from "@/lib/schema-search";
+import { databaseKey, getKnowledgeStore, learnFromRetries, type DashboardExample } from "@/lib/knowledge-store";
+import {
+  examplesToPrompt,
+  exampleFromRun,
+  findSimilarExamples,
+  recordSuccessfulQueries,
+  type ExampleQuery,
+} from "@/lib/dashboard-examples";
+import {
+  buildPlanningPrompt,
+  dashboardPlanSchema,
+  parseDashboardPlan,
+  planComponents,
+  planToPrompt,
+} from "@/lib/dashboard-plan";
+import { resolveTokenBudget, TokenBudget, UsageMeter } from "@/lib/usage";
 import { DBConfig } from "@/lib/db";
 import { apiCache } from "@/lib/api-cache";
+import { resolveRelativeDateParams } from "@/lib/relative-dates";
+import { resolveDatabaseConnection } from "@/lib/credential-vault";
+import {
+  buildConversationMessages,
+  buildEditInstructions,
+  parseDashboardContext,
+  type ConversationTurn,
+} from "@/lib/dashboard-edit";
+import {
+  createRenderUITool,
+  parsePatchLines,
+  trackQueryResults,
+  UIPatchValidator,
+} from "@/lib/ui-patches";
 
 export const maxDuration = 60; // 60 seconds
 
-const DEFAULT_MODEL = "anthropic/claude-haiku-4.5";
-
-function buildSystemPrompt(schemaPrompt: string, activeComponents: string[] = componentList): string {
+function buildSystemPrompt(
+  schemaPrompt: string,
+  activeComponents: string[] = componentList,
+  knowledge: string = "",
+): string {
   return `You are a dashboard generator agent that creates working dashboards.
 
 IMPORTANT: You MUST test every SQL query before outputting the UI.
@@ -34,7 +68,7 @@ COMPONENT DETAILS:
 - Histogram: { queryKey: string, valueColumn: string, bins?: number, title?: string } - Histogram for distribution analysis
 - Boxplot: { queryKey: string, valueColumn: string, categoryColumn?: string, title?: string } - Box plot for statistical distribution (min, Q1, median, Q3, max)
 - StackedChart: { type: "bar"|"area", queryKey: string, categoryColumn: string, seriesColumn: string, valueColumn: string, title?: string, normalized?: boolean } - Stacked chart for multi-series comparison
-- Filter: { filterId: string, filterType: "date-range"|"dropdown", label: string, column: string, options?: string[], multiSelect?: boolean, defaultPreset?: "last7days"|"last30days"|"last90days"|"ytd"|"custom" } - Dashboard filter
+- Filter: { filterId: string, filterType: "date-range"|"dropdown"|"range"|"search"|"toggle", label: string, column: string, options?: string[], multiSelect?: boolean, defaultPreset?: string, boundsQueryKey?: string, step?: number, optionsQueryKey?: string, parentFilterIds?: string[] } - Dashboard filter
 - Heading: { text: string, level?: "h1"|"h2"|"h3"|"h4" }
 - Text: { content: string, variant?: "body"|"caption"|"label", color?: "default"|"muted"|"success"|"warning"|"danger" }
 - Badge: { text: string, variant?: "default"|"success"|"warning"|"danger"|"info" }
@@ -46,6 +80,9 @@ FILTER GENERATION:
 When creating dashboards, analyze the schema for filter dimensions:
 - Date/timestamp columns → suggest date-range filter
 - Categorical columns with <20 distinct values (status, region, type) → suggest dropdown filter
+- Numeric measures users slice by (amount, price, quantity) → range filter
+- Free-text columns (name, email, title) → search filter
+- Boolean columns (is_active, paid) → toggle filter
 
 **CRITICAL: For dropdown filters, you MUST query for distinct values first!**
 Run a SELECT DISTINCT query and put the results in the options array:
@@ -72,7 +109,32 @@ Example with dropdown filter (COMPLETE WORKFLOW):
    })
 
 3. Output the filter UI with options from step 1:
-   SQLFilter: { filterId: "region", filterType: "dropdown", label: "Region", column: "region", options: ["Europe", "Midwest", "Northeast", "South", "West"], multiSelect: true }
+   Filter: { filterId: "region", filterType: "dropdown", label: "Region", column: "region", options: ["Europe", "Midwest", "Northeast", "South", "West"], multiSelect: true }
+
+Large or dependent dropdowns: instead of embedding options, point the filter at its lookup with
+optionsQueryKey - the options are then paged and searched on the server. Use this when a column has
+more than ~50 distinct values, or when the choices depend on another filter. For a dependent filter,
+give the lookup filterMeta for its parent filters and list them in parentFilterIds; choosing a parent
+value re-queries the options and drops selections that no longer apply:
+   execute_sql({ key: "distinct-city", sql: "SELECT DISTINCT city FROM customers ORDER BY city",
+     filterMeta: [{ id: "country", column: "country", operator: "in", type: "text" }] })
+   Filter: { filterId: "city", filterType: "dropdown", label: "City", column: "city", optionsQueryKey: "distinct-city", parentFilterIds: ["country"], multiSelect: true }
+The lookup must return the option values in a column named like the filter's column.
+
+Other filter types and the filterMeta they need (parameter ids are derived from the column):
+- date-range on column "date": ids "date_from" (gte) and "date_to" (lte), type "date".
+  defaultPreset is last7days|last30days|last90days|ytd or a relative expression resolved on the server:
+  last_N_days, last_N_complete_(weeks|months|quarters|years), previous_(week|month|quarter|year),
+  (week|month|quarter|year)_to_date, same_period_last_year
+  Users can compare against the previous period or the same period last year: every query with date
+  filterMeta is then run again over the shifted dates, so metrics show the change and line/area charts
+  the earlier series. Give every date-filtered Metric and time series query this filterMeta.
+- range on column "amount": ids "amount_min" (gte) and "amount_max" (lte), type "number".
+  Run a lookup for the slider bounds first; its key MUST start with "bounds-":
+  execute_sql({ key: "bounds-amount", sql: "SELECT MIN(amount) AS min, MAX(amount) AS max FROM orders" })
+  Filter: { filterId: "amount", filterType: "range", label: "Order amount", column: "amount", boundsQueryKey: "bounds-amount" }
+- search on column "customer_name": id "customer_name_search", operator "ilike", type "text" (the value is a %pattern%)
+- toggle on column "is_paid": id "is_paid", operator "eq", type "boolean" (applied only when switched on)
 
 Filter metadata fields:
 - id: Filter ID (for dates use "date_from"/"date_to", for dropdowns use column name like "region")
@@ -89,7 +151,7 @@ If you cannot use filterMeta, you can still use {{placeholder}} syntax:
 
 Example: SELECT SUM(amount) FROM orders WHERE date BETWEEN '{{date_from}}' AND '{{date_to}}'
 
-When outputting filters, define them FIRST before other UI elements in the JSONL output.
+When outputting filters, define them FIRST before other UI elements in your render_ui patches.
 Use a Stack with direction="horizontal" to group filters together at the top.
 
 HEATMAP VISUALIZATION:
@@ -175,7 +237,7 @@ SELECT month, product_category, SUM(revenue) as total FROM sales GROUP BY month,
 
 DATABASE SCHEMA:
 ${schemaPrompt}
-
+${knowledge && `\n${knowledge}\n`}
 DASHBOARD DESIGN PRINCIPLES:
 - Create FOCUSED dashboards with 4-6 queries maximum
 - Quality over quantity: fewer, more meaningful metrics
@@ -200,7 +262,8 @@ When designing visualizations:
 - Use titles that tell a story: "Europe Leads Revenue Growth" vs "Revenue by Region"
 
 IMPORTANT: Use the Insight component (NOT Alert or Text) for chart analysis and data insights. Example:
-{"key": "insight-1", "type": "Insight", "props": {"content": "Revenue increased 15% MoM", "type": "positive"}}
+{"key": "insight-1", "type": "Insight", "props": {"content": "Revenue increased 15% MoM", "type": "positive", "queryKeys": ["revenue-by-month"]}}
+Always set queryKeys to the queries the insight is about: the dashboard recomputes the insight from their results when filters change, so your content is only a placeholder.
 
 Insight types:
 - "positive" (green): good trends like "Revenue up 15%"
@@ -217,7 +280,8 @@ WORKFLOW - YOU MUST FOLLOW THESE STEPS:
    b. If success: true - the query works, remember the key for UI
    c. If success: false - READ THE ERROR and fix your SQL, then call execute_sql again
    d. Repeat until the query succeeds
-4. ONLY AFTER all queries succeed, output the UI patches
+4. ONLY AFTER all queries succeed, call render_ui with the UI patches
+5. If render_ui returns success: false, fix EVERY listed violation and call render_ui again with the complete corrected patches
 
 SQL QUERY RULES:
 1. Only use SELECT queries (no INSERT, UPDATE, DELETE, etc.)
@@ -231,9 +295,11 @@ UI DESIGN RULES:
 3. Chart and Table have their own title prop - don't add extra Headings for them either
 
 OUTPUT FORMAT (ONLY after all execute_sql calls succeed):
-Output JSONL where each line is a patch:
+Call render_ui once with all patches as JSONL, one patch per line:
 {"op":"set","path":"/root","value":"main-card"}
 {"op":"add","path":"/elements/main-card","value":{...}}
+render_ui checks every element: the type must be one of the available components, props must match the component details above,
+children must exist, each queryKey must be a query that succeeded, and column props must be columns of that query's results.
 
 ELEMENT STRUCTURE:
 {
@@ -247,23 +313,23 @@ EXAMPLE FLOW:
 1. User asks for "revenue dashboard"
 2. You call execute_sql(key="total-revenue", sql="SELECT SUM(amount) as total FROM orders")
 3. If it fails with "column amount does not exist", you check schema and retry with correct column
-4. Once all queries succeed, you output the UI patches
+4. Once all queries succeed, you call render_ui with the UI patches
 
-DO NOT output any UI patches until ALL your queries have been tested and succeed.
+DO NOT call render_ui until ALL your queries have been tested and succeed.
 
 REMINDER: Keep dashboards concise. 4-6 queries is ideal. More queries does NOT mean a better dashboard.`;
 }
 
 /**
- * Build a simplified system prompt for file-based data sources.
- * The in-memory SQL parser has limited capabilities, so we need to guide
- * the LLM to use only supported SQL syntax.
+ * Build the system prompt for file-based data sources.
+ * Uploaded tables are queried through SQLite (lib/file-query-engine.ts),
+ * so the prompt describes SQLite syntax rather than the server database's.
  */
 function buildFileSystemPrompt(schemaPrompt: string, activeComponents: string[] = componentList): string {
   return `You are a dashboard generator for uploaded file data.
 
 IMPORTANT: You MUST test every SQL query before outputting the UI.
-This data source uses SIMPLIFIED SQL syntax. Keep queries simple!
+Uploaded tables are queried with SQLite SQL syntax.
 
 AVAILABLE COMPONENTS:
 ${activeComponents.join(", ")}
@@ -279,50 +345,37 @@ COMPONENT DETAILS:
 - Heading: { text: string, level?: "h1"|"h2"|"h3"|"h4" }
 - Text: { content: string }
 
-SUPPORTED SQL SYNTAX:
-- SELECT column1, column2 FROM tablename
-- SELECT * FROM tablename
-- SELECT column, COUNT(*) as count FROM tablename GROUP BY column
-- SELECT column, SUM(numcol) as total FROM tablename GROUP BY column
-- SELECT column, AVG(numcol) as avg FROM tablename GROUP BY column
-- WHERE conditions: col = value, col > value, col < value, col >= value, col <= value
-- WHERE col LIKE '%pattern%'
-- WHERE col IN ('val1', 'val2')
-- Multiple WHERE conditions with AND (not OR)
-- ORDER BY column ASC or ORDER BY column DESC
-- LIMIT n
-
-NOT SUPPORTED (will cause errors - DO NOT USE):
-- JOINs of any kind (only single table queries work)
-- Subqueries (SELECT inside SELECT)
-- OR conditions in WHERE clause
-- HAVING clause
+SQL SYNTAX (SQLite):
+- Full SELECT support: WHERE with AND/OR, BETWEEN, IN, LIKE, CASE WHEN
+- GROUP BY any number of columns, HAVING
+- JOINs across uploaded tables, subqueries and CTEs (WITH ...)
 - Window functions (OVER, PARTITION BY)
-- CASE/WHEN statements
-- BETWEEN keyword (use >= AND <= instead)
-- Complex expressions or functions
+- Dates are ISO-8601 text: use date(col), strftime('%Y-%m', col) for grouping by month
+- Booleans are stored as 1/0
+- Use double quotes for column names with spaces or special characters
 
 DASHBOARD RULES FOR FILE DATA:
-- Create SIMPLE dashboards with 2-4 queries maximum
-- Use basic aggregations only (COUNT, SUM, AVG, MIN, MAX)
-- ONE table per query - no JOINs
-- Keep WHERE clauses simple
+- Prefer aggregated queries (GROUP BY) over raw rows for charts
+- Only JOIN tables that share a clear key column
 
 DATA SCHEMA:
 ${schemaPrompt}
 
-NOTE: You are working with SAMPLE DATA (up to 100 rows per table) for query testing.
-This is sufficient for validating SQL syntax and visualizing data patterns.
-Query results will reflect the sample, not the full dataset.
+NOTE: execute_sql runs on SAMPLE DATA (the first rows of each table; the row counts above are for the sample).
+This is sufficient for validating SQL syntax and checking data patterns.
+The finished dashboard re-runs your queries on the COMPLETE files, so:
+- Don't hard-code values you only saw in the sample (e.g. WHERE region = 'North')
+- Aggregate rather than listing raw rows - the full data may be much larger
 
 WORKFLOW:
 1. Review the schema above
 2. Plan 2-4 simple queries for key insights
 3. Test EACH query with execute_sql
 4. If a query fails, simplify it and retry
-5. ONLY output UI patches after ALL queries succeed
+5. ONLY call render_ui after ALL queries succeed
+6. If render_ui returns success: false, fix every violation and call it again with all patches
 
-OUTPUT FORMAT (after queries succeed):
+OUTPUT FORMAT (after queries succeed) - call render_ui with JSONL patches, one per line:
 {"op":"set","path":"/root","value":"main-card"}
 {"op":"add","path":"/elements/main-card","value":{...}}
 
@@ -334,28 +387,40 @@ ELEMENT STRUCTURE:
   "children": ["child-key-1", "child-key-2"]
 }
 
-EXAMPLE QUERIES THAT WORK:
+EXAMPLE QUERIES:
 - SELECT COUNT(*) as total FROM sales
 - SELECT category, SUM(amount) as total FROM sales GROUP BY category
 - SELECT * FROM customers WHERE revenue > 1000 ORDER BY revenue DESC LIMIT 10
-- SELECT status, COUNT(*) as count FROM orders GROUP BY status
-
-EXAMPLE QUERIES THAT FAIL:
-- SELECT * FROM sales s JOIN customers c ON s.id = c.id (NO JOINS)
-- SELECT * FROM sales WHERE status = 'A' OR status = 'B' (NO OR - use IN instead)
-- SELECT * FROM sales WHERE amount BETWEEN 100 AND 500 (NO BETWEEN)
+- SELECT strftime('%Y-%m', order_date) AS month, SUM(amount) AS revenue FROM sales GROUP BY month ORDER BY month
 
-DO NOT output any UI patches until ALL your queries have been tested and succeed.
+DO NOT call render_ui until ALL your queries have been tested and succeed.
 Keep it simple: 2-4 queries is ideal for file data.`;
 }
 
 export async function POST(req: Request) {
+  // Releases a request-scoped file workspace once the stream is done
+  let releaseWorkspace = () => {};
+  // Settles the generation's token reservation with what it used
+  let settleUsage = (_tokens: number) => {};
   try {
-    const { prompt, dbConfig, filterParams, dataSourceType, fileData, filesData, modelSettings, enabledComponents } = (await req.json()) as {
+    const { prompt, mode, plan: approvedPlan, context, conversation, connectionId, dbConfig: inlineDbConfig, filterParams, dataSourceType, datasetIds, fileData, filesData, modelSettings, enabledComponents, tokenBudget } = (await req.json()) as {
       prompt: string;
+      // "plan": return a proposed outline for the user to review instead of generating
+      mode?: "plan";
+      // The outline the user approved (from a plan request), to build as-is
+      plan?: unknown;
+      // Follow-up mode: the dashboard to edit with patches instead of regenerating
+      context?: unknown;
+      // Earlier turns of this dashboard's editing conversation
+      conversation?: ConversationTurn[];
+      // Stored connection profile (from /api/connections)
+      connectionId?: string;
+      // Inline config, for the demo database and older clients
       dbConfig?: DBConfig;
       filterParams?: Record<string, string>;
       dataSourceType?: "database" | "file";
+      // Uploaded datasets (from /api/datasets) in the caller's session
+      datasetIds?: string[];
       // Single file (backward compatible)
       fileData?: {
         tableName: string;
@@ -370,36 +435,73 @@ export async function POST(req: Request) {
       modelSettings?: CustomModelSettings;
       // Enabled components for generation (if not provided, use all)
       enabledComponents?: string[];
+      // Token budget for this generation (can only lower TOKEN_BUDGET_PER_REQUEST)
+      tokenBudget?: number;
     };
 
+    const editContext = context === undefined ? null : parseDashboardContext(context);
+    if (context !== undefined && !editContext) {
+      return Response.json(
+        { error: "context must include the dashboard's tree and queries" },
+        { status: 400 },
+      );
+    }
+
+    const plan = approvedPlan === undefined ? null : parseDashboardPlan(approvedPlan);
+    if (approvedPlan !== undefined && !plan) {
+      return Response.json(
+        { error: "plan must list at least one item with a title and component type" },
+        { status: 400 },
+      );
+    }
+    if (mode === "plan" && editContext) {
+      return Response.json({ error: "Plans are only made for new dashboards" }, { status: 400 });
+    }
+
+    const { sessionId, isNew: isNewSession } = getOrCreateSessionId(req);
+    const budget = resolveTokenBudget(tokenBudget);
+    if (!budget.success) {
+      return Response.json({ error: budget.error }, { status: 429 });
+    }
+    settleUsage = (tokens) => budget.reservation.settle(tokens);
+
     // Use filtered component list if provided, otherwise use all
-    const activeComponents = enabledComponents && enabledComponents.length > 0
+    const enabled = enabledComponents && enabledComponents.length > 0
       ? enabledComponents
       : componentList;
+    // An approved plan also fixes the chart types
+    const activeComponents = plan ? planComponents(plan, enabled) : enabled;
 
     let schemaPrompt = "No data available";
+    // Learnings, annotations and similar earlier dashboards for the database
+    let knowledge = "";
+    // Keeps a new database dashboard as a few-shot example once it's built
+    let saveExample: ((example: Omit<DashboardExample, "createdAt">) => Promise<void>) | null = null;
+    const successfulQueries = new Map<string, ExampleQuery>();
     let tools;
 
     // Handle file-based data source
     if (dataSourceType === "file") {
-      const db = getInMemoryDb();
-
-      // Load multiple files if provided (new multi-file support)
-      // Note: Client sends only sample rows (default 100) to avoid token explosion
-      if (filesData && filesData.length > 0) {
-        for (const file of filesData) {
-          if (file.tableName && file.data) {
-            db.addTable(file.tableName, file.data);
-          }
-        }
-      }
-      // Fallback to single file for backward compatibility
-      else if (fileData && fileData.tableName && fileData.data) {
-        db.addTable(fileData.tableName, fileData.data);
+      // The agent tests its queries on a sample of each stored dataset;
+      // older clients post sample rows inline instead
+      const resolved = resolveFileWorkspace(
+        getSessionId(req),
+        datasetIds,
+        filesData && filesData.length > 0 ? filesData : fileData ? [fileData] : [],
+        "sample",
+      );
+      if (!resolved.success) {
+        settleUsage(0);
+        return Response.json(
+          { error: resolved.error, missingDatasetIds: resolved.missingDatasetIds },
+          { status: 410 },
+        );
       }
+      const { workspace } = resolved;
+      releaseWorkspace = resolved.release;
 
-      // Get schema from in-memory database (includes all loaded tables)
-      const schemas = db.getAllSchemas();
+      // Get schema from the workspace (includes all loaded tables)
+      const schemas = workspace.tables.getAllSchemas();
       if (schemas.length > 0) {
         schemaPrompt = inMemorySchemaToPrompt(schemas);
         if (schemas.length > 1) {
@@ -410,11 +512,22 @@ export async function POST(req: Request) {
         schemaPrompt = "No file data loaded. Please upload a file first.";
       }
 
-      tools = createInMemorySQLTools(schemaPrompt);
+      tools = createInMemorySQLTools(schemaPrompt, workspace, resolved.scope);
     } else {
       // Handle database data source (default)
+      const connection = resolveDatabaseConnection(req, { connectionId, dbConfig: inlineDbConfig });
+      if (!connection.success) {
+        settleUsage(0);
+        return Response.json({ error: connection.error }, { status: connection.status });
+      }
+      const dbConfig = connection.config;
+      // What the team has learned about this database, shared across users
+      const knowledgeStore = getKnowledgeStore();
+      const knowledgeKey = databaseKey(dbConfig);
+      // Large schemas are searched on demand instead of sent in full
+      let schemaIndex: SchemaIndex | undefined;
       try {
-        const cacheKey = apiCache.generateKey("schema", { dbConfig });
+        const cacheKey = apiCache.generateKey("schema", { connection: connection.cacheKey });
         const schemaData = await apiCache.getOrCompute(
           cacheKey,
           async () => {
@@ -423,68 +536,240 @@ export async function POST(req: Request) {
           },
           10 * 60 * 1000, // 10 minutes
         );
-        if (schemaData.tables.length > 0) {
+        if (needsSchemaRetrieval(schemaData.tables)) {
+          const { annotations } = await knowledgeStore.list(knowledgeKey);
+          schemaIndex = new SchemaIndex(schemaData.tables, {
+            tables: annotations.filter((annotation) => annotation.kind === "table"),
+            columns: annotations.filter((annotation) => annotation.kind === "column"),
+          });
+          schemaPrompt = schemaPromptFor(schemaData.tables, schemaIndex);
+        } else if (schemaData.tables.length > 0) {
           schemaPrompt = schemaData.prompt;
         }
       } catch (error) {
         console.error("Failed to introspect schema:", error);
       }
 
-      tools = createSQLTools(dbConfig, schemaPrompt, filterParams);
-    }
+      // Annotations reach the agent through describe_table when the schema is searched
+      knowledge = await knowledgeStore
+        .promptSection(knowledgeKey, { annotations: !schemaIndex })
+        .catch((error) => {
+          console.error("Failed to load SQL learnings:", error);
+          return "";
+        });
+
+      if (!editContext) {
+        // Verified SQL from similar earlier requests, as few-shot examples
+        const examples = await knowledgeStore
+          .listExamples(knowledgeKey)
+          .then((stored) => findSimilarExamples(stored, prompt))
+          .catch((error) => {
+            console.error("Failed to load dashboard examples:", error);
+            return [];
+          });
+        if (examples.length > 0) {
+          knowledge = [knowledge, examplesToPrompt(examples)].filter(Boolean).join("\n\n");
+        }
+        saveExample = (example) => knowledgeStore.saveExample(knowledgeKey, example);
+      }
 
-    const systemPrompt = dataSourceType === "file"
-      ? buildFileSystemPrompt(schemaPrompt, activeComponents)
-      : buildSystemPrompt(schemaPrompt, activeComponents);
+      // A query that failed and then worked on retry becomes a learning
+      tools = recordSuccessfulQueries(
+        learnFromRetries(
+          createSQLTools(
+            dbConfig,
+            schemaPrompt,
+            filterParams && resolveRelativeDateParams(filterParams),
+            schemaIndex,
+          ),
+          (learning) => knowledgeStore.addLearning(knowledgeKey, learning, "auto"),
+        ),
+        successfulQueries,
+      );
+    }
 
-    // Use custom model settings if provided (for Ollama, etc.), otherwise use environment defaults
-    let model;
-    if (modelSettings && modelSettings.model) {
-      model = getCustomModelProvider(modelSettings);
-    } else {
-      // Use Gemini directly - getModelProvider has issues in Vercel serverless context
-      const geminiKey = process.env.GEMINI_API_KEY;
-      const openRouterKey = process.env.OPENROUTER_API_KEY;
-
-      if (geminiKey && geminiKey.startsWith("AIza")) {
-        const provider = createGoogleGenerativeAI({ apiKey: geminiKey });
-        model = provider("gemini-2.5-flash");
-      } else if (openRouterKey && openRouterKey.startsWith("sk-or-")) {
-        const { createOpenRouter } = await import("@openrouter/ai-sdk-provider");
-        const provider = createOpenRouter({ apiKey: openRouterKey });
-        model = provider(process.env.AI_GATEWAY_MODEL || DEFAULT_MODEL);
-      } else {
-        // Fallback to AI Gateway (requires Vercel billing)
-        model = process.env.AI_GATEWAY_MODEL || DEFAULT_MODEL;
+    if (mode === "plan") {
+      // Propose an outline without running SQL; generation waits for approval
+      const chartTypes = activeComponents.filter((component) =>
+        (CHART_COMPONENT_TYPES as readonly string[]).includes(component),
+      );
+      const { result, servedBy } = await runWithModel(
+        "dashboard",
+        (candidate) =>
+          generateText({
+            model: candidate.model,
+            system: buildPlanningPrompt(schemaPrompt, chartTypes, knowledge),
+            prompt,
+            output: Output.object({ schema: dashboardPlanSchema }),
+            maxRetries: 0,
+            abortSignal: req.signal,
+            experimental_telemetry: {
+              isEnabled: true,
+              functionId: "plan-dashboard",
+              metadata: { dataSourceType: dataSourceType || "database", model: candidate.label },
+            },
+          }),
+        { settings: modelSettings, signal: req.signal },
+      );
+      releaseWorkspace();
+
+      const meter = new UsageMeter(budget.limit);
+      meter.setModel(servedBy.provider, servedBy.modelId);
+      meter.addStep(result.totalUsage);
+      settleUsage(meter.totalTokens);
+
+      // The schema allows every chart type; drop items using ones the user turned off
+      const proposed = {
+        ...result.output,
+        items: result.output.items.filter((item) => chartTypes.includes(item.component)),
+      };
+      const headers = new Headers();
+      if (isNewSession) {
+        headers.set("Set-Cookie", sessionCookie(sessionId));
       }
+      return Response.json({ plan: proposed, usage: meter.summary() }, { headers });
     }
 
-    const result = streamText({
-      model: model,
-      system: systemPrompt,
-      prompt: prompt,
-      tools,
-      stopWhen: stepCountIs(20), // Allow up to 15 steps for tool calls and retries (keeps dashboards focused)
-      // Note: temperature removed as it's not supported by reasoning models like GPT-5
-      experimental_telemetry: {
-        isEnabled: true,
-        functionId: "generate-dashboard",
-        metadata: {
-          dataSourceType: dataSourceType || "database",
-        },
-      },
+    let systemPrompt = dataSourceType === "file"
+      ? buildFileSystemPrompt(schemaPrompt, activeComponents)
+      : buildSystemPrompt(schemaPrompt, activeComponents, knowledge);
+    if (editContext) {
+      systemPrompt += `\n\n${buildEditInstructions(editContext)}`;
+    }
+    if (plan) {
+      systemPrompt += `\n\n${planToPrompt(plan)}`;
+    }
+
+    // UI output goes through render_ui, which checks it against the catalog
+    // and the queries that succeeded before anything reaches the client
+    const uiValidator = new UIPatchValidator({
+      tree: editContext?.tree,
+      queryKeys: editContext?.queries.map((query) => query.key),
+      components: activeComponents,
+    });
+    const agentTools = {
+      ...trackQueryResults(tools, uiValidator),
+      ...createRenderUITool(uiValidator),
+    };
+
+    // Once the token budget is spent the agent gets one last step to render
+    // what it has (unless it already did), then stops
+    const meter = new UsageMeter(budget.limit);
+    const stepBudget = new TokenBudget(budget.limit, {
+      finalTool: "render_ui",
+      isDone: () => uiValidator.accepted > 0,
+      finalSystem: `${systemPrompt}
+
+TOKEN BUDGET REACHED: Do not run any more queries. Call render_ui now with a dashboard built only from the queries that already succeeded.`,
     });
 
+    // A step that fixes a failed query can run on a separate model
+    // (MODEL_SQL_REPAIR); the budget's final step keeps the dashboard model
+    const repairModel = resolveSqlRepairModel(modelSettings);
+
+    // Custom model settings (Ollama, etc.) are used as-is; otherwise the
+    // router picks the dashboard models and falls back between providers
+    const parts = streamWithModel(
+      "dashboard",
+      (candidate) =>
+        streamText({
+          model: candidate.model,
+          system: systemPrompt,
+          prompt: editContext
+            ? buildConversationMessages(Array.isArray(conversation) ? conversation : [], prompt)
+            : prompt,
+          tools: agentTools,
+          stopWhen: [stepCountIs(20), stepBudget.stopWhen], // Allow up to 20 steps for tool calls and retries (keeps dashboards focused)
+          prepareStep: (step) => {
+            const prepared = stepBudget.prepareStep(step);
+            if (prepared.toolChoice || !repairModel || !lastStepFailedSql(step.steps)) return prepared;
+            return { ...prepared, model: repairModel.model };
+          },
+          // Stop the agent (and cancel in-flight SQL) when the client disconnects
+          abortSignal: req.signal,
+          // Note: temperature removed as it's not supported by reasoning models like GPT-5
+          experimental_telemetry: {
+            isEnabled: true,
+            functionId: editContext ? "edit-dashboard" : "generate-dashboard",
+            metadata: {
+              dataSourceType: dataSourceType || "database",
+              model: candidate.label,
+            },
+          },
+        }),
+      { settings: modelSettings, signal: req.signal },
+    );
+
     // Create a custom stream that includes all events
     const encoder = new TextEncoder();
+    const send = (event: object) =>
+      encoder.encode(JSON.stringify(event) + "\n");
     const stream = new ReadableStream({
       async start(controller) {
         try {
+          let modelText = "";
           // Use fullStream to get all events including tool calls and results
-          for await (const part of result.fullStream) {
+          for await (const part of parts) {
+            if (part.type === "model-served") {
+              meter.setModel(part.provider, part.modelId);
+            } else if (part.type === "tool-call") {
+              meter.addToolCall();
+            } else if (part.type === "finish-step") {
+              meter.addStep(part.usage);
+            }
+            if (part.type === "text-delta") {
+              // The model's own text is held back: UI patches only reach the
+              // client once render_ui has accepted them
+              modelText += part.text;
+              continue;
+            }
             // Serialize the event as JSON line
-            controller.enqueue(encoder.encode(JSON.stringify(part) + "\n"));
+            controller.enqueue(send(part));
+
+            if (
+              part.type === "tool-result" &&
+              part.toolName === "render_ui" &&
+              (part.output as { success?: boolean }).success
+            ) {
+              const { patches } = part.input as { patches: string };
+              controller.enqueue(send({ type: "text-delta", id: part.toolCallId, text: `${patches}\n` }));
+            }
           }
+
+          if (uiValidator.accepted === 0) {
+            // Models that wrote the patches as text instead of calling
+            // render_ui get the same checks, without the chance to repair
+            const patchLines = modelText
+              .split("\n")
+              .filter((line) => line.trim().startsWith("{"))
+              .join("\n");
+            const { patches } = parsePatchLines(patchLines);
+            if (patches.length > 0 && uiValidator.submit(patches).success) {
+              controller.enqueue(send({ type: "text-delta", id: "text-patches", text: `${patchLines}\n` }));
+            }
+            if (uiValidator.accepted === 0 && uiValidator.lastViolations.length > 0) {
+              controller.enqueue(
+                send({
+                  type: "error",
+                  error: {
+                    name: "UIValidationError",
+                    message: `The dashboard UI failed validation: ${uiValidator.lastViolations.slice(0, 3).join("; ")}`,
+                  },
+                }),
+              );
+            }
+          }
+          if (saveExample && uiValidator.accepted > 0 && !req.signal.aborted) {
+            const example = exampleFromRun(prompt, uiValidator.renderedTree, successfulQueries);
+            if (example) {
+              await saveExample(example).catch((error) => {
+                console.error("Failed to save dashboard example:", error);
+              });
+            }
+          }
+          controller.enqueue(
+            send({ type: "usage", usage: meter.summary(stepBudget.exceeded ? budget.kind : undefined) }),
+          );
           controller.close();
 
           // Flush Langfuse traces after stream completes
@@ -502,18 +787,25 @@ export async function POST(req: Request) {
         } catch (error) {
           console.error("Stream error:", error);
           controller.error(error);
+        } finally {
+          releaseWorkspace();
+          settleUsage(meter.totalTokens);
         }
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
+    const headers = new Headers({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
     });
+    if (isNewSession) {
+      headers.set("Set-Cookie", sessionCookie(sessionId));
+    }
+    return new Response(stream, { headers });
   } catch (error) {
+    releaseWorkspace();
+    settleUsage(0);
     console.error("Agentic generation error:", error);
     return Response.json(
       { error: error instanceof Error ? error.message : "Generation failed" },
@@ -5,13 +5,17 @@ import {
   fetchSampleData,
   TableInfo,
 } from "@/lib/schema-introspector";
-import { getModelProvider } from "@/lib/ai-providers";
+import type { CustomModelSettings } from "@/lib/ai-providers";
+import { runWithModel } from "@/lib/model-router";
 import { DBConfig } from "@/lib/db";
 import { apiCache } from "@/lib/api-cache";
+import { resolveDatabaseConnection } from "@/lib/credential-vault";
+import { resolveTokenBudget, settleAfter } from "@/lib/usage";
 
 export const maxDuration = 30;
 
-const DEFAULT_MODEL = "anthropic/claude-haiku-4.5";
+/** Tokens a suggestion call reserves of the daily budget */
+const QUESTIONS_ESTIMATE = 10_000;
 
 /**
  * File schema for generating questions from uploaded files
@@ -28,8 +32,13 @@ export interface FileSchemaInput {
  * Request body for generate-questions API
  */
 interface GenerateQuestionsRequest {
+  /** Stored connection profile (from /api/connections) */
+  connectionId?: string;
+  /** Inline config, for the demo database and older clients */
   dbConfig?: DBConfig;
   fileSchema?: FileSchemaInput;
+  /** Custom model settings (Ollama, replay fixtures, etc.) */
+  modelSettings?: CustomModelSettings;
 }
 
 function buildPrompt(
@@ -94,19 +103,27 @@ function fileSchemaToSampleData(
 
 export async function POST(req: Request) {
   try {
-    const { dbConfig, fileSchema } =
+    const { connectionId, dbConfig: inlineDbConfig, fileSchema, modelSettings } =
       (await req.json()) as GenerateQuestionsRequest;
 
     // Determine if this is a file or database request
     const isFileSource = !!fileSchema;
 
+    const connection = resolveDatabaseConnection(req, { connectionId, dbConfig: inlineDbConfig });
+    if (!isFileSource && !connection.success) {
+      return Response.json({ error: connection.error }, { status: connection.status });
+    }
+    const dbConfig = connection.success ? connection.config : undefined;
+
     // Generate cache key based on source type
     const cacheKey = isFileSource
       ? apiCache.generateKey("generate-questions-file", {
           tableName: fileSchema.tableName,
           columns: fileSchema.columns.map((c) => `${c.name}:${c.type}`).join(","),
         })
-      : apiCache.generateKey("generate-questions", { dbConfig });
+      : apiCache.generateKey("generate-questions", {
+          connection: connection.success ? connection.cacheKey : undefined,
+        });
 
     // Check cache first (questions don't change often for same schema)
     const cachedQuestions = apiCache.get<{ questions: string[] }>(cacheKey);
@@ -134,32 +151,35 @@ export async function POST(req: Request) {
     const schemaPrompt = schemaToPrompt(tables);
     const prompt = buildPrompt(schemaPrompt, sampleData, isFileSource);
 
-    const modelId = process.env.AI_GATEWAY_MODEL || DEFAULT_MODEL;
-    const model = getModelProvider(modelId);
-
-    let llmResult;
-    // if model is gpt-5, remove temperature setting
-    if (modelId.includes("gpt-5")) {
-      llmResult = await generateText({
-        model: model,
-        prompt,
-        experimental_telemetry: {
-          isEnabled: true,
-          functionId: "generate-questions",
-        },
-      });
-    } else {
-      llmResult = await generateText({
-        model: model,
-        prompt,
-        temperature: 0.0,
-        experimental_telemetry: {
-          isEnabled: true,
-          functionId: "generate-questions",
-        },
-      });
+    // Suggestions count against the daily token budget too
+    const budget = resolveTokenBudget(undefined, { estimate: QUESTIONS_ESTIMATE });
+    if (!budget.success) {
+      return Response.json({ error: budget.error, questions: [] }, { status: 429 });
     }
 
+    const { result: llmResult, servedBy } = await settleAfter(
+      budget.reservation,
+      () =>
+        runWithModel(
+          "questions",
+          (candidate) =>
+            generateText({
+              model: candidate.model,
+              prompt,
+              // gpt-5 models don't support a temperature setting
+              ...(candidate.modelId.includes("gpt-5") ? {} : { temperature: 0.0 }),
+              maxRetries: 0,
+              experimental_telemetry: {
+                isEnabled: true,
+                functionId: "generate-questions",
+                metadata: { model: candidate.label },
+              },
+            }),
+          { settings: modelSettings },
+        ),
+      ({ result }) => result.totalUsage,
+    );
+
     // Flush Langfuse traces
     const processor = (globalThis as Record<string, unknown>)
       .langfuseSpanProcessor;
@@ -193,7 +213,7 @@ export async function POST(req: Request) {
     // Cache for 15 minutes (questions don't change often)
     apiCache.set(cacheKey, result, 15 * 60 * 1000);
 
-    return Response.json(result);
+    return Response.json(result, { headers: { "X-Model": servedBy.label } });
   } catch (error) {
     console.error("Failed to generate questions:", error);
     return Response.json(
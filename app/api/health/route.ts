@@ -1,6 +1,18 @@
-export async function GET() {
+import { getPoolMetrics, checkPoolHealth } from "@/lib/db-adapters";
+
+/**
+ * Health check with database pool metrics.
+ * Pass ?deep=true to also test every open pool.
+ */
+export async function GET(req: Request) {
+  const deep = new URL(req.url).searchParams.get("deep") === "true";
+  const health = deep ? await checkPoolHealth() : undefined;
+  const degraded = health?.some((pool) => !pool.healthy) ?? false;
+
   return Response.json({
-    status: 'healthy',
+    status: degraded ? 'degraded' : 'healthy',
     timestamp: new Date().toISOString(),
+    pools: getPoolMetrics(),
+    ...(health ? { health } : {}),
   });
 }
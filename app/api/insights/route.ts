@@ -0,0 +1,102 @@
+import { generateText, Output } from "ai";
+import { z } from "zod";
+import type { CustomModelSettings } from "@/lib/ai-providers";
+import { apiCache } from "@/lib/api-cache";
+import {
+  buildInsightPrompt,
+  factsToText,
+  insightTypeFor,
+  insightTypes,
+  resultFactsSchema,
+  type InsightType,
+} from "@/lib/insights";
+import { runWithModel } from "@/lib/model-router";
+import { resolveTokenBudget, settleAfter } from "@/lib/usage";
+
+export const maxDuration = 30;
+
+/** Bound insights per dashboard are few; this caps what one request can ask for */
+const MAX_RESULTS = 10;
+
+/** Tokens a phrasing call reserves of the daily budget */
+const INSIGHT_ESTIMATE = 5_000;
+
+const requestSchema = z.object({
+  facts: z.array(resultFactsSchema).min(1).max(MAX_RESULTS),
+  hint: z.string().max(500).optional(),
+});
+
+/**
+ * Phrase statistics computed from an Insight's query results
+ * (lib/insights.ts). Answers with the plain-text phrasing when no model is
+ * available, so an insight never shows numbers from before a filter change.
+ */
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  const parsed = requestSchema.safeParse(body);
+  if (!parsed.success) {
+    return Response.json({ error: "facts must list the statistics of 1-10 query results" }, { status: 400 });
+  }
+  const { facts, hint } = parsed.data;
+  const modelSettings = (body as { modelSettings?: CustomModelSettings }).modelSettings;
+
+  const fallback = { content: factsToText(facts), type: insightTypeFor(facts), generated: false };
+  if (!fallback.content) {
+    // Nothing numeric to describe
+    return Response.json(fallback);
+  }
+
+  const cacheKey = apiCache.generateKey("insight", {
+    facts,
+    hint,
+    model: modelSettings ? `${modelSettings.provider}:${modelSettings.model}` : undefined,
+  });
+  const cached = apiCache.get<{ content: string; type: InsightType; generated: boolean }>(cacheKey);
+  if (cached) {
+    return Response.json(cached);
+  }
+
+  // Past the daily token budget, insights keep their plain-text phrasing
+  const budget = resolveTokenBudget(undefined, { estimate: INSIGHT_ESTIMATE });
+  if (!budget.success) {
+    return Response.json(fallback);
+  }
+
+  try {
+    const { result, servedBy } = await settleAfter(
+      budget.reservation,
+      () =>
+        runWithModel(
+          "insight",
+          (candidate) =>
+            generateText({
+              model: candidate.model,
+              prompt: buildInsightPrompt(facts, hint),
+              output: Output.object({
+                schema: z.object({ content: z.string(), type: z.enum(insightTypes) }),
+              }),
+              maxRetries: 0,
+              abortSignal: req.signal,
+              experimental_telemetry: {
+                isEnabled: true,
+                functionId: "phrase-insight",
+                metadata: { model: candidate.label },
+              },
+            }),
+          { settings: modelSettings, signal: req.signal },
+        ),
+      ({ result }) => result.totalUsage,
+    );
+    const insight = { ...result.output, generated: true };
+    apiCache.set(cacheKey, insight, 15 * 60 * 1000);
+    return Response.json(insight, { headers: { "X-Model": servedBy.label } });
+  } catch (error) {
+    console.error("Failed to phrase insight:", error);
+    return Response.json(fallback);
+  }
+}
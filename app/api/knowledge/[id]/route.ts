@@ -0,0 +1,110 @@
+import type { DBConfig } from "@/lib/db";
+import { getKnowledgeEntry, resolveKnowledgeDatabase } from "@/lib/knowledge-access";
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+
+/**
+ * A learning or annotation with its revision history. Pass the database's
+ * `connectionId` as a search parameter (none means the default database).
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const connectionId = new URL(req.url).searchParams.get("connectionId") ?? undefined;
+  const key = await resolveKnowledgeDatabase(req, { connectionId });
+  if (!key.success) {
+    return Response.json({ error: key.error }, { status: key.status });
+  }
+
+  const store = getKnowledgeStore();
+  const entry = await getKnowledgeEntry(store, id, key.value);
+  if (!entry.success) {
+    return Response.json({ error: entry.error }, { status: entry.status });
+  }
+  return Response.json({ entry: entry.value, revisions: await store.history(id) });
+}
+
+/**
+ * Edit a learning or annotation of the `connectionId` / `dbConfig`
+ * database. Pass the `expectedVersion` the edit was based on to get a 409
+ * instead of overwriting someone else's change.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { connectionId, dbConfig, changes, expectedVersion } = (await req.json()) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+      changes: Record<string, unknown>;
+      expectedVersion?: number;
+    };
+
+    const key = await resolveKnowledgeDatabase(req, { connectionId, dbConfig });
+    if (!key.success) {
+      return Response.json({ error: key.error }, { status: key.status });
+    }
+
+    const store = getKnowledgeStore();
+    const entry = await getKnowledgeEntry(store, id, key.value);
+    if (!entry.success) {
+      return Response.json({ error: entry.error }, { status: entry.status });
+    }
+
+    const result = await store.update(id, changes ?? {}, expectedVersion);
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return Response.json({ entry: result.value });
+  } catch (error) {
+    console.error("Knowledge update error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to update entry" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * Delete a learning or annotation of the `connectionId` / `dbConfig`
+ * database (its history is kept).
+ */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+    const { connectionId, dbConfig } = (await req.json().catch(() => ({}))) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+    };
+    const version = new URL(req.url).searchParams.get("expectedVersion");
+
+    const key = await resolveKnowledgeDatabase(req, { connectionId, dbConfig });
+    if (!key.success) {
+      return Response.json({ error: key.error }, { status: key.status });
+    }
+
+    const store = getKnowledgeStore();
+    const entry = await getKnowledgeEntry(store, id, key.value);
+    if (!entry.success) {
+      return Response.json({ error: entry.error }, { status: entry.status });
+    }
+
+    const result = await store.remove(id, version ? Number(version) : undefined);
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error("Knowledge delete error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to delete entry" },
+      { status: 500 },
+    );
+  }
+}
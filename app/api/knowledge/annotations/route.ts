@@ -0,0 +1,34 @@
+import type { DBConfig } from "@/lib/db";
+import { resolveKnowledgeDatabase } from "@/lib/knowledge-access";
+import { getKnowledgeStore, type AnnotationInput } from "@/lib/knowledge-store";
+
+/**
+ * Annotate a table or column of a database. Annotating the same table or
+ * column again updates its annotation.
+ */
+export async function POST(req: Request) {
+  try {
+    const { connectionId, dbConfig, annotation } = (await req.json()) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+      annotation: AnnotationInput;
+    };
+
+    const key = await resolveKnowledgeDatabase(req, { connectionId, dbConfig });
+    if (!key.success) {
+      return Response.json({ error: key.error }, { status: key.status });
+    }
+
+    const result = await getKnowledgeStore().setAnnotation(key.value, annotation ?? {});
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return Response.json({ annotation: result.value });
+  } catch (error) {
+    console.error("Annotation save error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to save annotation" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import type { DBConfig } from "@/lib/db";
+import { resolveKnowledgeDatabase } from "@/lib/knowledge-access";
+import { getKnowledgeStore, type LearningInput } from "@/lib/knowledge-store";
+
+/**
+ * Add a SQL learning for a database. A learning for the same error (or
+ * with the same title) is updated instead.
+ */
+export async function POST(req: Request) {
+  try {
+    const { connectionId, dbConfig, learning } = (await req.json()) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+      learning: LearningInput;
+    };
+
+    const key = await resolveKnowledgeDatabase(req, { connectionId, dbConfig });
+    if (!key.success) {
+      return Response.json({ error: key.error }, { status: key.status });
+    }
+
+    const result = await getKnowledgeStore().addLearning(key.value, learning ?? {});
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: result.status });
+    }
+    return Response.json({ learning: result.value }, { status: 201 });
+  } catch (error) {
+    console.error("Learning create error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to save learning" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import type { DBConfig } from "@/lib/db";
+import { resolveKnowledgeDatabase } from "@/lib/knowledge-access";
+import { getKnowledgeStore } from "@/lib/knowledge-store";
+
+/**
+ * The SQL learnings and annotations stored for a database. Takes the same
+ * `connectionId` / `dbConfig` as the query routes; everyone connecting to
+ * the same database shares them.
+ */
+export async function POST(req: Request) {
+  try {
+    const { connectionId, dbConfig } = (await req.json()) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+    };
+
+    const key = await resolveKnowledgeDatabase(req, { connectionId, dbConfig });
+    if (!key.success) {
+      return Response.json({ error: key.error }, { status: key.status });
+    }
+
+    const { learnings, annotations } = await getKnowledgeStore().list(key.value);
+    return Response.json({ databaseKey: key.value, learnings, annotations });
+  } catch (error) {
+    console.error("Knowledge list error:", error);
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Failed to load knowledge" },
+      { status: 500 },
+    );
+  }
+}
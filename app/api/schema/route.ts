@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { introspectSchema, schemaToPrompt } from "@/lib/schema-introspector";
 import { apiCache } from "@/lib/api-cache";
+import { resolveDatabaseConnection } from "@/lib/credential-vault";
 
 export async function GET() {
   try {
@@ -33,14 +34,19 @@ export async function GET() {
 
 export async function POST(req: Request) {
   try {
-    const { dbConfig } = await req.json();
+    const { connectionId, dbConfig: inlineDbConfig } = await req.json();
 
-    const cacheKey = apiCache.generateKey("schema", { dbConfig });
+    const connection = resolveDatabaseConnection(req, { connectionId, dbConfig: inlineDbConfig });
+    if (!connection.success) {
+      return NextResponse.json({ error: connection.error }, { status: connection.status });
+    }
+
+    const cacheKey = apiCache.generateKey("schema", { connection: connection.cacheKey });
 
     const result = await apiCache.getOrCompute(
       cacheKey,
       async () => {
-        const tables = await introspectSchema(dbConfig);
+        const tables = await introspectSchema(connection.config);
         const prompt = schemaToPrompt(tables);
         return { tables, prompt };
       },
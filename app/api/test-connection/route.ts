@@ -1,9 +1,29 @@
 import { NextResponse } from "next/server";
-import { testConnection } from "@/lib/db";
+import { testConnection, type DBConfig } from "@/lib/db";
+import { getCredentialVault, mergeConnectionConfig } from "@/lib/credential-vault";
+import { getSessionId } from "@/lib/session";
 
+/**
+ * Test a database config before it is saved. With `connectionId`, the posted
+ * config is an edit of that stored profile: blank secrets use the stored ones.
+ */
 export async function POST(req: Request) {
   try {
-    const { dbConfig } = await req.json();
+    const { connectionId, dbConfig: inlineDbConfig } = (await req.json()) as {
+      connectionId?: string;
+      dbConfig?: DBConfig;
+    };
+
+    let dbConfig = inlineDbConfig;
+    if (connectionId) {
+      const stored = getCredentialVault().get(getSessionId(req), connectionId, "database");
+      if (!stored.success) {
+        return NextResponse.json({ error: stored.error }, { status: 404 });
+      }
+      dbConfig = inlineDbConfig
+        ? mergeConnectionConfig(stored.value.config, inlineDbConfig)
+        : stored.value.config;
+    }
 
     if (!dbConfig) {
       return NextResponse.json(
@@ -10,10 +10,10 @@ import {
   useData,
 } from "@json-render/react";
 import { AlertCircle, Loader2, X, Download, Upload, Database, ArrowLeftRight, Cloud } from "lucide-react";
-import type { UITree, UIElement, JsonPatch } from "@json-render/core";
-import { setByPath } from "@json-render/core";
-import { componentRegistry } from "@/components/ui";
-import { FilterBar } from "@/components/ui/filter-bar";
+import type { UITree, JsonPatch } from "@json-render/core";
+import { applyPatch } from "@/lib/ui-patches";
+import { componentRegistry, withResultScope, type ResultScope } from "@/components/ui";
+import { FilterBar, type LoadFilterOptions } from "@/components/ui/filter-bar";
 import { ErrorBoundary } from "@/components/ui/error-boundary";
 import { ThemeToggle } from "@/components/theme-toggle";
 import {
@@ -24,6 +24,7 @@ import {
 import { DrillDownProvider } from "@/lib/drill-down-context";
 import { DrillDownModal } from "@/components/ui/drill-down-modal";
 import { addToHistory, type HistoryEntry } from "@/lib/query-history";
+import type { GenerationUsage } from "@/lib/usage";
 import { HistoryPanel } from "@/components/ui/history-panel";
 import { RefreshProvider, useRefresh } from "@/lib/refresh-context";
 import { RefreshSettings } from "@/components/ui/refresh-settings";
@@ -32,29 +33,63 @@ import { DataSourceProvider, useDataSource } from "@/lib/data-source-context";
 import { StylePresetProvider, useStylePreset } from "@/lib/style-preset-context";
 import { ModelSettingsProvider, useModelSettings } from "@/lib/model-settings-context";
 import { ChartVisibilityProvider, useChartVisibility } from "@/lib/chart-visibility-context";
-import { ChartCatalogProvider, useChartCatalog } from "@/lib/chart-catalog-context";
+import { CHART_COMPONENT_TYPES, ChartCatalogProvider, useChartCatalog } from "@/lib/chart-catalog-context";
 import { CloudStorageProvider } from "@/lib/cloud-storage-context";
 import { SavedQueriesProvider } from "@/lib/saved-queries-context";
-import { SQLLearningsProvider } from "@/lib/sql-learnings-context";
-import { ColumnAnnotationsProvider } from "@/lib/column-annotations-context";
+import { SQLLearningsProvider, useSQLLearnings } from "@/lib/sql-learnings-context";
+import { ColumnAnnotationsProvider, useColumnAnnotations } from "@/lib/column-annotations-context";
 import { MultiFileUpload, type UploadedFile } from "@/components/ui/file-upload";
 import { CloudStorageBrowser } from "@/components/ui/cloud-storage-browser";
 import { StylePresetSelector } from "@/components/ui/style-preset-selector";
 import { ModelSettings } from "@/components/ui/model-settings";
 import { ChartVisibilitySelector } from "@/components/ui/chart-visibility-selector";
 import { GenerationSettings } from "@/components/ui/generation-settings";
+import { PlanChecklist } from "@/components/ui/plan-checklist";
 import {
   EncodingShelf,
   encodingToPromptHint,
   type EncodingConfig,
 } from "@/components/ui/encoding-shelf";
+import type { FilterMeta } from "@/lib/filter-metadata";
+import type { DashboardPlan } from "@/lib/dashboard-plan";
+import type { CrossFilter } from "@/lib/cross-filter";
+import type { ComparisonMode } from "@/lib/comparison";
+import type { FilterOptionsPage } from "@/lib/filter-options";
+import {
+  describeEditTurn,
+  pruneRemovedQueries,
+  type ConversationTurn,
+  type DashboardContext,
+} from "@/lib/dashboard-edit";
 
 interface SQLQuery {
   key: string;
   sql: string;
   executedSql?: string; // SQL with filter params filled in
+  filterMeta?: FilterMeta[];
+}
+
+/** Set for queries whose rows were cut to the server's row/byte budget */
+interface QueryTruncation {
+  rowCount: number;
+  totalRowsEstimate?: number;
+}
+
+function describeTruncation({ rowCount, totalRowsEstimate }: QueryTruncation) {
+  return totalRowsEstimate !== undefined
+    ? `partial: ${rowCount.toLocaleString()} of ${totalRowsEstimate.toLocaleString()} rows`
+    : `partial: first ${rowCount.toLocaleString()} rows`;
 }
 
+// Data components show whether they were computed from a sample of an
+// uploaded file or from the complete file
+const dashboardRegistry = Object.fromEntries(
+  Object.entries(componentRegistry).map(([name, component]) => [
+    name,
+    withResultScope(component),
+  ]),
+);
+
 interface QueryOperation {
   op: "query";
   key: string;
@@ -72,6 +107,11 @@ interface DBConfig {
   password: string;
   ssl: boolean;
   filename?: string; // For SQLite
+  /**
+   * Server-side connection profile holding the credentials. Saved configs
+   * keep `password` blank and requests reference the profile instead.
+   */
+  connectionId?: string;
 }
 
 const DEFAULT_PORTS: Record<DatabaseType, number> = {
@@ -91,6 +131,40 @@ const DEFAULT_DB_CONFIG: DBConfig = {
   ssl: true,
 };
 
+/**
+ * Request fields identifying the database: the demo config (which has no
+ * secrets) inline, otherwise the server-side connection profile.
+ */
+function getConnectionFields(config: DBConfig): { connectionId: string } | { dbConfig: DBConfig } {
+  return config.type !== "demo" && config.connectionId
+    ? { connectionId: config.connectionId }
+    : { dbConfig: config };
+}
+
+/**
+ * Store a database config's credentials on the server - creating a profile,
+ * or rotating the existing one - and return the config to keep client-side,
+ * without the password.
+ */
+async function saveConnectionProfile(config: DBConfig): Promise<DBConfig> {
+  const { connectionId, ...secretConfig } = config;
+  const name = `${config.database}@${config.host || config.filename || config.type}`;
+  const response = await fetch(
+    connectionId ? `/api/connections/${encodeURIComponent(connectionId)}` : "/api/connections",
+    {
+      method: connectionId ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, kind: "database", config: secretConfig }),
+    },
+  );
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || `HTTP error: ${response.status}`);
+  }
+  const { connection } = (await response.json()) as { connection: { id: string } };
+  return { ...config, password: "", connectionId: connection.id };
+}
+
 // Logo SVG Component - Hexagon with data grid pattern (matches landing page)
 function LogoIcon() {
   return (
@@ -128,65 +202,6 @@ function parseStreamLine(line: string): QueryOperation | JsonPatch | null {
   }
 }
 
-/**
- * Apply a JSON patch to the current tree
- */
-function applyPatch(tree: UITree, patch: JsonPatch): UITree {
-  const newTree = { ...tree, elements: { ...tree.elements } };
-
-  switch (patch.op) {
-    case "set":
-    case "add":
-    case "replace": {
-      if (patch.path === "/root") {
-        newTree.root = patch.value as string;
-        return newTree;
-      }
-
-      if (patch.path.startsWith("/elements/")) {
-        const pathParts = patch.path.slice("/elements/".length).split("/");
-        const elementKey = pathParts[0];
-
-        if (!elementKey) return newTree;
-
-        if (pathParts.length === 1) {
-          newTree.elements[elementKey] = patch.value as UIElement;
-        } else {
-          const element = newTree.elements[elementKey];
-          if (element && typeof element === "object") {
-            const propPath = "/" + pathParts.slice(1).join("/");
-            const newElement = { ...element };
-            try {
-              setByPath(
-                newElement as Record<string, unknown>,
-                propPath,
-                patch.value,
-              );
-              newTree.elements[elementKey] = newElement;
-            } catch (err) {
-              console.warn("Failed to apply patch:", propPath, err);
-            }
-          }
-        }
-      }
-      break;
-    }
-    case "remove": {
-      if (patch.path.startsWith("/elements/")) {
-        const elementKey = patch.path.slice("/elements/".length).split("/")[0];
-        if (elementKey && elementKey in newTree.elements) {
-           
-          const { [elementKey]: _, ...rest } = newTree.elements;
-          newTree.elements = rest;
-        }
-      }
-      break;
-    }
-  }
-
-  return newTree;
-}
-
 interface Progress {
   queriesFound: number;
   uiPatchesApplied: number;
@@ -261,12 +276,26 @@ function useSQLDashboardStream(
   filesData?: FileDataSource[],
   modelSettings?: ModelSettingsForApi | null,
   getEnabledComponents?: () => string[],
+  getDatasetIds?: (options?: { refresh?: boolean }) => Promise<string[] | null>,
+  crossFilters: CrossFilter[] = [],
+  comparison: ComparisonMode | null = null,
 ) {
   const [tree, setTree] = useState<UITree | null>(null);
   const [queries, setQueries] = useState<SQLQuery[]>([]);
   const [queryResults, setQueryResults] = useState<Record<string, unknown[]>>(
     {},
   );
+  const [truncatedQueries, setTruncatedQueries] = useState<
+    Record<string, QueryTruncation>
+  >({});
+  // File sources: whether each query's rows come from the sample or the full file
+  const [resultScopes, setResultScopes] = useState<Record<string, ResultScope>>(
+    {},
+  );
+  // Comparison mode: each date-filtered query's results over the comparison period
+  const [comparisonResults, setComparisonResults] = useState<Record<string, unknown[]>>(
+    {},
+  );
   const [isStreaming, setIsStreaming] = useState(false);
   const [isExecutingQueries, setIsExecutingQueries] = useState(false);
   const [isInitialRun, setIsInitialRun] = useState(false);
@@ -274,23 +303,44 @@ function useSQLDashboardStream(
   const [progress, setProgress] = useState<Progress>(INITIAL_PROGRESS);
   const [agentStatus, setAgentStatus] =
     useState<AgentStatus>(INITIAL_AGENT_STATUS);
+  // Follow-up requests and the changes made for them, for this dashboard
+  const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+  // Tokens and estimated cost of the last generation
+  const [usage, setUsage] = useState<GenerationUsage | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Separate controller for filter re-runs so a newer filter change
+  // cancels the queries still running for the previous one
+  const rerunAbortControllerRef = useRef<AbortController | null>(null);
 
   const clear = useCallback(() => {
     setTree(null);
     setQueries([]);
     setQueryResults({});
+    setTruncatedQueries({});
+    setResultScopes({});
+    setComparisonResults({});
     setError(null);
     setProgress(INITIAL_PROGRESS);
     setAgentStatus(INITIAL_AGENT_STATUS);
+    setConversation([]);
+    setUsage(null);
   }, []);
 
   // Restore state from a saved history entry
   const restoreState = useCallback(
-    (savedTree: UITree | null, savedQueries: SQLQuery[]) => {
+    (
+      savedTree: UITree | null,
+      savedQueries: SQLQuery[],
+      savedConversation: ConversationTurn[] = [],
+    ) => {
       setTree(savedTree);
       setQueries(savedQueries);
+      setConversation(savedConversation);
+      setUsage(null);
       setQueryResults({});
+      setTruncatedQueries({});
+      setResultScopes({});
+      setComparisonResults({});
       setError(null);
       setProgress(INITIAL_PROGRESS);
       setAgentStatus({ message: "Restoring dashboard...", type: "working" });
@@ -298,60 +348,183 @@ function useSQLDashboardStream(
     [],
   );
 
+  // Identify uploaded files by their server-side dataset ids; fall back to
+  // posting rows inline if an upload failed
+  const getFileRequestFields = useCallback(
+    async (
+      inline: { fileData?: FileDataSource; filesData?: FileDataSource[] },
+      refresh = false,
+    ) => {
+      if (dataSourceType !== "file") return {};
+      const datasetIds = await getDatasetIds?.({ refresh });
+      return datasetIds && datasetIds.length > 0 ? { datasetIds } : inline;
+    },
+    [dataSourceType, getDatasetIds],
+  );
+
   const cancel = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
+    rerunAbortControllerRef.current?.abort();
+    rerunAbortControllerRef.current = null;
     setIsStreaming(false);
     setIsExecutingQueries(false);
     setAgentStatus({ message: "Cancelled", type: "idle" });
   }, []);
 
+  /**
+   * Ask the agent for a dashboard outline to review, without running SQL.
+   * Resolves to null when it fails or is cancelled.
+   */
+  const requestPlan = useCallback(
+    async (prompt: string): Promise<DashboardPlan | null> => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = new AbortController();
+      const signal = abortControllerRef.current.signal;
+
+      setIsStreaming(true);
+      setError(null);
+      setAgentStatus({ message: "Planning dashboard...", type: "working" });
+      try {
+        const post = async (refreshDatasets: boolean) =>
+          fetch("/api/generate-agentic", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              prompt,
+              mode: "plan",
+              ...getConnectionFields(dbConfig),
+              dataSourceType,
+              ...(await getFileRequestFields({ fileData, filesData }, refreshDatasets)),
+              modelSettings: modelSettings || undefined,
+              enabledComponents: getEnabledComponents?.(),
+            }),
+            signal,
+          });
+
+        let response = await post(false);
+        if (response.status === 410) {
+          response = await post(true);
+        }
+        const body = (await response.json().catch(() => null)) as
+          | { plan?: DashboardPlan; usage?: GenerationUsage; error?: string }
+          | null;
+        if (!response.ok || !body?.plan) {
+          throw new Error(body?.error || `HTTP error: ${response.status}`);
+        }
+        setUsage(body.usage ?? null);
+        setAgentStatus({ message: "Review the proposed dashboard", type: "idle" });
+        return body.plan;
+      } catch (err) {
+        if ((err as Error).name === "AbortError") return null;
+        const error = err instanceof Error ? err : new Error(String(err));
+        setError(error);
+        setAgentStatus({ message: `Error: ${error.message}`, type: "error" });
+        return null;
+      } finally {
+        if (!signal.aborted) setIsStreaming(false);
+      }
+    },
+    [dbConfig, dataSourceType, fileData, filesData, modelSettings, getEnabledComponents, getFileRequestFields],
+  );
+
+  /**
+   * Generate a dashboard, or with `options.edit` change the given one: the
+   * agent then patches the existing tree and only runs new or changed
+   * queries, and the request joins the dashboard's conversation.
+   */
   const send = useCallback(
-    async (prompt: string, options?: { fileDataOverride?: FileDataSource; filesDataOverride?: FileDataSource[] }) => {
+    async (
+      prompt: string,
+      options?: {
+        fileDataOverride?: FileDataSource;
+        filesDataOverride?: FileDataSource[];
+        edit?: DashboardContext;
+        /** An outline the user approved, to build as-is */
+        plan?: DashboardPlan;
+      },
+    ) => {
       abortControllerRef.current?.abort();
       abortControllerRef.current = new AbortController();
 
+      const edit = options?.edit;
       setIsStreaming(true);
       setIsInitialRun(true);
       setError(null);
-      setQueries([]);
-      setQueryResults({});
+      if (!edit) {
+        setQueries([]);
+        setQueryResults({});
+        setTruncatedQueries({});
+        setResultScopes({});
+        setComparisonResults({});
+      }
       setProgress(INITIAL_PROGRESS);
-      setAgentStatus({ message: "Starting agent...", type: "working" });
+      setUsage(null);
+      setAgentStatus({
+        message: edit ? "Updating dashboard..." : "Starting agent...",
+        type: "working",
+      });
 
-      let currentTree: UITree = { root: "", elements: {} };
+      let currentTree: UITree = edit?.tree ?? { root: "", elements: {} };
       setTree(currentTree);
 
-      const collectedQueries: SQLQuery[] = [];
-      const collectedResults: Record<string, unknown[]> = {};
+      const collectedQueries: SQLQuery[] = edit ? [...edit.queries] : [];
+      const appliedPatches: JsonPatch[] = [];
+      const changedQueryKeys = new Set<string>();
+      const earlierTurns = edit ? conversation : [];
       let patchCount = 0;
       let textBuffer = "";
 
+      const applyStreamedPatch = (patch: JsonPatch) => {
+        currentTree = applyPatch(currentTree, patch);
+        setTree({ ...currentTree });
+        appliedPatches.push(patch);
+        patchCount++;
+        setProgress((prev) => ({
+          ...prev,
+          uiPatchesApplied: patchCount,
+        }));
+      };
+
       // Use override file data if provided (bypasses race condition), otherwise use hook params
       const effectiveFileData = options?.fileDataOverride ?? fileData;
       const effectiveFilesData = options?.filesDataOverride ?? filesData;
 
       try {
-        const response = await fetch("/api/generate-agentic", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            prompt,
-            dbConfig,
-            filterParams,
-            dataSourceType,
-            fileData: effectiveFileData,
-            filesData: effectiveFilesData,
-            modelSettings: modelSettings || undefined,
-            enabledComponents: getEnabledComponents?.(),
-          }),
-          signal: abortControllerRef.current.signal,
-        });
+        const signal = abortControllerRef.current.signal;
+        const post = async (refreshDatasets: boolean) =>
+          fetch("/api/generate-agentic", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              prompt,
+              ...(edit ? { context: edit, conversation: earlierTurns } : {}),
+              ...(options?.plan ? { plan: options.plan } : {}),
+              ...getConnectionFields(dbConfig),
+              filterParams,
+              dataSourceType,
+              ...(await getFileRequestFields(
+                { fileData: effectiveFileData, filesData: effectiveFilesData },
+                refreshDatasets,
+              )),
+              modelSettings: modelSettings || undefined,
+              enabledComponents: getEnabledComponents?.(),
+            }),
+            signal,
+          });
+
+        let response = await post(false);
+        if (response.status === 410) {
+          // The server expired the uploaded datasets - upload them again
+          response = await post(true);
+        }
 
         if (!response.ok) {
-          throw new Error(`HTTP error: ${response.status}`);
+          // Budget and validation errors come with a message
+          const body = (await response.json().catch(() => null)) as { error?: string } | null;
+          throw new Error(body?.error || `HTTP error: ${response.status}`);
         }
 
         const reader = response.body?.getReader();
@@ -382,6 +555,8 @@ function useSQLDashboardStream(
                 if (event.toolName === "execute_sql" && event.input) {
                   const key = event.input.key as string;
                   const sql = event.input.sql as string;
+                  const filterMeta = event.input.filterMeta as FilterMeta[] | undefined;
+                  changedQueryKeys.add(key);
                   setAgentStatus({
                     message: `Testing query: ${key}...`,
                     type: "working",
@@ -393,11 +568,11 @@ function useSQLDashboardStream(
                     (q) => q.key === key,
                   );
                   if (existingIdx === -1) {
-                    collectedQueries.push({ key, sql });
+                    collectedQueries.push({ key, sql, filterMeta });
                     setQueries([...collectedQueries]);
-                  } else if (collectedQueries[existingIdx]) {
-                    // Update existing query with latest SQL (in case of retry)
-                    collectedQueries[existingIdx].sql = sql;
+                  } else {
+                    // Update existing query with latest SQL (a retry, or an edit)
+                    collectedQueries[existingIdx] = { key, sql, filterMeta };
                     setQueries([...collectedQueries]);
                   }
                 } else if (event.toolName === "get_schema") {
@@ -405,11 +580,37 @@ function useSQLDashboardStream(
                     message: "Fetching database schema...",
                     type: "working",
                   });
+                } else if (event.toolName === "search_schema" || event.toolName === "describe_table") {
+                  const target = (event.input?.query ?? event.input?.table) as string | undefined;
+                  setAgentStatus({
+                    message: target ? `Looking up schema: ${target}...` : "Looking up schema...",
+                    type: "working",
+                  });
+                } else if (event.toolName === "render_ui") {
+                  setAgentStatus({
+                    message: "Checking dashboard UI...",
+                    type: "working",
+                  });
                 }
                 break;
               }
 
               case "tool-result": {
+                // Accepted UI patches arrive as text; rejected ones go back to the agent
+                if (event.toolName === "render_ui") {
+                  const output = event.output as
+                    | { success?: boolean; violations?: string[] }
+                    | undefined;
+                  if (output && !output.success) {
+                    const count = output.violations?.length ?? 0;
+                    setAgentStatus({
+                      message: `Dashboard UI has ${count} problem${count === 1 ? "" : "s"}. Repairing...`,
+                      type: "retry",
+                    });
+                  }
+                  break;
+                }
+
                 // Tool result event - output contains the tool's return value
                 const output = event.output as
                   | {
@@ -417,6 +618,9 @@ function useSQLDashboardStream(
                       success?: boolean;
                       rows?: unknown[];
                       rowCount?: number;
+                      truncated?: boolean;
+                      totalRowsEstimate?: number;
+                      dataScope?: ResultScope;
                       error?: string;
                       schema?: string;
                     }
@@ -430,16 +634,38 @@ function useSQLDashboardStream(
                   const key = output.key || "unknown";
 
                   if (output.success) {
+                    const truncation: QueryTruncation | null = output.truncated
+                      ? {
+                          rowCount: output.rowCount || 0,
+                          totalRowsEstimate: output.totalRowsEstimate,
+                        }
+                      : null;
                     setAgentStatus({
-                      message: `Query "${key}" succeeded (${output.rowCount || 0} rows)`,
+                      message: truncation
+                        ? `Query "${key}" succeeded (${describeTruncation(truncation)})`
+                        : `Query "${key}" succeeded (${output.rowCount || 0} rows)`,
                       type: "success",
                       queryKey: key,
                     });
+                    setTruncatedQueries((prev) => {
+                      const { [key]: _previous, ...rest } = prev;
+                      return truncation ? { ...rest, [key]: truncation } : rest;
+                    });
+                    const { dataScope } = output;
+                    if (dataScope) {
+                      setResultScopes((prev) => ({ ...prev, [key]: dataScope }));
+                    }
 
                     // Store query results
-                    if (output.rows) {
-                      collectedResults[key] = output.rows;
-                      setQueryResults({ ...collectedResults });
+                    const { rows } = output;
+                    if (rows) {
+                      setQueryResults((prev) => ({ ...prev, [key]: rows }));
+                      // The query may have changed, so its comparison no longer matches
+                      setComparisonResults((prev) => {
+                        if (!(key in prev)) return prev;
+                        const { [key]: _stale, ...rest } = prev;
+                        return rest;
+                      });
                     }
 
                     // Update progress count
@@ -483,18 +709,9 @@ function useSQLDashboardStream(
                     "op" in patchParsed &&
                     "path" in patchParsed
                   ) {
-                    currentTree = applyPatch(
-                      currentTree,
-                      patchParsed as JsonPatch,
-                    );
-                    setTree({ ...currentTree });
-                    patchCount++;
-                    setProgress((prev) => ({
-                      ...prev,
-                      uiPatchesApplied: patchCount,
-                    }));
+                    applyStreamedPatch(patchParsed as JsonPatch);
                     setAgentStatus({
-                      message: "Building dashboard UI...",
+                      message: edit ? "Updating dashboard UI..." : "Building dashboard UI...",
                       type: "working",
                     });
                   }
@@ -519,7 +736,7 @@ function useSQLDashboardStream(
                   });
                 } else {
                   setAgentStatus({
-                    message: "Dashboard ready!",
+                    message: edit ? "Dashboard updated!" : "Dashboard ready!",
                     type: "success",
                   });
                 }
@@ -544,6 +761,21 @@ function useSQLDashboardStream(
                 break;
               }
 
+              case "usage": {
+                // Final summary: tokens, steps and estimated cost
+                const summary = (event as { usage?: GenerationUsage }).usage;
+                if (summary) {
+                  setUsage(summary);
+                  if (summary.budgetExceeded) {
+                    setAgentStatus({
+                      message: `${summary.budgetExceeded === "daily" ? "Daily" : "Request"} token budget reached - showing a partial dashboard`,
+                      type: "success",
+                    });
+                  }
+                }
+                break;
+              }
+
               case "error": {
                 // Error event from stream - extract details from nested structure
                 const errorData = event as {
@@ -579,17 +811,27 @@ function useSQLDashboardStream(
           for (const jsonlLine of jsonlLines) {
             const patchParsed = parseStreamLine(jsonlLine);
             if (patchParsed && "op" in patchParsed && "path" in patchParsed) {
-              currentTree = applyPatch(currentTree, patchParsed as JsonPatch);
-              setTree({ ...currentTree });
-              patchCount++;
-              setProgress((prev) => ({
-                ...prev,
-                uiPatchesApplied: patchCount,
-              }));
+              applyStreamedPatch(patchParsed as JsonPatch);
             }
           }
         }
 
+        if (edit) {
+          // Stop re-running queries whose elements the edit removed
+          const keptQueries = pruneRemovedQueries(collectedQueries, edit.tree, currentTree);
+          if (keptQueries.length !== collectedQueries.length) {
+            setQueries(keptQueries);
+          }
+        }
+        setConversation([
+          ...earlierTurns,
+          { role: "user", content: prompt },
+          {
+            role: "assistant",
+            content: describeEditTurn(appliedPatches, Array.from(changedQueryKeys)),
+          },
+        ]);
+
         setIsStreaming(false);
 
         // Queries are already executed by the agent, no need for separate execution
@@ -607,12 +849,14 @@ function useSQLDashboardStream(
         });
       }
     },
-    [dbConfig, filterParams, dataSourceType, fileData, filesData, modelSettings, getEnabledComponents],
+    [dbConfig, filterParams, dataSourceType, fileData, filesData, modelSettings, getEnabledComponents, getFileRequestFields, conversation],
   );
 
   useEffect(() => {
     return () => {
+      // Leaving /dashboard cancels generation and any in-flight queries
       abortControllerRef.current?.abort();
+      rerunAbortControllerRef.current?.abort();
     };
   }, []);
 
@@ -621,32 +865,54 @@ function useSQLDashboardStream(
    * This is much faster than re-running the full agent.
    * @param newFilterParams - Filter parameters to apply
    * @param queriesToRun - Optional queries to run (for restore, since state updates are async)
+   * @param purpose - "full-data" when loading a file dashboard's complete results after generation
    */
   const rerunQueries = useCallback(
     async (
       newFilterParams: Record<string, string>,
       queriesToRun?: SQLQuery[],
+      purpose: "filters" | "full-data" = "filters",
     ) => {
       const useQueries = queriesToRun || queries;
       if (useQueries.length === 0) return;
 
+      rerunAbortControllerRef.current?.abort();
+      const controller = new AbortController();
+      rerunAbortControllerRef.current = controller;
+
       setIsExecutingQueries(true);
       setIsInitialRun(false);
       setError(null);
-      setAgentStatus({ message: "Applying filters...", type: "working" });
+      setAgentStatus({
+        message:
+          purpose === "full-data"
+            ? "Running queries on the full dataset..."
+            : "Applying filters...",
+        type: "working",
+      });
 
       try {
-        const response = await fetch("/api/execute-queries", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            queries: useQueries,
-            filterParams: newFilterParams,
-            dbConfig,
-            dataSourceType,
-            fileData,
-          }),
-        });
+        const post = async (refreshDatasets: boolean) =>
+          fetch("/api/execute-queries", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              queries: useQueries,
+              filterParams: newFilterParams,
+              crossFilters,
+              comparison,
+              ...getConnectionFields(dbConfig),
+              dataSourceType,
+              ...(await getFileRequestFields({ fileData, filesData }, refreshDatasets)),
+            }),
+            signal: controller.signal,
+          });
+
+        let response = await post(false);
+        if (response.status === 410) {
+          // The server expired the uploaded datasets - upload them again
+          response = await post(true);
+        }
 
         if (!response.ok) {
           throw new Error(`HTTP error: ${response.status}`);
@@ -657,6 +923,21 @@ function useSQLDashboardStream(
         if (data.results) {
           setQueryResults(data.results);
         }
+        setComparisonResults(
+          (data.comparisonResults as Record<string, unknown[]> | undefined) ?? {},
+        );
+        setTruncatedQueries(
+          (data.truncation as Record<string, QueryTruncation> | undefined) ??
+            {},
+        );
+        const dataScope = data.dataScope as ResultScope | undefined;
+        setResultScopes(
+          dataScope && data.results
+            ? Object.fromEntries(
+                Object.keys(data.results).map((key) => [key, dataScope]),
+              )
+            : {},
+        );
 
         // Update queries with executed SQL for display
         if (data.executedQueries) {
@@ -681,33 +962,102 @@ function useSQLDashboardStream(
           });
         } else {
           setError(null); // Clear any previous errors
-          setAgentStatus({ message: "Filters applied!", type: "success" });
+          const partialCount = Object.keys(data.truncation ?? {}).length;
+          const done =
+            purpose === "full-data" ? "Full dataset loaded" : "Filters applied";
+          setAgentStatus({
+            message:
+              partialCount > 0
+                ? `${done}! (${partialCount} partial result${partialCount === 1 ? "" : "s"})`
+                : `${done}!`,
+            type: "success",
+          });
         }
       } catch (err) {
+        if ((err as Error).name === "AbortError") {
+          // Superseded by a newer filter change (or the page was left)
+          return;
+        }
         const error = err instanceof Error ? err : new Error(String(err));
         setError(error);
         setAgentStatus({ message: `Error: ${error.message}`, type: "error" });
       } finally {
-        setIsExecutingQueries(false);
+        if (rerunAbortControllerRef.current === controller) {
+          rerunAbortControllerRef.current = null;
+          setIsExecutingQueries(false);
+        }
+      }
+    },
+    [queries, crossFilters, comparison, dbConfig, dataSourceType, fileData, filesData, getFileRequestFields],
+  );
+
+  /**
+   * Load a page of a dropdown filter's options from its lookup query
+   * (optionsQueryKey), narrowed by the parent filters' values.
+   */
+  const loadFilterOptions = useCallback(
+    async (
+      optionsQueryKey: string,
+      request: {
+        column: string;
+        filterParams: Record<string, string>;
+        search?: string;
+        offset?: number;
+        limit?: number;
+        selected?: string[];
+      },
+    ): Promise<FilterOptionsPage> => {
+      const query = queries.find((q) => q.key === optionsQueryKey);
+      if (!query) {
+        return { options: [], hasMore: false };
+      }
+      const post = async (refreshDatasets: boolean) =>
+        fetch("/api/filter-options", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            query: { sql: query.sql, filterMeta: query.filterMeta },
+            ...request,
+            ...getConnectionFields(dbConfig),
+            dataSourceType,
+            ...(await getFileRequestFields({ fileData, filesData }, refreshDatasets)),
+          }),
+        });
+
+      let response = await post(false);
+      if (response.status === 410) {
+        // The server expired the uploaded datasets - upload them again
+        response = await post(true);
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP error: ${response.status}`);
       }
+      return (await response.json()) as FilterOptionsPage;
     },
-    [queries, dbConfig, dataSourceType, fileData],
+    [queries, dbConfig, dataSourceType, fileData, filesData, getFileRequestFields],
   );
 
   return {
     tree,
     queries,
     queryResults,
+    truncatedQueries,
+    resultScopes,
+    comparisonResults,
     isStreaming,
     isExecutingQueries,
     isInitialRun,
     error,
     progress,
     agentStatus,
+    conversation,
+    usage,
     send,
+    requestPlan,
     clear,
     cancel,
     rerunQueries,
+    loadFilterOptions,
     restoreState,
   };
 }
@@ -767,7 +1117,8 @@ function DBConfigModal({
       const response = await fetch("/api/test-connection", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dbConfig: formData }),
+        // For a saved profile, a blank password means "keep the stored one"
+        body: JSON.stringify({ dbConfig: formData, connectionId: config.connectionId }),
       });
 
       const data = await response.json();
@@ -1079,7 +1430,7 @@ function DBConfigModal({
               type="password"
               value={formData.password}
               onChange={(e) => handleChange("password", e.target.value)}
-              placeholder="••••••••"
+              placeholder={config.connectionId ? "Saved - leave blank to keep" : "••••••••"}
               style={{
                 width: "100%",
                 padding: "8px 12px",
@@ -1234,7 +1585,6 @@ function DashboardContent() {
   const [loadingQuestions, setLoadingQuestions] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showCloudStorage, setShowCloudStorage] = useState(false);
-  const [cloudStorageError, setCloudStorageError] = useState<string | null>(null);
   const [_uploadedFile, setUploadedFile] = useState<UploadedFile | null>(null);
   // Track actual connection verification status: unknown (not tested), verified (test passed), failed (test failed)
   const [connectionStatus, setConnectionStatus] = useState<
@@ -1242,11 +1592,14 @@ function DashboardContent() {
   >("unknown");
   // Track the active prompt being generated (for display in dashboard area)
   const [activePrompt, setActivePrompt] = useState<string | null>(null);
+  // "Plan first": review an outline of the dashboard before it's generated
+  const [planFirst, setPlanFirst] = useState(false);
+  const [pendingPlan, setPendingPlan] = useState<{ prompt: string; fullPrompt: string; plan: DashboardPlan } | null>(null);
 
   const dashboardRef = useRef<HTMLDivElement>(null);
   const { update } = useData();
   const { onRefresh, setEnabled: setRefreshEnabled } = useRefresh();
-  const { sourceType, setSourceType, loadFileData, removeFile, clearFileData, fileSource, fileSources, getFileDataForApi, getAllFilesDataForApi } = useDataSource();
+  const { sourceType, setSourceType, loadFileData, loadCloudTable, removeFile, clearFileData, fileSource, fileSources, getFileDataForApi, getAllFilesDataForApi, getDatasetIds } = useDataSource();
   const {
     setFilters,
     filters,
@@ -1254,13 +1607,23 @@ function DashboardContent() {
     setValue,
     getFilterParams,
     clearFilters,
+    crossFilters,
+    comparison,
   } = useFilters();
   const { getCSSStyles } = useStylePreset();
   const stylePresetCSS = useMemo(() => getCSSStyles(), [getCSSStyles]);
   const { getApiSettings } = useModelSettings();
   const modelSettingsForApi = useMemo(() => getApiSettings(), [getApiSettings]);
   const { registerChart, clearCharts, isVisible } = useChartVisibility();
-  const { getFilteredComponentList } = useChartCatalog();
+  const { getFilteredComponentList, enabledCharts } = useChartCatalog();
+  // SQL learnings and annotations are shared per database on the server
+  const { setConnection: setLearningsConnection } = useSQLLearnings();
+  const { setConnection: setAnnotationsConnection } = useColumnAnnotations();
+  useEffect(() => {
+    const connection = sourceType === "database" ? getConnectionFields(dbConfig) : null;
+    setLearningsConnection(connection);
+    setAnnotationsConnection(connection);
+  }, [sourceType, dbConfig, setLearningsConnection, setAnnotationsConnection]);
   const currentFilterParams = useMemo(
     () => getFilterParams(),
     [getFilterParams],
@@ -1287,18 +1650,47 @@ function DashboardContent() {
     tree,
     queries,
     queryResults,
+    truncatedQueries,
+    resultScopes,
+    comparisonResults,
     isStreaming,
     isExecutingQueries,
     isInitialRun,
     error,
     progress,
     agentStatus,
+    conversation,
+    usage,
     send,
+    requestPlan,
     clear,
     cancel,
     rerunQueries,
+    loadFilterOptions,
     restoreState,
-  } = useSQLDashboardStream(dbConfig, currentFilterParams, sourceType, fileDataForApi, filesDataForApi, modelSettingsForApi, getFilteredComponentList);
+  } = useSQLDashboardStream(dbConfig, currentFilterParams, sourceType, fileDataForApi, filesDataForApi, modelSettingsForApi, getFilteredComponentList, getDatasetIds, crossFilters, comparison);
+
+  const loadOptions = useCallback<LoadFilterOptions>(
+    (filter, request) =>
+      loadFilterOptions(filter.optionsQueryKey!, { column: filter.column, ...request }),
+    [loadFilterOptions],
+  );
+
+  // Re-run the queries when a chart segment is (de)selected in cross-filter mode
+  const appliedCrossFiltersRef = useRef(crossFilters);
+  useEffect(() => {
+    if (appliedCrossFiltersRef.current === crossFilters) return;
+    appliedCrossFiltersRef.current = crossFilters;
+    rerunQueries(getFilterParams());
+  }, [crossFilters, rerunQueries, getFilterParams]);
+
+  // ...and when the comparison period is switched
+  const appliedComparisonRef = useRef(comparison);
+  useEffect(() => {
+    if (appliedComparisonRef.current === comparison) return;
+    appliedComparisonRef.current = comparison;
+    rerunQueries(getFilterParams());
+  }, [comparison, rerunQueries, getFilterParams]);
 
   // Filter tree based on chart visibility
   const filteredTree = useMemo(() => {
@@ -1401,12 +1793,16 @@ function DashboardContent() {
       if ((element.type === "Filter" || element.type === "SQLFilter") && element.props) {
         const filterProps = element.props as {
           filterId?: string;
-          filterType?: "date-range" | "dropdown";
+          filterType?: FilterDefinition["type"];
           label?: string;
           column?: string;
           options?: string[];
           multiSelect?: boolean;
           defaultPreset?: string;
+          boundsQueryKey?: string | null;
+          step?: number | null;
+          optionsQueryKey?: string | null;
+          parentFilterIds?: string[] | null;
         };
         if (
           filterProps.filterId &&
@@ -1421,8 +1817,11 @@ function DashboardContent() {
             column: filterProps.column,
             options: filterProps.options,
             multiSelect: filterProps.multiSelect,
-            defaultPreset:
-              filterProps.defaultPreset as FilterDefinition["defaultPreset"],
+            defaultPreset: filterProps.defaultPreset,
+            boundsQueryKey: filterProps.boundsQueryKey ?? undefined,
+            step: filterProps.step ?? undefined,
+            optionsQueryKey: filterProps.optionsQueryKey ?? undefined,
+            parentFilterIds: filterProps.parentFilterIds ?? undefined,
           });
         }
       }
@@ -1494,19 +1893,34 @@ function DashboardContent() {
       }
     }
 
+    // Configs saved before connection profiles kept the password in
+    // localStorage - move it to the server and forget it here
+    const needsMigration =
+      configToUse.type !== "demo" && !configToUse.connectionId && !!configToUse.password;
+
     // Auto-connect based on database type
     const shouldAutoConnect =
       configToUse.type === "demo" || // Demo type always auto-connects
-      (configToUse.host && configToUse.database && configToUse.password); // Other types need credentials
+      !!configToUse.connectionId || // Saved profiles hold the credentials server-side
+      needsMigration;
 
     if (shouldAutoConnect) {
       (async () => {
         try {
-          const res = await fetch("/api/test-connection", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ dbConfig: configToUse }),
-          });
+          if (needsMigration) {
+            configToUse = await saveConnectionProfile(configToUse);
+            setDBConfig(configToUse);
+            localStorage.setItem("dashb-db-config", JSON.stringify(configToUse));
+          }
+          const res = configToUse.connectionId && configToUse.type !== "demo"
+            ? await fetch(`/api/connections/${encodeURIComponent(configToUse.connectionId)}/test`, {
+                method: "POST",
+              })
+            : await fetch("/api/test-connection", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ dbConfig: configToUse }),
+              });
           setConnectionStatus(res.ok ? "verified" : "failed");
         } catch {
           setConnectionStatus("failed");
@@ -1527,8 +1941,8 @@ function DashboardContent() {
 
   // Sync query results to DataProvider
   useEffect(() => {
-    update({ queries: queryResults });
-  }, [queryResults, update]);
+    update({ queries: queryResults, resultScopes, comparisons: comparisonResults });
+  }, [queryResults, resultScopes, comparisonResults, update]);
 
   // Register auto-refresh callback
   useEffect(() => {
@@ -1562,14 +1976,33 @@ function DashboardContent() {
     setShowExportMenu(false);
   }, [prompt]);
 
-  const handleSaveDBConfig = async (config: DBConfig) => {
+  const handleSaveDBConfig = async (formConfig: DBConfig) => {
+    setShowDBConfig(false);
+
+    const isDemo = formConfig.type === "demo";
+
+    // Credentials go to the server once; the browser keeps only the profile id
+    let config: DBConfig;
+    if (isDemo) {
+      const { connectionId, ...demoConfig } = formConfig;
+      if (connectionId) {
+        void fetch(`/api/connections/${encodeURIComponent(connectionId)}`, { method: "DELETE" });
+      }
+      config = demoConfig;
+    } else {
+      try {
+        config = await saveConnectionProfile(formConfig);
+      } catch (err) {
+        console.error("Failed to save database connection:", err);
+        setConnectionStatus("failed");
+        return;
+      }
+    }
+
     setDBConfig(config);
     if (typeof window !== "undefined") {
       localStorage.setItem("dashb-db-config", JSON.stringify(config));
     }
-    setShowDBConfig(false);
-
-    const isDemo = config.type === "demo";
 
     if (isDemo) {
       // FAST PATH: Demo database - skip blocking steps for instant experience
@@ -1599,11 +2032,10 @@ function DashboardContent() {
       // STANDARD PATH: Custom database - keep sequential validation
       setConnectionStatus("unknown");
       try {
-        const testResponse = await fetch("/api/test-connection", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ dbConfig: config }),
-        });
+        const testResponse = await fetch(
+          `/api/connections/${encodeURIComponent(config.connectionId!)}/test`,
+          { method: "POST" },
+        );
         if (testResponse.ok) {
           setConnectionStatus("verified");
         } else {
@@ -1622,7 +2054,7 @@ function DashboardContent() {
         const response = await fetch("/api/generate-questions", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ dbConfig: config }),
+          body: JSON.stringify(getConnectionFields(config)),
         });
         if (response.ok) {
           const { questions } = await response.json();
@@ -1667,7 +2099,7 @@ function DashboardContent() {
       }
 
       // Restore state
-      restoreState(entry.tree, entry.queries);
+      restoreState(entry.tree, entry.queries, entry.conversation);
       setPrompt(entry.prompt);
 
       // Re-execute queries with filter params
@@ -1714,23 +2146,25 @@ function DashboardContent() {
   const hasElements = tree && Object.keys(tree.elements).length > 0;
 
   // Use refs to capture current values for history saving (avoids stale closure)
-  const dashboardStateRef = useRef({ tree, queries, filters, filterValues: values });
+  const dashboardStateRef = useRef({ tree, queries, filters, filterValues: values, conversation, usage });
   useEffect(() => {
-    dashboardStateRef.current = { tree, queries, filters, filterValues: values };
-  }, [tree, queries, filters, values]);
+    dashboardStateRef.current = { tree, queries, filters, filterValues: values, conversation, usage };
+  }, [tree, queries, filters, values, conversation, usage]);
 
   // Save to history when streaming completes
   useEffect(() => {
     if (wasStreaming && !isStreaming && submittedPrompt) {
       const success = !error && !!hasElements;
       // Use ref to get current values (not stale closure)
-      const { tree: currentTree, queries: currentQueries, filters: currentFilters, filterValues: currentValues } = dashboardStateRef.current;
+      const { tree: currentTree, queries: currentQueries, filters: currentFilters, filterValues: currentValues, conversation: currentConversation, usage: currentUsage } = dashboardStateRef.current;
       // Save complete dashboard state for future restoration
       addToHistory(submittedPrompt, success, dbConfig.database, {
         tree: currentTree,
         queries: currentQueries,
         filters: currentFilters,
         filterValues: currentValues,
+        conversation: currentConversation,
+        usage: currentUsage,
       });
       setSubmittedPrompt(null);
     }
@@ -1744,6 +2178,30 @@ function DashboardContent() {
     dbConfig.database,
   ]);
 
+  // The agent builds file dashboards against a sample of each file; once it
+  // has finished, run the final queries over the complete uploaded data
+  useEffect(() => {
+    if (
+      wasStreaming &&
+      !isStreaming &&
+      sourceType === "file" &&
+      agentStatus.type === "success" &&
+      hasElements &&
+      queries.length > 0
+    ) {
+      rerunQueries(getFilterParams(), queries, "full-data");
+    }
+  }, [
+    wasStreaming,
+    isStreaming,
+    sourceType,
+    agentStatus.type,
+    hasElements,
+    queries,
+    rerunQueries,
+    getFilterParams,
+  ]);
+
   const handleSubmit = useCallback(
     async (e: React.FormEvent) => {
       e.preventDefault();
@@ -1755,11 +2213,37 @@ function DashboardContent() {
         ? `${prompt.trim()} ${encodingHint}`
         : prompt;
 
+      if (planFirst && !(tree && hasElements)) {
+        // Nothing is generated (or saved to history) until the plan is approved
+        setPendingPlan(null);
+        const plan = await requestPlan(fullPrompt);
+        if (plan) setPendingPlan({ prompt, fullPrompt, plan });
+        return;
+      }
+
       setSubmittedPrompt(prompt); // Store original prompt for display
       setActivePrompt(prompt);
-      await send(fullPrompt);
+      if (tree && hasElements) {
+        // Follow-up: change the current dashboard rather than replacing it
+        setPrompt("");
+        await send(fullPrompt, { edit: { tree, queries, filters } });
+      } else {
+        await send(fullPrompt);
+      }
+    },
+    [prompt, send, requestPlan, planFirst, encodingConfig, tree, hasElements, queries, filters],
+  );
+
+  const handleApprovePlan = useCallback(
+    async (plan: DashboardPlan) => {
+      if (!pendingPlan) return;
+      const { prompt: planPrompt, fullPrompt } = pendingPlan;
+      setPendingPlan(null);
+      setSubmittedPrompt(planPrompt);
+      setActivePrompt(planPrompt);
+      await send(fullPrompt, { plan });
     },
-    [prompt, send, encodingConfig],
+    [pendingPlan, send],
   );
 
   // Function to trigger auto-generation with a specific prompt
@@ -1909,7 +2393,12 @@ function DashboardContent() {
 
   // Disconnect from all data sources and return to initial state
   const handleDisconnect = useCallback(() => {
-    // Clear database config from state and localStorage
+    // Delete the stored credentials, then clear the config from state and localStorage
+    if (dbConfig.connectionId) {
+      void fetch(`/api/connections/${encodeURIComponent(dbConfig.connectionId)}`, {
+        method: "DELETE",
+      });
+    }
     setDBConfig({
       type: "postgresql",
       host: "",
@@ -1933,7 +2422,7 @@ function DashboardContent() {
     setSuggestedQuestions([]);
     // Clear saved questions from localStorage
     localStorage.removeItem("dashb-questions");
-  }, [clearFileData, setSourceType, setFilters, clear]);
+  }, [dbConfig.connectionId, clearFileData, setSourceType, setFilters, clear]);
 
   // Fallback to generic examples if no suggestions yet
   const defaultExamples = sourceType === "file"
@@ -1962,7 +2451,7 @@ function DashboardContent() {
   // For demo database, type === "demo" is sufficient (no credentials needed)
   const isConfigured =
     mounted && (
-      (sourceType === "database" && (dbConfig.type === "demo" || (dbConfig.password && dbConfig.host && dbConfig.database))) ||
+      (sourceType === "database" && (dbConfig.type === "demo" || (dbConfig.connectionId && dbConfig.host && dbConfig.database))) ||
       (sourceType === "file" && fileSource !== null)
     );
 
@@ -2379,65 +2868,15 @@ function DashboardContent() {
       {/* Cloud Storage Browser Modal */}
       {showCloudStorage && (
         <CloudStorageBrowser
-          onClose={() => {
-            setShowCloudStorage(false);
-            setCloudStorageError(null);
-          }}
-          onFileSelect={async (fileName, fileData) => {
-            setCloudStorageError(null);
-            try {
-              // Parse the Parquet file from ArrayBuffer
-              const { parseParquetBuffer } = await import("@/lib/parquet-parser");
-              const result = await parseParquetBuffer(fileData);
-              // Generate table name from file name (without extension)
-              const tableName = fileName.replace(/\.parquet$/i, "").replace(/[^a-zA-Z0-9_]/g, "_");
-              // Load the parsed data into the in-memory database
-              loadFileData(tableName, result.rows, fileName, "parquet");
-              setShowCloudStorage(false);
-              setSourceType("file");
-            } catch (err) {
-              console.error("Failed to parse cloud storage file:", err);
-              setCloudStorageError(err instanceof Error ? err.message : "Failed to parse cloud storage file");
-            }
+          onClose={() => setShowCloudStorage(false)}
+          onTableSelect={async (request) => {
+            // Errors surface inside the browser, which stays open
+            await loadCloudTable(request);
+            setSourceType("file");
           }}
         />
       )}
 
-      {/* Cloud Storage Error Alert */}
-      {cloudStorageError && (
-        <div
-          style={{
-            position: "fixed",
-            top: 20,
-            left: "50%",
-            transform: "translateX(-50%)",
-            zIndex: 10001,
-            padding: "12px 24px",
-            background: "var(--destructive)",
-            color: "white",
-            borderRadius: "var(--radius)",
-            display: "flex",
-            alignItems: "center",
-            gap: 12,
-            boxShadow: "0 4px 12px rgba(0,0,0,0.3)",
-          }}
-        >
-          <span>⚠️ {cloudStorageError}</span>
-          <button
-            onClick={() => setCloudStorageError(null)}
-            style={{
-              background: "transparent",
-              border: "none",
-              color: "white",
-              cursor: "pointer",
-              fontSize: 18,
-            }}
-          >
-            ×
-          </button>
-        </div>
-      )}
-
       {/* File Source Active Indicator */}
       {sourceType === "file" && fileSources.length > 0 && isConfigured && (
         <div
@@ -2530,7 +2969,11 @@ function DashboardContent() {
             type="text"
             value={prompt}
             onChange={(e) => setPrompt(e.target.value)}
-            placeholder="Describe the dashboard you want..."
+            placeholder={
+              hasElements
+                ? "Ask for a change, e.g. add a breakdown by region under the revenue chart..."
+                : "Describe the dashboard you want..."
+            }
             disabled={isLoading || !isConfigured}
             style={{
               flex: 1,
@@ -2544,6 +2987,28 @@ function DashboardContent() {
             }}
           />
           <GenerationSettings />
+          {!hasElements && (
+            <label
+              title="Review an outline of the dashboard before any queries run"
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 6,
+                fontSize: 13,
+                color: "var(--muted)",
+                whiteSpace: "nowrap",
+                cursor: "pointer",
+              }}
+            >
+              <input
+                type="checkbox"
+                checked={planFirst}
+                onChange={(e) => setPlanFirst(e.target.checked)}
+                disabled={isLoading}
+              />
+              Plan first
+            </label>
+          )}
           <button
             type="submit"
             disabled={isLoading || !prompt.trim() || !isConfigured}
@@ -2561,13 +3026,14 @@ function DashboardContent() {
               opacity: isLoading || !prompt.trim() || !isConfigured ? 0.5 : 1,
             }}
           >
-            {isLoading ? "Generating..." : "Generate"}
+            {isLoading ? "Generating..." : hasElements ? "Update" : planFirst ? "Plan" : "Generate"}
           </button>
           {hasElements && (
             <button
               type="button"
               onClick={() => {
                 setPrompt("");
+                setPendingPlan(null);
                 clear();
                 clearFilters();
               }}
@@ -2657,6 +3123,17 @@ function DashboardContent() {
         )}
       </form>
 
+      {pendingPlan && !hasElements && (
+        <PlanChecklist
+          key={pendingPlan.fullPrompt}
+          plan={pendingPlan.plan}
+          components={CHART_COMPONENT_TYPES.filter((type) => enabledCharts.has(type))}
+          onApprove={handleApprovePlan}
+          onCancel={() => setPendingPlan(null)}
+          disabled={isLoading}
+        />
+      )}
+
       {error && (
         <div
           style={{
@@ -2697,7 +3174,7 @@ function DashboardContent() {
       )}
 
       {/* Filter Bar */}
-      {filters.length > 0 && (
+      {(filters.length > 0 || queries.length > 0) && (
         <FilterBar
           onRefresh={() => {
             // Re-run queries with updated filter params (faster than re-running agent)
@@ -2705,6 +3182,8 @@ function DashboardContent() {
             rerunQueries(params);
           }}
           isRefreshing={isStreaming || isExecutingQueries}
+          canCrossFilter={queries.length > 0 && !!tree}
+          loadOptions={loadOptions}
         />
       )}
 
@@ -2743,6 +3222,11 @@ function DashboardContent() {
                   }}
                 >
                   {q.key}
+                  {truncatedQueries[q.key] && (
+                    <span style={{ marginLeft: 8, color: "var(--warning)" }}>
+                      ({describeTruncation(truncatedQueries[q.key]!)})
+                    </span>
+                  )}
                 </div>
                 <pre
                   style={{
@@ -2960,7 +3444,7 @@ function DashboardContent() {
           >
             <Renderer
               tree={filteredTree}
-              registry={componentRegistry}
+              registry={dashboardRegistry}
               loading={isLoading}
             />
           </ErrorBoundary>
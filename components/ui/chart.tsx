@@ -23,6 +23,7 @@ import {
   useDrillDownOptional,
   filterRowsByDimension,
 } from "@/lib/drill-down-context";
+import { useCrossFilterSelection } from "@/lib/filter-context";
 import {
   formatAxisValue,
   formatTooltipValue,
@@ -120,12 +121,15 @@ function BarItem({
   maxValue,
   onClick,
   isClickable,
+  dimmed = false,
 }: {
   label: string;
   value: number;
   maxValue: number;
   onClick?: () => void;
   isClickable: boolean;
+  /** Another item is the cross-filter selection */
+  dimmed?: boolean;
 }) {
   const [isHovered, setIsHovered] = useState(false);
 
@@ -135,6 +139,7 @@ function BarItem({
         display: "flex",
         alignItems: "center",
         gap: 12,
+        opacity: dimmed ? 0.35 : 1,
         cursor: isClickable ? "pointer" : "default",
         padding: "4px 8px",
         marginLeft: -8,
@@ -219,6 +224,7 @@ function VerticalBarItem({
   isCurrency,
   barRadius = 4,
   color,
+  dimmed = false,
 }: {
   x: number;
   width: number;
@@ -233,6 +239,8 @@ function VerticalBarItem({
   isCurrency: boolean;
   barRadius?: number;
   color?: string;
+  /** Another bar is the cross-filter selection */
+  dimmed?: boolean;
 }) {
   const barHeight = Math.max((value / maxValue) * chartHeight, 1); // Ensure minimum height for visibility
   const y = chartHeight - barHeight;
@@ -261,7 +269,7 @@ function VerticalBarItem({
         fill={color || "var(--foreground)"}
         style={{
           transition: "all 0.15s ease",
-          opacity: isHovered ? 1 : 0.85,
+          opacity: dimmed ? 0.3 : isHovered ? 1 : 0.85,
           filter: isHovered ? "brightness(1.2)" : undefined,
         }}
       />
@@ -375,10 +383,16 @@ export function Chart({ element, loading }: ComponentRenderProps) {
 
   const { data } = useData();
   const drillDown = useDrillDownOptional();
+  // Value selected by clicking this chart in cross-filter mode
+  const selection = useCrossFilterSelection(queryKey);
   const stylePreset = useStylePresetSafe();
   const queryData = getByPath(data, `/queries/${queryKey}`) as
     | Array<Record<string, unknown>>
     | undefined;
+  // Comparison mode: the same query over the comparison period
+  const comparisonData = getByPath(data, `/comparisons/${queryKey}`) as
+    | Array<Record<string, unknown>>
+    | undefined;
 
   // Get style values from preset or use defaults
   const chartStyle = useMemo(() => {
@@ -556,7 +570,18 @@ export function Chart({ element, loading }: ComponentRenderProps) {
     value: Number(row[effectiveValueColumn] ?? 0),
   }));
 
-  const maxValue = Math.max(...chartData.map((d) => d.value), 1);
+  // Line and area charts overlay the comparison period, matched by position
+  // (the first day of each period together, and so on)
+  const comparisonValues =
+    (effectiveType === "line" || effectiveType === "area") &&
+    Array.isArray(comparisonData) &&
+    comparisonData.length > 0
+      ? comparisonData
+          .slice(0, chartData.length)
+          .map((row) => Number(row[effectiveValueColumn] ?? 0))
+      : null;
+
+  const maxValue = Math.max(...chartData.map((d) => d.value), ...(comparisonValues ?? []), 1);
 
   // Determine if this chart type uses SVG (now includes vertical bar charts)
   const hasSvg = effectiveType !== "bar" || orientation === "vertical";
@@ -845,6 +870,7 @@ export function Chart({ element, loading }: ComponentRenderProps) {
                       isCurrency={isCurrency}
                       barRadius={chartStyle.barRadius}
                       color={chartStyle.colors[i % chartStyle.colors.length]}
+                      dimmed={selection !== null && item.label !== selection}
                     />
                   );
                 })}
@@ -921,6 +947,7 @@ export function Chart({ element, loading }: ComponentRenderProps) {
                 value={item.value}
                 maxValue={localMax}
                 isClickable={!!drillDown}
+                dimmed={selection !== null && item.label !== selection}
                 onClick={
                   drillDown ? () => handleDrillDown(item.label) : undefined
                 }
@@ -965,6 +992,14 @@ export function Chart({ element, loading }: ComponentRenderProps) {
 
       // Use smooth Catmull-Rom path
       const pathD = catmullRomPath(points);
+      const comparisonPathD = comparisonValues
+        ? catmullRomPath(
+            comparisonValues.map((value, i) => ({
+              x: padding.left + (i / (chartData.length - 1 || 1)) * chartWidth,
+              y: padding.top + chartHeight - (value / yMax) * chartHeight,
+            })),
+          )
+        : "";
 
       // Area path fills to bottom
       const lastPoint = points[points.length - 1];
@@ -1028,6 +1063,20 @@ export function Chart({ element, loading }: ComponentRenderProps) {
               <path d={areaPathD} fill={chartStyle.colors[0]} opacity={0.15} />
             )}
 
+            {/* Comparison period, dashed behind the current one */}
+            {comparisonPathD && (
+              <path
+                d={comparisonPathD}
+                fill="none"
+                stroke={chartStyle.colors[0]}
+                strokeWidth={1.5}
+                strokeDasharray="4 4"
+                strokeOpacity={0.6}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            )}
+
             {/* Smooth line path */}
             <path
               d={pathD}
@@ -1071,8 +1120,9 @@ export function Chart({ element, loading }: ComponentRenderProps) {
               points[hoveredPoint] &&
               (() => {
                 const p = points[hoveredPoint];
+                const comparisonValue = comparisonValues?.[hoveredPoint];
                 const tooltipWidth = 100;
-                const tooltipHeight = 36;
+                const tooltipHeight = comparisonValue !== undefined ? 50 : 36;
                 // Adjust tooltip position to stay within bounds
                 let tooltipX = p.x - tooltipWidth / 2;
                 if (tooltipX < padding.left) tooltipX = padding.left;
@@ -1114,6 +1164,17 @@ export function Chart({ element, loading }: ComponentRenderProps) {
                     >
                       {formatChartValue(p.data.value)}
                     </text>
+                    {comparisonValue !== undefined && (
+                      <text
+                        x={tooltipX + tooltipWidth / 2}
+                        y={tooltipY + 42}
+                        textAnchor="middle"
+                        fontSize={10}
+                        fill="var(--muted)"
+                      >
+                        vs {formatChartValue(comparisonValue)}
+                      </text>
+                    )}
                   </g>
                 );
               })()}
@@ -1187,6 +1248,7 @@ export function Chart({ element, loading }: ComponentRenderProps) {
                   fill={colors[i % colors.length]}
                   style={{
                     cursor: drillDown ? "pointer" : "default",
+                    opacity: selection !== null && d.label !== selection ? 0.3 : 1,
                     transition: "opacity 0.15s ease",
                   }}
                   onClick={() => drillDown && handleDrillDown(d.label)}
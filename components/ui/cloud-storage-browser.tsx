@@ -11,7 +11,7 @@ import {
   X,
   Check,
   AlertCircle,
-  Download,
+  Table,
 } from "lucide-react";
 import {
   useCloudStorage,
@@ -19,28 +19,29 @@ import {
   type S3Config,
   type GCSConfig,
 } from "@/lib/cloud-storage-context";
+import type { CloudTableRequest } from "@/lib/data-source-context";
 
 interface CloudStorageBrowserProps {
-  onFileSelect: (fileName: string, fileData: ArrayBuffer) => void;
+  /** Register the selected object or glob as a table; rejects with a user-facing error */
+  onTableSelect: (request: CloudTableRequest) => Promise<void>;
   onClose: () => void;
 }
 
+const QUERYABLE_EXTENSIONS = /\.(parquet|csv|ndjson|jsonl)$/i;
+
 /**
  * Cloud Storage Browser
  *
- * Allows users to browse S3 or GCS buckets and select Parquet files
- * to load into the dashboard generator.
+ * Allows users to browse S3 or GCS buckets and select Parquet, CSV or
+ * NDJSON files - or a glob over a folder - to query in place.
  */
-export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrowserProps) {
+export function CloudStorageBrowser({ onTableSelect, onClose }: CloudStorageBrowserProps) {
   const {
     provider,
     isConnected,
     isConnecting,
     connectionError,
-    s3Config,
-    setS3Config,
-    gcsConfig,
-    setGcsConfig,
+    connectionId,
     currentBucket,
     currentPath,
     files,
@@ -52,14 +53,16 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
   } = useCloudStorage();
 
   const [selectedProvider, setSelectedProvider] = useState<CloudProvider>("s3");
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [registerError, setRegisterError] = useState<string | null>(null);
+  const [globPattern, setGlobPattern] = useState("*.parquet");
 
   // S3 form state
   const [s3Form, setS3Form] = useState<S3Config>({
     accessKeyId: "",
     secretAccessKey: "",
     region: "us-east-1",
+    endpoint: "",
   });
 
   // GCS form state
@@ -76,16 +79,13 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
   }, [isConnected, currentBucket, currentPath, refreshFiles]);
 
   const handleConnect = async () => {
-    if (selectedProvider === "s3") {
-      setS3Config(s3Form);
-    } else {
-      setGcsConfig(gcsForm);
+    const config =
+      selectedProvider === "s3" ? { ...s3Form, endpoint: s3Form.endpoint || undefined } : gcsForm;
+    if (await connect(selectedProvider, config)) {
+      // The server holds the credentials now
+      setS3Form((form) => ({ ...form, secretAccessKey: "" }));
+      setGcsForm((form) => ({ ...form, keyFile: "" }));
     }
-
-    // Small delay to ensure config is set
-    setTimeout(async () => {
-      await connect(selectedProvider);
-    }, 100);
   };
 
   const handleFileClick = async (file: { key: string; name: string; isFolder: boolean }) => {
@@ -97,46 +97,23 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
         // This is a folder within a bucket
         navigateTo(file.key);
       }
-    } else if (file.name.toLowerCase().endsWith(".parquet")) {
-      // Download and load the parquet file
-      setIsDownloading(true);
-      setDownloadError(null);
-
-      try {
-        const config = provider === "s3" ? s3Config : gcsConfig;
-
-        const response = await fetch("/api/cloud-storage/download", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            provider,
-            config,
-            bucket: currentBucket,
-            key: file.key,
-          }),
-        });
-
-        if (!response.ok) {
-          const data = await response.json();
-          throw new Error(data.error || "Download failed");
-        }
-
-        const { fileName, data } = await response.json();
+    } else if (QUERYABLE_EXTENSIONS.test(file.name)) {
+      await registerTable(file.key);
+    }
+  };
 
-        // Convert base64 to ArrayBuffer
-        const binaryString = atob(data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
+  const registerTable = async (pattern: string) => {
+    if (!provider || !currentBucket || !connectionId) return;
 
-        onFileSelect(fileName, bytes.buffer);
-        onClose();
-      } catch (error) {
-        setDownloadError(error instanceof Error ? error.message : "Download failed");
-      } finally {
-        setIsDownloading(false);
-      }
+    setIsRegistering(true);
+    setRegisterError(null);
+    try {
+      await onTableSelect({ provider, connectionId, bucket: currentBucket, pattern });
+      onClose();
+    } catch (error) {
+      setRegisterError(error instanceof Error ? error.message : "Failed to load table");
+    } finally {
+      setIsRegistering(false);
     }
   };
 
@@ -325,6 +302,29 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
                     <option value="ap-southeast-1">Asia Pacific (Singapore)</option>
                   </select>
                 </div>
+                <div>
+                  <label style={{ display: "block", fontSize: 12, fontWeight: 500, color: "var(--muted)", marginBottom: 6 }}>
+                    Endpoint - Optional
+                  </label>
+                  <input
+                    type="text"
+                    value={s3Form.endpoint ?? ""}
+                    onChange={(e) => setS3Form({ ...s3Form, endpoint: e.target.value })}
+                    placeholder="http://localhost:9000"
+                    style={{
+                      width: "100%",
+                      padding: "10px 12px",
+                      background: "var(--background)",
+                      border: "1px solid var(--border)",
+                      borderRadius: "var(--radius)",
+                      fontSize: 14,
+                      color: "var(--foreground)",
+                    }}
+                  />
+                  <p style={{ margin: "8px 0 0 0", fontSize: 11, color: "var(--muted)" }}>
+                    For S3-compatible stores such as MinIO
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -613,8 +613,8 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
           ) : (
             <div style={{ display: "flex", flexDirection: "column" }}>
               {files.map((file) => {
-                const isParquet = file.name.toLowerCase().endsWith(".parquet");
-                const isClickable = file.isFolder || isParquet;
+                const isQueryable = QUERYABLE_EXTENSIONS.test(file.name);
+                const isClickable = file.isFolder || isQueryable;
 
                 return (
                   <button
@@ -637,7 +637,7 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
                     {file.isFolder ? (
                       <Folder size={18} style={{ color: "var(--primary)" }} />
                     ) : (
-                      <FileText size={18} style={{ color: isParquet ? "var(--success)" : "var(--muted)" }} />
+                      <FileText size={18} style={{ color: isQueryable ? "var(--success)" : "var(--muted)" }} />
                     )}
                     <div style={{ flex: 1, minWidth: 0 }}>
                       <div
@@ -661,8 +661,8 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
                     {file.isFolder && (
                       <ChevronRight size={16} style={{ color: "var(--muted)" }} />
                     )}
-                    {isParquet && !file.isFolder && (
-                      <Download size={16} style={{ color: "var(--success)" }} />
+                    {isQueryable && !file.isFolder && (
+                      <Table size={16} style={{ color: "var(--success)" }} />
                     )}
                   </button>
                 );
@@ -671,8 +671,58 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
           )}
         </div>
 
-        {/* Download error */}
-        {downloadError && (
+        {/* Glob pattern over the current folder */}
+        {currentBucket && (
+          <div
+            style={{
+              padding: "12px 20px",
+              borderTop: "1px solid var(--border)",
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <span style={{ fontSize: 13, color: "var(--muted)", whiteSpace: "nowrap" }}>
+              {currentPath || "/"}
+            </span>
+            <input
+              type="text"
+              value={globPattern}
+              onChange={(e) => setGlobPattern(e.target.value)}
+              placeholder="2025-*/*.parquet"
+              style={{
+                flex: 1,
+                padding: "6px 10px",
+                background: "var(--background)",
+                border: "1px solid var(--border)",
+                borderRadius: "var(--radius)",
+                fontSize: 13,
+                fontFamily: "monospace",
+                color: "var(--foreground)",
+              }}
+            />
+            <button
+              onClick={() => registerTable(currentPath + globPattern)}
+              disabled={!globPattern || isRegistering}
+              style={{
+                padding: "6px 12px",
+                background: "var(--foreground)",
+                color: "var(--background)",
+                border: "none",
+                borderRadius: "var(--radius)",
+                fontSize: 13,
+                fontWeight: 500,
+                cursor: globPattern && !isRegistering ? "pointer" : "default",
+                opacity: globPattern && !isRegistering ? 1 : 0.5,
+              }}
+            >
+              Load as one table
+            </button>
+          </div>
+        )}
+
+        {/* Registration error */}
+        {registerError && (
           <div
             style={{
               padding: "12px 20px",
@@ -686,12 +736,12 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
             }}
           >
             <AlertCircle size={16} />
-            {downloadError}
+            {registerError}
           </div>
         )}
 
-        {/* Downloading indicator */}
-        {isDownloading && (
+        {/* Loading indicator */}
+        {isRegistering && (
           <div
             style={{
               padding: "12px 20px",
@@ -705,7 +755,7 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
             }}
           >
             <RefreshCw size={14} style={{ animation: "spin 1s linear infinite" }} />
-            Downloading file...
+            Reading file metadata...
           </div>
         )}
 
@@ -719,7 +769,8 @@ export function CloudStorageBrowser({ onFileSelect, onClose }: CloudStorageBrows
           }}
         >
           <Check size={12} style={{ verticalAlign: "middle", marginRight: 6, color: "var(--success)" }} />
-          Click on a <strong>.parquet</strong> file to load it
+          Click a <strong>.parquet</strong>, <strong>.csv</strong> or <strong>.ndjson</strong> file to
+          query it in place, or load every file matching a pattern as one table
         </div>
       </div>
     </div>
@@ -41,6 +41,8 @@ interface EncodingShelfProps {
     user: string;
     password: string;
     ssl: boolean;
+    /** Server-side connection profile; sent instead of the config when set */
+    connectionId?: string;
   };
   /** Columns from file source (alternative to fetching schema) */
   fileColumns?: Array<{ name: string; type: string }>;
@@ -89,7 +91,9 @@ export function EncodingShelf({
       const response = await fetch("/api/schema", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dbConfig }),
+        body: JSON.stringify(
+          dbConfig.connectionId ? { connectionId: dbConfig.connectionId } : { dbConfig },
+        ),
       });
 
       if (!response.ok) {
@@ -1,39 +1,112 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
-import { Filter, RefreshCw, Calendar, ChevronDown, X } from "lucide-react";
+import { useState, useCallback, useRef, useEffect, useMemo, type CSSProperties, type ReactNode } from "react";
+import { useData } from "@json-render/react";
+import { getByPath } from "@json-render/core";
+import { Filter, RefreshCw, Calendar, ChevronDown, X, MousePointerClick, Search } from "lucide-react";
 import {
   useFilters,
   DATE_PRESETS,
+  dateRangeValue,
   type FilterDefinition,
   type DateRangeValue,
+  type NumberRangeValue,
 } from "@/lib/filter-context";
+import { describeRelativeDate, isRelativeDateExpression } from "@/lib/relative-dates";
+import type { FilterOptionsPage } from "@/lib/filter-options";
+import type { CrossFilter } from "@/lib/cross-filter";
+import { COMPARISON_MODES, isComparisonMode } from "@/lib/comparison";
 
 interface FilterBarProps {
   onRefresh?: () => void;
   isRefreshing?: boolean;
+  /** Offer the cross-filter mode toggle (the dashboard has charts to click) */
+  canCrossFilter?: boolean;
+  /** Loads options of dropdowns that have an optionsQueryKey */
+  loadOptions?: LoadFilterOptions;
 }
 
 /**
  * Internal filter input component for FilterBar
  */
-function FilterInput({ filter }: { filter: FilterDefinition }) {
-  if (filter.type === "date-range") {
-    return <DateRangeInput filter={filter} />;
+function FilterInput({
+  filter,
+  loadOptions,
+}: {
+  filter: FilterDefinition;
+  loadOptions?: LoadFilterOptions;
+}) {
+  switch (filter.type) {
+    case "date-range":
+      return <DateRangeInput filter={filter} />;
+    case "range":
+      return <RangeInput filter={filter} />;
+    case "search":
+      return <SearchInput filter={filter} />;
+    case "toggle":
+      return <ToggleInput filter={filter} />;
+    default:
+      return <DropdownInput filter={filter} loadOptions={loadOptions} />;
   }
-  return <DropdownInput filter={filter} />;
 }
 
+function FilterLabel({ children }: { children: ReactNode }) {
+  return (
+    <label
+      style={{
+        display: "block",
+        fontSize: 12,
+        fontWeight: 500,
+        color: "var(--muted)",
+        marginBottom: 4,
+      }}
+    >
+      {children}
+    </label>
+  );
+}
+
+const inputStyle: CSSProperties = {
+  padding: "6px 8px",
+  background: "var(--card)",
+  border: "1px solid var(--border)",
+  borderRadius: "var(--radius)",
+  fontSize: 13,
+  color: "var(--foreground)",
+};
+
 function DateRangeInput({ filter }: { filter: FilterDefinition }) {
   const { values, setValue } = useFilters();
   const [showPresets, setShowPresets] = useState(false);
-  const [activePreset, setActivePreset] = useState<string>(
-    filter.defaultPreset || "last30days",
-  );
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   const value = values[filter.id] as DateRangeValue | null;
 
+  // The presets, plus the filter's own relative date expression when it isn't one of them
+  const presets = useMemo(() => {
+    const list: Array<{ label: string; expression: string | null }> = Object.values(DATE_PRESETS).map(
+      (preset) => ({ label: preset.label, expression: preset.expression }),
+    );
+    const own = filter.defaultPreset;
+    if (
+      own &&
+      !(own in DATE_PRESETS) &&
+      isRelativeDateExpression(own) &&
+      !list.some((preset) => preset.expression === own)
+    ) {
+      list.unshift({ label: describeRelativeDate(own), expression: own });
+    }
+    return list;
+  }, [filter.defaultPreset]);
+
+  const isCustom = !!value && !value.relative;
+  const activeLabel = value?.relative
+    ? (presets.find((preset) => preset.expression === value.relative)?.label ??
+      describeRelativeDate(value.relative))
+    : value
+      ? DATE_PRESETS.custom.label
+      : "Select";
+
   // Close dropdown on click outside
   useEffect(() => {
     if (!showPresets) return;
@@ -49,40 +122,34 @@ function DateRangeInput({ filter }: { filter: FilterDefinition }) {
   }, [showPresets]);
 
   const handlePresetSelect = useCallback(
-    (presetKey: keyof typeof DATE_PRESETS) => {
-      const range = DATE_PRESETS[presetKey].getRange();
-      setValue(filter.id, range);
-      setActivePreset(presetKey);
+    (expression: string | null) => {
+      if (expression) {
+        setValue(filter.id, dateRangeValue(expression));
+      } else {
+        // Custom: keep the dates shown, but stop following the expression
+        const current = value ?? dateRangeValue();
+        setValue(filter.id, { from: current.from, to: current.to });
+      }
       setShowPresets(false);
     },
-    [filter.id, setValue],
+    [filter.id, value, setValue],
   );
 
   const handleDateChange = useCallback(
     (field: "from" | "to", dateValue: string) => {
       const current = value || { from: "", to: "" };
-      setValue(filter.id, { ...current, [field]: dateValue });
-      setActivePreset("custom");
+      setValue(filter.id, { from: current.from, to: current.to, [field]: dateValue });
     },
     [filter.id, value, setValue],
   );
 
   return (
     <div ref={dropdownRef} style={{ position: "relative" }}>
-      <label
-        style={{
-          display: "block",
-          fontSize: 12,
-          fontWeight: 500,
-          color: "var(--muted)",
-          marginBottom: 4,
-        }}
-      >
-        {filter.label}
-      </label>
+      <FilterLabel>{filter.label}</FilterLabel>
       <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
         <button
           onClick={() => setShowPresets(!showPresets)}
+          title={value ? `${value.from} to ${value.to}` : undefined}
           style={{
             display: "flex",
             alignItems: "center",
@@ -97,41 +164,24 @@ function DateRangeInput({ filter }: { filter: FilterDefinition }) {
           }}
         >
           <Calendar size={14} />
-          <span>
-            {DATE_PRESETS[activePreset as keyof typeof DATE_PRESETS]?.label ||
-              "Select"}
-          </span>
+          <span>{activeLabel}</span>
           <ChevronDown size={14} />
         </button>
 
-        {activePreset === "custom" && value && (
+        {isCustom && value && (
           <div style={{ display: "flex", gap: 4, alignItems: "center" }}>
             <input
               type="date"
               value={value.from}
               onChange={(e) => handleDateChange("from", e.target.value)}
-              style={{
-                padding: "6px 8px",
-                background: "var(--card)",
-                border: "1px solid var(--border)",
-                borderRadius: "var(--radius)",
-                fontSize: 13,
-                color: "var(--foreground)",
-              }}
+              style={inputStyle}
             />
             <span style={{ color: "var(--muted)", fontSize: 12 }}>to</span>
             <input
               type="date"
               value={value.to}
               onChange={(e) => handleDateChange("to", e.target.value)}
-              style={{
-                padding: "6px 8px",
-                background: "var(--card)",
-                border: "1px solid var(--border)",
-                borderRadius: "var(--radius)",
-                fontSize: 13,
-                color: "var(--foreground)",
-              }}
+              style={inputStyle}
             />
           </div>
         )}
@@ -149,38 +199,343 @@ function DateRangeInput({ filter }: { filter: FilterDefinition }) {
             borderRadius: "var(--radius)",
             boxShadow: "0 4px 12px rgba(0, 0, 0, 0.15)",
             zIndex: 100,
-            minWidth: 160,
+            minWidth: 180,
           }}
         >
-          {Object.entries(DATE_PRESETS).map(([key, preset]) => (
-            <button
-              key={key}
-              onClick={() =>
-                handlePresetSelect(key as keyof typeof DATE_PRESETS)
-              }
-              style={{
-                display: "block",
-                width: "100%",
-                padding: "8px 12px",
-                background:
-                  activePreset === key ? "var(--border)" : "transparent",
-                border: "none",
-                textAlign: "left",
-                fontSize: 13,
-                color: "var(--foreground)",
-                cursor: "pointer",
-              }}
-            >
-              {preset.label}
-            </button>
-          ))}
+          {presets.map((preset) => {
+            const isActive = preset.expression ? value?.relative === preset.expression : isCustom;
+            return (
+              <button
+                key={preset.expression ?? "custom"}
+                onClick={() => handlePresetSelect(preset.expression)}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  padding: "8px 12px",
+                  background: isActive ? "var(--border)" : "transparent",
+                  border: "none",
+                  textAlign: "left",
+                  fontSize: 13,
+                  color: "var(--foreground)",
+                  cursor: "pointer",
+                }}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
         </div>
       )}
     </div>
   );
 }
 
-function DropdownInput({ filter }: { filter: FilterDefinition }) {
+/**
+ * Min and max from a range filter's lookup query: columns named min and
+ * max, or else the first two numeric values of the first row.
+ */
+function rangeBounds(rows: unknown): NumberRangeValue | null {
+  const row = Array.isArray(rows) ? (rows[0] as Record<string, unknown> | undefined) : undefined;
+  if (!row) return null;
+  const entries = Object.entries(row);
+  const named = (name: string) => entries.find(([key]) => key.toLowerCase() === name)?.[1];
+  const numbers = entries.map(([, value]) => Number(value)).filter((value) => Number.isFinite(value));
+  const min = Number(named("min") ?? numbers[0]);
+  const max = Number(named("max") ?? numbers[1]);
+  return Number.isFinite(min) && Number.isFinite(max) && min < max ? { min, max } : null;
+}
+
+function RangeInput({ filter }: { filter: FilterDefinition }) {
+  const { values, setValue } = useFilters();
+  const { data } = useData();
+  const bounds = filter.boundsQueryKey
+    ? rangeBounds(getByPath(data, `/queries/${filter.boundsQueryKey}`))
+    : null;
+
+  const value = values[filter.id] as NumberRangeValue | null;
+  const current = value ?? bounds;
+
+  const handleChange = useCallback(
+    (field: "min" | "max", input: string) => {
+      const number = Number(input);
+      if (input === "" || !Number.isFinite(number)) return;
+      const base = value ?? bounds ?? { min: number, max: number };
+      const next = { ...base, [field]: number };
+      // Keep the handles from crossing
+      if (next.min > next.max) {
+        if (field === "min") next.max = next.min;
+        else next.min = next.max;
+      }
+      // Covering the whole column is the same as no filter
+      const isFull = bounds && next.min <= bounds.min && next.max >= bounds.max;
+      setValue(filter.id, isFull ? null : next);
+    },
+    [filter.id, value, bounds, setValue],
+  );
+
+  return (
+    <div>
+      <FilterLabel>{filter.label}</FilterLabel>
+      <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+        {(["min", "max"] as const).map((field) => (
+          <div key={field} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+            {bounds && (
+              <input
+                type="range"
+                aria-label={`${filter.label} ${field}`}
+                min={bounds.min}
+                max={bounds.max}
+                step={filter.step ?? "any"}
+                value={current?.[field] ?? bounds[field]}
+                onChange={(e) => handleChange(field, e.target.value)}
+                style={{ width: 90 }}
+              />
+            )}
+            <input
+              type="number"
+              aria-label={`${filter.label} ${field}`}
+              placeholder={field === "min" ? "Min" : "Max"}
+              step={filter.step ?? "any"}
+              value={value?.[field] ?? ""}
+              onChange={(e) => handleChange(field, e.target.value)}
+              style={{ ...inputStyle, width: 80 }}
+            />
+            {field === "min" && <span style={{ color: "var(--muted)", fontSize: 12 }}>to</span>}
+          </div>
+        ))}
+        {value && (
+          <button
+            onClick={() => setValue(filter.id, null)}
+            title="Clear filter"
+            style={{
+              display: "flex",
+              padding: 4,
+              background: "transparent",
+              border: "none",
+              color: "var(--muted)",
+              cursor: "pointer",
+            }}
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Compare the date-filtered queries against another period. Takes effect
+ * right away, like cross filters.
+ */
+function ComparisonInput() {
+  const { comparison, setComparison } = useFilters();
+
+  return (
+    <div>
+      <FilterLabel>Compare to</FilterLabel>
+      <select
+        value={comparison ?? ""}
+        onChange={(e) => setComparison(isComparisonMode(e.target.value) ? e.target.value : null)}
+        style={inputStyle}
+      >
+        <option value="">No comparison</option>
+        {Object.entries(COMPARISON_MODES).map(([mode, label]) => (
+          <option key={mode} value={mode}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+function SearchInput({ filter }: { filter: FilterDefinition }) {
+  const { values, setValue } = useFilters();
+  const value = values[filter.id];
+
+  return (
+    <div>
+      <FilterLabel>{filter.label}</FilterLabel>
+      <div style={{ position: "relative", display: "flex", alignItems: "center" }}>
+        <Search
+          size={14}
+          style={{ position: "absolute", left: 8, color: "var(--muted)", pointerEvents: "none" }}
+        />
+        <input
+          type="search"
+          value={typeof value === "string" ? value : ""}
+          placeholder="Contains..."
+          onChange={(e) => setValue(filter.id, e.target.value || null)}
+          style={{ ...inputStyle, paddingLeft: 28, width: 180 }}
+        />
+      </div>
+    </div>
+  );
+}
+
+function ToggleInput({ filter }: { filter: FilterDefinition }) {
+  const { values, setValue } = useFilters();
+  const isOn = values[filter.id] === "true";
+
+  return (
+    <div>
+      <FilterLabel>{filter.label}</FilterLabel>
+      <button
+        role="switch"
+        aria-checked={isOn}
+        onClick={() => setValue(filter.id, isOn ? null : "true")}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+          padding: "6px 12px",
+          background: "var(--card)",
+          border: "1px solid var(--border)",
+          borderRadius: "var(--radius)",
+          fontSize: 13,
+          color: "var(--foreground)",
+          cursor: "pointer",
+        }}
+      >
+        <span
+          style={{
+            position: "relative",
+            width: 28,
+            height: 16,
+            borderRadius: 8,
+            background: isOn ? "var(--foreground)" : "var(--border)",
+            transition: "background 0.15s ease",
+          }}
+        >
+          <span
+            style={{
+              position: "absolute",
+              top: 2,
+              left: isOn ? 14 : 2,
+              width: 12,
+              height: 12,
+              borderRadius: 6,
+              background: "var(--background)",
+              transition: "left 0.15s ease",
+            }}
+          />
+        </span>
+        <span>{isOn ? "Only" : "All"}</span>
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Loads a page of a dropdown's options from its lookup query
+ */
+export type LoadFilterOptions = (
+  filter: FilterDefinition,
+  request: {
+    /** Values of the filter's parent filters */
+    filterParams: Record<string, string>;
+    search?: string;
+    offset?: number;
+    limit?: number;
+    selected?: string[];
+  },
+) => Promise<FilterOptionsPage>;
+
+/** Wait after a keystroke before searching options on the server */
+const OPTIONS_SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Options of a dropdown with an optionsQueryKey, loaded while it is open and
+ * searched on the server. When a parent filter changes, selected values the
+ * new parent values rule out are dropped.
+ */
+function useRemoteOptions(
+  filter: FilterDefinition,
+  loadOptions: LoadFilterOptions | undefined,
+  isOpen: boolean,
+  selectedValues: string[],
+) {
+  const { getFilterParams, setValue } = useFilters();
+  const [options, setOptions] = useState<string[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  // Only the latest request's answer is used
+  const requestIdRef = useRef(0);
+  const enabled = !!filter.optionsQueryKey && !!loadOptions;
+
+  // As a string, so effects re-run only when a parent's value changes
+  const parentKey = JSON.stringify(getFilterParams(filter.parentFilterIds ?? []));
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), OPTIONS_SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    if (!enabled || !isOpen) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    loadOptions!(filter, { filterParams: JSON.parse(parentKey), search: debouncedSearch })
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setOptions(page.options);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => console.error(`Failed to load options for filter ${filter.id}:`, err))
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [enabled, isOpen, debouncedSearch, parentKey, filter, loadOptions]);
+
+  // Prune selections the new parent values rule out
+  const selectedRef = useRef(selectedValues);
+  useEffect(() => {
+    selectedRef.current = selectedValues;
+  });
+  const lastParentKeyRef = useRef(parentKey);
+  useEffect(() => {
+    if (lastParentKeyRef.current === parentKey) return;
+    lastParentKeyRef.current = parentKey;
+    const selected = selectedRef.current;
+    if (!enabled || selected.length === 0) return;
+    loadOptions!(filter, { filterParams: JSON.parse(parentKey), selected, limit: 1 })
+      .then((page) => {
+        const allowed = page.selected;
+        if (!allowed || allowed.length === selected.length) return;
+        setValue(filter.id, filter.multiSelect ? allowed : (allowed[0] ?? null));
+      })
+      .catch((err) => console.error(`Failed to check selections of filter ${filter.id}:`, err));
+  }, [enabled, parentKey, filter, loadOptions, setValue]);
+
+  const loadMore = useCallback(() => {
+    if (!enabled) return;
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    loadOptions!(filter, { filterParams: JSON.parse(parentKey), search: debouncedSearch, offset: options.length })
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setOptions((prev) => [...prev, ...page.options]);
+        setHasMore(page.hasMore);
+      })
+      .catch((err) => console.error(`Failed to load options for filter ${filter.id}:`, err))
+      .finally(() => {
+        if (requestId === requestIdRef.current) setLoading(false);
+      });
+  }, [enabled, filter, loadOptions, parentKey, debouncedSearch, options.length]);
+
+  return { enabled, options, hasMore, loading, search, setSearch, loadMore };
+}
+
+function DropdownInput({
+  filter,
+  loadOptions,
+}: {
+  filter: FilterDefinition;
+  loadOptions?: LoadFilterOptions;
+}) {
   const { values, setValue } = useFilters();
   const [isOpen, setIsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -206,7 +561,8 @@ function DropdownInput({ filter }: { filter: FilterDefinition }) {
     : typeof value === "string"
       ? [value]
       : [];
-  const options = filter.options || [];
+  const remote = useRemoteOptions(filter, loadOptions, isOpen, selectedValues);
+  const options = remote.enabled ? remote.options : filter.options || [];
 
   const handleSelect = useCallback(
     (option: string) => {
@@ -312,6 +668,16 @@ function DropdownInput({ filter }: { filter: FilterDefinition }) {
             overflowY: "auto",
           }}
         >
+          {remote.enabled && (
+            <input
+              type="search"
+              value={remote.search}
+              placeholder="Search..."
+              autoFocus
+              onChange={(e) => remote.setSearch(e.target.value)}
+              style={{ ...inputStyle, margin: 6, width: "calc(100% - 12px)", boxSizing: "border-box" }}
+            />
+          )}
           {/* "All" option for single-select dropdowns */}
           {!filter.multiSelect && (
             <button
@@ -402,6 +768,25 @@ function DropdownInput({ filter }: { filter: FilterDefinition }) {
               </button>
             );
           })}
+          {remote.enabled && (remote.loading || remote.hasMore || options.length === 0) && (
+            <button
+              onClick={remote.loadMore}
+              disabled={remote.loading || !remote.hasMore}
+              style={{
+                display: "block",
+                width: "100%",
+                padding: "8px 12px",
+                background: "transparent",
+                border: "none",
+                textAlign: "left",
+                fontSize: 12,
+                color: "var(--muted)",
+                cursor: remote.hasMore && !remote.loading ? "pointer" : "default",
+              }}
+            >
+              {remote.loading ? "Loading..." : remote.hasMore ? "Load more" : "No matches"}
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -409,12 +794,61 @@ function DropdownInput({ filter }: { filter: FilterDefinition }) {
 }
 
 /**
- * Filter bar component - container for dashboard filters
+ * Chip for a chart segment selected in cross-filter mode
  */
-export function FilterBar({ onRefresh, isRefreshing }: FilterBarProps) {
-  const { filters, clearValues } = useFilters();
+function CrossFilterChip({ filter }: { filter: CrossFilter }) {
+  const { removeCrossFilter } = useFilters();
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 6,
+        marginBottom: 6,
+        padding: "4px 6px 4px 10px",
+        background: "var(--background)",
+        border: "1px solid var(--border)",
+        borderRadius: 999,
+        fontSize: 13,
+      }}
+      title={filter.sourceTitle ? `Selected in "${filter.sourceTitle}"` : undefined}
+    >
+      <span style={{ color: "var(--muted)" }}>{filter.column}:</span>
+      <span style={{ fontWeight: 500 }}>{String(filter.value)}</span>
+      <button
+        onClick={() => removeCrossFilter(filter.sourceQueryKey)}
+        aria-label={`Remove ${filter.column} cross-filter`}
+        style={{
+          display: "flex",
+          padding: 2,
+          background: "transparent",
+          border: "none",
+          color: "var(--muted)",
+          cursor: "pointer",
+        }}
+      >
+        <X size={12} />
+      </button>
+    </div>
+  );
+}
 
-  if (filters.length === 0) {
+/**
+ * Filter bar component - container for dashboard filters and cross-filters
+ */
+export function FilterBar({ onRefresh, isRefreshing, canCrossFilter, loadOptions }: FilterBarProps) {
+  const {
+    filters,
+    clearValues,
+    crossFilterMode,
+    setCrossFilterMode,
+    crossFilters,
+    removeCrossFilter,
+  } = useFilters();
+  const hasDateRange = filters.some((filter) => filter.type === "date-range");
+
+  if (filters.length === 0 && crossFilters.length === 0 && !canCrossFilter) {
     return null;
   }
 
@@ -448,15 +882,49 @@ export function FilterBar({ onRefresh, isRefreshing }: FilterBarProps) {
       </div>
 
       {filters.map((filter) => (
-        <FilterInput key={filter.id} filter={filter} />
+        <FilterInput key={filter.id} filter={filter} loadOptions={loadOptions} />
+      ))}
+
+      {hasDateRange && <ComparisonInput />}
+
+      {crossFilters.map((filter) => (
+        <CrossFilterChip key={filter.sourceQueryKey} filter={filter} />
       ))}
 
       <div style={{ flex: 1 }} />
 
       <div style={{ display: "flex", gap: 8, paddingBottom: 6 }}>
-        {filters.length > 0 && (
+        {(canCrossFilter || crossFilterMode) && (
+          <button
+            onClick={() => setCrossFilterMode(!crossFilterMode)}
+            aria-pressed={crossFilterMode}
+            title="Click a bar, slice, region or tile to filter the rest of the dashboard"
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 6,
+              padding: "6px 12px",
+              background: crossFilterMode ? "var(--foreground)" : "transparent",
+              border: "1px solid var(--border)",
+              borderRadius: "var(--radius)",
+              fontSize: 13,
+              color: crossFilterMode ? "var(--background)" : "var(--muted)",
+              cursor: "pointer",
+            }}
+          >
+            <MousePointerClick size={14} />
+            <span>Cross-filter</span>
+          </button>
+        )}
+
+        {(filters.length > 0 || crossFilters.length > 0) && (
           <button
-            onClick={clearValues}
+            onClick={() => {
+              clearValues();
+              for (const filter of crossFilters) {
+                removeCrossFilter(filter.sourceQueryKey);
+              }
+            }}
             style={{
               padding: "6px 12px",
               background: "transparent",
@@ -471,7 +939,7 @@ export function FilterBar({ onRefresh, isRefreshing }: FilterBarProps) {
           </button>
         )}
 
-        {onRefresh && (
+        {onRefresh && filters.length > 0 && (
           <button
             onClick={onRefresh}
             disabled={isRefreshing}
@@ -510,12 +978,16 @@ export function FilterBar({ onRefresh, isRefreshing }: FilterBarProps) {
 export function createFiltersFromSpec(
   spec: Array<{
     id: string;
-    type: "date-range" | "dropdown";
+    type: FilterDefinition["type"];
     label: string;
     column: string;
     options?: string[];
     multiSelect?: boolean;
     defaultPreset?: string;
+    boundsQueryKey?: string;
+    step?: number;
+    optionsQueryKey?: string;
+    parentFilterIds?: string[];
   }>,
 ): FilterDefinition[] {
   return spec.map((f) => ({
@@ -525,6 +997,10 @@ export function createFiltersFromSpec(
     column: f.column,
     options: f.options,
     multiSelect: f.multiSelect,
-    defaultPreset: f.defaultPreset as FilterDefinition["defaultPreset"],
+    defaultPreset: f.defaultPreset,
+    boundsQueryKey: f.boundsQueryKey,
+    step: f.step,
+    optionsQueryKey: f.optionsQueryKey,
+    parentFilterIds: f.parentFilterIds,
   }));
 }
@@ -16,6 +16,7 @@ import {
   removeFromHistory,
   clearHistory,
   formatTimestamp,
+  formatUsage,
   type HistoryEntry,
 } from "@/lib/query-history";
 
@@ -345,6 +346,14 @@ export function HistoryPanel({
                       <span>{formatTimestamp(entry.timestamp)}</span>
                       <span>•</span>
                       <span>{entry.dbName}</span>
+                      {entry.usage && (
+                        <>
+                          <span>•</span>
+                          <span title={`${entry.usage.model} · ${entry.usage.steps} steps · ${entry.usage.toolCalls} tool calls`}>
+                            {formatUsage(entry.usage)}
+                          </span>
+                        </>
+                      )}
                     </div>
                   </div>
 
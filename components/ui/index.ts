@@ -30,6 +30,7 @@ export { Treemap } from "./treemap";
 export { WaterfallChart } from "./waterfall";
 export { RadarChart } from "./radar";
 export { BulletChart } from "./bullet";
+export { ResultScopeBadge, withResultScope, type ResultScope } from "./result-scope";
 
 import { Alert } from "./alert";
 import { Badge } from "./badge";
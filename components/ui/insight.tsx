@@ -1,19 +1,94 @@
 "use client";
 
-import { type ComponentRenderProps } from "@json-render/react";
+import { useEffect, useMemo, useState } from "react";
+import { type ComponentRenderProps, useData } from "@json-render/react";
+import { getByPath } from "@json-render/core";
 import { Lightbulb, TrendingUp, TrendingDown, AlertCircle, Info } from "lucide-react";
+import { describeResult, factsToText, insightTypeFor, type InsightType, type ResultFacts } from "@/lib/insights";
+import { useModelSettingsOptional } from "@/lib/model-settings-context";
+
+/** Wait for filter changes to settle before asking for a new insight */
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * The insight for the current results of `queryKeys`, recomputed whenever
+ * they change (e.g. after a filter change): the plain statistics at once,
+ * then the model's phrasing of them. Null when the results have nothing
+ * numeric to describe.
+ */
+function useLiveInsight(
+  queryKeys: string[] | null | undefined,
+  hint: string,
+  loading: boolean | undefined,
+): { content: string; type: InsightType } | null {
+  const { data } = useData();
+  const modelSettings = useModelSettingsOptional()?.getApiSettings() ?? null;
+  // The phrased insight, and the facts it was phrased from
+  const [phrased, setPhrased] = useState<{ factsJson: string; content: string; type: InsightType } | null>(null);
+
+  const facts = useMemo((): ResultFacts[] | null => {
+    if (!queryKeys || queryKeys.length === 0) return null;
+    const described = queryKeys.flatMap((key) => {
+      const rows = getByPath(data, `/queries/${key}`);
+      return Array.isArray(rows) ? [describeResult(key, rows as Record<string, unknown>[])] : [];
+    });
+    return described.some((result) => result.measure) ? described : null;
+  }, [data, queryKeys]);
+  const factsJson = facts ? JSON.stringify(facts) : null;
+  const settingsJson = JSON.stringify(modelSettings);
+
+  useEffect(() => {
+    if (!factsJson || loading) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/insights", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            facts: JSON.parse(factsJson),
+            hint,
+            modelSettings: JSON.parse(settingsJson) ?? undefined,
+          }),
+          signal: controller.signal,
+        });
+        if (!response.ok) return;
+        const next = (await response.json()) as { content?: string; type?: InsightType };
+        if (next.content) setPhrased({ factsJson, content: next.content, type: next.type ?? "default" });
+      } catch {
+        // Keep the last insight (or the agent's text) if this one fails
+      }
+    }, REFRESH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [factsJson, hint, loading, settingsJson]);
+
+  if (!facts) return null;
+  if (phrased?.factsJson === factsJson) return phrased;
+  const content = factsToText(facts);
+  return content ? { content, type: insightTypeFor(facts) } : null;
+}
 
 /**
  * Insight Component
  *
  * A beautifully styled component for displaying chart insights and analysis.
  * Features a gradient accent, icon, and refined typography.
+ *
+ * With queryKeys, the text is recomputed from those queries' current
+ * results (lib/insights.ts); the agent's content shows until then.
  */
-export function Insight({ element }: ComponentRenderProps) {
-  const { content, type = "default" } = element.props as {
+export function Insight({ element, loading }: ComponentRenderProps) {
+  const props = element.props as {
     content: string;
-    type?: "default" | "positive" | "negative" | "warning" | "info";
+    type?: InsightType | null;
+    queryKeys?: string[] | null;
   };
+  const live = useLiveInsight(props.queryKeys, props.content, loading);
+  const content = live?.content ?? props.content;
+  const type = live?.type ?? props.type ?? "default";
 
   // Theme configuration based on insight type
   const themes: Record<string, {
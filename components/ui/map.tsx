@@ -17,6 +17,7 @@ import {
   useDrillDownOptional,
   filterRowsByDimension,
 } from "@/lib/drill-down-context";
+import { useCrossFilterSelection } from "@/lib/filter-context";
 import {
   GEO_DATA_URLS,
   normalizeRegionName,
@@ -33,8 +34,23 @@ type MapLibreMap = {
   flyTo: (options: unknown) => void;
   getCanvas: () => HTMLCanvasElement;
   fitBounds: (bounds: [[number, number], [number, number]], options: { padding: number }) => void;
+  getLayer: (id: string) => unknown;
+  setPaintProperty: (layer: string, property: string, value: unknown) => void;
 };
 
+/**
+ * Region fill opacity: regions other than the cross-filter selection fade
+ */
+function regionOpacity(selectedRegion: string | null): unknown {
+  if (!selectedRegion) return 0.7;
+  return [
+    "case",
+    ["==", ["coalesce", ["get", "name"], ["get", "NAME"], ["get", "ADMIN"]], selectedRegion],
+    0.9,
+    0.2,
+  ];
+}
+
 /**
  * Fullscreen Map component - renders a separate map instance for fullscreen view
  */
@@ -325,6 +341,18 @@ export function MapChart({ element, loading }: ComponentRenderProps) {
     | Array<Record<string, unknown>>
     | undefined;
 
+  // Region selected by clicking in cross-filter mode, as a map feature name
+  const selection = useCrossFilterSelection(queryKey);
+  const selectedRegion = selection ? normalizeRegionName(selection) : null;
+  const selectedRegionRef = useRef(selectedRegion);
+  useEffect(() => {
+    selectedRegionRef.current = selectedRegion;
+    const map = mapRef.current;
+    if (map?.getLayer("regions-fill")) {
+      map.setPaintProperty("regions-fill", "fill-opacity", regionOpacity(selectedRegion));
+    }
+  }, [selectedRegion]);
+
   // Generate filename base
   const filenameBase = sanitizeFilename(title || queryKey || "map");
 
@@ -514,6 +542,8 @@ export function MapChart({ element, loading }: ComponentRenderProps) {
                   "fill-opacity": 0.7,
                 },
               });
+              // Highlight a region selected before the map loaded
+              map.setPaintProperty("regions-fill", "fill-opacity", regionOpacity(selectedRegionRef.current));
 
               map.addLayer({
                 id: "regions-outline",
@@ -578,16 +608,17 @@ export function MapChart({ element, loading }: ComponentRenderProps) {
                       feature.properties?.ADMIN ||
                       "";
                     if (name && queryData) {
-                      const rows = filterRowsByDimension(
-                        queryData,
-                        regionColumn || "region",
-                        name,
-                      );
+                      // The data may name the region differently (e.g. by state code)
+                      const column = regionColumn || "region";
+                      const rows = queryData.filter((row) => {
+                        const region = String(row[column] ?? "");
+                        return region === name || normalizeRegionName(region) === normalizeRegionName(name);
+                      });
                       drillDown.openDrillDown(
                         {
                           queryKey,
-                          dimension: regionColumn || "region",
-                          value: name,
+                          dimension: column,
+                          value: rows.length > 0 ? String(rows[0]![column]) : name,
                           labelColumn: regionColumn || "region",
                           valueColumn: valueColumn || "value",
                           chartType: "map-choropleth",
@@ -3,6 +3,97 @@
 import { type ComponentRenderProps } from "@json-render/react";
 import { useData } from "@json-render/react";
 import { getByPath } from "@json-render/core";
+import { periodChange } from "@/lib/comparison";
+
+/**
+ * The metric's value in query rows: the valuePath column of the first row,
+ * or its first value
+ */
+function metricValue(queryData: unknown, valuePath?: string | null): unknown {
+  if (!queryData) return undefined;
+  // queryData is always an array of rows from SQL results
+  const rows = queryData as unknown[];
+  const firstRow = rows[0] as Record<string, unknown> | undefined;
+
+  if (valuePath && firstRow) {
+    // valuePath is a column name - get it from the first row
+    return firstRow[valuePath];
+  } else if (firstRow && typeof firstRow === "object") {
+    // No valuePath - get first value from first row
+    return Object.values(firstRow)[0];
+  }
+  return undefined;
+}
+
+/** Convert string numbers to actual numbers */
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && !isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function formatValue(numValue: number, format?: string | null): string {
+  if (format === "currency") {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 2,
+    }).format(numValue);
+  } else if (format === "percent") {
+    return new Intl.NumberFormat("en-US", {
+      style: "percent",
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    }).format(numValue);
+  }
+  // Default number formatting with smart precision
+  // Use compact notation for large numbers, limit decimals for small numbers
+  if (Math.abs(numValue) >= 10000) {
+    return new Intl.NumberFormat("en-US", {
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(numValue);
+  } else if (Number.isInteger(numValue)) {
+    return new Intl.NumberFormat("en-US").format(numValue);
+  }
+  // Limit to 2 decimal places for decimal numbers
+  return new Intl.NumberFormat("en-US", {
+    maximumFractionDigits: 2,
+  }).format(numValue);
+}
+
+/**
+ * Change against the comparison period: the delta and the percent change
+ */
+function ComparisonBadges({ current, previous, format }: { current: number; previous: number; format?: string | null }) {
+  const { delta, percent } = periodChange(current, previous);
+  const color = delta > 0 ? "var(--success)" : delta < 0 ? "var(--destructive)" : "var(--muted)";
+  const sign = delta > 0 ? "+" : "";
+  const badgeStyle = {
+    padding: "2px 6px",
+    borderRadius: 4,
+    fontSize: 12,
+    fontWeight: 500,
+    color,
+    border: `1px solid ${color}`,
+  };
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 6, flexWrap: "wrap" }}>
+      <span style={badgeStyle}>
+        {sign}
+        {formatValue(delta, format)}
+      </span>
+      {percent !== null && (
+        <span style={badgeStyle}>
+          {sign}
+          {percent.toFixed(1)}%
+        </span>
+      )}
+      <span style={{ fontSize: 12, color: "var(--muted)" }}>vs {formatValue(previous, format)}</span>
+    </div>
+  );
+}
 
 export function Metric({ element, loading }: ComponentRenderProps) {
   const { label, queryKey, valuePath, format } = element.props as {
@@ -13,23 +104,9 @@ export function Metric({ element, loading }: ComponentRenderProps) {
   };
 
   const { data } = useData();
-  const queryData = getByPath(data, `/queries/${queryKey}`);
-
-  let rawValue: unknown;
-
-  if (queryData) {
-    // queryData is always an array of rows from SQL results
-    const rows = queryData as unknown[];
-    const firstRow = rows[0] as Record<string, unknown> | undefined;
-
-    if (valuePath && firstRow) {
-      // valuePath is a column name - get it from the first row
-      rawValue = firstRow[valuePath];
-    } else if (firstRow && typeof firstRow === "object") {
-      // No valuePath - get first value from first row
-      rawValue = Object.values(firstRow)[0];
-    }
-  }
+  const rawValue = metricValue(getByPath(data, `/queries/${queryKey}`), valuePath);
+  // Comparison mode: the same value over the comparison period
+  const comparisonValue = toNumber(metricValue(getByPath(data, `/comparisons/${queryKey}`), valuePath));
 
   // Loading state
   if (loading) {
@@ -49,51 +126,16 @@ export function Metric({ element, loading }: ComponentRenderProps) {
     );
   }
 
-  // Convert string numbers to actual numbers
-  let numValue: number | null = null;
-  if (typeof rawValue === "number") {
-    numValue = rawValue;
-  } else if (typeof rawValue === "string" && !isNaN(Number(rawValue))) {
-    numValue = Number(rawValue);
-  }
-
-  let displayValue = String(rawValue ?? "-");
-  if (numValue !== null) {
-    if (format === "currency") {
-      displayValue = new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-        maximumFractionDigits: 2,
-      }).format(numValue);
-    } else if (format === "percent") {
-      displayValue = new Intl.NumberFormat("en-US", {
-        style: "percent",
-        minimumFractionDigits: 1,
-        maximumFractionDigits: 1,
-      }).format(numValue);
-    } else {
-      // Default number formatting with smart precision
-      // Use compact notation for large numbers, limit decimals for small numbers
-      if (Math.abs(numValue) >= 10000) {
-        displayValue = new Intl.NumberFormat("en-US", {
-          notation: "compact",
-          maximumFractionDigits: 1,
-        }).format(numValue);
-      } else if (Number.isInteger(numValue)) {
-        displayValue = new Intl.NumberFormat("en-US").format(numValue);
-      } else {
-        // Limit to 2 decimal places for decimal numbers
-        displayValue = new Intl.NumberFormat("en-US", {
-          maximumFractionDigits: 2,
-        }).format(numValue);
-      }
-    }
-  }
+  const numValue = toNumber(rawValue);
+  const displayValue = numValue !== null ? formatValue(numValue, format) : String(rawValue ?? "-");
 
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: 6, padding: "8px 0" }}>
       <span style={{ fontSize: 13, color: "var(--muted)", fontWeight: 500, letterSpacing: "0.02em" }}>{label}</span>
       <span style={{ fontSize: 34, fontWeight: 600, letterSpacing: "-0.02em" }}>{displayValue}</span>
+      {numValue !== null && comparisonValue !== null && (
+        <ComparisonBadges current={numValue} previous={comparisonValue} format={format} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from "react";
+import { ListChecks } from "lucide-react";
+import type { DashboardPlan, DashboardPlanFilter, DashboardPlanItem } from "@/lib/dashboard-plan";
+
+interface PlanChecklistProps {
+  plan: DashboardPlan;
+  /** Chart types the items can use */
+  components: readonly string[];
+  onApprove: (plan: DashboardPlan) => void;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: "6px 8px",
+  background: "var(--background)",
+  border: "1px solid var(--border)",
+  borderRadius: 4,
+  color: "var(--foreground)",
+  fontSize: 13,
+  outline: "none",
+};
+
+/**
+ * Plan Checklist
+ *
+ * Shows the agent's proposed dashboard outline before any SQL runs. Users
+ * untick the items and filters they don't want, rename items or change
+ * their chart type, and generate the dashboard from what's left.
+ */
+export function PlanChecklist({ plan, components, onApprove, onCancel, disabled }: PlanChecklistProps) {
+  const [items, setItems] = useState(() => plan.items.map((item) => ({ ...item, included: true })));
+  const [filters, setFilters] = useState(() => plan.filters.map((filter) => ({ ...filter, included: true })));
+
+  const updateItem = (id: string, changes: Partial<DashboardPlanItem & { included: boolean }>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  const toggleFilter = (id: string) =>
+    setFilters((prev) => prev.map((filter) => (filter.id === id ? { ...filter, included: !filter.included } : filter)));
+
+  const selected = items.filter((item) => item.included && item.title.trim());
+
+  const approve = () => {
+    onApprove({
+      title: plan.title,
+      items: selected.map(({ included: _included, ...item }) => ({ ...item, title: item.title.trim() })),
+      filters: filters
+        .filter((filter) => filter.included)
+        .map(({ included: _included, ...filter }): DashboardPlanFilter => filter),
+    });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: 24,
+        padding: 16,
+        background: "var(--card)",
+        border: "1px solid var(--border)",
+        borderRadius: "var(--radius)",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
+        <ListChecks size={16} />
+        <h3 style={{ margin: 0, fontSize: 15, fontWeight: 600 }}>Proposed dashboard: {plan.title}</h3>
+      </div>
+      <p style={{ margin: "0 0 12px", fontSize: 13, color: "var(--muted)" }}>
+        Review the outline before any queries run. Untick what you don&apos;t need and adjust titles or chart types.
+      </p>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+        {items.map((item) => (
+          <div
+            key={item.id}
+            style={{
+              display: "flex",
+              alignItems: "flex-start",
+              gap: 10,
+              opacity: item.included ? 1 : 0.5,
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={item.included}
+              onChange={() => updateItem(item.id, { included: !item.included })}
+              aria-label={`Include ${item.title}`}
+              style={{ marginTop: 8 }}
+            />
+            <div style={{ flex: 1, display: "flex", flexDirection: "column", gap: 4 }}>
+              <div style={{ display: "flex", gap: 8 }}>
+                <input
+                  type="text"
+                  value={item.title}
+                  onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                  disabled={!item.included}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <select
+                  value={item.component}
+                  onChange={(e) => updateItem(item.id, { component: e.target.value as DashboardPlanItem["component"] })}
+                  disabled={!item.included}
+                  style={inputStyle}
+                >
+                  {components.map((component) => (
+                    <option key={component} value={component}>
+                      {component}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <span style={{ fontSize: 12, color: "var(--muted)" }}>
+                {item.description}
+                {item.tables.length > 0 && <> &middot; {item.tables.join(", ")}</>}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {filters.length > 0 && (
+        <div style={{ marginTop: 12, display: "flex", gap: 12, flexWrap: "wrap", fontSize: 13 }}>
+          <span style={{ color: "var(--muted)" }}>Filters:</span>
+          {filters.map((filter) => (
+            <label key={filter.id} style={{ display: "flex", alignItems: "center", gap: 4, cursor: "pointer" }}>
+              <input type="checkbox" checked={filter.included} onChange={() => toggleFilter(filter.id)} />
+              {filter.label}
+              <span style={{ color: "var(--muted)" }}>({filter.type})</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+        <button
+          type="button"
+          onClick={approve}
+          disabled={disabled || selected.length === 0}
+          style={{
+            padding: "8px 16px",
+            background: "var(--foreground)",
+            color: "var(--background)",
+            border: "none",
+            borderRadius: "var(--radius)",
+            fontSize: 14,
+            fontWeight: 500,
+            opacity: disabled || selected.length === 0 ? 0.5 : 1,
+          }}
+        >
+          Generate {selected.length} item{selected.length === 1 ? "" : "s"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{
+            padding: "8px 16px",
+            background: "transparent",
+            color: "var(--muted)",
+            border: "1px solid var(--border)",
+            borderRadius: "var(--radius)",
+            fontSize: 14,
+          }}
+        >
+          Discard plan
+        </button>
+      </div>
+    </div>
+  );
+}
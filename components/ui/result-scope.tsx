@@ -0,0 +1,69 @@
+"use client";
+
+import { type ComponentType } from "react";
+import { type ComponentRenderProps } from "@json-render/react";
+import { useData } from "@json-render/react";
+import { getByPath } from "@json-render/core";
+
+export type ResultScope = "sample" | "full";
+
+/**
+ * Small label telling whether a component's data comes from a sample of the
+ * uploaded file or from the complete file.
+ */
+export function ResultScopeBadge({ scope }: { scope: ResultScope }) {
+  const isSample = scope === "sample";
+  return (
+    <span
+      title={
+        isSample
+          ? "Computed from the first rows of the uploaded file - full results are loading or unavailable"
+          : "Computed from the complete uploaded file"
+      }
+      style={{
+        display: "inline-block",
+        padding: "1px 8px",
+        borderRadius: 12,
+        fontSize: 11,
+        fontWeight: 500,
+        background: "var(--border)",
+        color: isSample ? "var(--warning)" : "var(--muted)",
+      }}
+    >
+      {isSample ? "Sample data" : "Full data"}
+    </span>
+  );
+}
+
+/**
+ * Wrap a data component so it shows a ResultScopeBadge for its queryKey.
+ * Scopes are read from `/resultScopes/<queryKey>` in the data model; components
+ * without a recorded scope (database sources) render unchanged.
+ */
+export function withResultScope(
+  Component: ComponentType<ComponentRenderProps>,
+): ComponentType<ComponentRenderProps> {
+  function WithResultScope(props: ComponentRenderProps) {
+    const { data } = useData();
+    const { queryKey } = props.element.props as { queryKey?: unknown };
+    const scope =
+      typeof queryKey === "string"
+        ? (getByPath(data, `/resultScopes/${queryKey}`) as ResultScope | undefined)
+        : undefined;
+
+    if (!scope) {
+      return <Component {...props} />;
+    }
+
+    return (
+      <div>
+        <Component {...props} />
+        <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 4 }}>
+          <ResultScopeBadge scope={scope} />
+        </div>
+      </div>
+    );
+  }
+  WithResultScope.displayName = `WithResultScope(${Component.displayName || Component.name})`;
+  return WithResultScope;
+}
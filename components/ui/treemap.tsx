@@ -16,6 +16,8 @@ import {
 import { getPaletteColors } from "@/lib/color-palette";
 import { formatNumber } from "@/lib/format-utils";
 import { useStylePresetSafe } from "@/lib/style-preset-context";
+import { useDrillDownOptional, filterRowsByDimension } from "@/lib/drill-down-context";
+import { useCrossFilterSelection } from "@/lib/filter-context";
 
 interface TreemapNode {
   label: string;
@@ -215,6 +217,9 @@ export function Treemap({ element, loading }: ComponentRenderProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const stylePreset = useStylePresetSafe();
+  const drillDown = useDrillDownOptional();
+  // Category selected by clicking this treemap in cross-filter mode
+  const selection = useCrossFilterSelection(queryKey);
   // Use preset's color palette if none specified
   const defaultPalette = (colorPalette === "default" || !colorPalette) && stylePreset?.preset
     ? stylePreset.preset.colorPaletteId
@@ -262,6 +267,26 @@ export function Treemap({ element, loading }: ComponentRenderProps) {
     return false;
   }, []);
 
+  // Tiles are categories: drill into (or cross-filter by) the clicked one
+  const handleTileClick = useCallback(
+    (label: string) => {
+      if (!drillDown || !queryData) return;
+      drillDown.openDrillDown(
+        {
+          queryKey,
+          dimension: categoryColumn,
+          value: label,
+          labelColumn: categoryColumn,
+          valueColumn,
+          chartType: "treemap",
+          title: title ?? undefined,
+        },
+        filterRowsByDimension(queryData, categoryColumn, label),
+      );
+    },
+    [drillDown, queryData, queryKey, categoryColumn, valueColumn, title],
+  );
+
   // Process data into treemap nodes
   const { nodes, totalValue } = useMemo(() => {
     if (!queryData || queryData.length === 0) {
@@ -419,6 +444,7 @@ export function Treemap({ element, loading }: ComponentRenderProps) {
       >
         {layoutNodes.map((node, i) => {
           const isHovered = hoveredNode === node.label;
+          const isDimmed = selection !== null && node.label !== selection;
           const x = node.x ?? 0;
           const y = node.y ?? 0;
           const w = node.width ?? 0;
@@ -444,13 +470,14 @@ export function Treemap({ element, loading }: ComponentRenderProps) {
                 rx={3}
                 fill={node.color}
                 style={{
-                  cursor: "pointer",
-                  opacity: isHovered ? 1 : 0.85,
+                  cursor: drillDown ? "pointer" : "default",
+                  opacity: isDimmed ? 0.3 : isHovered ? 1 : 0.85,
                   transition: "opacity 0.15s ease, filter 0.15s ease",
                   filter: isHovered ? "brightness(1.1)" : "none",
                 }}
                 onMouseEnter={() => setHoveredNode(node.label)}
                 onMouseLeave={() => setHoveredNode(null)}
+                onClick={() => handleTileClick(node.label)}
               >
                 <title>{`${node.label}: ${formatNumber(node.value)} (${percentage}%)`}</title>
               </rect>
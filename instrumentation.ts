@@ -9,6 +9,29 @@ const shouldExportSpan: ShouldExportSpan = (span) => {
   return span.otelSpan.instrumentationScope.name !== "next.js";
 };
 
+/**
+ * Close database pools when the server is asked to stop. Next.js stops
+ * taking requests and exits once the running ones are done; each pool is
+ * closed as soon as its connections are returned, so in-flight queries
+ * finish rather than being dropped.
+ */
+async function registerShutdownHooks() {
+  const { drainAllAdapters } = await import("./lib/db-adapters");
+  let shuttingDown = false;
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`Received ${signal}, closing database pools once idle`);
+    drainAllAdapters().catch((error) => {
+      console.error("Failed to close database pools:", error);
+    });
+  };
+
+  process.once("SIGTERM", shutdown);
+  process.once("SIGINT", shutdown);
+}
+
 /**
  * Next.js instrumentation hook - runs on server startup.
  * Initializes OpenTelemetry with Langfuse for LLM observability.
@@ -18,8 +41,14 @@ const shouldExportSpan: ShouldExportSpan = (span) => {
  * - All tool executions (including SQL queries!)
  * - Token usage and latency
  * - Multi-step agent workflows
+ *
+ * Also registers graceful shutdown of database pools (Node.js runtime only).
  */
 export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    await registerShutdownHooks();
+  }
+
   // Only initialize if Langfuse credentials are configured
   if (!process.env.LANGFUSE_SECRET_KEY || !process.env.LANGFUSE_PUBLIC_KEY) {
     console.log(
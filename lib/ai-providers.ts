@@ -1,6 +1,9 @@
 import { createOpenAI } from "@ai-sdk/openai";
 import { createOpenRouter } from "@openrouter/ai-sdk-provider";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { gateway } from "@ai-sdk/gateway";
+import type { LanguageModel } from "ai";
+import { createReplayModel, type RecordableModel } from "./llm-replay";
 
 /**
  * Clean API key by removing whitespace and newlines
@@ -17,10 +20,11 @@ const CUSTOM_OPENAI_MODELS = [
   "gpt-5.1",
 ];
 
-export type ModelProvider = "openai" | "ollama" | "anthropic" | "azure" | "openrouter" | "gemini";
+export type ModelProvider = "openai" | "ollama" | "anthropic" | "azure" | "openrouter" | "gemini" | "replay";
 
 export interface CustomModelSettings {
   provider: ModelProvider;
+  /** Model ID; for "replay", the fixture to replay (see llm-replay.ts) */
   model: string;
   baseUrl?: string;
   apiKey?: string;
@@ -63,45 +67,52 @@ function getOpenAIProvider(model: string) {
   return providers.get(model)!;
 }
 
+/** Providers the model router can use with server-side credentials */
+export type ServerModelProvider = "openrouter" | "gemini" | "openai" | "gateway";
+
 /**
- * Get the default model provider with smart fallback
- * Priority: OpenRouter → Gemini → AI Gateway (fallback)
- *
- * Note: For serverless environments like Vercel, prefer using direct
- * provider creation in route handlers for better reliability.
+ * Whether a provider has server-side credentials. The AI Gateway is always
+ * "available" but needs Vercel billing, so it is tried last.
  */
-function getDefaultModelProvider(modelId: string) {
-  // Check if OpenRouter is configured
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  if (openRouterKey && openRouterKey.startsWith("sk-or-")) {
-    const provider = createOpenRouter({ apiKey: openRouterKey });
-    return provider(modelId);
-  }
-
-  // Check if Gemini is configured
-  const geminiKey = process.env.GEMINI_API_KEY;
-  if (geminiKey && geminiKey.startsWith("AIza")) {
-    const provider = createGoogleGenerativeAI({ apiKey: geminiKey });
-    return provider("gemini-2.5-flash");
+export function isProviderConfigured(provider: ServerModelProvider): boolean {
+  switch (provider) {
+    case "openrouter":
+      return !!cleanApiKey(process.env.OPENROUTER_API_KEY)?.startsWith("sk-or-");
+    case "gemini":
+      return !!cleanApiKey(process.env.GEMINI_API_KEY)?.startsWith("AIza");
+    case "openai":
+      return !!process.env.OPENAI_API_KEY && !!process.env.OPENAI_BASE_URL;
+    case "gateway":
+      return true;
   }
-
-  // Fallback to AI Gateway (requires Vercel billing)
-  return modelId;
 }
 
 /**
- * Get the appropriate model provider based on the model name
- * Returns a custom OpenAI model or uses smart provider selection for other models
+ * Create a model on a provider using the server's credentials.
+ * Providers are created per call - cached instances have issues in the
+ * Vercel serverless context.
  */
-export function getModelProvider(
-  model: string,
-): ReturnType<ReturnType<typeof createOpenAI>["chat"]> | string {
-  if (CUSTOM_OPENAI_MODELS.includes(model)) {
-    const provider = getOpenAIProvider(model);
-    return provider.chat(model);
+export function createServerModel(
+  provider: ServerModelProvider,
+  modelId: string,
+): LanguageModel {
+  switch (provider) {
+    case "openrouter": {
+      const apiKey = cleanApiKey(process.env.OPENROUTER_API_KEY);
+      if (!apiKey) throw new Error("OPENROUTER_API_KEY is not set");
+      return createOpenRouterProvider(apiKey)(modelId);
+    }
+    case "gemini": {
+      const apiKey = cleanApiKey(process.env.GEMINI_API_KEY);
+      if (!apiKey) throw new Error("GEMINI_API_KEY is not set");
+      return createGeminiProvider(apiKey)(modelId);
+    }
+    case "openai":
+      return getOpenAIProvider(modelId).chat(modelId);
+    case "gateway":
+      // Model strings are resolved by the AI Gateway (requires Vercel billing)
+      return modelId;
   }
-  // Use smart provider selection instead of raw model string
-  return getDefaultModelProvider(model);
 }
 
 /**
@@ -134,13 +145,42 @@ function createGeminiProvider(apiKey: string) {
   return createGoogleGenerativeAI({ apiKey });
 }
 
+/**
+ * Create a replay model for tests. With LLM_REPLAY_RECORD set to a
+ * `provider:model` spec, that model answers and its responses are recorded.
+ */
+function createReplayProvider(fixture: string): LanguageModel {
+  if (process.env.NODE_ENV === "production" && !process.env.LLM_REPLAY_DIR) {
+    throw new Error("Replay models are only available in development and tests (or with LLM_REPLAY_DIR set)");
+  }
+  const recordSpec = process.env.LLM_REPLAY_RECORD?.trim();
+  if (!recordSpec) {
+    return createReplayModel(fixture);
+  }
+
+  const colon = recordSpec.indexOf(":");
+  const provider = recordSpec.slice(0, colon) as ServerModelProvider;
+  if (colon < 0 || !["openrouter", "gemini", "openai", "gateway"].includes(provider)) {
+    throw new Error(`LLM_REPLAY_RECORD must be "<provider>:<model>" with provider openrouter, gemini, openai or gateway`);
+  }
+  const model = createServerModel(provider, recordSpec.slice(colon + 1));
+  return createReplayModel(fixture, {
+    // Gateway models are plain ID strings; the other providers build v3 models
+    record: typeof model === "string" ? gateway(model) : (model as RecordableModel),
+  });
+}
+
 /**
  * Create provider from custom model settings
  * Used when user configures a custom model in the UI
  */
 export function getCustomModelProvider(
   settings: CustomModelSettings,
-): ReturnType<ReturnType<typeof createOpenAI>["chat"]> {
+): LanguageModel {
+  if (settings.provider === "replay") {
+    return createReplayProvider(settings.model);
+  }
+
   if (settings.provider === "ollama") {
     const provider = createOllamaProvider(settings.baseUrl);
     return provider.chat(settings.model);
@@ -309,17 +309,19 @@ export const sqlDashboardCatalog = createCatalog({
     Filter: {
       props: z.object({
         filterId: z.string(),
-        filterType: z.enum(["date-range", "dropdown"]),
+        filterType: z.enum(["date-range", "dropdown", "range", "search", "toggle"]),
         label: z.string(),
         column: z.string(),
         options: z.array(z.string()).nullable(),
         multiSelect: z.boolean().nullable(),
-        defaultPreset: z
-          .enum(["last7days", "last30days", "last90days", "ytd", "custom"])
-          .nullable(),
+        defaultPreset: z.string().nullable(),
+        boundsQueryKey: z.string().nullable(),
+        step: z.number().nullable(),
+        optionsQueryKey: z.string().nullable(),
+        parentFilterIds: z.array(z.string()).nullable(),
       }),
       description:
-        "Dashboard filter component. Use date-range for date columns, dropdown for categorical columns. Filters affect all queries via {{column_name}} placeholders.",
+        "Dashboard filter component. Use date-range for date columns (defaultPreset: last7days, last30days, last90days, ytd, or a relative expression like last_3_complete_months, quarter_to_date, previous_month, same_period_last_year), dropdown for categorical columns, range for numeric columns (slider bounded by the MIN/MAX lookup query in boundsQueryKey), search for free-text columns (contains match) and toggle for boolean columns. A dropdown with optionsQueryKey loads its options from that distinct-* lookup query (paged and searched on the server, so leave options null); parentFilterIds names the filters that narrow it, through the lookup's filterMeta. Filters affect queries through filterMeta.",
     },
 
     // Typography
@@ -348,9 +350,10 @@ export const sqlDashboardCatalog = createCatalog({
         type: z
           .enum(["default", "positive", "negative", "warning", "info"])
           .nullable(),
+        queryKeys: z.array(z.string()).nullable(),
       }),
       description:
-        "Display a styled insight or analysis callout. Use for chart interpretations, data insights, and key takeaways. Types: 'positive' for good trends (green), 'negative' for concerning trends (red), 'warning' for caution (yellow), 'info' for neutral information (blue), 'default' for general insights (purple).",
+        "Display a styled insight or analysis callout. Use for chart interpretations, data insights, and key takeaways. Set queryKeys to the queries it describes: the insight is then recomputed from their results whenever filters change, and content is only shown until then. Types: 'positive' for good trends (green), 'negative' for concerning trends (red), 'warning' for caution (yellow), 'info' for neutral information (blue), 'default' for general insights (purple).",
     },
 
     // Status Components
@@ -401,3 +404,29 @@ export const sqlDashboardCatalog = createCatalog({
 
 // Export the component list for the AI prompt
 export const componentList = sqlDashboardCatalog.componentNames as string[];
+
+/**
+ * List of data visualization chart types that can be enabled/disabled.
+ * Layout components (Card, Grid, Stack) are always available.
+ */
+export const CHART_COMPONENT_TYPES = [
+  "Chart",
+  "Table",
+  "Metric",
+  "Heatmap",
+  "MapChart",
+  "Scatter",
+  "Histogram",
+  "Boxplot",
+  "StackedChart",
+  "DonutChart",
+  "MultiLineChart",
+  "GaugeChart",
+  "FunnelChart",
+  "Treemap",
+  "WaterfallChart",
+  "RadarChart",
+  "BulletChart",
+] as const;
+
+export type ChartComponentType = (typeof CHART_COMPONENT_TYPES)[number];
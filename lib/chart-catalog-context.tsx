@@ -7,33 +7,9 @@ import {
   useCallback,
   type ReactNode,
 } from "react";
-import { componentList } from "./catalog";
+import { CHART_COMPONENT_TYPES, componentList, type ChartComponentType } from "./catalog";
 
-/**
- * List of data visualization chart types that can be enabled/disabled.
- * Layout components (Card, Grid, Stack) are always available.
- */
-export const CHART_COMPONENT_TYPES = [
-  "Chart",
-  "Table",
-  "Metric",
-  "Heatmap",
-  "MapChart",
-  "Scatter",
-  "Histogram",
-  "Boxplot",
-  "StackedChart",
-  "DonutChart",
-  "MultiLineChart",
-  "GaugeChart",
-  "FunnelChart",
-  "Treemap",
-  "WaterfallChart",
-  "RadarChart",
-  "BulletChart",
-] as const;
-
-export type ChartComponentType = (typeof CHART_COMPONENT_TYPES)[number];
+export { CHART_COMPONENT_TYPES, type ChartComponentType };
 
 /**
  * Descriptions for each chart type to help users understand what they do
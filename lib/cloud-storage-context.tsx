@@ -14,6 +14,8 @@ export interface S3Config {
   accessKeyId: string;
   secretAccessKey: string;
   region: string;
+  /** Custom endpoint for S3-compatible stores such as MinIO */
+  endpoint?: string;
   bucket?: string;
 }
 
@@ -37,14 +39,8 @@ interface CloudStorageContextValue {
   isConnected: boolean;
   isConnecting: boolean;
   connectionError: string | null;
-
-  // S3 config
-  s3Config: S3Config | null;
-  setS3Config: (config: S3Config | null) => void;
-
-  // GCS config
-  gcsConfig: GCSConfig | null;
-  setGcsConfig: (config: GCSConfig | null) => void;
+  /** Server-side connection profile holding the credentials */
+  connectionId: string | null;
 
   // Current state
   currentBucket: string | null;
@@ -52,7 +48,8 @@ interface CloudStorageContextValue {
   files: CloudStorageFile[];
 
   // Actions
-  connect: (provider: CloudProvider) => Promise<boolean>;
+  /** Store the credentials on the server and list the account's buckets */
+  connect: (provider: CloudProvider, config: S3Config | GCSConfig) => Promise<boolean>;
   disconnect: () => void;
   setBucket: (bucket: string) => void;
   navigateTo: (path: string) => void;
@@ -71,27 +68,38 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
-  const [s3Config, setS3Config] = useState<S3Config | null>(null);
-  const [gcsConfig, setGcsConfig] = useState<GCSConfig | null>(null);
+  const [connectionId, setConnectionId] = useState<string | null>(null);
 
   const [currentBucket, setCurrentBucket] = useState<string | null>(null);
   const [currentPath, setCurrentPath] = useState("");
   const [files, setFiles] = useState<CloudStorageFile[]>([]);
 
-  const connect = useCallback(async (selectedProvider: CloudProvider): Promise<boolean> => {
+  const connect = useCallback(async (
+    selectedProvider: CloudProvider,
+    config: S3Config | GCSConfig,
+  ): Promise<boolean> => {
     setIsConnecting(true);
     setConnectionError(null);
 
+    let savedId: string | null = null;
     try {
-      const config = selectedProvider === "s3" ? s3Config : gcsConfig;
-      if (!config) {
-        throw new Error(`No configuration provided for ${selectedProvider}`);
+      // Credentials are sent once and stored server-side; later calls use the id
+      const saveResponse = await fetch("/api/connections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ kind: selectedProvider, name: selectedProvider, config }),
+      });
+      if (!saveResponse.ok) {
+        const data = await saveResponse.json();
+        throw new Error(data.error || "Failed to save connection");
       }
+      const { connection } = (await saveResponse.json()) as { connection: { id: string } };
+      savedId = connection.id;
 
       const response = await fetch("/api/cloud-storage/connect", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ provider: selectedProvider, config }),
+        body: JSON.stringify({ provider: selectedProvider, connectionId: savedId }),
       });
 
       if (!response.ok) {
@@ -101,6 +109,7 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
 
       const { buckets } = await response.json();
 
+      setConnectionId(savedId);
       setProvider(selectedProvider);
       setIsConnected(true);
 
@@ -117,21 +126,28 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
 
       return true;
     } catch (error) {
+      if (savedId) {
+        void fetch(`/api/connections/${savedId}`, { method: "DELETE" });
+      }
       setConnectionError(error instanceof Error ? error.message : "Connection failed");
       return false;
     } finally {
       setIsConnecting(false);
     }
-  }, [s3Config, gcsConfig]);
+  }, []);
 
   const disconnect = useCallback(() => {
+    if (connectionId) {
+      void fetch(`/api/connections/${connectionId}`, { method: "DELETE" });
+    }
+    setConnectionId(null);
     setProvider(null);
     setIsConnected(false);
     setCurrentBucket(null);
     setCurrentPath("");
     setFiles([]);
     setConnectionError(null);
-  }, []);
+  }, [connectionId]);
 
   const setBucket = useCallback((bucket: string) => {
     setCurrentBucket(bucket);
@@ -143,10 +159,7 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
   }, []);
 
   const refreshFiles = useCallback(async () => {
-    if (!isConnected || !provider) return;
-
-    const config = provider === "s3" ? s3Config : gcsConfig;
-    if (!config) return;
+    if (!isConnected || !provider || !connectionId) return;
 
     try {
       const response = await fetch("/api/cloud-storage/list", {
@@ -154,7 +167,7 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           provider,
-          config,
+          connectionId,
           bucket: currentBucket,
           prefix: currentPath,
         }),
@@ -169,7 +182,7 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
     } catch (error) {
       console.error("Failed to refresh files:", error);
     }
-  }, [isConnected, provider, s3Config, gcsConfig, currentBucket, currentPath]);
+  }, [isConnected, provider, connectionId, currentBucket, currentPath]);
 
   return (
     <CloudStorageContext.Provider
@@ -178,10 +191,7 @@ export function CloudStorageProvider({ children }: CloudStorageProviderProps) {
         isConnected,
         isConnecting,
         connectionError,
-        s3Config,
-        setS3Config,
-        gcsConfig,
-        setGcsConfig,
+        connectionId,
         currentBucket,
         currentPath,
         files,
@@ -0,0 +1,238 @@
+/**
+ * Object storage access for S3 and GCS (server-only).
+ *
+ * Wraps both SDKs behind a small ObjectStore interface - listing, ranged
+ * reads and streaming - so cloud files can be queried without downloading
+ * whole objects. S3-compatible stores such as MinIO work by setting an
+ * endpoint (in the connection config or S3_ENDPOINT).
+ */
+
+import { Readable } from "stream";
+import {
+  S3Client,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  type ListObjectsV2CommandOutput,
+} from "@aws-sdk/client-s3";
+import { Storage } from "@google-cloud/storage";
+
+export type CloudProvider = "s3" | "gcs";
+
+export interface S3Config {
+  accessKeyId: string;
+  secretAccessKey: string;
+  region: string;
+  /** Custom endpoint for S3-compatible stores (e.g. http://localhost:9000 for MinIO) */
+  endpoint?: string;
+}
+
+export interface GCSConfig {
+  projectId: string;
+  keyFile?: string; // JSON key file content (base64 encoded)
+}
+
+export interface ObjectInfo {
+  key: string;
+  size: number;
+}
+
+/**
+ * Minimal read-only view of a bucket.
+ */
+export interface ObjectStore {
+  /** List every object whose key starts with `prefix` */
+  list(prefix: string): Promise<ObjectInfo[]>;
+  /** Read bytes [start, end) of an object */
+  readRange(key: string, start: number, end: number): Promise<Uint8Array>;
+  /** Stream an object's contents */
+  stream(key: string): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Create an S3 client. Custom endpoints use path-style addressing, which
+ * MinIO and most S3-compatible stores expect.
+ */
+export function createS3Client(config: S3Config): S3Client {
+  const endpoint = config.endpoint || process.env.S3_ENDPOINT || undefined;
+  return new S3Client({
+    region: config.region,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+    ...(endpoint && { endpoint, forcePathStyle: true }),
+  });
+}
+
+export function createGCSStorage(config: GCSConfig): Storage {
+  if (config.keyFile) {
+    const keyFileContent = Buffer.from(config.keyFile, "base64").toString("utf-8");
+    return new Storage({
+      projectId: config.projectId,
+      credentials: JSON.parse(keyFileContent),
+    });
+  }
+  return new Storage({ projectId: config.projectId });
+}
+
+function createS3ObjectStore(client: S3Client, bucket: string): ObjectStore {
+  const getBody = async (key: string, range?: string) => {
+    const response = await client.send(
+      new GetObjectCommand({ Bucket: bucket, Key: key, Range: range }),
+    );
+    if (!response.Body) {
+      throw new Error(`Empty response body for s3://${bucket}/${key}`);
+    }
+    return response.Body;
+  };
+
+  return {
+    async list(prefix) {
+      const objects: ObjectInfo[] = [];
+      let token: string | undefined;
+      do {
+        const page: ListObjectsV2CommandOutput = await client.send(
+          new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token }),
+        );
+        for (const obj of page.Contents ?? []) {
+          if (obj.Key && !obj.Key.endsWith("/")) {
+            objects.push({ key: obj.Key, size: obj.Size ?? 0 });
+          }
+        }
+        token = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (token);
+      return objects;
+    },
+    async readRange(key, start, end) {
+      const body = await getBody(key, `bytes=${start}-${end - 1}`);
+      return body.transformToByteArray();
+    },
+    async stream(key) {
+      const body = await getBody(key);
+      return body.transformToWebStream() as ReadableStream<Uint8Array>;
+    },
+  };
+}
+
+function createGCSObjectStore(storage: Storage, bucket: string): ObjectStore {
+  return {
+    async list(prefix) {
+      const [files] = await storage.bucket(bucket).getFiles({ prefix });
+      return files
+        .filter((file) => !file.name.endsWith("/"))
+        .map((file) => ({ key: file.name, size: Number(file.metadata.size) || 0 }));
+    },
+    async readRange(key, start, end) {
+      // GCS ranges are inclusive
+      const [contents] = await storage
+        .bucket(bucket)
+        .file(key)
+        .download({ start, end: end - 1 });
+      return new Uint8Array(contents);
+    },
+    async stream(key) {
+      const nodeStream = storage.bucket(bucket).file(key).createReadStream();
+      return Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>;
+    },
+  };
+}
+
+/**
+ * Open a bucket for reading.
+ */
+export function createObjectStore(
+  provider: CloudProvider,
+  config: S3Config | GCSConfig,
+  bucket: string,
+): ObjectStore {
+  if (provider === "s3") {
+    return createS3ObjectStore(createS3Client(config as S3Config), bucket);
+  }
+  return createGCSObjectStore(createGCSStorage(config as GCSConfig), bucket);
+}
+
+export interface CloudUri {
+  provider: CloudProvider;
+  bucket: string;
+  /** Object key or glob pattern within the bucket */
+  pattern: string;
+}
+
+/**
+ * Parse `s3://bucket/path/*.parquet` or `gs://bucket/path/file.csv`.
+ */
+export function parseCloudUri(uri: string): CloudUri | null {
+  const match = /^(s3|gs|gcs):\/\/([^/]+)\/(.+)$/.exec(uri.trim());
+  if (!match) return null;
+  return {
+    provider: match[1] === "s3" ? "s3" : "gcs",
+    bucket: match[2]!,
+    pattern: match[3]!,
+  };
+}
+
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+/**
+ * Convert a glob to a regular expression over object keys.
+ * `*` and `?` stay within one path segment, `**` spans segments and
+ * `[abc]` matches a character class.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i++;
+        // "**/" also matches zero directories
+        if (pattern[i + 1] === "/") {
+          source = source.slice(0, -2) + "(?:.*/)?";
+          i++;
+        }
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        const body = pattern.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        source += `[${body}]`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The literal part of a glob before its first wildcard, used as the list prefix.
+ */
+export function globPrefix(pattern: string): string {
+  const index = pattern.search(/[*?[]/);
+  return index === -1 ? pattern : pattern.slice(0, index);
+}
+
+/**
+ * Find the objects a key or glob pattern refers to, sorted by key.
+ */
+export async function resolveObjects(store: ObjectStore, pattern: string): Promise<ObjectInfo[]> {
+  if (!isGlobPattern(pattern)) {
+    const objects = await store.list(pattern);
+    return objects.filter((obj) => obj.key === pattern);
+  }
+  const regex = globToRegExp(pattern);
+  const objects = await store.list(globPrefix(pattern));
+  return objects
+    .filter((obj) => regex.test(obj.key))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,425 @@
+/**
+ * Query-time readers for Parquet, CSV and NDJSON objects in cloud storage
+ * (server-only).
+ *
+ * A CloudTable is one or more objects (a key or a glob over a prefix)
+ * treated as a single table. Nothing is downloaded up front:
+ * - Parquet is read through ranged requests. The footer is fetched first,
+ *   then only the column chunks a query needs, and only as many row groups
+ *   as a row limit requires. WHERE clauses don't skip row groups: parquet-wasm
+ *   exposes no column statistics, and a workspace reuses the rows it loaded
+ *   for later queries, so filters run in SQLite over every row group.
+ * - CSV and NDJSON are streamed, keeping only the needed columns, and the
+ *   stream is cancelled once a row limit is reached.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import Papa from "papaparse";
+import type { ObjectInfo, ObjectStore } from "./cloud-storage";
+import { significantTokens, identifierName } from "./sql-tokenizer";
+
+export type CloudFileFormat = "parquet" | "csv" | "ndjson";
+
+export interface CloudReadOptions {
+  /** Columns to read (default: all) */
+  columns?: string[];
+  /** Stop after this many rows (default: all, up to the table's row cap) */
+  limit?: number;
+  /** Refuse to read rows taking more than this many bytes as JSON (default: no limit) */
+  maxBytes?: number;
+}
+
+export interface CloudTableInfo {
+  columns: string[];
+  /** Total rows, when the format records it (Parquet); null for streamed formats */
+  rowCount: number | null;
+  /** First rows of the table */
+  sampleRows: Record<string, unknown>[];
+}
+
+type Row = Record<string, unknown>;
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Pick the reader for an object key from its extension.
+ */
+export function detectCloudFormat(key: string): CloudFileFormat | null {
+  const lower = key.toLowerCase();
+  if (lower.endsWith(".parquet")) return "parquet";
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".ndjson") || lower.endsWith(".jsonl") || lower.endsWith(".json")) {
+    return "ndjson";
+  }
+  return null;
+}
+
+/**
+ * Columns of `columns` that a SQL query mentions. A `*` projection
+ * (`SELECT *`, `t.*`) needs every column.
+ */
+export function referencedColumns(sql: string, columns: string[]): string[] {
+  const tokens = significantTokens(sql, "sqlite");
+  const mentioned = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (token.type === "operator" && token.value === "*") {
+      const previous = tokens[i - 1];
+      const isProjection =
+        !previous ||
+        previous.type === "comma" ||
+        previous.type === "dot" ||
+        (previous.type === "word" && /^(SELECT|DISTINCT|ALL)$/i.test(previous.value));
+      if (isProjection) return [...columns];
+    } else if (token.type === "word" || token.type === "quoted_identifier") {
+      mentioned.add(identifierName(token).toLowerCase());
+    }
+  }
+  return columns.filter((column) => mentioned.has(column.toLowerCase()));
+}
+
+/**
+ * Whether a SQL query mentions a table name (case-insensitive).
+ */
+export function referencesTable(sql: string, tableName: string): boolean {
+  const name = tableName.toLowerCase();
+  return significantTokens(sql, "sqlite").some(
+    (token) =>
+      (token.type === "word" || token.type === "quoted_identifier") &&
+      identifierName(token).toLowerCase() === name,
+  );
+}
+
+function pickColumns(row: Row, columns: string[] | undefined): Row {
+  if (!columns) return row;
+  const picked: Row = {};
+  for (const column of columns) {
+    picked[column] = row[column] ?? null;
+  }
+  return picked;
+}
+
+// ============================================================================
+// Parquet
+// ============================================================================
+
+type ParquetWasm = typeof import("parquet-wasm/esm");
+type Arrow = typeof import("apache-arrow");
+
+let parquetRuntime: Promise<{ parquet: ParquetWasm; arrow: Arrow }> | null = null;
+
+/**
+ * Load parquet-wasm once per process. The WASM binary is read from disk
+ * because the package's Node entry point can't be imported as ESM.
+ */
+function loadParquetRuntime(): Promise<{ parquet: ParquetWasm; arrow: Arrow }> {
+  parquetRuntime ??= (async () => {
+    const [parquet, arrow] = await Promise.all([
+      import("parquet-wasm/esm"),
+      import("apache-arrow"),
+    ]);
+    const wasm = await readFile(
+      path.join(process.cwd(), "node_modules/parquet-wasm/esm/parquet_wasm_bg.wasm"),
+    );
+    await parquet.default({ module_or_path: wasm });
+    return { parquet, arrow };
+  })();
+  return parquetRuntime;
+}
+
+/**
+ * A Blob look-alike whose slices are fetched with ranged reads, so
+ * parquet-wasm only downloads the footer and the column chunks it decodes.
+ */
+function rangeBlob(store: ObjectStore, object: ObjectInfo): Blob {
+  const slice = (start = 0, end = object.size) => ({
+    size: end - start,
+    arrayBuffer: async () => {
+      const bytes = await store.readRange(object.key, start, end);
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    },
+  });
+  return { size: object.size, slice } as unknown as Blob;
+}
+
+/**
+ * Convert Arrow values to plain JSON-friendly values.
+ */
+function fromArrowValue(value: unknown, isTemporal: boolean): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (isTemporal && (typeof value === "number" || value instanceof Date)) {
+    return new Date(value).toISOString();
+  }
+  if (typeof value === "object" && "toJSON" in value && typeof value.toJSON === "function") {
+    return value.toJSON();
+  }
+  return value;
+}
+
+/**
+ * An object's rows, pruned to the requested columns, and whether the read's
+ * row limit or byte budget has been reached.
+ */
+class RowCollector {
+  readonly rows: Row[] = [];
+  /** Size of the rows as JSON, tracked when the read has a byte budget */
+  bytes = 0;
+
+  constructor(private readonly options: CloudReadOptions) {}
+
+  add(row: Row): void {
+    const picked = pickColumns(row, this.options.columns);
+    this.rows.push(picked);
+    if (this.options.maxBytes !== undefined) {
+      this.bytes += Buffer.byteLength(JSON.stringify(picked)) + 1;
+    }
+  }
+
+  get full(): boolean {
+    return (
+      (this.options.limit !== undefined && this.rows.length >= this.options.limit) ||
+      (this.options.maxBytes !== undefined && this.bytes > this.options.maxBytes)
+    );
+  }
+}
+
+async function readParquetObject(
+  store: ObjectStore,
+  object: ObjectInfo,
+  options: CloudReadOptions,
+): Promise<{ columns: string[]; rows: Row[]; bytes: number; rowCount: number }> {
+  const { parquet, arrow } = await loadParquetRuntime();
+  const file = await parquet.ParquetFile.fromFile(rangeBlob(store, object));
+  try {
+    const schema = arrow.tableFromIPC(file.schema().intoIPCStream()).schema;
+    const fileColumns = schema.fields.map((field) => field.name);
+    const metadata = file.metadata();
+    const rowCount = metadata.fileMetadata().numRows();
+
+    // Row groups: only as many as the limit needs (filters can't skip any)
+    let rowGroups: number[] | undefined;
+    if (options.limit !== undefined) {
+      rowGroups = [];
+      let covered = 0;
+      for (let i = 0; i < metadata.numRowGroups() && covered < options.limit; i++) {
+        rowGroups.push(i);
+        covered += metadata.rowGroup(i).numRows();
+      }
+      if (rowGroups.length === 0) {
+        return { columns: fileColumns, rows: [], bytes: 0, rowCount };
+      }
+    }
+
+    // Column pruning: only fetch chunks for requested columns in this file
+    const present = options.columns?.filter((column) => fileColumns.includes(column));
+    if (present && present.length === 0) {
+      // None of the columns are in this file - only the row count matters
+      const total = Math.min(rowCount, options.limit ?? rowCount);
+      const rows = new RowCollector(options);
+      for (let i = 0; i < total && !rows.full; i++) rows.add({});
+      return { columns: fileColumns, rows: rows.rows, bytes: rows.bytes, rowCount };
+    }
+
+    const table = await file.read({ columns: present, rowGroups });
+    const rows = new RowCollector(options);
+    // Each batch carries its own (projected) schema
+    for (const batch of table.recordBatches()) {
+      const batchTable = arrow.tableFromIPC(batch.intoIPCStream());
+      const fields = batchTable.schema.fields.map((field) => ({
+        name: field.name,
+        temporal:
+          arrow.DataType.isTimestamp(field.type) || arrow.DataType.isDate(field.type),
+        vector: batchTable.getChild(field.name),
+      }));
+      for (let i = 0; i < batchTable.numRows; i++) {
+        const row: Row = {};
+        for (const field of fields) {
+          row[field.name] = fromArrowValue(field.vector?.get(i), field.temporal);
+        }
+        rows.add(row);
+        if (rows.full) break;
+      }
+      if (rows.full) break;
+    }
+    table.free();
+    return { columns: fileColumns, rows: rows.rows, bytes: rows.bytes, rowCount };
+  } finally {
+    file.free();
+  }
+}
+
+// ============================================================================
+// CSV / NDJSON
+// ============================================================================
+
+async function readCsvObject(
+  store: ObjectStore,
+  object: ObjectInfo,
+  options: CloudReadOptions,
+): Promise<{ columns: string[]; rows: Row[]; bytes: number }> {
+  const source = Readable.fromWeb(
+    (await store.stream(object.key)) as import("stream/web").ReadableStream,
+  );
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: true,
+  });
+  let columns: string[] = [];
+
+  const rows = new RowCollector(options);
+  try {
+    for await (const row of source.pipe(parser) as AsyncIterable<Row>) {
+      if (columns.length === 0) columns = Object.keys(row);
+      rows.add(row);
+      if (rows.full) break;
+    }
+  } finally {
+    // Stop downloading once we have enough rows
+    source.destroy();
+    parser.destroy();
+  }
+  return { columns, rows: rows.rows, bytes: rows.bytes };
+}
+
+async function readNdjsonObject(
+  store: ObjectStore,
+  object: ObjectInfo,
+  options: CloudReadOptions,
+): Promise<{ columns: string[]; rows: Row[]; bytes: number }> {
+  const reader = (await store.stream(object.key)).getReader();
+  const decoder = new TextDecoder();
+  const columns = new Set<string>();
+  const rows = new RowCollector(options);
+  let buffer = "";
+
+  const addLine = (line: string) => {
+    if (!line.trim()) return;
+    const row = JSON.parse(line) as Row;
+    Object.keys(row).forEach((key) => columns.add(key));
+    rows.add(row);
+  };
+
+  try {
+    while (!rows.full) {
+      const { done, value } = await reader.read();
+      if (done) {
+        addLine(buffer);
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        addLine(line);
+        if (rows.full) break;
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+  return { columns: Array.from(columns), rows: rows.rows, bytes: rows.bytes };
+}
+
+// ============================================================================
+// CloudTable
+// ============================================================================
+
+export class CloudTable {
+  private readonly maxRows: number;
+
+  /**
+   * @param store - Bucket the objects live in
+   * @param objects - Objects making up the table (a glob's matches)
+   * @param format - File format shared by every object
+   * @param maxRows - Refuse to load more rows than this (default: CLOUD_TABLE_MAX_ROWS or 1,000,000)
+   */
+  constructor(
+    private readonly store: ObjectStore,
+    readonly objects: ObjectInfo[],
+    readonly format: CloudFileFormat,
+    maxRows?: number,
+  ) {
+    this.maxRows = maxRows ?? envInt("CLOUD_TABLE_MAX_ROWS", 1_000_000);
+  }
+
+  /**
+   * Read the column names, row count (Parquet) and first rows.
+   */
+  async describe(sampleRows: number): Promise<CloudTableInfo> {
+    if (this.format === "parquet") {
+      // Footers are small, so row counts come from every file's metadata
+      const columns = new Set<string>();
+      const sample: Row[] = [];
+      let rowCount = 0;
+      for (const object of this.objects) {
+        const remaining = sampleRows - sample.length;
+        const result = await readParquetObject(this.store, object, {
+          limit: Math.max(remaining, 0),
+        });
+        result.columns.forEach((column) => columns.add(column));
+        sample.push(...result.rows);
+        rowCount += result.rowCount;
+      }
+      const names = Array.from(columns);
+      return {
+        columns: names,
+        rowCount,
+        sampleRows: sample.map((row) => pickColumns(row, names)),
+      };
+    }
+
+    const sample = await this.read({ limit: sampleRows });
+    const columns = Array.from(new Set(sample.flatMap((row) => Object.keys(row))));
+    return {
+      columns,
+      rowCount: null,
+      sampleRows: sample.map((row) => pickColumns(row, columns)),
+    };
+  }
+
+  /**
+   * Read rows from every object in order, pruning to the requested columns.
+   */
+  async read(options: CloudReadOptions = {}): Promise<Row[]> {
+    const rows: Row[] = [];
+    let bytes = 0;
+    for (const object of this.objects) {
+      const remaining = options.limit !== undefined ? options.limit - rows.length : undefined;
+      if (remaining !== undefined && remaining <= 0) break;
+
+      // Read one row past the cap to detect tables that are too large
+      const limit = remaining ?? this.maxRows - rows.length + 1;
+      const maxBytes = options.maxBytes !== undefined ? options.maxBytes - bytes : undefined;
+      const objectOptions = { columns: options.columns, limit, maxBytes };
+      const result =
+        this.format === "parquet"
+          ? await readParquetObject(this.store, object, objectOptions)
+          : this.format === "csv"
+            ? await readCsvObject(this.store, object, objectOptions)
+            : await readNdjsonObject(this.store, object, objectOptions);
+      rows.push(...result.rows);
+      bytes += result.bytes;
+
+      if (options.maxBytes !== undefined && bytes > options.maxBytes) {
+        throw new Error(
+          `Cloud table needs more than ${options.maxBytes} bytes of memory. Query fewer columns or narrow the file pattern.`,
+        );
+      }
+      if (rows.length > this.maxRows) {
+        throw new Error(
+          `Cloud table has more than ${this.maxRows} rows. Narrow the file pattern or raise CLOUD_TABLE_MAX_ROWS.`,
+        );
+      }
+    }
+    return rows;
+  }
+}
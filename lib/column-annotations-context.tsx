@@ -8,6 +8,14 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import {
+  deleteKnowledgeEntry,
+  fetchKnowledge,
+  saveAnnotation,
+  updateKnowledgeEntry,
+  type KnowledgeConnection,
+} from "./knowledge-client";
+import type { StoredAnnotation } from "./knowledge-store";
 
 /**
  * Column annotation for business rules and metadata.
@@ -24,6 +32,7 @@ export interface ColumnAnnotation {
   format?: "currency" | "percent" | "number" | "date" | "text";
   aggregation?: "sum" | "avg" | "count" | "min" | "max"; // Preferred aggregation
   examples?: string[]; // Example values
+  version?: number; // Server revision
   createdAt: string;
   updatedAt: string;
 }
@@ -39,6 +48,7 @@ export interface TableAnnotation {
   businessContext?: string; // Business rules/context
   primaryKeyColumn?: string;
   importantColumns?: string[]; // Key columns to focus on
+  version?: number; // Server revision
   createdAt: string;
   updatedAt: string;
 }
@@ -55,79 +65,106 @@ interface ColumnAnnotationsContextValue {
   deleteTableAnnotation: (id: string) => void;
   getTableAnnotation: (tableName: string) => TableAnnotation | undefined;
   getAnnotationsForPrompt: () => string;
+  /** Switch to another database's annotations (null when no database is connected) */
+  setConnection: (connection: KnowledgeConnection | null) => void;
 }
 
 const ColumnAnnotationsContext = createContext<ColumnAnnotationsContextValue | null>(null);
 
-const COLUMN_STORAGE_KEY = "dashb-column-annotations";
-const TABLE_STORAGE_KEY = "dashb-table-annotations";
+// Annotations used to live in the browser; they move to the server on first load
+const LEGACY_COLUMN_STORAGE_KEY = "dashb-column-annotations";
+const LEGACY_TABLE_STORAGE_KEY = "dashb-table-annotations";
 
 interface ColumnAnnotationsProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Annotations are stored on the server per database (/api/knowledge) and
+ * shared by everyone using it; the agent gets them in its system prompt.
+ */
 export function ColumnAnnotationsProvider({ children }: ColumnAnnotationsProviderProps) {
   const [columnAnnotations, setColumnAnnotations] = useState<ColumnAnnotation[]>([]);
   const [tableAnnotations, setTableAnnotations] = useState<TableAnnotation[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [connection, setConnectionState] = useState<KnowledgeConnection | null>(null);
 
-  // Load from localStorage on mount
-  useEffect(() => {
-    try {
-      const storedColumns = localStorage.getItem(COLUMN_STORAGE_KEY);
-      if (storedColumns) {
-        setColumnAnnotations(JSON.parse(storedColumns));
-      }
-      const storedTables = localStorage.getItem(TABLE_STORAGE_KEY);
-      if (storedTables) {
-        setTableAnnotations(JSON.parse(storedTables));
-      }
-    } catch (e) {
-      console.error("Failed to load annotations:", e);
-    }
-    setIsLoaded(true);
+  const setConnection = useCallback((next: KnowledgeConnection | null) => {
+    // Callers pass a fresh object on every render; only reload on a real change
+    setConnectionState((prev) =>
+      JSON.stringify(prev) === JSON.stringify(next) ? prev : next,
+    );
+  }, []);
+
+  const applyServerAnnotations = useCallback((annotations: StoredAnnotation[]) => {
+    const upsert = <T extends { id: string }>(prev: T[], saved: T[]) =>
+      saved.reduce(
+        (list, annotation) =>
+          list.some((a) => a.id === annotation.id)
+            ? list.map((a) => (a.id === annotation.id ? annotation : a))
+            : [...list, annotation],
+        prev,
+      );
+    setColumnAnnotations((prev) =>
+      upsert(prev, annotations.filter((a): a is Extract<StoredAnnotation, { kind: "column" }> => a.kind === "column")),
+    );
+    setTableAnnotations((prev) =>
+      upsert(prev, annotations.filter((a): a is Extract<StoredAnnotation, { kind: "table" }> => a.kind === "table")),
+    );
   }, []);
 
-  // Save to localStorage when annotations change
+  // Load the connected database's annotations
   useEffect(() => {
-    if (isLoaded) {
+    setColumnAnnotations([]);
+    setTableAnnotations([]);
+    if (!connection) return;
+    let cancelled = false;
+    (async () => {
       try {
-        localStorage.setItem(COLUMN_STORAGE_KEY, JSON.stringify(columnAnnotations));
-        localStorage.setItem(TABLE_STORAGE_KEY, JSON.stringify(tableAnnotations));
+        await migrateLegacyAnnotations(connection);
+        const knowledge = await fetchKnowledge(connection);
+        if (!cancelled) applyServerAnnotations(knowledge.annotations);
       } catch (e) {
-        console.error("Failed to save annotations:", e);
+        console.error("Failed to load annotations:", e);
       }
-    }
-  }, [columnAnnotations, tableAnnotations, isLoaded]);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, applyServerAnnotations]);
 
   const addColumnAnnotation = useCallback(
     (annotation: Omit<ColumnAnnotation, "id" | "createdAt" | "updatedAt">) => {
-      const now = new Date().toISOString();
-      const newAnnotation: ColumnAnnotation = {
-        ...annotation,
-        id: `col-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-      };
-      setColumnAnnotations((prev) => [...prev, newAnnotation]);
+      if (!connection) return;
+      // The server updates the column's existing annotation, if any
+      saveAnnotation(connection, { ...annotation, kind: "column" })
+        .then((saved) => applyServerAnnotations([saved]))
+        .catch((e) => console.error("Failed to save annotation:", e));
+    },
+    [connection, applyServerAnnotations]
+  );
+
+  const updateAnnotation = useCallback(
+    (id: string, updates: Record<string, unknown>, current?: { version?: number }) => {
+      if (!connection) return;
+      updateKnowledgeEntry(connection, id, updates, current?.version)
+        .then((saved) => applyServerAnnotations([saved as StoredAnnotation]))
+        .catch((e) => console.error("Failed to update annotation:", e));
     },
-    []
+    [connection, applyServerAnnotations]
   );
 
   const updateColumnAnnotation = useCallback(
     (id: string, updates: Partial<ColumnAnnotation>) => {
-      setColumnAnnotations((prev) =>
-        prev.map((a) =>
-          a.id === id ? { ...a, ...updates, updatedAt: new Date().toISOString() } : a
-        )
-      );
+      updateAnnotation(id, updates, columnAnnotations.find((a) => a.id === id));
     },
-    []
+    [updateAnnotation, columnAnnotations]
   );
 
   const deleteColumnAnnotation = useCallback((id: string) => {
+    if (!connection) return;
     setColumnAnnotations((prev) => prev.filter((a) => a.id !== id));
-  }, []);
+    deleteKnowledgeEntry(connection, id).catch((e) => console.error("Failed to delete annotation:", e));
+  }, [connection]);
 
   const getColumnAnnotation = useCallback(
     (tableName: string, columnName: string): ColumnAnnotation | undefined => {
@@ -140,32 +177,27 @@ export function ColumnAnnotationsProvider({ children }: ColumnAnnotationsProvide
 
   const addTableAnnotation = useCallback(
     (annotation: Omit<TableAnnotation, "id" | "createdAt" | "updatedAt">) => {
-      const now = new Date().toISOString();
-      const newAnnotation: TableAnnotation = {
-        ...annotation,
-        id: `tbl-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-        createdAt: now,
-        updatedAt: now,
-      };
-      setTableAnnotations((prev) => [...prev, newAnnotation]);
+      if (!connection) return;
+      // The server updates the table's existing annotation, if any
+      saveAnnotation(connection, { ...annotation, kind: "table" })
+        .then((saved) => applyServerAnnotations([saved]))
+        .catch((e) => console.error("Failed to save annotation:", e));
     },
-    []
+    [connection, applyServerAnnotations]
   );
 
   const updateTableAnnotation = useCallback(
     (id: string, updates: Partial<TableAnnotation>) => {
-      setTableAnnotations((prev) =>
-        prev.map((a) =>
-          a.id === id ? { ...a, ...updates, updatedAt: new Date().toISOString() } : a
-        )
-      );
+      updateAnnotation(id, updates, tableAnnotations.find((a) => a.id === id));
     },
-    []
+    [updateAnnotation, tableAnnotations]
   );
 
   const deleteTableAnnotation = useCallback((id: string) => {
+    if (!connection) return;
     setTableAnnotations((prev) => prev.filter((a) => a.id !== id));
-  }, []);
+    deleteKnowledgeEntry(connection, id).catch((e) => console.error("Failed to delete annotation:", e));
+  }, [connection]);
 
   const getTableAnnotation = useCallback(
     (tableName: string): TableAnnotation | undefined => {
@@ -241,6 +273,7 @@ ${sections.join("\n\n")}
         deleteTableAnnotation,
         getTableAnnotation,
         getAnnotationsForPrompt,
+        setConnection,
       }}
     >
       {children}
@@ -248,6 +281,29 @@ ${sections.join("\n\n")}
   );
 }
 
+/**
+ * Move annotations saved in this browser by older versions to the server.
+ */
+async function migrateLegacyAnnotations(connection: KnowledgeConnection): Promise<void> {
+  const storedTables = localStorage.getItem(LEGACY_TABLE_STORAGE_KEY);
+  const storedColumns = localStorage.getItem(LEGACY_COLUMN_STORAGE_KEY);
+  if (!storedTables && !storedColumns) return;
+  const strip = <T extends { id: string; createdAt: string; updatedAt: string }>({
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    ...rest
+  }: T) => rest;
+  for (const annotation of JSON.parse(storedTables ?? "[]") as TableAnnotation[]) {
+    await saveAnnotation(connection, { ...strip(annotation), kind: "table" });
+  }
+  for (const annotation of JSON.parse(storedColumns ?? "[]") as ColumnAnnotation[]) {
+    await saveAnnotation(connection, { ...strip(annotation), kind: "column" });
+  }
+  localStorage.removeItem(LEGACY_TABLE_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_COLUMN_STORAGE_KEY);
+}
+
 export function useColumnAnnotations(): ColumnAnnotationsContextValue {
   const context = useContext(ColumnAnnotationsContext);
   if (!context) {
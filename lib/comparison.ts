@@ -0,0 +1,141 @@
+/**
+ * Comparison periods
+ *
+ * With a comparison mode on, /api/execute-queries runs every date-filtered
+ * query a second time with its date filters shifted to the comparison
+ * period: the equally long period just before ("previous-period"), or the
+ * same dates a year earlier ("same-period-last-year"). Metrics show the
+ * change against the comparison value and line/area charts overlay the
+ * comparison series.
+ *
+ * Date ranges arrive as `<column>_from`/`<column>_to` parameter pairs (see
+ * getFilterParams), already resolved from relative expressions. Only
+ * complete pairs of calendar dates (YYYY-MM-DD) are shifted.
+ */
+
+import type { FilterMeta } from "./filter-metadata";
+
+export type ComparisonMode = "previous-period" | "same-period-last-year";
+
+export const COMPARISON_MODES: Record<ComparisonMode, string> = {
+  "previous-period": "Previous period",
+  "same-period-last-year": "Same period last year",
+};
+
+export function isComparisonMode(value: unknown): value is ComparisonMode {
+  return typeof value === "string" && value in COMPARISON_MODES;
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+/**
+ * The filter parameters of the comparison period
+ */
+export interface ComparisonParams {
+  mode: ComparisonMode;
+  /** The request's parameters with the date ranges shifted */
+  params: Record<string, string>;
+  /** The shifted parameter names (date_from, date_to, ...) */
+  shifted: string[];
+  /** The comparison range of each date column */
+  ranges: Record<string, DateRange>;
+}
+
+const CALENDAR_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDay(value: string): Date | null {
+  const match = value.match(CALENDAR_DATE);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/** The same date a year earlier; Feb 29 becomes Feb 28 */
+function yearEarlier(date: Date): Date {
+  const year = date.getUTCFullYear() - 1;
+  const lastDay = new Date(Date.UTC(year, date.getUTCMonth() + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, date.getUTCMonth(), Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * The comparison period of a date range, or null when the range isn't a
+ * pair of calendar dates in order.
+ */
+export function comparisonRange(range: DateRange, mode: ComparisonMode): DateRange | null {
+  const from = parseDay(range.from);
+  const to = parseDay(range.to);
+  if (!from || !to || from > to) return null;
+  if (mode === "same-period-last-year") {
+    return { from: formatDay(yearEarlier(from)), to: formatDay(yearEarlier(to)) };
+  }
+  // As many days as the range, ending the day before it starts
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  return { from: formatDay(addDays(from, -days)), to: formatDay(addDays(from, -1)) };
+}
+
+/**
+ * Shift every `<column>_from`/`<column>_to` pair to the comparison period.
+ * Returns null when there is no date range to compare.
+ */
+export function comparisonParams(
+  filterParams: Record<string, string>,
+  mode: ComparisonMode,
+): ComparisonParams | null {
+  const params = { ...filterParams };
+  const shifted: string[] = [];
+  const ranges: Record<string, DateRange> = {};
+
+  for (const [key, from] of Object.entries(filterParams)) {
+    if (!key.endsWith("_from")) continue;
+    const column = key.slice(0, -"_from".length);
+    const to = filterParams[`${column}_to`];
+    if (to === undefined) continue;
+    const range = comparisonRange({ from, to }, mode);
+    if (!range) continue;
+    params[`${column}_from`] = range.from;
+    params[`${column}_to`] = range.to;
+    shifted.push(`${column}_from`, `${column}_to`);
+    ranges[column] = range;
+  }
+
+  return shifted.length > 0 ? { mode, params, shifted, ranges } : null;
+}
+
+/**
+ * Whether a query has a comparison: one of its date filters is shifted and
+ * none is left at the current period (which would mix the two periods).
+ */
+export function isComparedQuery(
+  filterMeta: FilterMeta[] | undefined,
+  filterParams: Record<string, string>,
+  comparison: ComparisonParams,
+): boolean {
+  const applied = (filterMeta ?? []).filter(
+    (meta) => meta.type === "date" && filterParams[meta.id] !== undefined,
+  );
+  return applied.length > 0 && applied.every((meta) => comparison.shifted.includes(meta.id));
+}
+
+/**
+ * Change from the comparison value to the current one, with the percent
+ * change (null when the comparison value is zero).
+ */
+export function periodChange(
+  current: number,
+  previous: number,
+): { delta: number; percent: number | null } {
+  const delta = current - previous;
+  return { delta, percent: previous === 0 ? null : (delta / Math.abs(previous)) * 100 };
+}
@@ -0,0 +1,393 @@
+/**
+ * Server-side connection profiles (server-only).
+ *
+ * Database and cloud storage credentials are stored here once and referenced
+ * by id, so passwords and keys are not posted with every request. Configs are
+ * encrypted at rest with AES-256-GCM using CREDENTIAL_VAULT_KEY; profiles are
+ * scoped to the browser session that created them.
+ *
+ * Without a key the vault encrypts with a random per-process key and keeps
+ * profiles in memory only: they are lost on restart and nothing is written
+ * to disk.
+ *
+ * Profiles unused for as long as a session cookie lasts are deleted, since
+ * nobody can reach them once their session is gone.
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+  randomUUID,
+} from "crypto";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+import type { DBConfig } from "./db";
+import type { GCSConfig, S3Config } from "./cloud-storage";
+import { getSessionId, SESSION_MAX_AGE } from "./session";
+
+export type ConnectionKind = "database" | "s3" | "gcs";
+
+export interface ConnectionConfigs {
+  database: DBConfig;
+  s3: S3Config;
+  gcs: GCSConfig;
+}
+
+/**
+ * What the client sees of a profile - never the secrets.
+ */
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  kind: ConnectionKind;
+  /** Non-secret fields for display (host, database, region, ...) */
+  summary: Record<string, string | number | boolean>;
+  createdAt: string;
+  /** Changes whenever the credentials are rotated */
+  updatedAt: string;
+}
+
+interface EncryptedValue {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface StoredProfile extends ConnectionProfile {
+  sessionId: string;
+  secret: EncryptedValue;
+  /** Last read by its session; missing in files from older versions */
+  lastUsedAt?: string;
+}
+
+export type VaultResult<T> = { success: true; value: T } | { success: false; error: string };
+
+/** How often a profile's lastUsedAt is written back to disk */
+const TOUCH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Fields never shown in a profile summary */
+const SECRET_FIELDS = new Set(["password", "secretAccessKey", "keyFile"]);
+
+/**
+ * Copy the non-secret, scalar fields of a config for display.
+ */
+function summarize(config: object): Record<string, string | number | boolean> {
+  const summary: Record<string, string | number | boolean> = {};
+  for (const [field, value] of Object.entries(config)) {
+    if (SECRET_FIELDS.has(field)) continue;
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      summary[field] = value;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Merge an updated config over a stored one. Blank secret fields keep the
+ * stored secret, so a form can be re-saved without re-entering the password.
+ */
+export function mergeConnectionConfig<T extends object>(stored: T, update: Partial<T>): T {
+  const merged: Record<string, unknown> = { ...(stored as Record<string, unknown>) };
+  for (const [field, value] of Object.entries(update)) {
+    if (SECRET_FIELDS.has(field) && (value === "" || value === undefined)) continue;
+    merged[field] = value;
+  }
+  return merged as T;
+}
+
+export interface CredentialVaultOptions {
+  /** Encryption secret; any string, hashed to a 256-bit key (default: CREDENTIAL_VAULT_KEY) */
+  key?: string;
+  /** JSON file holding the encrypted profiles (default: CREDENTIAL_VAULT_PATH or .data/connections.json) */
+  filePath?: string;
+  /** Delete profiles unused for this long (default: the session cookie's lifetime) */
+  retentionMs?: number;
+}
+
+export class CredentialVault {
+  private readonly key: Buffer;
+  private readonly filePath: string | null;
+  private readonly retentionMs: number;
+  private profiles = new Map<string, StoredProfile>();
+
+  constructor(options: CredentialVaultOptions = {}) {
+    const secret = options.key ?? process.env.CREDENTIAL_VAULT_KEY;
+    this.key = secret ? createHash("sha256").update(secret).digest() : randomBytes(32);
+    this.filePath = secret
+      ? (options.filePath ??
+        process.env.CREDENTIAL_VAULT_PATH ??
+        path.join(process.cwd(), ".data", "connections.json"))
+      : null;
+
+    this.retentionMs = options.retentionMs ?? SESSION_MAX_AGE * 1000;
+
+    if (!secret) {
+      console.warn(
+        "CREDENTIAL_VAULT_KEY is not set - connection profiles are kept in memory only",
+      );
+    }
+    this.load();
+    this.removeExpired();
+  }
+
+  /**
+   * Whether profiles survive a server restart.
+   */
+  get isPersistent(): boolean {
+    return this.filePath !== null;
+  }
+
+  create<K extends ConnectionKind>(
+    sessionId: string,
+    input: { name: string; kind: K; config: ConnectionConfigs[K] },
+    now: number = Date.now(),
+  ): ConnectionProfile {
+    const timestamp = new Date(now).toISOString();
+    const stored: StoredProfile = {
+      id: randomUUID(),
+      sessionId,
+      name: input.name,
+      kind: input.kind,
+      summary: summarize(input.config),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+      lastUsedAt: timestamp,
+      secret: this.encrypt(input.config),
+    };
+    this.profiles.set(stored.id, stored);
+    this.removeExpired(now);
+    this.save();
+    return toProfile(stored);
+  }
+
+  list(sessionId: string, now: number = Date.now()): ConnectionProfile[] {
+    const profiles = Array.from(this.profiles.values()).filter(
+      (profile) => profile.sessionId === sessionId,
+    );
+    this.touch(profiles, now);
+    return profiles.map(toProfile);
+  }
+
+  /**
+   * Decrypt a profile's config. Profiles from other sessions are reported
+   * as missing.
+   */
+  get<K extends ConnectionKind>(
+    sessionId: string | null,
+    id: string,
+    kind?: K,
+    now: number = Date.now(),
+  ): VaultResult<{ profile: ConnectionProfile; config: ConnectionConfigs[K] }> {
+    const stored = this.profiles.get(id);
+    if (!stored || stored.sessionId !== sessionId) {
+      return { success: false, error: `Connection ${id} not found` };
+    }
+    if (kind && stored.kind !== kind) {
+      return { success: false, error: `Connection ${id} is not a ${kind} connection` };
+    }
+    this.touch([stored], now);
+    try {
+      return {
+        success: true,
+        value: {
+          profile: toProfile(stored),
+          config: this.decrypt(stored.secret) as ConnectionConfigs[K],
+        },
+      };
+    } catch {
+      return {
+        success: false,
+        error: `Connection ${id} could not be decrypted - was CREDENTIAL_VAULT_KEY changed?`,
+      };
+    }
+  }
+
+  /**
+   * Replace a profile's credentials (blank secrets keep the stored ones).
+   */
+  rotate(
+    sessionId: string | null,
+    id: string,
+    update: { name?: string; config?: object },
+    now: number = Date.now(),
+  ): VaultResult<ConnectionProfile> {
+    const current = this.get(sessionId, id, undefined, now);
+    if (!current.success) return current;
+
+    const stored = this.profiles.get(id)!;
+    const config = mergeConnectionConfig(current.value.config as object, update.config ?? {});
+    const rotated: StoredProfile = {
+      ...stored,
+      name: update.name ?? stored.name,
+      summary: summarize(config),
+      updatedAt: new Date(now).toISOString(),
+      lastUsedAt: new Date(now).toISOString(),
+      secret: this.encrypt(config),
+    };
+    this.profiles.set(id, rotated);
+    this.save();
+    return { success: true, value: toProfile(rotated) };
+  }
+
+  remove(sessionId: string | null, id: string): boolean {
+    const stored = this.profiles.get(id);
+    if (!stored || stored.sessionId !== sessionId) return false;
+    this.profiles.delete(id);
+    this.save();
+    return true;
+  }
+
+  /**
+   * Record that profiles were used. Written to disk at most once a day per
+   * profile, as reads are frequent.
+   */
+  private touch(profiles: StoredProfile[], now: number): void {
+    let changed = false;
+    for (const profile of profiles) {
+      if (now - lastUsed(profile) < TOUCH_INTERVAL_MS) continue;
+      profile.lastUsedAt = new Date(now).toISOString();
+      changed = true;
+    }
+    if (changed) this.save();
+  }
+
+  /**
+   * Delete the profiles unused for longer than the retention period, whose
+   * session cookie has expired.
+   */
+  private removeExpired(now: number = Date.now()): void {
+    let removed = false;
+    for (const [id, profile] of Array.from(this.profiles.entries())) {
+      if (now - lastUsed(profile) > this.retentionMs) {
+        this.profiles.delete(id);
+        removed = true;
+      }
+    }
+    if (removed) this.save();
+  }
+
+  private encrypt(config: object): EncryptedValue {
+    const plaintext = Buffer.from(JSON.stringify(config), "utf8");
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return {
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      data: data.toString("base64"),
+    };
+  }
+
+  private decrypt(value: EncryptedValue): object {
+    const decipher = createDecipheriv("aes-256-gcm", this.key, Buffer.from(value.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(value.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(value.data, "base64")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf8"));
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+    try {
+      const stored = JSON.parse(readFileSync(this.filePath, "utf8")) as StoredProfile[];
+      this.profiles = new Map(stored.map((profile) => [profile.id, profile]));
+    } catch (err) {
+      console.error(`Failed to read connection profiles from ${this.filePath}:`, err);
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(Array.from(this.profiles.values()), null, 2), {
+      mode: 0o600,
+    });
+    renameSync(tempPath, this.filePath);
+  }
+}
+
+function lastUsed(stored: StoredProfile): number {
+  return Date.parse(stored.lastUsedAt ?? stored.updatedAt);
+}
+
+function toProfile(stored: StoredProfile): ConnectionProfile {
+  return {
+    id: stored.id,
+    name: stored.name,
+    kind: stored.kind,
+    summary: stored.summary,
+    createdAt: stored.createdAt,
+    updatedAt: stored.updatedAt,
+  };
+}
+
+// Singleton instance for the server
+let globalVault: CredentialVault | null = null;
+
+export function getCredentialVault(): CredentialVault {
+  if (!globalVault) {
+    globalVault = new CredentialVault();
+  }
+  return globalVault;
+}
+
+export type ResolvedConnection<T> =
+  | {
+      success: true;
+      config: T;
+      /** Identifies the connection in cache keys without embedding secrets */
+      cacheKey: string;
+    }
+  | { success: false; error: string; status: number };
+
+/**
+ * Find the config a request should use: a stored profile by `connectionId`,
+ * or a config posted inline (the demo database, which has no secrets, and
+ * older API clients). Cache keys hash inline configs so secrets never end
+ * up in them.
+ */
+export function resolveConnection<K extends ConnectionKind>(
+  req: Request,
+  kind: K,
+  body: { connectionId?: string; config?: ConnectionConfigs[K] },
+): ResolvedConnection<ConnectionConfigs[K]> {
+  if (body.connectionId) {
+    const found = getCredentialVault().get(getSessionId(req), body.connectionId, kind);
+    if (!found.success) {
+      return { success: false, error: found.error, status: 404 };
+    }
+    const { profile, config } = found.value;
+    return { success: true, config, cacheKey: `${profile.id}:${profile.updatedAt}` };
+  }
+  if (body.config) {
+    return { success: true, config: body.config, cacheKey: hashConfig(body.config) };
+  }
+  return { success: false, error: "connectionId is required", status: 400 };
+}
+
+/**
+ * Like resolveConnection, but a missing database config means the server's
+ * default database (DB_* environment variables).
+ */
+export function resolveDatabaseConnection(
+  req: Request,
+  body: { connectionId?: string; dbConfig?: DBConfig },
+): ResolvedConnection<DBConfig | undefined> {
+  if (!body.connectionId && !body.dbConfig) {
+    return { success: true, config: undefined, cacheKey: "default" };
+  }
+  return resolveConnection(req, "database", {
+    connectionId: body.connectionId,
+    config: body.dbConfig,
+  });
+}
+
+export function hashConfig(config: object): string {
+  return createHash("sha256").update(JSON.stringify(config)).digest("hex").slice(0, 32);
+}
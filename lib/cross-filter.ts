@@ -0,0 +1,195 @@
+/**
+ * Cross-filtering
+ *
+ * In cross-filter mode, clicking a chart segment (a bar, pie slice, map
+ * region or treemap tile) filters the rest of the dashboard to that value.
+ * The chart's label column becomes an equality filter on every other query
+ * that reads a table with a column of that name; queries over other tables
+ * are left as they are. The filters are applied server-side by
+ * /api/execute-queries with the FilterMeta built here.
+ */
+
+import type { DatabaseType } from "./db-adapters/types";
+import type { FilterMeta } from "./filter-metadata";
+import { identifierName, isKeyword, significantTokens, type SQLToken } from "./sql-tokenizer";
+
+/**
+ * A dimension value selected by clicking a chart segment
+ */
+export interface CrossFilter {
+  /** The clicked chart's label column */
+  column: string;
+  value: string | number;
+  /** The query of the chart that was clicked - it isn't filtered itself */
+  sourceQueryKey: string;
+  /** Chart title, for the filter chip */
+  sourceTitle?: string;
+}
+
+/**
+ * A table a query reads, with the alias it is referenced by
+ */
+export interface SourceTable {
+  table: string;
+  alias?: string;
+}
+
+/** Words that can follow a table name and aren't an alias */
+const NOT_ALIASES = new Set([
+  "where", "join", "inner", "left", "right", "full", "outer", "cross", "natural", "on", "using",
+  "group", "order", "limit", "having", "union", "intersect", "except", "window", "offset", "fetch",
+  "lateral", "as", "for", "with", "tablesample",
+]);
+
+function isIdentifier(token: SQLToken | undefined): token is SQLToken {
+  return token !== undefined && (token.type === "word" || token.type === "quoted_identifier");
+}
+
+/** Index of the parenthesis closing the one at `open` */
+function closingParen(tokens: SQLToken[], open: number): number {
+  for (let i = open + 1; i < tokens.length; i++) {
+    if (tokens[i]!.type === "close_paren" && tokens[i]!.depth === tokens[open]!.depth) return i;
+  }
+  return tokens.length;
+}
+
+/**
+ * Names of the query's CTEs (lowercased): `WITH name [(columns)] AS [[NOT] MATERIALIZED] (...)`.
+ */
+function cteNames(tokens: SQLToken[]): Set<string> {
+  const names = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isKeyword(tokens[i], "WITH")) continue;
+    let j = isKeyword(tokens[i + 1], "RECURSIVE") ? i + 2 : i + 1;
+    while (isIdentifier(tokens[j])) {
+      const name = identifierName(tokens[j]!).toLowerCase();
+      j++;
+      if (tokens[j]?.type === "open_paren") j = closingParen(tokens, j) + 1;
+      if (!isKeyword(tokens[j], "AS")) break;
+      j++;
+      if (isKeyword(tokens[j], "NOT")) j++;
+      if (isKeyword(tokens[j], "MATERIALIZED")) j++;
+      if (tokens[j]?.type !== "open_paren") break;
+      names.add(name);
+      j = closingParen(tokens, j) + 1;
+      if (tokens[j]?.type !== "comma") break;
+      j++;
+    }
+  }
+  return names;
+}
+
+/**
+ * The table reference starting at `start` (schema-qualified name, optional
+ * alias), or null for a derived table or table function.
+ */
+function tableReference(tokens: SQLToken[], start: number): { table: SourceTable; next: number } | null {
+  let i = start;
+  if (!isIdentifier(tokens[i])) return null;
+  let table = identifierName(tokens[i]!);
+  while (tokens[i + 1]?.type === "dot" && isIdentifier(tokens[i + 2])) {
+    i += 2;
+    table = identifierName(tokens[i]!);
+  }
+  i++;
+  if (tokens[i]?.type === "open_paren") return null;
+
+  const explicit = isKeyword(tokens[i], "AS");
+  const aliasToken = tokens[explicit ? i + 1 : i];
+  const isAlias =
+    isIdentifier(aliasToken) &&
+    (aliasToken.type === "quoted_identifier" || !NOT_ALIASES.has(aliasToken.value.toLowerCase()));
+  if (!isAlias) return { table: { table }, next: i };
+  return {
+    table: { table, alias: identifierName(aliasToken) },
+    next: explicit ? i + 2 : i + 1,
+  };
+}
+
+/**
+ * The tables in the FROM and JOIN clauses of a query's main SELECT (every
+ * branch of a UNION). Subqueries and CTE bodies are skipped, and so are
+ * references to CTEs - a CTE named like a schema table isn't that table.
+ */
+export function sourceTables(sql: string, dialect?: DatabaseType): SourceTable[] {
+  const tokens = significantTokens(sql, dialect);
+  const ctes = cteNames(tokens);
+  const tables: SourceTable[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    const isFrom = isKeyword(token, "FROM");
+    if (token.depth !== 0 || !(isFrom || isKeyword(token, "JOIN"))) continue;
+
+    // FROM a, b lists several tables
+    let next = i + 1;
+    for (;;) {
+      const reference = tableReference(tokens, next);
+      if (!reference) break;
+      if (!ctes.has(reference.table.table.toLowerCase())) tables.push(reference.table);
+      next = reference.next;
+      if (!isFrom || tokens[next]?.type !== "comma") break;
+      next++;
+    }
+  }
+  return tables;
+}
+
+/** Filter id, and request parameter name, of a cross filter */
+export function crossFilterParamId(column: string): string {
+  return `xf_${column}`;
+}
+
+/**
+ * Request parameters for the cross filters, one per column.
+ */
+export function crossFilterParams(crossFilters: CrossFilter[]): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const filter of crossFilters) {
+    params[crossFilterParamId(filter.column)] = String(filter.value);
+  }
+  return params;
+}
+
+/**
+ * FilterMeta applying the cross filters to one query: a filter applies when
+ * one of the tables the query reads has the column, and the query isn't the
+ * one whose chart was clicked. `columnsOf` looks up a table's columns.
+ */
+export function crossFilterMeta(
+  queryKey: string,
+  sql: string,
+  crossFilters: CrossFilter[],
+  columnsOf: (table: string) => string[] | undefined,
+  dialect?: DatabaseType,
+): FilterMeta[] {
+  const tables = sourceTables(sql, dialect);
+  const meta: FilterMeta[] = [];
+  for (const filter of crossFilters) {
+    if (filter.sourceQueryKey === queryKey) continue;
+    const wanted = filter.column.toLowerCase();
+    for (const { table, alias } of tables) {
+      const column = columnsOf(table)?.find((name) => name.toLowerCase() === wanted);
+      if (!column) continue;
+      meta.push({
+        id: crossFilterParamId(filter.column),
+        column,
+        operator: "eq",
+        type: typeof filter.value === "number" ? "number" : "text",
+        // Qualify the column when the query reads several tables
+        ...(tables.length > 1 && { table: alias ?? table }),
+      });
+      break;
+    }
+  }
+  return meta;
+}
+
+/**
+ * A case-insensitive column lookup over schema tables.
+ */
+export function columnLookup(
+  tables: Array<{ name: string; columns: Array<{ name: string }> }>,
+): (table: string) => string[] | undefined {
+  const byName = new Map(tables.map((table) => [table.name.toLowerCase(), table.columns.map((column) => column.name)]));
+  return (table) => byName.get(table.toLowerCase());
+}
@@ -0,0 +1,178 @@
+/**
+ * Follow-up editing of a generated dashboard.
+ *
+ * Instead of regenerating everything, the client sends the current UI tree,
+ * its queries and filters with the follow-up request. The agent answers with
+ * incremental JSON patches (and execute_sql calls for new or changed
+ * queries) that the dashboard applies on top of the existing tree, so manual
+ * changes survive. Shared by the dashboard page and /api/generate-agentic.
+ */
+
+import type { ModelMessage } from "ai";
+import type { JsonPatch, UITree } from "@json-render/core";
+import type { FilterMeta } from "./filter-metadata";
+import type { FilterDefinition } from "./query-history";
+
+export interface DashboardQuery {
+  key: string;
+  sql: string;
+  filterMeta?: FilterMeta[];
+}
+
+/**
+ * The dashboard a follow-up request edits.
+ */
+export interface DashboardContext {
+  tree: UITree;
+  queries: DashboardQuery[];
+  filters?: FilterDefinition[];
+}
+
+/**
+ * One turn of a dashboard's editing conversation. Assistant turns hold a
+ * summary of the changes made, not the raw patches - the current tree is
+ * always sent in full.
+ */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** Earlier turns beyond this are dropped from the model's context */
+export const MAX_CONVERSATION_TURNS = 12;
+
+/** Longest turn passed to the model (longer ones are cut) */
+const MAX_TURN_LENGTH = 2000;
+
+/**
+ * Check a posted context has the shape the prompt builder needs.
+ */
+export function parseDashboardContext(value: unknown): DashboardContext | null {
+  if (!value || typeof value !== "object") return null;
+  const { tree, queries, filters } = value as Partial<DashboardContext>;
+  if (
+    !tree ||
+    typeof tree.root !== "string" ||
+    !tree.elements ||
+    typeof tree.elements !== "object" ||
+    !Array.isArray(queries) ||
+    !queries.every((q) => typeof q?.key === "string" && typeof q?.sql === "string")
+  ) {
+    return null;
+  }
+  return { tree, queries, filters: Array.isArray(filters) ? filters : [] };
+}
+
+/**
+ * System prompt section describing the dashboard being edited and how to
+ * express changes as patches.
+ */
+export function buildEditInstructions(context: DashboardContext): string {
+  const queries =
+    context.queries.length > 0
+      ? context.queries
+          .map((q) => {
+            const meta = q.filterMeta?.length ? `\n  filterMeta: ${JSON.stringify(q.filterMeta)}` : "";
+            return `- ${q.key}: ${q.sql.replace(/\s+/g, " ").trim()}${meta}`;
+          })
+          .join("\n")
+      : "(none)";
+  const filters =
+    context.filters && context.filters.length > 0
+      ? context.filters
+          .map((f) => `- ${f.id}: ${f.type} filter "${f.label}" on column ${f.column}`)
+          .join("\n")
+      : "(none)";
+
+  return `EDITING AN EXISTING DASHBOARD:
+The user is refining the dashboard below. Do NOT rebuild it from scratch.
+Change only what the request asks for and leave every other element exactly as it is - the user may have edited them by hand.
+
+CURRENT UI TREE (root: "${context.tree.root}"):
+${JSON.stringify(context.tree.elements)}
+
+CURRENT QUERIES (their results are already loaded):
+${queries}
+
+CURRENT FILTERS:
+${filters}
+
+HOW TO EDIT:
+1. Reuse existing query keys when their data already answers the request.
+2. For new data, call execute_sql with a NEW key. To change a query, call execute_sql with its EXISTING key and the new SQL. Include filterMeta so the current filters keep applying.
+3. After the queries succeed, call render_ui with ONLY the patches for what changes, one JSON object per line:
+{"op":"add","path":"/elements/region-chart","value":{"key":"region-chart","type":"Chart","props":{...}}}
+{"op":"replace","path":"/elements/revenue-card","value":{...the complete updated element...}}
+{"op":"replace","path":"/elements/main-grid/children","value":["revenue-card","region-chart"]}
+{"op":"remove","path":"/elements/old-chart"}
+4. When you add or remove an element, also replace its parent's children array so it appears in (or disappears from) the right place.
+5. Replace whole elements or whole children arrays - never patch single array items.
+6. Do not re-add elements that already exist, and only set /root if the user asks to restructure the whole dashboard.`;
+}
+
+/**
+ * Messages for a follow-up request: the recent conversation, then the new
+ * request.
+ */
+export function buildConversationMessages(
+  conversation: ConversationTurn[],
+  prompt: string,
+): ModelMessage[] {
+  const recent = conversation
+    .filter((turn) => (turn.role === "user" || turn.role === "assistant") && typeof turn.content === "string")
+    .slice(-MAX_CONVERSATION_TURNS);
+  // Providers expect the conversation to open with a user turn
+  while (recent.length > 0 && recent[0]!.role !== "user") {
+    recent.shift();
+  }
+  return [
+    ...recent.map((turn) => ({ role: turn.role, content: turn.content.slice(0, MAX_TURN_LENGTH) })),
+    { role: "user" as const, content: prompt },
+  ];
+}
+
+/**
+ * Summarize what an agent turn changed, for the conversation history.
+ */
+export function describeEditTurn(patches: JsonPatch[], queryKeys: string[]): string {
+  const lines = patches.map((patch) => `${patch.op} ${patch.path}`);
+  if (queryKeys.length > 0) {
+    lines.push(`queries: ${queryKeys.join(", ")}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : "No changes";
+}
+
+/**
+ * Query keys referenced by the tree's elements.
+ */
+export function referencedQueryKeys(tree: UITree): Set<string> {
+  const keys = new Set<string>();
+  for (const element of Object.values(tree.elements)) {
+    const props = (element.props ?? {}) as Record<string, unknown>;
+    if (typeof props.queryKey === "string") keys.add(props.queryKey);
+    if (typeof props.boundsQueryKey === "string") keys.add(props.boundsQueryKey);
+    if (typeof props.optionsQueryKey === "string") keys.add(props.optionsQueryKey);
+    // Insights describe several queries
+    if (Array.isArray(props.queryKeys)) {
+      for (const key of props.queryKeys) {
+        if (typeof key === "string") keys.add(key);
+      }
+    }
+  }
+  return keys;
+}
+
+/**
+ * Drop the queries whose elements an edit removed, so filter changes stop
+ * re-running them. Queries no element ever used (such as the lookups for
+ * dropdown options) are kept.
+ */
+export function pruneRemovedQueries<T extends { key: string }>(
+  queries: T[],
+  before: UITree,
+  after: UITree,
+): T[] {
+  const used = referencedQueryKeys(after);
+  const usedBefore = referencedQueryKeys(before);
+  return queries.filter((query) => used.has(query.key) || !usedBefore.has(query.key));
+}
@@ -0,0 +1,164 @@
+/**
+ * Few-shot examples from earlier dashboards.
+ *
+ * When the agent builds a dashboard whose queries all ran, the request, the
+ * SQL and the layout are kept per database (KnowledgeStore). New requests
+ * get the most similar ones in the system prompt, so asking "MRR by plan"
+ * again converges on the SQL that worked last time.
+ */
+
+import type { UITree } from "@json-render/core";
+import { referencedQueryKeys } from "./dashboard-edit";
+import type { FilterMeta } from "./filter-metadata";
+import type { DashboardExample } from "./knowledge-store";
+import { tokenize } from "./schema-search";
+import type { SQLToolResult } from "./types/sql-tools";
+
+export type ExampleQuery = DashboardExample["queries"][number];
+
+/** Examples less similar than this (0-1) to the request are left out */
+const MIN_SIMILARITY = 0.4;
+
+/** Layout lines shown per example */
+const MAX_LAYOUT_LINES = 25;
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * The examples whose requests are most similar to `prompt`: the share of
+ * the terms in both requests that they have in common, with rare terms
+ * (table and metric names) counting more than common ones.
+ */
+export function findSimilarExamples(
+  examples: DashboardExample[],
+  prompt: string,
+  limit: number = envInt("FEW_SHOT_EXAMPLES", 2),
+): Array<DashboardExample & { similarity: number }> {
+  const queryTerms = new Set(tokenize(prompt));
+  if (queryTerms.size === 0 || limit === 0) return [];
+
+  const documents = examples.map((example) => new Set(tokenize(example.prompt)));
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    for (const term of Array.from(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+  const idf = (term: string) => {
+    const frequency = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (examples.length - frequency + 0.5) / (frequency + 0.5));
+  };
+
+  return examples
+    .map((example, i) => {
+      const terms = documents[i]!;
+      let shared = 0;
+      let total = 0;
+      for (const term of Array.from(new Set([...Array.from(queryTerms), ...Array.from(terms)]))) {
+        const weight = idf(term);
+        total += weight;
+        if (queryTerms.has(term) && terms.has(term)) shared += weight;
+      }
+      return { ...example, similarity: total > 0 ? Math.round((shared / total) * 100) / 100 : 0 };
+    })
+    .filter((example) => example.similarity >= MIN_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * A tree as an indented outline of component types, titles and queryKeys.
+ */
+export function outlineTree(tree: UITree): string {
+  const lines: string[] = [];
+  const visited = new Set<string>();
+  const walk = (key: string, depth: number) => {
+    const element = tree.elements[key];
+    if (!element || visited.has(key) || lines.length >= MAX_LAYOUT_LINES) return;
+    visited.add(key);
+    const props = (element.props ?? {}) as Record<string, unknown>;
+    let line = `${"  ".repeat(depth)}${element.type}`;
+    if (typeof props.title === "string") line += ` "${props.title}"`;
+    if (typeof props.queryKey === "string") line += ` [${props.queryKey}]`;
+    lines.push(line);
+    for (const child of element.children ?? []) walk(child, depth + 1);
+  };
+  walk(tree.root, 0);
+  return lines.join("\n");
+}
+
+/**
+ * System prompt section with the examples' verified SQL and layouts.
+ */
+export function examplesToPrompt(examples: DashboardExample[]): string {
+  if (examples.length === 0) return "";
+  const sections = examples.map((example, i) => {
+    const queries = example.queries
+      .map((query) => {
+        const meta = query.filterMeta?.length ? `\n  filterMeta: ${JSON.stringify(query.filterMeta)}` : "";
+        return `- ${query.key}: ${query.sql.replace(/\s+/g, " ").trim()}${meta}`;
+      })
+      .join("\n");
+    return `Example ${i + 1} - "${example.prompt}":
+Queries:
+${queries}
+Layout:
+${outlineTree(example.tree)}`;
+  });
+  return `SIMILAR REQUESTS THAT WORKED BEFORE ON THIS DATABASE:
+These dashboards were built for similar requests and all their queries ran. Where they answer the current request, reuse their SQL and layout instead of writing new SQL from scratch - still test every query with execute_sql.
+
+${sections.join("\n\n")}`;
+}
+
+/**
+ * Record the SQL of each execute_sql key's latest successful run.
+ */
+export function recordSuccessfulQueries<
+  T extends {
+    execute_sql: {
+      execute: (
+        input: { key: string; sql: string; filterMeta?: FilterMeta[] },
+        ...rest: never[]
+      ) => Promise<SQLToolResult>;
+    };
+  },
+>(tools: T, queries: Map<string, ExampleQuery>): T {
+  const execute = tools.execute_sql.execute;
+  return {
+    ...tools,
+    execute_sql: {
+      ...tools.execute_sql,
+      execute: async (...args: Parameters<typeof execute>) => {
+        const result = await execute(...args);
+        const { key, sql, filterMeta } = args[0];
+        if (result.success) {
+          queries.set(key, { key, sql, ...(filterMeta?.length && { filterMeta }) });
+        } else {
+          queries.delete(key);
+        }
+        return result;
+      },
+    },
+  };
+}
+
+/**
+ * The example to keep from a finished generation: the rendered tree and the
+ * queries it shows. Null when nothing was rendered, or the tree uses a query
+ * that didn't succeed.
+ */
+export function exampleFromRun(
+  prompt: string,
+  tree: UITree,
+  queries: Map<string, ExampleQuery>,
+): Omit<DashboardExample, "createdAt"> | null {
+  const used = Array.from(referencedQueryKeys(tree));
+  if (!tree.root || used.length === 0 || used.some((key) => !queries.has(key))) {
+    return null;
+  }
+  return { prompt, tree, queries: used.map((key) => queries.get(key)!) };
+}
@@ -0,0 +1,111 @@
+/**
+ * Dashboard plans: an outline the user approves before the agent runs SQL.
+ *
+ * In plan mode /api/generate-agentic returns the model's proposed
+ * visualizations and filters instead of building the dashboard. The user
+ * edits the outline on the dashboard page, and the approved plan is posted
+ * back with the prompt: the agent then builds exactly those items, with only
+ * the component types they use.
+ */
+
+import { z } from "zod";
+import { CHART_COMPONENT_TYPES } from "./catalog";
+
+// All fields are required for OpenAI structured output
+export const dashboardPlanSchema = z.object({
+  title: z.string().describe("Dashboard title"),
+  items: z
+    .array(
+      z.object({
+        id: z.string().describe("Short kebab-case id, e.g. revenue-by-month"),
+        title: z.string().describe("What the KPI or chart shows"),
+        description: z.string().describe("The question it answers and how it is calculated"),
+        component: z.enum(CHART_COMPONENT_TYPES),
+        tables: z.array(z.string()).describe("Tables the query reads"),
+      }),
+    )
+    .describe("KPIs first, then charts and tables"),
+  filters: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string(),
+      column: z.string().describe("table.column the filter applies to"),
+      type: z.enum(["date-range", "dropdown", "range", "search", "toggle"]),
+    }),
+  ),
+});
+
+export type DashboardPlan = z.infer<typeof dashboardPlanSchema>;
+export type DashboardPlanItem = DashboardPlan["items"][number];
+export type DashboardPlanFilter = DashboardPlan["filters"][number];
+
+/** Items the model is asked to propose at most */
+const MAX_PLAN_ITEMS = 8;
+
+/**
+ * An approved plan from a request body, or null if it isn't one (or has
+ * nothing left to build).
+ */
+export function parseDashboardPlan(value: unknown): DashboardPlan | null {
+  const parsed = dashboardPlanSchema.safeParse(value);
+  if (!parsed.success || parsed.data.items.length === 0) return null;
+  return parsed.data;
+}
+
+/**
+ * The components to build a plan with: the layout components, the chart
+ * types its items use, and Filter only when it has filters.
+ */
+export function planComponents(plan: DashboardPlan, activeComponents: string[]): string[] {
+  const chartTypes = new Set<string>(CHART_COMPONENT_TYPES);
+  const used = new Set<string>(plan.items.map((item) => item.component));
+  return activeComponents.filter((component) => {
+    if (component === "Filter") return plan.filters.length > 0;
+    return !chartTypes.has(component) || used.has(component);
+  });
+}
+
+/**
+ * System prompt for proposing a plan. `components` are the chart types
+ * the user has enabled.
+ */
+export function buildPlanningPrompt(schemaPrompt: string, components: string[], knowledge: string = ""): string {
+  return `You plan dashboards before they are built. Propose the dashboard for the user's request as an outline the user can review - do not write SQL.
+
+COMPONENT TYPES (use only these for items):
+${components.join(", ")}
+
+DATA SCHEMA:
+${schemaPrompt}
+${knowledge && `\n${knowledge}\n`}
+GUIDELINES:
+- Propose ${MAX_PLAN_ITEMS} items at most; 4-6 is ideal
+- Start with 1-3 KPIs (Metric), then charts that explain them, then at most one Table for detail
+- Pick the component type that suits the data: line charts for trends over time, bar charts for comparing categories, Histogram for distributions
+- Only name tables and columns that exist in the schema
+- Propose a date-range filter when the data has a date column, and dropdown filters for low-cardinality categories users are likely to slice by (range for numeric measures, search for free text, toggle for booleans when they matter)
+- Describe each item in one sentence: what it shows and how it is calculated`;
+}
+
+/**
+ * System prompt section that holds the agent to the approved plan.
+ */
+export function planToPrompt(plan: DashboardPlan): string {
+  const items = plan.items
+    .map((item) => {
+      const tables = item.tables.length > 0 ? ` (tables: ${item.tables.join(", ")})` : "";
+      return `- ${item.component} "${item.title}": ${item.description}${tables}`;
+    })
+    .join("\n");
+  const filters = plan.filters.length > 0
+    ? plan.filters.map((filter) => `- ${filter.type} "${filter.label}" on ${filter.column}`).join("\n")
+    : "- None: do not add Filter components";
+  return `APPROVED PLAN:
+The user reviewed and approved this outline for "${plan.title}". Build exactly these items, in this order, with the given component types - do not add others or leave any out. If an item's query cannot be made to work, leave that item out rather than replacing it with something else.
+
+Items:
+${items}
+
+Filters:
+${filters}`;
+}
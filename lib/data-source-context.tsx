@@ -1,6 +1,6 @@
 "use client";
 
-import { createContext, useContext, useState, useCallback, ReactNode } from "react";
+import { createContext, useContext, useState, useCallback, useRef, ReactNode } from "react";
 import {
   getInMemoryDb,
   resetInMemoryDb,
@@ -16,6 +16,21 @@ export interface FileDataSource {
   fileType: "csv" | "excel" | "json" | "parquet";
   rowCount: number;
   columns: ColumnInfo[];
+  /** Bucket URI for cloud tables, which are queried in place on the server */
+  cloudUri?: string;
+}
+
+/**
+ * A cloud object (or glob of objects) to register as a table.
+ */
+export interface CloudTableRequest {
+  provider: "s3" | "gcs";
+  /** Server-side connection profile (from /api/connections) */
+  connectionId: string;
+  bucket: string;
+  /** Object key or glob pattern within the bucket */
+  pattern: string;
+  tableName?: string;
 }
 
 interface DataSourceContextValue {
@@ -34,20 +49,88 @@ interface DataSourceContextValue {
     fileName: string,
     fileType: "csv" | "excel" | "json" | "parquet",
   ) => TableSchema;
+  /**
+   * Register a cloud table on the server and load its sample rows locally.
+   * Nothing is downloaded beyond the sample; queries run in place.
+   */
+  loadCloudTable: (request: CloudTableRequest) => Promise<TableSchema>;
   /** Remove a specific file from the in-memory database */
   removeFile: (tableName: string) => void;
   /** Clear all file data and reset to database mode */
   clearFileData: () => void;
   /** Get schema description for LLM prompt */
   getSchemaDescription: () => string;
-  /** Execute a query against the in-memory database */
-  executeInMemoryQuery: (sql: string) => { rows: Record<string, unknown>[]; columns: string[] };
   /** Get all table schemas from in-memory database */
   getAllSchemas: () => TableSchema[];
   /** Get file data for API (tableName + data array) - returns first file for backward compat */
   getFileDataForApi: (maxRows?: number) => { tableName: string; data: Record<string, unknown>[] } | null;
   /** Get all files data for API (array of tableName + data) */
   getAllFilesDataForApi: (maxRows?: number) => { tableName: string; data: Record<string, unknown>[] }[];
+  /**
+   * Server-side dataset ids for the loaded files, waiting for pending uploads.
+   * Pass `refresh` to upload again (e.g. after the server expired them).
+   * Resolves to null if any upload failed - send the rows inline instead.
+   */
+  getDatasetIds: (options?: { refresh?: boolean }) => Promise<string[] | null>;
+}
+
+interface DatasetUploadState {
+  /** Store the dataset on the server again, resolving to its new id */
+  upload: () => Promise<string | null>;
+  datasetId: Promise<string | null>;
+}
+
+/**
+ * Upload all of a file's rows to the server's session storage (the server
+ * keeps a sample for the agent and runs the dashboard on the full data).
+ * Resolves to the dataset id, or null if the upload failed.
+ */
+async function uploadDataset(
+  tableName: string,
+  fileName: string,
+  data: Record<string, unknown>[],
+): Promise<string | null> {
+  try {
+    const response = await fetch("/api/datasets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ tableName, fileName, data }),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP error: ${response.status}`);
+    }
+    const { dataset } = (await response.json()) as { dataset: { id: string } };
+    return dataset.id;
+  } catch (err) {
+    console.error(`Failed to upload ${tableName}:`, err);
+    return null;
+  }
+}
+
+interface CloudTableRegistration {
+  dataset: { id: string; tableName: string; rowCount: number | null };
+  sampleRows: Record<string, unknown>[];
+}
+
+async function registerCloudTable(request: CloudTableRequest): Promise<CloudTableRegistration> {
+  const response = await fetch("/api/cloud-storage/tables", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(data.error || `HTTP error: ${response.status}`);
+  }
+  return (await response.json()) as CloudTableRegistration;
+}
+
+function deleteDataset(upload: DatasetUploadState): void {
+  void upload.datasetId.then((id) => {
+    if (id) {
+      void fetch(`/api/datasets/${encodeURIComponent(id)}`, { method: "DELETE" });
+    }
+  });
 }
 
 const DataSourceContext = createContext<DataSourceContextValue | null>(null);
@@ -56,17 +139,26 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
   const [sourceType, setSourceTypeState] = useState<DataSourceType>("database");
   const [fileSources, setFileSources] = useState<FileDataSource[]>([]);
 
+  // Server-side uploads by table name (a ref so ids are available before re-render)
+  const uploadsRef = useRef(new Map<string, DatasetUploadState>());
+
   // Backward compatibility: first file source or null
   const fileSource = fileSources.length > 0 ? fileSources[0]! : null;
 
+  const clearUploads = useCallback(() => {
+    uploadsRef.current.forEach(deleteDataset);
+    uploadsRef.current.clear();
+  }, []);
+
   const setSourceType = useCallback((type: DataSourceType) => {
     setSourceTypeState(type);
     if (type === "database") {
       // Clear file data when switching to database mode
       resetInMemoryDb();
+      clearUploads();
       setFileSources([]);
     }
-  }, []);
+  }, [clearUploads]);
 
   const loadFileData = useCallback(
     (
@@ -78,6 +170,11 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
       const db = getInMemoryDb();
       const schema = db.addTable(tableName, data);
 
+      // Store the rows on the server once; queries reference the dataset id.
+      // Re-uploading a table name replaces the dataset on the server.
+      const upload = () => uploadDataset(tableName, fileName, data);
+      uploadsRef.current.set(tableName, { upload, datasetId: upload() });
+
       const newFileSource: FileDataSource = {
         tableName,
         fileName,
@@ -99,9 +196,48 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
     [],
   );
 
+  const loadCloudTable = useCallback(
+    async (request: CloudTableRequest): Promise<TableSchema> => {
+      const { dataset, sampleRows } = await registerCloudTable(request);
+      const tableName = dataset.tableName;
+      const schema = getInMemoryDb().addTable(tableName, sampleRows);
+
+      const upload = async () => {
+        try {
+          return (await registerCloudTable({ ...request, tableName })).dataset.id;
+        } catch (err) {
+          console.error(`Failed to register ${tableName}:`, err);
+          return null;
+        }
+      };
+      uploadsRef.current.set(tableName, { upload, datasetId: Promise.resolve(dataset.id) });
+
+      const fileName = request.pattern.split("/").pop() || request.pattern;
+      const extension = fileName.split(".").pop()?.toLowerCase();
+      const newFileSource: FileDataSource = {
+        tableName,
+        fileName,
+        fileType: extension === "csv" ? "csv" : extension === "parquet" ? "parquet" : "json",
+        rowCount: dataset.rowCount ?? schema.rowCount,
+        columns: schema.columns,
+        cloudUri: `${request.provider === "s3" ? "s3" : "gs"}://${request.bucket}/${request.pattern}`,
+      };
+      setFileSources((prev) => [...prev.filter((f) => f.tableName !== tableName), newFileSource]);
+      setSourceTypeState("file");
+
+      return schema;
+    },
+    [],
+  );
+
   const removeFile = useCallback((tableName: string) => {
     const db = getInMemoryDb();
     db.removeTable(tableName);
+    const upload = uploadsRef.current.get(tableName);
+    if (upload) {
+      deleteDataset(upload);
+      uploadsRef.current.delete(tableName);
+    }
     setFileSources((prev) => prev.filter((f) => f.tableName !== tableName));
 
     // If no files left, switch back to database mode
@@ -115,9 +251,24 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
 
   const clearFileData = useCallback(() => {
     resetInMemoryDb();
+    clearUploads();
     setFileSources([]);
     setSourceTypeState("database");
-  }, []);
+  }, [clearUploads]);
+
+  const getDatasetIds = useCallback(
+    async (options?: { refresh?: boolean }): Promise<string[] | null> => {
+      const uploads = Array.from(uploadsRef.current.entries());
+      if (options?.refresh) {
+        for (const [, upload] of uploads) {
+          upload.datasetId = upload.upload();
+        }
+      }
+      const ids = await Promise.all(uploads.map(([, upload]) => upload.datasetId));
+      return ids.every((id): id is string => id !== null) ? ids : null;
+    },
+    [],
+  );
 
   const getSchemaDescription = useCallback((): string => {
     if (sourceType === "database" || fileSources.length === 0) {
@@ -146,14 +297,6 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
     return `${header}\n\n${tableDescriptions.join("\n\n")}`;
   }, [sourceType, fileSources]);
 
-  const executeInMemoryQuery = useCallback(
-    (sql: string): { rows: Record<string, unknown>[]; columns: string[] } => {
-      const db = getInMemoryDb();
-      return db.query(sql);
-    },
-    [],
-  );
-
   const getAllSchemas = useCallback((): TableSchema[] => {
     const db = getInMemoryDb();
     return db.getAllSchemas();
@@ -196,13 +339,14 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
         fileSources,
         fileSource,
         loadFileData,
+        loadCloudTable,
         removeFile,
         clearFileData,
         getSchemaDescription,
-        executeInMemoryQuery,
         getAllSchemas,
         getFileDataForApi,
         getAllFilesDataForApi,
+        getDatasetIds,
       }}
     >
       {children}
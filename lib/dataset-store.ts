@@ -0,0 +1,557 @@
+/**
+ * Server-side storage for uploaded file tables (server-only).
+ *
+ * Each browser session gets its own workspace: a table store plus a SQLite
+ * query engine. Datasets are uploaded once and referenced by id afterwards,
+ * so filter changes don't re-post the rows and two users uploading a table
+ * with the same name never see each other's data. Workspaces expire after a
+ * period of inactivity and each one is capped in size.
+ *
+ * Every dataset is kept twice: the complete file, which the dashboard's
+ * final queries run against, and its first rows, which the agent uses to
+ * test queries quickly while generating.
+ *
+ * Datasets can also be cloud tables (Parquet/CSV/NDJSON objects in S3 or
+ * GCS). Only their sample is stored up front; the full workspace reads
+ * the columns a query needs from the bucket when the query first runs,
+ * and those count against the session's quota once loaded.
+ */
+
+import { randomUUID } from "crypto";
+import { InMemoryDatabase, type ColumnInfo } from "./in-memory-db";
+import { FileQueryEngine, type FileQueryResult } from "./file-query-engine";
+import {
+  referencedColumns,
+  referencesTable,
+  type CloudFileFormat,
+  type CloudTable,
+  type CloudTableInfo,
+} from "./cloud-table";
+
+/**
+ * A cloud table registered in a workspace, loaded into its table store on demand.
+ */
+interface RemoteTable {
+  source: CloudTable;
+  columns: string[];
+  /** Columns currently loaded into the table store */
+  loadedColumns: Set<string>;
+  /** Serializes loads so parallel queries don't read the same objects twice */
+  loading: Promise<void>;
+  /** Bytes the loaded columns may take without exceeding the session's quota */
+  maxBytes: () => number;
+  /** Charge the loaded columns' size (see retainedBytes) to the session's quota */
+  setLoadedBytes: (bytes: number) => void;
+}
+
+/**
+ * Tables and query engine for one session (or one request, for legacy
+ * callers that still post rows inline).
+ */
+export interface FileWorkspace {
+  tables: InMemoryDatabase;
+  engine: FileQueryEngine;
+  /** Cloud tables by table name, read from the bucket when first queried */
+  remote: Map<string, RemoteTable>;
+}
+
+/**
+ * Which rows a query ran against: the first rows of each file, or all of them
+ */
+export type DataScope = "sample" | "full";
+
+export interface DatasetInfo {
+  id: string;
+  tableName: string;
+  fileName?: string;
+  /** Total rows; null for streamed cloud files until they are read in full */
+  rowCount: number | null;
+  /** Rows in the sample the agent queries */
+  sampleRowCount: number;
+  columns: ColumnInfo[];
+  /** Approximate memory held: the rows as JSON plus their SQLite pages, sample included */
+  bytes: number;
+  createdAt: string;
+  /** Set for cloud tables */
+  cloud?: {
+    uri: string;
+    format: CloudFileFormat;
+    /** Number of objects the key or glob matched */
+    objectCount: number;
+  };
+}
+
+export interface DatasetUpload {
+  tableName: string;
+  fileName?: string;
+  data: Record<string, unknown>[];
+}
+
+export interface CloudDatasetUpload {
+  tableName: string;
+  uri: string;
+  source: CloudTable;
+  /** Columns, row count and sample rows from `source.describe()` */
+  info: CloudTableInfo;
+}
+
+export type PutDatasetResult =
+  | { success: true; dataset: DatasetInfo }
+  | { success: false; error: string };
+
+export type WorkspaceLookup =
+  | { success: true; workspace: FileWorkspace }
+  | { success: false; error: string; missingDatasetIds: string[] };
+
+export interface DatasetStoreOptions {
+  /** Drop a session's datasets after this long without use (default: DATASET_TTL_MS or 1 hour) */
+  ttlMs?: number;
+  /** Maximum total dataset size per session (default: DATASET_SESSION_MAX_BYTES or 100 MB) */
+  maxSessionBytes?: number;
+  /** Maximum number of sessions kept at once (default: DATASET_MAX_SESSIONS or 100) */
+  maxSessions?: number;
+  /** Rows per dataset in the agent's sample (default: DATASET_SAMPLE_ROWS or 100) */
+  sampleRows?: number;
+  /** How often to look for expired sessions (default: 60 seconds) */
+  sweepIntervalMs?: number;
+}
+
+interface SessionWorkspace extends FileWorkspace {
+  /** First rows of each dataset, for the agent */
+  sample: FileWorkspace;
+  datasets: Map<string, DatasetInfo>;
+  bytes: number;
+  lastAccessedAt: number;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Memory a table holds in a workspace: its rows in the table store
+ * (approximated by their JSON size) plus the SQLite copy the engine queries.
+ */
+function retainedBytes(workspace: FileWorkspace, tableName: string, rows: unknown[]): number {
+  workspace.engine.sync();
+  return Buffer.byteLength(JSON.stringify(rows)) + workspace.engine.tableBytes(tableName);
+}
+
+interface TableSnapshot {
+  data: Record<string, unknown>[] | null;
+  columns?: string[];
+}
+
+function snapshotTable(workspace: FileWorkspace, tableName: string): TableSnapshot {
+  return {
+    data: workspace.tables.getTableData(tableName),
+    columns: workspace.tables.getTableSchema(tableName)?.columns.map((column) => column.name),
+  };
+}
+
+/**
+ * Put a table back the way it was before a rejected upload, freeing the
+ * rejected rows' SQLite copy.
+ */
+function restoreTable(workspace: FileWorkspace, tableName: string, snapshot: TableSnapshot): void {
+  if (snapshot.data) {
+    workspace.tables.addTable(tableName, snapshot.data, snapshot.columns);
+  } else {
+    workspace.tables.removeTable(tableName);
+  }
+  workspace.engine.sync();
+}
+
+/**
+ * Create a standalone workspace. Callers must `engine.close()` it when done.
+ */
+export function createFileWorkspace(): FileWorkspace {
+  const tables = new InMemoryDatabase();
+  return { tables, engine: new FileQueryEngine(() => tables), remote: new Map() };
+}
+
+/**
+ * Run a query against a workspace, first reading any cloud tables it
+ * mentions (only the columns it references) into the table store.
+ */
+export async function queryFileWorkspace(
+  workspace: FileWorkspace,
+  sql: string,
+  params: unknown[] = [],
+): Promise<FileQueryResult> {
+  for (const [tableName, remote] of Array.from(workspace.remote.entries())) {
+    if (!referencesTable(sql, tableName)) continue;
+
+    const needed = referencedColumns(sql, remote.columns);
+    // COUNT(*) and friends still need the rows - load the narrowest column
+    const wanted = needed.length > 0 ? needed : remote.columns.slice(0, 1);
+    remote.loading = remote.loading.then(async () => {
+      if (wanted.every((column) => remote.loadedColumns.has(column))) return;
+      const columns = remote.columns.filter(
+        (column) => remote.loadedColumns.has(column) || wanted.includes(column),
+      );
+      const maxBytes = remote.maxBytes();
+      const rows = await remote.source.read({ columns, maxBytes });
+      // Removed or replaced while reading
+      if (workspace.remote.get(tableName) !== remote) return;
+
+      const previous = snapshotTable(workspace, tableName);
+      workspace.tables.addTable(tableName, rows, columns);
+      const bytes = retainedBytes(workspace, tableName, rows);
+      if (bytes > maxBytes) {
+        restoreTable(workspace, tableName, previous);
+        throw new Error(
+          `Dataset quota exceeded: ${tableName} needs ${bytes} bytes but only ${maxBytes} bytes of the session limit are left`,
+        );
+      }
+      remote.loadedColumns = new Set(columns);
+      remote.setLoadedBytes(bytes);
+    });
+    try {
+      await remote.loading;
+    } catch (err) {
+      // Let the next query retry the load
+      remote.loading = Promise.resolve();
+      throw err;
+    }
+  }
+  return workspace.engine.query(sql, params);
+}
+
+export class DatasetStore {
+  private sessions = new Map<string, SessionWorkspace>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly ttlMs: number;
+  private readonly maxSessionBytes: number;
+  private readonly maxSessions: number;
+  private readonly sampleRows: number;
+  private readonly sweepIntervalMs: number;
+
+  constructor(options: DatasetStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? envInt("DATASET_TTL_MS", 60 * 60 * 1000);
+    this.maxSessionBytes =
+      options.maxSessionBytes ?? envInt("DATASET_SESSION_MAX_BYTES", 100 * 1024 * 1024);
+    this.maxSessions = options.maxSessions ?? envInt("DATASET_MAX_SESSIONS", 100);
+    this.sampleRows = options.sampleRows ?? envInt("DATASET_SAMPLE_ROWS", 100);
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+  }
+
+  /**
+   * Store a dataset in a session. A dataset with the same table name replaces
+   * the previous one.
+   */
+  put(sessionId: string, upload: DatasetUpload, now: number = Date.now()): PutDatasetResult {
+    const session = this.getOrCreateSession(sessionId, now);
+
+    const replaced = Array.from(session.datasets.values()).find(
+      (dataset) => dataset.tableName === upload.tableName,
+    );
+    const available = this.maxSessionBytes - session.bytes + (replaced?.bytes ?? 0);
+    // The parsed rows alone must fit before they are copied into SQLite
+    const jsonBytes = Buffer.byteLength(JSON.stringify(upload.data));
+    if (jsonBytes > available) {
+      return this.rejectOverQuota(sessionId, session, upload.tableName, jsonBytes);
+    }
+
+    const previous = snapshotTable(session, upload.tableName);
+    const previousSample = snapshotTable(session.sample, upload.tableName);
+    const sampleData = upload.data.slice(0, this.sampleRows);
+    const schema = session.tables.addTable(upload.tableName, upload.data);
+    const sample = session.sample.tables.addTable(upload.tableName, sampleData);
+    const bytes =
+      retainedBytes(session, upload.tableName, upload.data) +
+      retainedBytes(session.sample, upload.tableName, sampleData);
+    if (bytes > available) {
+      restoreTable(session, upload.tableName, previous);
+      restoreTable(session.sample, upload.tableName, previousSample);
+      return this.rejectOverQuota(sessionId, session, upload.tableName, bytes);
+    }
+
+    if (replaced) {
+      session.datasets.delete(replaced.id);
+      session.remote.delete(upload.tableName);
+    }
+    const dataset: DatasetInfo = {
+      id: randomUUID(),
+      tableName: upload.tableName,
+      fileName: upload.fileName,
+      rowCount: schema.rowCount,
+      sampleRowCount: sample.rowCount,
+      columns: schema.columns,
+      bytes,
+      createdAt: new Date(now).toISOString(),
+    };
+    session.datasets.set(dataset.id, dataset);
+    session.bytes += bytes - (replaced?.bytes ?? 0);
+    return { success: true, dataset };
+  }
+
+  /**
+   * Register a cloud table in a session. Only its sample rows are stored;
+   * the full workspace reads the bucket when queries need the data.
+   */
+  putCloud(
+    sessionId: string,
+    upload: CloudDatasetUpload,
+    now: number = Date.now(),
+  ): PutDatasetResult {
+    const sampleRows = upload.info.sampleRows.slice(0, this.sampleRows);
+    const session = this.getOrCreateSession(sessionId, now);
+
+    const replaced = Array.from(session.datasets.values()).find(
+      (dataset) => dataset.tableName === upload.tableName,
+    );
+    const available = this.maxSessionBytes - session.bytes + (replaced?.bytes ?? 0);
+    const previousSample = snapshotTable(session.sample, upload.tableName);
+    const sample = session.sample.tables.addTable(
+      upload.tableName,
+      sampleRows,
+      upload.info.columns,
+    );
+    const bytes = retainedBytes(session.sample, upload.tableName, sampleRows);
+    if (bytes > available) {
+      restoreTable(session.sample, upload.tableName, previousSample);
+      return this.rejectOverQuota(sessionId, session, upload.tableName, bytes);
+    }
+
+    if (replaced) {
+      session.datasets.delete(replaced.id);
+    }
+    session.tables.removeTable(upload.tableName);
+    session.engine.sync();
+
+    const dataset: DatasetInfo = {
+      id: randomUUID(),
+      tableName: upload.tableName,
+      fileName: upload.uri.split("/").pop() || upload.uri,
+      rowCount: upload.info.rowCount,
+      sampleRowCount: sample.rowCount,
+      columns: sample.columns,
+      bytes,
+      createdAt: new Date(now).toISOString(),
+      cloud: {
+        uri: upload.uri,
+        format: upload.source.format,
+        objectCount: upload.source.objects.length,
+      },
+    };
+    session.datasets.set(dataset.id, dataset);
+    session.bytes += bytes - (replaced?.bytes ?? 0);
+
+    // Columns read on demand count against the quota like uploaded rows
+    let loadedBytes = 0;
+    session.remote.set(upload.tableName, {
+      source: upload.source,
+      columns: upload.info.columns,
+      loadedColumns: new Set(),
+      loading: Promise.resolve(),
+      maxBytes: () => this.maxSessionBytes - session.bytes + loadedBytes,
+      setLoadedBytes: (loaded) => {
+        dataset.bytes += loaded - loadedBytes;
+        session.bytes += loaded - loadedBytes;
+        loadedBytes = loaded;
+      },
+    });
+    return { success: true, dataset };
+  }
+
+  /**
+   * List a session's datasets.
+   */
+  list(sessionId: string, now: number = Date.now()): DatasetInfo[] {
+    const session = this.touch(sessionId, now);
+    return session ? Array.from(session.datasets.values()) : [];
+  }
+
+  /**
+   * Remove one dataset from a session.
+   */
+  remove(sessionId: string, datasetId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    const dataset = session?.datasets.get(datasetId);
+    if (!session || !dataset) return false;
+
+    session.datasets.delete(datasetId);
+    session.tables.removeTable(dataset.tableName);
+    session.remote.delete(dataset.tableName);
+    session.sample.tables.removeTable(dataset.tableName);
+    session.bytes -= dataset.bytes;
+    if (session.datasets.size === 0) {
+      this.dropSession(sessionId);
+    } else {
+      // Free the SQLite copies now; they count against the quota until then
+      session.engine.sync();
+      session.sample.engine.sync();
+    }
+    return true;
+  }
+
+  /**
+   * Get the workspace holding a session's datasets, checking that every
+   * requested dataset is still stored (it may have expired).
+   * @param scope - "full" for the complete files, "sample" for the agent's sample
+   */
+  getWorkspace(
+    sessionId: string | null,
+    datasetIds: string[],
+    scope: DataScope = "full",
+    now: number = Date.now(),
+  ): WorkspaceLookup {
+    const session = sessionId ? this.touch(sessionId, now) : undefined;
+    const missingDatasetIds = datasetIds.filter((id) => !session?.datasets.has(id));
+    if (!session || missingDatasetIds.length > 0) {
+      return {
+        success: false,
+        error: "Uploaded data has expired or was not found. Please upload the file again.",
+        missingDatasetIds,
+      };
+    }
+    return { success: true, workspace: scope === "sample" ? session.sample : session };
+  }
+
+  /**
+   * Drop sessions unused for longer than the TTL.
+   * @returns Number of sessions dropped
+   */
+  evictExpired(now: number = Date.now()): number {
+    const expired = Array.from(this.sessions.entries())
+      .filter(([, session]) => now - session.lastAccessedAt > this.ttlMs)
+      .map(([id]) => id);
+    for (const id of expired) {
+      this.dropSession(id);
+    }
+    return expired.length;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Drop every session and stop the expiry sweeper.
+   */
+  clear(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (const id of Array.from(this.sessions.keys())) {
+      this.dropSession(id);
+    }
+  }
+
+  private rejectOverQuota(
+    sessionId: string,
+    session: SessionWorkspace,
+    tableName: string,
+    bytes: number,
+  ): PutDatasetResult {
+    if (session.datasets.size === 0) {
+      this.dropSession(sessionId);
+    }
+    return {
+      success: false,
+      error: `Dataset quota exceeded: ${tableName} needs ${bytes} bytes but the session limit is ${this.maxSessionBytes} bytes`,
+    };
+  }
+
+  private touch(sessionId: string, now: number): SessionWorkspace | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      session.lastAccessedAt = now;
+    }
+    return session;
+  }
+
+  private getOrCreateSession(sessionId: string, now: number): SessionWorkspace {
+    const existing = this.touch(sessionId, now);
+    if (existing) return existing;
+
+    if (this.sessions.size >= this.maxSessions) {
+      // Make room by dropping the least recently used session
+      const [oldest] = Array.from(this.sessions.entries()).sort(
+        ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt,
+      );
+      if (oldest) {
+        this.dropSession(oldest[0]);
+      }
+    }
+
+    const session: SessionWorkspace = {
+      ...createFileWorkspace(),
+      sample: createFileWorkspace(),
+      datasets: new Map(),
+      bytes: 0,
+      lastAccessedAt: now,
+    };
+    this.sessions.set(sessionId, session);
+    this.startSweeper();
+    return session;
+  }
+
+  private dropSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    session.engine.close();
+    session.sample.engine.close();
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      this.evictExpired();
+    }, this.sweepIntervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref?.();
+  }
+}
+
+// Singleton instance for the server
+let globalStore: DatasetStore | null = null;
+
+export function getDatasetStore(): DatasetStore {
+  if (!globalStore) {
+    globalStore = new DatasetStore();
+  }
+  return globalStore;
+}
+
+export type ResolvedWorkspace =
+  | { success: true; workspace: FileWorkspace; scope: DataScope; release: () => void }
+  | { success: false; error: string; missingDatasetIds: string[] };
+
+/**
+ * Find the tables a file-source request should query: the session's stored
+ * datasets when `datasetIds` are given, otherwise a throwaway workspace
+ * built from rows posted inline (older clients, or when an upload failed).
+ * Clients only post a sample inline, so those results are reported as
+ * "sample". Call `release()` when done.
+ */
+export function resolveFileWorkspace(
+  sessionId: string | null,
+  datasetIds: string[] | undefined,
+  inlineFiles: DatasetUpload[] = [],
+  scope: DataScope = "full",
+): ResolvedWorkspace {
+  if (datasetIds && datasetIds.length > 0) {
+    const lookup = getDatasetStore().getWorkspace(sessionId, datasetIds, scope);
+    return lookup.success
+      ? { success: true, workspace: lookup.workspace, scope, release: () => {} }
+      : lookup;
+  }
+
+  const workspace = createFileWorkspace();
+  for (const file of inlineFiles) {
+    if (file.tableName && file.data) {
+      workspace.tables.addTable(file.tableName, file.data);
+    }
+  }
+  return {
+    success: true,
+    workspace,
+    scope: "sample",
+    release: () => workspace.engine.close(),
+  };
+}
@@ -7,13 +7,24 @@ export type {
   DatabaseType,
   DBConfig,
   TableInfo,
+  ColumnDetails,
+  ForeignKeyInfo,
+  IndexInfo,
   QueryResult,
+  QueryOptions,
   DatabaseAdapter,
+  PoolStats,
 } from "./types";
 
 export { DEFAULT_PORTS, getDatabaseDisplayName } from "./types";
+export type { RegisteredPoolMetrics, PoolHealth } from "./pool-registry";
 
 import type { DBConfig, DatabaseAdapter, DatabaseType } from "./types";
+import {
+  PoolRegistry,
+  type RegisteredPoolMetrics,
+  type PoolHealth,
+} from "./pool-registry";
 import { PostgresAdapter, createPostgresAdapter } from "./postgres";
 import { MySQLAdapter, createMySQLAdapter } from "./mysql";
 import { SQLiteAdapter, createSQLiteAdapter } from "./sqlite";
@@ -23,27 +34,10 @@ import {
   getSupabaseAdapter,
 } from "./supabase";
 
-// Cache for adapter instances
-const adapterCache = new Map<string, DatabaseAdapter>();
-
-/**
- * Generate a unique cache key for a database config.
- */
-function getConfigKey(config: DBConfig): string {
-  if (config.type === "sqlite") {
-    return `sqlite:${config.filename || config.database}`;
-  }
-  return `${config.type}:${config.host}:${config.port}:${config.database}:${config.user}`;
-}
-
 /**
- * Create a database adapter for the given configuration.
- * Adapters are cached by connection parameters.
- *
- * @param config - Database configuration
- * @returns Database adapter instance
+ * Build a new (uncached) adapter for a config.
  */
-export function createAdapter(config: DBConfig): DatabaseAdapter {
+function buildAdapter(config: DBConfig): DatabaseAdapter {
   // Handle demo type specially - uses server-side environment variable
   if (config.type === "demo") {
     const connectionString = process.env.SUPABASE_CONNECTION_STRING;
@@ -52,41 +46,34 @@ export function createAdapter(config: DBConfig): DatabaseAdapter {
         "Demo database not configured. Set SUPABASE_CONNECTION_STRING environment variable.",
       );
     }
-    // Demo connections are cached under a special key
-    const demoKey = "demo:supabase";
-    let adapter = adapterCache.get(demoKey);
-    if (!adapter) {
-      adapter = createSupabaseAdapter(connectionString);
-      adapterCache.set(demoKey, adapter);
-    }
-    return adapter;
-  }
-
-  const key = getConfigKey(config);
-
-  // Return cached adapter if available
-  let adapter = adapterCache.get(key);
-  if (adapter) {
-    return adapter;
+    return createSupabaseAdapter(connectionString);
   }
 
-  // Create new adapter based on type
   switch (config.type) {
     case "postgresql":
-      adapter = createPostgresAdapter(config);
-      break;
+      return createPostgresAdapter(config);
     case "mysql":
-      adapter = createMySQLAdapter(config);
-      break;
+      return createMySQLAdapter(config);
     case "sqlite":
-      adapter = createSQLiteAdapter(config);
-      break;
+      return createSQLiteAdapter(config);
     default:
       throw new Error(`Unsupported database type: ${(config as DBConfig).type}`);
   }
+}
 
-  adapterCache.set(key, adapter);
-  return adapter;
+// Long-lived adapters, keyed by a hash of the connection config
+const poolRegistry = new PoolRegistry(buildAdapter);
+
+/**
+ * Get the database adapter for the given configuration.
+ * Adapters (and their connection pools) are reused across requests
+ * and closed automatically once idle.
+ *
+ * @param config - Database configuration
+ * @returns Database adapter instance
+ */
+export function createAdapter(config: DBConfig): DatabaseAdapter {
+  return poolRegistry.acquire(config);
 }
 
 /**
@@ -97,50 +84,42 @@ export function createAdapter(config: DBConfig): DatabaseAdapter {
  * @returns Database adapter instance
  */
 export function createTestAdapter(config: DBConfig): DatabaseAdapter {
-  // Handle demo type specially - uses server-side environment variable
-  if (config.type === "demo") {
-    const connectionString = process.env.SUPABASE_CONNECTION_STRING;
-    if (!connectionString) {
-      throw new Error(
-        "Demo database not configured. Set SUPABASE_CONNECTION_STRING environment variable.",
-      );
-    }
-    return createSupabaseAdapter(connectionString);
-  }
-
-  switch (config.type) {
-    case "postgresql":
-      return createPostgresAdapter(config);
-    case "mysql":
-      return createMySQLAdapter(config);
-    case "sqlite":
-      return createSQLiteAdapter(config);
-    default:
-      throw new Error(`Unsupported database type: ${(config as DBConfig).type}`);
-  }
+  return buildAdapter(config);
 }
 
 /**
  * Close and remove a cached adapter.
  */
 export async function closeAdapter(config: DBConfig): Promise<void> {
-  const key = getConfigKey(config);
-  const adapter = adapterCache.get(key);
-  if (adapter) {
-    await adapter.close();
-    adapterCache.delete(key);
-  }
+  await poolRegistry.release(config);
 }
 
 /**
  * Close all cached adapters.
  */
 export async function closeAllAdapters(): Promise<void> {
-  const closePromises = Array.from(adapterCache.values()).map((adapter) =>
-    adapter.close()
-  );
-  await Promise.all(closePromises);
-  adapterCache.clear();
+  await poolRegistry.closeAll();
+}
+
+/**
+ * Close all cached adapters once their running queries are done.
+ */
+export async function drainAllAdapters(): Promise<void> {
+  await poolRegistry.drain();
+}
+
+/**
+ * Connection metrics (active/idle connections, wait time) for every open pool.
+ */
+export function getPoolMetrics(): RegisteredPoolMetrics[] {
+  return poolRegistry.getMetrics();
+}
+
+/**
+ * Test every open pool, closing the ones that fail once they are idle.
+ */
+export async function checkPoolHealth(): Promise<PoolHealth[]> {
+  return poolRegistry.checkHealth();
 }
 
 /**
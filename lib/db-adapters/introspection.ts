@@ -0,0 +1,226 @@
+/**
+ * Schema introspection shared by the adapters: PostgreSQL catalog queries
+ * (used by both the PostgreSQL and Supabase adapters) and helpers for
+ * assembling TableInfo from per-table metadata rows.
+ */
+
+import type { ForeignKeyInfo, IndexInfo, TableInfo } from "./types";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Run a query and return its rows (e.g. `(sql, params) => pool.query(sql, params)`).
+ */
+export type CatalogQuery = (sql: string, params: unknown[]) => Promise<{ rows: Row[] }>;
+
+/**
+ * Collects tables by `schema.name` while metadata rows are read.
+ */
+export class TableCollector {
+  private tables = new Map<string, TableInfo>();
+
+  table(schema: string, name: string): TableInfo {
+    const key = `${schema}.${name}`;
+    let table = this.tables.get(key);
+    if (!table) {
+      table = { schema, name, columns: [] };
+      this.tables.set(key, table);
+    }
+    return table;
+  }
+
+  /** Look up a table without creating it (metadata for unlisted tables is dropped) */
+  find(schema: string, name: string): TableInfo | undefined {
+    return this.tables.get(`${schema}.${name}`);
+  }
+
+  /**
+   * Return the tables with primary key flags set on their columns.
+   */
+  finish(): TableInfo[] {
+    const tables = Array.from(this.tables.values());
+    for (const table of tables) {
+      if (!table.primaryKey || table.primaryKey.length === 0) continue;
+      const keyColumns = new Set(table.primaryKey);
+      for (const column of table.columns) {
+        if (keyColumns.has(column.name)) column.primaryKey = true;
+      }
+    }
+    return tables;
+  }
+}
+
+/**
+ * Group per-column rows into foreign keys by `key`, keeping column order.
+ */
+export function groupForeignKeys(
+  rows: {
+    /** Identifies the constraint within its table */
+    key: string;
+    name?: string;
+    column: string;
+    referencedSchema: string;
+    referencedTable: string;
+    referencedColumn: string;
+  }[],
+): ForeignKeyInfo[] {
+  const keys = new Map<string, ForeignKeyInfo>();
+  for (const row of rows) {
+    let key = keys.get(row.key);
+    if (!key) {
+      key = {
+        ...(row.name ? { name: row.name } : {}),
+        columns: [],
+        referencedSchema: row.referencedSchema,
+        referencedTable: row.referencedTable,
+        referencedColumns: [],
+      };
+      keys.set(row.key, key);
+    }
+    key.columns.push(row.column);
+    key.referencedColumns.push(row.referencedColumn);
+  }
+  return Array.from(keys.values());
+}
+
+function toRowCount(value: unknown): number | null {
+  const count = Number(value);
+  // PostgreSQL 14+ reports -1 for tables that were never vacuumed or analyzed
+  return Number.isFinite(count) && count >= 0 ? Math.round(count) : null;
+}
+
+/**
+ * Introspect PostgreSQL schemas: columns with nullability and comments,
+ * primary and foreign keys, secondary indexes and estimated row counts.
+ *
+ * Columns come from information_schema (as before); the rest is read from
+ * pg_catalog. If the catalog queries fail (e.g. restricted permissions),
+ * the column list is still returned.
+ */
+export async function introspectPostgresSchema(
+  query: CatalogQuery,
+  schemas: string[],
+): Promise<TableInfo[]> {
+  const collector = new TableCollector();
+
+  const columns = await query(
+    `
+    SELECT c.table_schema, c.table_name, c.column_name, c.data_type,
+           c.is_nullable = 'YES' AS is_nullable,
+           pg_catalog.col_description(
+             (quote_ident(c.table_schema) || '.' || quote_ident(c.table_name))::regclass,
+             c.ordinal_position
+           ) AS column_comment
+    FROM information_schema.columns c
+    WHERE c.table_schema = ANY($1)
+    ORDER BY c.table_schema, c.table_name, c.ordinal_position
+  `,
+    [schemas],
+  );
+  for (const row of columns.rows) {
+    collector.table(row.table_schema as string, row.table_name as string).columns.push({
+      name: row.column_name as string,
+      type: row.data_type as string,
+      nullable: row.is_nullable as boolean,
+      ...(row.column_comment ? { comment: row.column_comment as string } : {}),
+    });
+  }
+
+  try {
+    const [tables, constraints, indexes] = await Promise.all([
+      query(
+        `
+        SELECT n.nspname AS table_schema, c.relname AS table_name,
+               c.reltuples::bigint AS row_estimate,
+               pg_catalog.obj_description(c.oid, 'pg_class') AS table_comment
+        FROM pg_catalog.pg_class c
+        JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        WHERE n.nspname = ANY($1) AND c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      `,
+        [schemas],
+      ),
+      query(
+        `
+        SELECT con.contype, con.conname,
+               n.nspname AS table_schema, cl.relname AS table_name,
+               ARRAY(
+                 SELECT a.attname FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                 JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+               )::text[] AS columns,
+               fn.nspname AS foreign_schema, fcl.relname AS foreign_table,
+               ARRAY(
+                 SELECT a.attname FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                 JOIN pg_catalog.pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+               )::text[] AS foreign_columns
+        FROM pg_catalog.pg_constraint con
+        JOIN pg_catalog.pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_catalog.pg_namespace n ON n.oid = cl.relnamespace
+        LEFT JOIN pg_catalog.pg_class fcl ON fcl.oid = con.confrelid
+        LEFT JOIN pg_catalog.pg_namespace fn ON fn.oid = fcl.relnamespace
+        WHERE con.contype IN ('p', 'f') AND n.nspname = ANY($1)
+        ORDER BY n.nspname, cl.relname, con.conname
+      `,
+        [schemas],
+      ),
+      query(
+        `
+        SELECT n.nspname AS table_schema, t.relname AS table_name,
+               i.relname AS index_name, ix.indisunique AS is_unique,
+               ARRAY(
+                 SELECT a.attname FROM unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+                 JOIN pg_catalog.pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+                 ORDER BY k.ord
+               )::text[] AS columns
+        FROM pg_catalog.pg_index ix
+        JOIN pg_catalog.pg_class t ON t.oid = ix.indrelid
+        JOIN pg_catalog.pg_class i ON i.oid = ix.indexrelid
+        JOIN pg_catalog.pg_namespace n ON n.oid = t.relnamespace
+        WHERE n.nspname = ANY($1) AND NOT ix.indisprimary
+        ORDER BY n.nspname, t.relname, i.relname
+      `,
+        [schemas],
+      ),
+    ]);
+
+    for (const row of tables.rows) {
+      const table = collector.find(row.table_schema as string, row.table_name as string);
+      if (!table) continue;
+      table.rowCount = toRowCount(row.row_estimate);
+      if (row.table_comment) table.comment = row.table_comment as string;
+    }
+
+    for (const row of constraints.rows) {
+      const table = collector.find(row.table_schema as string, row.table_name as string);
+      if (!table) continue;
+      if (row.contype === "p") {
+        table.primaryKey = row.columns as string[];
+      } else {
+        (table.foreignKeys ??= []).push({
+          name: row.conname as string,
+          columns: row.columns as string[],
+          referencedSchema: row.foreign_schema as string,
+          referencedTable: row.foreign_table as string,
+          referencedColumns: row.foreign_columns as string[],
+        });
+      }
+    }
+
+    for (const row of indexes.rows) {
+      const table = collector.find(row.table_schema as string, row.table_name as string);
+      const indexColumns = row.columns as string[];
+      // Expression-only indexes have no plain columns to report
+      if (!table || indexColumns.length === 0) continue;
+      (table.indexes ??= []).push({
+        name: row.index_name as string,
+        columns: indexColumns,
+        unique: row.is_unique as boolean,
+      } satisfies IndexInfo);
+    }
+  } catch (err) {
+    console.warn("Could not read keys, indexes and row counts from pg_catalog:", err);
+  }
+
+  return collector.finish();
+}
@@ -2,7 +2,23 @@
  * MySQL database adapter using the mysql2 library.
  */
 
-import type { DatabaseAdapter, DBConfig, TableInfo, QueryResult } from "./types";
+import type {
+  DatabaseAdapter,
+  DBConfig,
+  TableInfo,
+  QueryResult,
+  QueryOptions,
+  PoolStats,
+} from "./types";
+import { PoolUsageTracker, getMaxPoolSize } from "./pool-stats";
+import {
+  resolveQueryTimeout,
+  createCancelledError,
+  throwIfAborted,
+  onAbort,
+} from "./query-options";
+import { getMaxQueryRows, wrapWithLimit, applyRowLimit } from "./row-limit";
+import { TableCollector, groupForeignKeys } from "./introspection";
 
 // Dynamic import to handle optional dependency
 let mysql2: typeof import("mysql2/promise") | null = null;
@@ -24,64 +40,136 @@ export class MySQLAdapter implements DatabaseAdapter {
   readonly type = "mysql" as const;
   private pool: import("mysql2/promise").Pool | null = null;
   private config: DBConfig;
+  private usage = new PoolUsageTracker();
+  private openConnections = 0;
 
   constructor(config: DBConfig) {
     this.config = config;
   }
 
+  /** Options shared by the pool and the connections that kill queries */
+  private connectionOptions(): import("mysql2/promise").ConnectionOptions {
+    return {
+      host: this.config.host,
+      port: this.config.port,
+      database: this.config.database,
+      user: this.config.user,
+      password: this.config.password,
+      ssl: this.config.ssl ? { rejectUnauthorized: false } : undefined,
+      connectTimeout: 5000,
+    };
+  }
+
   private async getPool(): Promise<import("mysql2/promise").Pool> {
     if (!this.pool) {
       const mysql = await getMysql2();
       this.pool = mysql.createPool({
-        host: this.config.host,
-        port: this.config.port,
-        database: this.config.database,
-        user: this.config.user,
-        password: this.config.password,
-        ssl: this.config.ssl ? { rejectUnauthorized: false } : undefined,
-        connectionLimit: 10,
+        ...this.connectionOptions(),
+        connectionLimit: getMaxPoolSize(10),
         waitForConnections: true,
         queueLimit: 0,
-        connectTimeout: 5000,
+      });
+      this.pool.on("connection", (connection) => {
+        this.openConnections++;
+        connection.on("end", () => {
+          this.openConnections = Math.max(0, this.openConnections - 1);
+        });
       });
     }
     return this.pool;
   }
 
+  /**
+   * Run a callback with a pooled connection, tracking wait time and usage.
+   */
+  private async withConnection<R>(
+    fn: (connection: import("mysql2/promise").PoolConnection) => Promise<R>,
+  ): Promise<R> {
+    const pool = await this.getPool();
+    const connection = await this.usage.acquire(() => pool.getConnection());
+    try {
+      return await fn(connection);
+    } finally {
+      connection.release();
+      this.usage.release();
+    }
+  }
+
   async query<T extends Record<string, unknown>>(
     sql: string,
     params: unknown[] = [],
+    options: QueryOptions = {},
   ): Promise<QueryResult<T>> {
-    const pool = await this.getPool();
-    const maxRows = parseInt(process.env.MAX_QUERY_ROWS || "1000");
-
-    // Strip trailing semicolons
-    const cleanSql = sql.replace(/;\s*$/, "").trim();
+    throwIfAborted(options.signal);
+    const maxRows = getMaxQueryRows();
+    const timeout = resolveQueryTimeout(options, 5000);
 
-    // Wrap query with LIMIT for safety
-    const limitedSql = `SELECT * FROM (${cleanSql}) AS q LIMIT ${maxRows}`;
-
-    const [rows] = await pool.execute<import("mysql2/promise").RowDataPacket[]>(
-      limitedSql,
-      params
+    // Wrap query with LIMIT for safety (one extra row detects truncation);
+    // the optimizer hint makes the server abort the statement once the
+    // timeout is exceeded
+    const limitedSql = wrapWithLimit(
+      sql,
+      this.type,
+      maxRows + 1,
+      `/*+ MAX_EXECUTION_TIME(${timeout}) */`,
     );
 
+    const [rows] = await this.withConnection(async (connection) => {
+      const removeAbortListener = onAbort(options.signal, () => {
+        void this.killQuery(connection.threadId);
+      });
+      try {
+        return await connection.execute<
+          import("mysql2/promise").RowDataPacket[]
+        >(limitedSql, params);
+      } catch (err) {
+        if (options.signal?.aborted) {
+          throw createCancelledError();
+        }
+        throw err;
+      } finally {
+        removeAbortListener();
+      }
+    });
+
+    const limited = applyRowLimit(rows as unknown as T[], maxRows);
     return {
-      rows: rows as unknown as T[],
-      rowCount: rows.length,
+      rows: limited.rows,
+      rowCount: limited.rows.length,
+      truncated: limited.truncated,
     };
   }
 
+  /**
+   * Kill the statement running on a pooled connection. The KILL is sent
+   * over a dedicated short-lived connection, not the pool: when the pool is
+   * exhausted by the very queries being cancelled, a pooled KILL would wait
+   * behind them.
+   */
+  private async killQuery(threadId: number): Promise<void> {
+    let killer: import("mysql2/promise").Connection | undefined;
+    try {
+      const mysql = await getMysql2();
+      killer = await mysql.createConnection(this.connectionOptions());
+      await killer.query(`KILL QUERY ${Number(threadId)}`);
+    } catch (err) {
+      console.error("Failed to cancel MySQL query:", err);
+    } finally {
+      await killer?.end().catch(() => {});
+    }
+  }
+
   async introspectSchema(schemas: string[] = []): Promise<TableInfo[]> {
     const pool = await this.getPool();
 
     // In MySQL, the schema is the database name
     const schemaList = schemas.length > 0 ? schemas : [this.config.database];
     const placeholders = schemaList.map(() => "?").join(", ");
+    type Rows = import("mysql2/promise").RowDataPacket[];
 
-    const [rows] = await pool.execute<import("mysql2/promise").RowDataPacket[]>(
+    const [rows] = await pool.execute<Rows>(
       `
-      SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, DATA_TYPE
+      SELECT TABLE_SCHEMA, TABLE_NAME, COLUMN_NAME, DATA_TYPE, IS_NULLABLE, COLUMN_COMMENT
       FROM INFORMATION_SCHEMA.COLUMNS
       WHERE TABLE_SCHEMA IN (${placeholders})
       ORDER BY TABLE_SCHEMA, TABLE_NAME, ORDINAL_POSITION
@@ -89,35 +177,114 @@ export class MySQLAdapter implements DatabaseAdapter {
       schemaList
     );
 
-    const tables = new Map<string, TableInfo>();
+    const collector = new TableCollector();
     for (const row of rows) {
-      const key = `${row.TABLE_SCHEMA}.${row.TABLE_NAME}`;
-      if (!tables.has(key)) {
-        tables.set(key, {
-          schema: row.TABLE_SCHEMA as string,
-          name: row.TABLE_NAME as string,
-          columns: [],
-        });
-      }
-      tables.get(key)!.columns.push({
+      collector.table(row.TABLE_SCHEMA as string, row.TABLE_NAME as string).columns.push({
         name: row.COLUMN_NAME as string,
         type: row.DATA_TYPE as string,
+        nullable: row.IS_NULLABLE === "YES",
+        ...(row.COLUMN_COMMENT ? { comment: row.COLUMN_COMMENT as string } : {}),
       });
     }
-    return Array.from(tables.values());
+
+    // Keys, indexes and row counts are best effort, like the PostgreSQL adapter
+    try {
+      const [[tableRows], [keyRows], [indexRows]] = await Promise.all([
+        pool.execute<Rows>(
+          `
+          SELECT TABLE_SCHEMA, TABLE_NAME, TABLE_ROWS, TABLE_COMMENT
+          FROM INFORMATION_SCHEMA.TABLES
+          WHERE TABLE_SCHEMA IN (${placeholders})
+        `,
+          schemaList
+        ),
+        pool.execute<Rows>(
+          `
+          SELECT TABLE_SCHEMA, TABLE_NAME, CONSTRAINT_NAME, COLUMN_NAME,
+                 REFERENCED_TABLE_SCHEMA, REFERENCED_TABLE_NAME, REFERENCED_COLUMN_NAME
+          FROM INFORMATION_SCHEMA.KEY_COLUMN_USAGE
+          WHERE TABLE_SCHEMA IN (${placeholders})
+            AND (CONSTRAINT_NAME = 'PRIMARY' OR REFERENCED_TABLE_NAME IS NOT NULL)
+          ORDER BY TABLE_SCHEMA, TABLE_NAME, CONSTRAINT_NAME, ORDINAL_POSITION
+        `,
+          schemaList
+        ),
+        pool.execute<Rows>(
+          `
+          SELECT TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, NON_UNIQUE, COLUMN_NAME
+          FROM INFORMATION_SCHEMA.STATISTICS
+          WHERE TABLE_SCHEMA IN (${placeholders}) AND INDEX_NAME <> 'PRIMARY'
+          ORDER BY TABLE_SCHEMA, TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX
+        `,
+          schemaList
+        ),
+      ]);
+
+      for (const row of tableRows) {
+        const table = collector.find(row.TABLE_SCHEMA as string, row.TABLE_NAME as string);
+        if (!table) continue;
+        // InnoDB's TABLE_ROWS is an estimate; views report NULL
+        table.rowCount = row.TABLE_ROWS == null ? null : Number(row.TABLE_ROWS);
+        if (row.TABLE_COMMENT) table.comment = row.TABLE_COMMENT as string;
+      }
+
+      const foreignKeyRows = new Map<TableInfo, Parameters<typeof groupForeignKeys>[0]>();
+      for (const row of keyRows) {
+        const table = collector.find(row.TABLE_SCHEMA as string, row.TABLE_NAME as string);
+        if (!table) continue;
+        if (row.CONSTRAINT_NAME === "PRIMARY") {
+          (table.primaryKey ??= []).push(row.COLUMN_NAME as string);
+          continue;
+        }
+        const tableKeys = foreignKeyRows.get(table) ?? [];
+        tableKeys.push({
+          key: row.CONSTRAINT_NAME as string,
+          name: row.CONSTRAINT_NAME as string,
+          column: row.COLUMN_NAME as string,
+          referencedSchema: row.REFERENCED_TABLE_SCHEMA as string,
+          referencedTable: row.REFERENCED_TABLE_NAME as string,
+          referencedColumn: row.REFERENCED_COLUMN_NAME as string,
+        });
+        foreignKeyRows.set(table, tableKeys);
+      }
+      foreignKeyRows.forEach((tableKeys, table) => {
+        table.foreignKeys = groupForeignKeys(tableKeys);
+      });
+
+      for (const row of indexRows) {
+        const table = collector.find(row.TABLE_SCHEMA as string, row.TABLE_NAME as string);
+        if (!table) continue;
+        const indexes = (table.indexes ??= []);
+        let index = indexes.find((i) => i.name === row.INDEX_NAME);
+        if (!index) {
+          index = { name: row.INDEX_NAME as string, columns: [], unique: Number(row.NON_UNIQUE) === 0 };
+          indexes.push(index);
+        }
+        // Functional index parts have no column name
+        if (row.COLUMN_NAME) index.columns.push(row.COLUMN_NAME as string);
+      }
+    } catch (err) {
+      console.warn("Could not read keys, indexes and row counts from INFORMATION_SCHEMA:", err);
+    }
+
+    return collector.finish();
   }
 
   async testConnection(): Promise<void> {
-    const pool = await this.getPool();
-    await pool.execute("SELECT 1");
+    await this.withConnection((connection) => connection.execute("SELECT 1"));
   }
 
   async close(): Promise<void> {
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
+      this.openConnections = 0;
     }
   }
+
+  getPoolStats(): PoolStats {
+    return this.usage.snapshot({ total: this.openConnections });
+  }
 }
 
 /**
@@ -0,0 +1,31 @@
+/**
+ * Cancelling PostgreSQL queries, shared by the pg-based adapters.
+ */
+
+import { Client, type ClientConfig, type PoolClient } from "pg";
+
+/**
+ * Cancel the statement running on a pooled client's backend. The cancel is
+ * sent over a dedicated short-lived connection, not the pool: when the pool
+ * is exhausted by the very queries being cancelled, a pooled cancel would
+ * wait behind them.
+ */
+export async function cancelBackend(
+  client: PoolClient,
+  config: ClientConfig,
+  label: string,
+): Promise<void> {
+  const pid = (client as PoolClient & { processID?: number }).processID;
+  if (!pid) return;
+  const canceller = new Client(config);
+  // Errors after connecting would otherwise be unhandled; failures are logged below
+  canceller.on("error", () => {});
+  try {
+    await canceller.connect();
+    await canceller.query("SELECT pg_cancel_backend($1)", [pid]);
+  } catch (err) {
+    console.error(`Failed to cancel ${label} query:`, err);
+  } finally {
+    await canceller.end().catch(() => {});
+  }
+}
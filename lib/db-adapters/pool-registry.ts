@@ -0,0 +1,324 @@
+/**
+ * Registry of long-lived database adapters (and their connection pools).
+ *
+ * Adapters are keyed by a hash of the full connection config, so repeated
+ * requests for the same database reuse one pool while a changed password
+ * gets a fresh one. Idle pools are evicted after a timeout, the number of
+ * pools is capped, and everything is closed on shutdown.
+ */
+
+import { createHash } from "crypto";
+import type { DBConfig, DatabaseAdapter, DatabaseType, PoolStats } from "./types";
+
+export interface PoolRegistryOptions {
+  /** Maximum number of pools kept open at once (default: DB_MAX_POOLS or 20) */
+  maxPools?: number;
+  /** Close pools unused for this long (default: DB_POOL_IDLE_TIMEOUT_MS or 10 minutes) */
+  idleTimeoutMs?: number;
+  /** How often to look for idle pools (default: 60 seconds) */
+  sweepIntervalMs?: number;
+  /** Timeout for a single health check (default: 5 seconds) */
+  healthCheckTimeoutMs?: number;
+  /** How often drain() looks for pools that have become idle (default: 100 ms) */
+  drainIntervalMs?: number;
+}
+
+interface RegistryEntry {
+  key: string;
+  label: string;
+  type: DatabaseType;
+  adapter: DatabaseAdapter;
+  createdAt: number;
+  lastUsedAt: number;
+  /** Failed its last health check; closed as soon as it is idle */
+  unhealthy: boolean;
+}
+
+/**
+ * Metrics for one registered pool. The label never contains credentials.
+ */
+export interface RegisteredPoolMetrics extends PoolStats {
+  label: string;
+  type: DatabaseType;
+  createdAt: string;
+  idleForMs: number;
+}
+
+export interface PoolHealth {
+  label: string;
+  type: DatabaseType;
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+const EMPTY_STATS: PoolStats = {
+  total: 0,
+  active: 0,
+  idle: 0,
+  waiting: 0,
+  acquisitions: 0,
+  avgWaitMs: 0,
+  maxWaitMs: 0,
+};
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Hash every field of a connection config (including the password).
+ */
+export function hashDBConfig(config: DBConfig): string {
+  const normalized = {
+    type: config.type,
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.user,
+    password: config.password,
+    ssl: config.ssl,
+    filename: config.filename,
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/**
+ * Human-readable pool label without credentials.
+ */
+function describeConfig(config: DBConfig): string {
+  if (config.type === "sqlite") {
+    return `sqlite:${config.filename || config.database}`;
+  }
+  if (config.type === "demo") {
+    return "demo:supabase";
+  }
+  return `${config.type}://${config.host}:${config.port}/${config.database}`;
+}
+
+export class PoolRegistry {
+  private entries = new Map<string, RegistryEntry>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly maxPools: number;
+  private readonly idleTimeoutMs: number;
+  private readonly sweepIntervalMs: number;
+  private readonly healthCheckTimeoutMs: number;
+  private readonly drainIntervalMs: number;
+
+  constructor(
+    private readonly factory: (config: DBConfig) => DatabaseAdapter,
+    options: PoolRegistryOptions = {},
+  ) {
+    this.maxPools = options.maxPools ?? envInt("DB_MAX_POOLS", 20);
+    this.idleTimeoutMs =
+      options.idleTimeoutMs ?? envInt("DB_POOL_IDLE_TIMEOUT_MS", 10 * 60 * 1000);
+    this.sweepIntervalMs = options.sweepIntervalMs ?? 60 * 1000;
+    this.healthCheckTimeoutMs = options.healthCheckTimeoutMs ?? 5000;
+    this.drainIntervalMs = options.drainIntervalMs ?? 100;
+  }
+
+  /**
+   * Get the adapter for a config, creating it on first use.
+   */
+  acquire(config: DBConfig): DatabaseAdapter {
+    const key = hashDBConfig(config);
+    const now = Date.now();
+
+    const existing = this.entries.get(key);
+    if (existing && existing.unhealthy && !this.isBusy(existing)) {
+      // Reconnect instead of reusing a pool that failed its health check
+      this.entries.delete(key);
+      void this.closeEntry(existing);
+    } else if (existing) {
+      existing.lastUsedAt = now;
+      return existing.adapter;
+    }
+
+    if (this.entries.size >= this.maxPools) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    const entry: RegistryEntry = {
+      key,
+      label: describeConfig(config),
+      type: config.type,
+      adapter: this.factory(config),
+      createdAt: now,
+      lastUsedAt: now,
+      unhealthy: false,
+    };
+    this.entries.set(key, entry);
+    this.startSweeper();
+    return entry.adapter;
+  }
+
+  /**
+   * Close and forget the adapter for a config, if registered.
+   */
+  async release(config: DBConfig): Promise<void> {
+    const key = hashDBConfig(config);
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      await this.closeEntry(entry);
+    }
+  }
+
+  /**
+   * Close pools that have been idle longer than the idle timeout, and
+   * unhealthy ones. Pools with checked-out connections are never evicted.
+   * @returns Number of pools closed
+   */
+  async evictIdle(now: number = Date.now()): Promise<number> {
+    const expired = Array.from(this.entries.values()).filter(
+      (entry) =>
+        (entry.unhealthy || now - entry.lastUsedAt > this.idleTimeoutMs) &&
+        !this.isBusy(entry),
+    );
+    for (const entry of expired) {
+      this.entries.delete(entry.key);
+    }
+    await Promise.all(expired.map((entry) => this.closeEntry(entry)));
+    return expired.length;
+  }
+
+  /**
+   * Run a connection test against every registered pool.
+   * Pools that fail are marked unhealthy and closed once no connection is
+   * checked out, so the next request reconnects without cutting off
+   * queries that are still running.
+   */
+  async checkHealth(): Promise<PoolHealth[]> {
+    const entries = Array.from(this.entries.values());
+    return Promise.all(
+      entries.map(async (entry) => {
+        const startedAt = Date.now();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        try {
+          await Promise.race([
+            entry.adapter.testConnection(),
+            new Promise((_, reject) => {
+              timer = setTimeout(
+                () => reject(new Error("Health check timed out")),
+                this.healthCheckTimeoutMs,
+              );
+            }),
+          ]);
+          return {
+            label: entry.label,
+            type: entry.type,
+            healthy: true,
+            latencyMs: Date.now() - startedAt,
+          };
+        } catch (err) {
+          entry.unhealthy = true;
+          if (this.entries.get(entry.key) === entry && !this.isBusy(entry)) {
+            this.entries.delete(entry.key);
+            void this.closeEntry(entry);
+          }
+          return {
+            label: entry.label,
+            type: entry.type,
+            healthy: false,
+            latencyMs: Date.now() - startedAt,
+            error: err instanceof Error ? err.message : "Health check failed",
+          };
+        } finally {
+          clearTimeout(timer);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Connection metrics for every registered pool.
+   */
+  getMetrics(now: number = Date.now()): RegisteredPoolMetrics[] {
+    return Array.from(this.entries.values()).map((entry) => ({
+      ...(entry.adapter.getPoolStats?.() ?? EMPTY_STATS),
+      label: entry.label,
+      type: entry.type,
+      createdAt: new Date(entry.createdAt).toISOString(),
+      idleForMs: now - entry.lastUsedAt,
+    }));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Close every pool and stop the idle sweeper.
+   */
+  async closeAll(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    const entries = Array.from(this.entries.values());
+    this.entries.clear();
+    await Promise.all(entries.map((entry) => this.closeEntry(entry)));
+  }
+
+  /**
+   * Close every pool as soon as its checked-out connections are returned,
+   * and stop the idle sweeper. Busy pools keep serving their queries until
+   * then. Resolves once no pool is left.
+   */
+  async drain(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    for (;;) {
+      const idle = Array.from(this.entries.values()).filter((entry) => !this.isBusy(entry));
+      for (const entry of idle) {
+        this.entries.delete(entry.key);
+      }
+      await Promise.all(idle.map((entry) => this.closeEntry(entry)));
+      if (this.entries.size === 0) return;
+      await new Promise<void>((resolve) => {
+        // Don't keep the process alive just for the drain
+        setTimeout(resolve, this.drainIntervalMs).unref?.();
+      });
+    }
+  }
+
+  private isBusy(entry: RegistryEntry): boolean {
+    const stats = entry.adapter.getPoolStats?.();
+    return !!stats && (stats.active > 0 || stats.waiting > 0);
+  }
+
+  private evictLeastRecentlyUsed(): void {
+    const candidates = Array.from(this.entries.values())
+      .filter((entry) => !this.isBusy(entry))
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    const victim = candidates[0];
+    if (!victim) {
+      console.warn(
+        `Pool registry is at its limit of ${this.maxPools} pools and all are busy; opening another`,
+      );
+      return;
+    }
+    this.entries.delete(victim.key);
+    void this.closeEntry(victim);
+  }
+
+  private async closeEntry(entry: RegistryEntry): Promise<void> {
+    try {
+      await entry.adapter.close();
+    } catch (err) {
+      console.error(`Failed to close database pool ${entry.label}:`, err);
+    }
+  }
+
+  private startSweeper(): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      void this.evictIdle();
+    }, this.sweepIntervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.sweepTimer.unref?.();
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Connection usage tracking shared by the database adapters.
+ * Records how long callers wait for a connection and how many are checked out.
+ */
+
+import type { PoolStats } from "./types";
+
+export class PoolUsageTracker {
+  private active = 0;
+  private waiting = 0;
+  private acquisitions = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  /**
+   * Acquire a connection through `acquire`, recording the wait time.
+   * Call `release()` once the connection is handed back.
+   */
+  async acquire<T>(acquire: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now();
+    this.waiting++;
+    try {
+      const connection = await acquire();
+      const waitMs = Date.now() - startedAt;
+      this.acquisitions++;
+      this.totalWaitMs += waitMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+      this.active++;
+      return connection;
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+  }
+
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Build pool stats, using the pool's own counters where the driver exposes them.
+   */
+  snapshot(counts: { total?: number; idle?: number; waiting?: number } = {}): PoolStats {
+    const total = counts.total ?? this.active;
+    return {
+      total,
+      active: this.active,
+      idle: counts.idle ?? Math.max(0, total - this.active),
+      waiting: counts.waiting ?? this.waiting,
+      acquisitions: this.acquisitions,
+      avgWaitMs:
+        this.acquisitions > 0
+          ? Math.round(this.totalWaitMs / this.acquisitions)
+          : 0,
+      maxWaitMs: this.maxWaitMs,
+    };
+  }
+}
+
+/**
+ * Maximum connections per pool (DB_POOL_MAX, default 10).
+ */
+export function getMaxPoolSize(fallback: number = 10): number {
+  const value = parseInt(process.env.DB_POOL_MAX || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -2,18 +2,37 @@
  * PostgreSQL database adapter using the pg library.
  */
 
-import { Pool, PoolConfig } from "pg";
-import type { DatabaseAdapter, DBConfig, TableInfo, QueryResult } from "./types";
+import { Pool, type ClientConfig, type PoolConfig } from "pg";
+import type {
+  DatabaseAdapter,
+  DBConfig,
+  TableInfo,
+  QueryResult,
+  QueryOptions,
+  PoolStats,
+} from "./types";
+import { PoolUsageTracker, getMaxPoolSize } from "./pool-stats";
+import {
+  resolveQueryTimeout,
+  createCancelledError,
+  throwIfAborted,
+  onAbort,
+} from "./query-options";
+import { getMaxQueryRows, wrapWithLimit, applyRowLimit } from "./row-limit";
+import { introspectPostgresSchema } from "./introspection";
+import { cancelBackend } from "./pg-cancel";
 
 export class PostgresAdapter implements DatabaseAdapter {
   readonly type = "postgresql" as const;
   private pool: Pool;
   private config: DBConfig;
+  private clientConfig: ClientConfig;
+  private usage = new PoolUsageTracker();
 
   constructor(config: DBConfig) {
     this.config = config;
 
-    const poolConfig: PoolConfig = {
+    this.clientConfig = {
       host: config.host,
       port: config.port,
       database: config.database,
@@ -21,10 +40,13 @@ export class PostgresAdapter implements DatabaseAdapter {
       // Ensure password is always a string (pg library requires this)
       password: config.password != null ? String(config.password) : "",
       ssl: config.ssl ? { rejectUnauthorized: false } : false,
-      max: 10,
-      idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 5000,
     };
+    const poolConfig: PoolConfig = {
+      ...this.clientConfig,
+      max: getMaxPoolSize(10),
+      idleTimeoutMillis: 30000,
+    };
 
     this.pool = new Pool(poolConfig);
 
@@ -37,85 +59,66 @@ export class PostgresAdapter implements DatabaseAdapter {
   async query<T extends Record<string, unknown>>(
     sql: string,
     params: unknown[] = [],
+    options: QueryOptions = {},
   ): Promise<QueryResult<T>> {
-    const client = await this.pool.connect();
+    throwIfAborted(options.signal);
+    const client = await this.usage.acquire(() => this.pool.connect());
+    const removeAbortListener = onAbort(options.signal, () => {
+      void cancelBackend(client, this.clientConfig, "PostgreSQL");
+    });
     try {
-      const timeout = parseInt(process.env.QUERY_TIMEOUT_MS || "5000");
-      const maxRows = parseInt(process.env.MAX_QUERY_ROWS || "1000");
-
-      // Strip trailing semicolons
-      const cleanSql = sql.replace(/;\s*$/, "").trim();
-
-      // Inject LIMIT directly instead of wrapping in subquery
-      // Check if query already has LIMIT (case insensitive, not in subquery)
-      const upperSql = cleanSql.toUpperCase();
-      let depth = 0;
-      let hasLimit = false;
-      for (let i = 0; i < cleanSql.length - 5; i++) {
-        const char = cleanSql[i];
-        if (char === '(') depth++;
-        else if (char === ')') depth--;
-        else if (depth === 0 && upperSql.substring(i, i + 5) === 'LIMIT' &&
-                 (i === 0 || /\s/.test(cleanSql[i - 1]!))) {
-          hasLimit = true;
-          break;
-        }
-      }
+      const timeout = resolveQueryTimeout(options, 5000);
+      const maxRows = getMaxQueryRows();
 
-      const finalSql = hasLimit ? cleanSql : `${cleanSql} LIMIT ${maxRows}`;
+      // Wrap in a subquery so the query's own ORDER BY / LIMIT is preserved;
+      // one extra row tells us whether the result was cut short
+      const finalSql = wrapWithLimit(sql, this.type, maxRows + 1);
 
       await client.query(`SET statement_timeout = ${timeout}`);
       const result = await client.query<T>(finalSql, params);
+      const { rows, truncated } = applyRowLimit(result.rows, maxRows);
       return {
-        rows: result.rows,
-        rowCount: result.rowCount ?? result.rows.length,
+        rows,
+        rowCount: rows.length,
+        truncated,
       };
+    } catch (err) {
+      if (options.signal?.aborted) {
+        throw createCancelledError();
+      }
+      throw err;
     } finally {
+      removeAbortListener();
       client.release();
+      this.usage.release();
     }
   }
 
   async introspectSchema(schemas: string[] = ["public"]): Promise<TableInfo[]> {
-    const result = await this.pool.query(
-      `
-      SELECT table_schema, table_name, column_name, data_type
-      FROM information_schema.columns
-      WHERE table_schema = ANY($1)
-      ORDER BY table_schema, table_name, ordinal_position
-    `,
-      [schemas],
-    );
-
-    const tables = new Map<string, TableInfo>();
-    for (const row of result.rows) {
-      const key = `${row.table_schema}.${row.table_name}`;
-      if (!tables.has(key)) {
-        tables.set(key, {
-          schema: row.table_schema,
-          name: row.table_name,
-          columns: [],
-        });
-      }
-      tables.get(key)!.columns.push({
-        name: row.column_name,
-        type: row.data_type,
-      });
-    }
-    return Array.from(tables.values());
+    return introspectPostgresSchema((sql, params) => this.pool.query(sql, params), schemas);
   }
 
   async testConnection(): Promise<void> {
-    const client = await this.pool.connect();
+    const client = await this.usage.acquire(() => this.pool.connect());
     try {
       await client.query("SELECT 1");
     } finally {
       client.release();
+      this.usage.release();
     }
   }
 
   async close(): Promise<void> {
     await this.pool.end();
   }
+
+  getPoolStats(): PoolStats {
+    return this.usage.snapshot({
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+    });
+  }
 }
 
 /**
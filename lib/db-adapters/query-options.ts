@@ -0,0 +1,50 @@
+/**
+ * Helpers for per-query timeouts and cancellation shared by the adapters.
+ */
+
+import type { QueryOptions } from "./types";
+
+/**
+ * Resolve the statement timeout for a query: explicit option, then
+ * QUERY_TIMEOUT_MS, then the adapter's fallback.
+ */
+export function resolveQueryTimeout(
+  options: QueryOptions | undefined,
+  fallback: number,
+): number {
+  if (options?.timeoutMs !== undefined && options.timeoutMs > 0) {
+    return Math.floor(options.timeoutMs);
+  }
+  const fromEnv = parseInt(process.env.QUERY_TIMEOUT_MS || "");
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : fallback;
+}
+
+/**
+ * Error thrown when a query is cancelled through its abort signal.
+ */
+export function createCancelledError(): Error {
+  const error = new Error("Query cancelled");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Throw the cancellation error if the signal has already fired.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createCancelledError();
+  }
+}
+
+/**
+ * Call `onAbort` when the signal fires. Returns a function that removes the listener.
+ */
+export function onAbort(
+  signal: AbortSignal | undefined,
+  onAbort: () => void,
+): () => void {
+  if (!signal) return () => {};
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
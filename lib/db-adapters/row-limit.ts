@@ -0,0 +1,126 @@
+/**
+ * Row and byte budgets for query results.
+ *
+ * Queries are wrapped in a LIMIT subquery so the database never returns more
+ * than the row budget (plus one row used to detect truncation), and results
+ * are trimmed to a byte budget before they reach the browser or the LLM.
+ */
+
+import type { DatabaseType } from "./types";
+
+export interface ResultBudget {
+  /** Maximum rows returned (default: MAX_QUERY_ROWS or 1000) */
+  maxRows: number;
+  /** Maximum serialized size of the returned rows (default: MAX_RESULT_BYTES or 1 MB) */
+  maxBytes: number;
+}
+
+export interface BudgetedRows<T> {
+  rows: T[];
+  /** True when rows were dropped to fit the budget */
+  truncated: boolean;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "");
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getMaxQueryRows(): number {
+  return envInt("MAX_QUERY_ROWS", 1000);
+}
+
+export function getMaxResultBytes(): number {
+  return envInt("MAX_RESULT_BYTES", 1024 * 1024);
+}
+
+export function getResultBudget(): ResultBudget {
+  return { maxRows: getMaxQueryRows(), maxBytes: getMaxResultBytes() };
+}
+
+/**
+ * Strip trailing semicolons so the query can be embedded in a subquery.
+ */
+export function stripTrailingSemicolons(sql: string): string {
+  return sql.replace(/;\s*$/, "").trim();
+}
+
+/**
+ * Wrap a query in a LIMIT subquery. The inner query keeps its own
+ * ORDER BY / LIMIT, so the outer limit only ever cuts the result short.
+ *
+ * @param hint - Optimizer hint placed after the outer SELECT (MySQL)
+ */
+export function wrapWithLimit(
+  sql: string,
+  dialect: DatabaseType,
+  limit: number,
+  hint?: string,
+): string {
+  const inner = stripTrailingSemicolons(sql);
+  const select = hint ? `SELECT ${hint}` : "SELECT";
+  const rowLimit = Math.max(0, Math.floor(limit));
+
+  switch (dialect) {
+    case "sqlite":
+      // SQLite doesn't require an alias on derived tables
+      return `${select} * FROM (${inner}) LIMIT ${rowLimit}`;
+    case "mysql":
+    case "postgresql":
+    case "demo":
+    default:
+      return `${select} * FROM (${inner}) AS limited_result LIMIT ${rowLimit}`;
+  }
+}
+
+/**
+ * Build a query that counts the rows a query would return.
+ */
+export function buildCountQuery(sql: string, dialect: DatabaseType): string {
+  const inner = stripTrailingSemicolons(sql);
+  return dialect === "sqlite"
+    ? `SELECT COUNT(*) AS total FROM (${inner})`
+    : `SELECT COUNT(*) AS total FROM (${inner}) AS counted_result`;
+}
+
+/**
+ * Trim rows fetched with `wrapWithLimit(sql, dialect, maxRows + 1)`.
+ * The extra row only signals that more rows exist.
+ */
+export function applyRowLimit<T>(rows: T[], maxRows: number): BudgetedRows<T> {
+  if (rows.length <= maxRows) {
+    return { rows, truncated: false };
+  }
+  return { rows: rows.slice(0, maxRows), truncated: true };
+}
+
+/**
+ * Keep the longest prefix of rows whose JSON size fits in `maxBytes`.
+ */
+export function applyByteBudget<T>(rows: T[], maxBytes: number): BudgetedRows<T> {
+  // Account for the surrounding brackets and separators
+  let bytes = 2;
+  for (let i = 0; i < rows.length; i++) {
+    bytes += Buffer.byteLength(JSON.stringify(rows[i]) ?? "null") + 1;
+    if (bytes > maxBytes) {
+      return { rows: rows.slice(0, i), truncated: true };
+    }
+  }
+  return { rows, truncated: false };
+}
+
+/**
+ * Apply both the row and byte budgets to rows that are already in memory
+ * (e.g. uploaded files).
+ */
+export function applyResultBudget<T>(
+  rows: T[],
+  budget: ResultBudget = getResultBudget(),
+): BudgetedRows<T> {
+  const byRows = applyRowLimit(rows, budget.maxRows);
+  const byBytes = applyByteBudget(byRows.rows, budget.maxBytes);
+  return {
+    rows: byBytes.rows,
+    truncated: byRows.truncated || byBytes.truncated,
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Run SQLite queries on a long-lived worker thread so they can be abandoned.
+ *
+ * better-sqlite3 executes synchronously and exposes neither
+ * sqlite3_interrupt nor a progress handler, so a runaway query would
+ * otherwise block the event loop for every request. The worker holds one
+ * read-only connection and runs one query at a time. When the running query
+ * times out or is cancelled, its promise rejects immediately and the worker
+ * is terminated - the only way to interrupt it; the next query starts a
+ * fresh worker.
+ */
+
+import { Worker } from "worker_threads";
+import { createCancelledError } from "./query-options";
+
+// Executed as a CommonJS script inside the worker
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const Database = require("better-sqlite3");
+let db;
+let openError;
+try {
+  db = new Database(workerData.filename, { readonly: true, fileMustExist: true });
+} catch (err) {
+  openError = err;
+}
+parentPort.on("message", ({ id, sql, params }) => {
+  try {
+    if (!db) throw openError;
+    const rows = db.prepare(sql).all(...params);
+    parentPort.postMessage({ id, rows });
+  } catch (err) {
+    parentPort.postMessage({ id, error: err && err.message ? err.message : String(err) });
+  }
+});
+`;
+
+interface PendingQuery {
+  id: number;
+  sql: string;
+  params: unknown[];
+  resolve: (rows: unknown[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  signal?: AbortSignal;
+  onAbort: () => void;
+  done: boolean;
+}
+
+export class SQLiteQueryWorker {
+  private worker: Worker | null = null;
+  private queue: PendingQuery[] = [];
+  private running: PendingQuery | null = null;
+  private nextId = 1;
+
+  constructor(private readonly filename: string) {}
+
+  /**
+   * Run a query. The timeout counts from the call, including time spent
+   * waiting for earlier queries.
+   */
+  query<T>(sql: string, params: unknown[], timeoutMs: number, signal?: AbortSignal): Promise<T[]> {
+    return new Promise<T[]>((resolve, reject) => {
+      const job: PendingQuery = {
+        id: this.nextId++,
+        sql,
+        params,
+        resolve: resolve as (rows: unknown[]) => void,
+        reject,
+        timer: setTimeout(
+          () => this.fail(job, new Error(`Query timed out after ${timeoutMs}ms`)),
+          timeoutMs,
+        ),
+        signal,
+        onAbort: () => this.fail(job, createCancelledError()),
+        done: false,
+      };
+      signal?.addEventListener("abort", job.onAbort, { once: true });
+      this.queue.push(job);
+      this.next();
+    });
+  }
+
+  /** Whether a query is running or waiting */
+  get busy(): boolean {
+    return this.running !== null || this.queue.length > 0;
+  }
+
+  /**
+   * Stop the worker, rejecting the queries that haven't finished.
+   */
+  async close(): Promise<void> {
+    const pending = [...(this.running ? [this.running] : []), ...this.queue];
+    const worker = this.worker;
+    this.worker = null;
+    this.running = null;
+    this.queue = [];
+    for (const job of pending) {
+      this.settle(job, () => job.reject(new Error("SQLite connection closed")));
+    }
+    if (worker) await worker.terminate();
+  }
+
+  private next(): void {
+    if (this.running || this.queue.length === 0) return;
+    const job = this.queue.shift()!;
+    this.running = job;
+    this.getWorker().postMessage({ id: job.id, sql: job.sql, params: job.params });
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { filename: this.filename },
+    });
+    worker.on("message", (message: { id: number; rows?: unknown[]; error?: string }) => {
+      const job = this.running;
+      if (!job || job.id !== message.id) return;
+      this.settle(job, () => {
+        if (message.error !== undefined) {
+          job.reject(new Error(message.error));
+        } else {
+          job.resolve(message.rows ?? []);
+        }
+      });
+    });
+    worker.on("error", (err) => this.crashed(worker, err));
+    worker.on("exit", (code) =>
+      this.crashed(worker, new Error(`SQLite worker exited unexpectedly (code ${code})`)),
+    );
+    // An idle worker shouldn't keep the process alive
+    worker.unref();
+    this.worker = worker;
+    return worker;
+  }
+
+  /**
+   * Reject a query; a running one takes its worker down with it.
+   */
+  private fail(job: PendingQuery, error: Error): void {
+    if (job.done) return;
+    if (this.running === job) {
+      const worker = this.worker;
+      this.worker = null;
+      void worker?.terminate();
+    }
+    this.settle(job, () => job.reject(error));
+  }
+
+  private crashed(worker: Worker, error: Error): void {
+    // Workers terminated on purpose have already been replaced
+    if (this.worker !== worker) return;
+    this.worker = null;
+    const job = this.running;
+    if (job) this.settle(job, () => job.reject(error));
+  }
+
+  private settle(job: PendingQuery, fn: () => void): void {
+    if (job.done) return;
+    job.done = true;
+    clearTimeout(job.timer);
+    job.signal?.removeEventListener("abort", job.onAbort);
+    if (this.running === job) {
+      this.running = null;
+    } else {
+      this.queue = this.queue.filter((queued) => queued !== job);
+    }
+    fn();
+    this.next();
+  }
+}
@@ -3,7 +3,19 @@
  * Note: better-sqlite3 is synchronous, but we wrap it in async for consistency.
  */
 
-import type { DatabaseAdapter, DBConfig, TableInfo, QueryResult } from "./types";
+import type {
+  DatabaseAdapter,
+  DBConfig,
+  TableInfo,
+  QueryResult,
+  QueryOptions,
+  PoolStats,
+} from "./types";
+import { PoolUsageTracker } from "./pool-stats";
+import { resolveQueryTimeout, throwIfAborted } from "./query-options";
+import { SQLiteQueryWorker } from "./sqlite-worker";
+import { getMaxQueryRows, wrapWithLimit, applyRowLimit } from "./row-limit";
+import { TableCollector, groupForeignKeys } from "./introspection";
 
 // Dynamic import to handle optional dependency
 let BetterSqlite3: typeof import("better-sqlite3") | null = null;
@@ -25,7 +37,9 @@ async function getBetterSqlite3(): Promise<typeof import("better-sqlite3")> {
 export class SQLiteAdapter implements DatabaseAdapter {
   readonly type = "sqlite" as const;
   private db: import("better-sqlite3").Database | null = null;
+  private worker: SQLiteQueryWorker | null = null;
   private config: DBConfig;
+  private usage = new PoolUsageTracker();
 
   constructor(config: DBConfig) {
     this.config = config;
@@ -39,35 +53,61 @@ export class SQLiteAdapter implements DatabaseAdapter {
       if (!filename) {
         throw new Error("SQLite requires a database filename");
       }
+      if (filename === ":memory:") {
+        throw new Error("SQLite requires a database file; in-memory databases are not supported");
+      }
+      // Dashboards only read; the agent's SQL is validated, but a read-only
+      // connection makes sure nothing is written (or created)
       this.db = new Database(filename, {
-        readonly: false,
-        fileMustExist: false,
+        readonly: true,
+        fileMustExist: true,
       });
     }
     return this.db;
   }
 
+  /** The worker queries run on, with its own read-only connection to the file */
+  private getWorker(db: import("better-sqlite3").Database): SQLiteQueryWorker {
+    if (!this.worker) {
+      this.worker = new SQLiteQueryWorker(db.name);
+    }
+    return this.worker;
+  }
+
   async query<T extends Record<string, unknown>>(
     sql: string,
     params: unknown[] = [],
+    options: QueryOptions = {},
   ): Promise<QueryResult<T>> {
-    const db = await this.getDb();
-    const maxRows = parseInt(process.env.MAX_QUERY_ROWS || "1000");
-
-    // Strip trailing semicolons
-    const cleanSql = sql.replace(/;\s*$/, "").trim();
+    throwIfAborted(options.signal);
+    const db = await this.usage.acquire(() => this.getDb());
+    const maxRows = getMaxQueryRows();
 
-    // Wrap query with LIMIT for safety
-    const limitedSql = `SELECT * FROM (${cleanSql}) LIMIT ${maxRows}`;
+    // Wrap query with LIMIT for safety (one extra row detects truncation)
+    const limitedSql = wrapWithLimit(sql, this.type, maxRows + 1);
 
-    // better-sqlite3 uses ? for positional parameters
-    const stmt = db.prepare(limitedSql);
-    const rows = stmt.all(...params) as T[];
+    try {
+      // better-sqlite3 uses ? for positional parameters.
+      // Preparing on the main connection surfaces syntax errors immediately.
+      db.prepare(limitedSql);
+
+      // The query itself runs on the worker so it can be timed out or cancelled
+      const allRows = await this.getWorker(db).query<T>(
+        limitedSql,
+        params,
+        resolveQueryTimeout(options, 5000),
+        options.signal,
+      );
 
-    return {
-      rows,
-      rowCount: rows.length,
-    };
+      const { rows, truncated } = applyRowLimit(allRows, maxRows);
+      return {
+        rows,
+        rowCount: rows.length,
+        truncated,
+      };
+    } finally {
+      this.usage.release();
+    }
   }
 
   async introspectSchema(_schemas: string[] = []): Promise<TableInfo[]> {
@@ -81,29 +121,92 @@ export class SQLiteAdapter implements DatabaseAdapter {
     `);
     const tableRows = tablesStmt.all() as { name: string }[];
 
-    const tables: TableInfo[] = [];
+    // Pragma table-valued functions take the table name as a bound parameter
+    const columnsStmt = db.prepare("SELECT * FROM pragma_table_info(?)");
+    const foreignKeysStmt = db.prepare("SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq");
+    const indexListStmt = db.prepare("SELECT * FROM pragma_index_list(?)");
+    const indexInfoStmt = db.prepare("SELECT name FROM pragma_index_info(?) ORDER BY seqno");
+
+    const collector = new TableCollector();
 
     for (const tableRow of tableRows) {
-      // Get columns for each table using PRAGMA
-      const columnsStmt = db.prepare(`PRAGMA table_info("${tableRow.name}")`);
-      const columnRows = columnsStmt.all() as {
+      const columnRows = columnsStmt.all(tableRow.name) as {
         name: string;
         type: string;
         notnull: number;
         pk: number;
       }[];
 
-      tables.push({
-        schema: "main", // SQLite uses "main" as the default schema
-        name: tableRow.name,
-        columns: columnRows.map((col) => ({
-          name: col.name,
-          type: col.type || "TEXT", // SQLite columns can have empty type
-        })),
-      });
+      const table = collector.table("main", tableRow.name); // SQLite uses "main" as the default schema
+      table.columns = columnRows.map((col) => ({
+        name: col.name,
+        type: col.type || "TEXT", // SQLite columns can have empty type
+        // INTEGER PRIMARY KEY columns are rowid aliases and never null
+        nullable: col.notnull === 0 && col.pk === 0,
+      }));
+
+      // `pk` is the column's 1-based position in the primary key
+      const keyColumns = columnRows.filter((col) => col.pk > 0).sort((a, b) => a.pk - b.pk);
+      if (keyColumns.length > 0) {
+        table.primaryKey = keyColumns.map((col) => col.name);
+      }
+
+      const foreignKeyRows = foreignKeysStmt.all(tableRow.name) as {
+        id: number;
+        table: string;
+        from: string;
+        to: string | null;
+      }[];
+      if (foreignKeyRows.length > 0) {
+        // SQLite foreign keys are unnamed; `id` groups a key's columns
+        table.foreignKeys = groupForeignKeys(
+          foreignKeyRows.map((row) => ({
+            key: String(row.id),
+            column: row.from,
+            referencedSchema: "main",
+            referencedTable: row.table,
+            // A missing target column means the referenced table's primary key
+            referencedColumn: row.to ?? this.primaryKeyColumn(db, row.table),
+          })),
+        );
+      }
+
+      const indexRows = indexListStmt.all(tableRow.name) as {
+        name: string;
+        unique: number;
+        origin: string;
+      }[];
+      const indexes = indexRows
+        .filter((index) => index.origin !== "pk")
+        .map((index) => ({
+          name: index.name,
+          columns: (indexInfoStmt.all(index.name) as { name: string | null }[])
+            .map((col) => col.name)
+            .filter((name): name is string => name !== null),
+          unique: index.unique === 1,
+        }))
+        .filter((index) => index.columns.length > 0);
+      if (indexes.length > 0) {
+        table.indexes = indexes;
+      }
+
+      const countRow = db
+        .prepare(`SELECT COUNT(*) AS n FROM "${tableRow.name.replace(/"/g, '""')}"`)
+        .get() as { n: number };
+      table.rowCount = countRow.n;
     }
 
-    return tables;
+    return collector.finish();
+  }
+
+  /**
+   * First primary key column of a table (for foreign keys that omit the target column).
+   */
+  private primaryKeyColumn(db: import("better-sqlite3").Database, tableName: string): string {
+    const keyColumn = db
+      .prepare("SELECT name FROM pragma_table_info(?) WHERE pk = 1")
+      .get(tableName) as { name: string } | undefined;
+    return keyColumn?.name ?? "rowid";
   }
 
   async testConnection(): Promise<void> {
@@ -112,11 +215,20 @@ export class SQLiteAdapter implements DatabaseAdapter {
   }
 
   async close(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+      this.worker = null;
+    }
     if (this.db) {
       this.db.close();
       this.db = null;
     }
   }
+
+  getPoolStats(): PoolStats {
+    // SQLite uses a single connection per file
+    return this.usage.snapshot({ total: this.db ? 1 : 0, waiting: 0 });
+  }
 }
 
 /**
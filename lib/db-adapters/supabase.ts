@@ -4,20 +4,41 @@
  * Used for server-side data fetching (e.g., landing page static generation).
  */
 
-import { Pool } from "pg";
-import type { DatabaseAdapter, QueryResult, TableInfo } from "./types";
+import { Pool, type ClientConfig } from "pg";
+import type {
+  DatabaseAdapter,
+  QueryResult,
+  QueryOptions,
+  TableInfo,
+  PoolStats,
+} from "./types";
+import { PoolUsageTracker, getMaxPoolSize } from "./pool-stats";
+import {
+  resolveQueryTimeout,
+  createCancelledError,
+  throwIfAborted,
+  onAbort,
+} from "./query-options";
+import { getMaxQueryRows, wrapWithLimit, applyRowLimit } from "./row-limit";
+import { introspectPostgresSchema } from "./introspection";
+import { cancelBackend } from "./pg-cancel";
 
 export class SupabaseAdapter implements DatabaseAdapter {
   readonly type = "postgresql" as const;
   private pool: Pool;
+  private clientConfig: ClientConfig;
+  private usage = new PoolUsageTracker();
 
   constructor(connectionString: string) {
-    this.pool = new Pool({
+    this.clientConfig = {
       connectionString,
       ssl: { rejectUnauthorized: false },
-      max: 5,
-      idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 10000,
+    };
+    this.pool = new Pool({
+      ...this.clientConfig,
+      max: getMaxPoolSize(5),
+      idleTimeoutMillis: 30000,
     });
 
     this.pool.on("error", (err) => {
@@ -28,87 +49,66 @@ export class SupabaseAdapter implements DatabaseAdapter {
   async query<T extends Record<string, unknown>>(
     sql: string,
     params: unknown[] = [],
+    options: QueryOptions = {},
   ): Promise<QueryResult<T>> {
-    const client = await this.pool.connect();
+    throwIfAborted(options.signal);
+    const client = await this.usage.acquire(() => this.pool.connect());
+    const removeAbortListener = onAbort(options.signal, () => {
+      void cancelBackend(client, this.clientConfig, "Supabase");
+    });
     try {
-      const timeout = parseInt(process.env.QUERY_TIMEOUT_MS || "10000");
-      const maxRows = parseInt(process.env.MAX_QUERY_ROWS || "1000");
-
-      // Strip trailing semicolons
-      const cleanSql = sql.replace(/;\s*$/, "").trim();
-
-      // Check if query already has LIMIT
-      const upperSql = cleanSql.toUpperCase();
-      let depth = 0;
-      let hasLimit = false;
-      for (let i = 0; i < cleanSql.length - 5; i++) {
-        const char = cleanSql[i];
-        if (char === "(") depth++;
-        else if (char === ")") depth--;
-        else if (
-          depth === 0 &&
-          upperSql.substring(i, i + 5) === "LIMIT" &&
-          (i === 0 || /\s/.test(cleanSql[i - 1]!))
-        ) {
-          hasLimit = true;
-          break;
-        }
-      }
+      const timeout = resolveQueryTimeout(options, 10000);
+      const maxRows = getMaxQueryRows();
 
-      const finalSql = hasLimit ? cleanSql : `${cleanSql} LIMIT ${maxRows}`;
+      // Wrap in a subquery so the query's own ORDER BY / LIMIT is preserved;
+      // one extra row tells us whether the result was cut short
+      const finalSql = wrapWithLimit(sql, this.type, maxRows + 1);
 
       await client.query(`SET statement_timeout = ${timeout}`);
       const result = await client.query<T>(finalSql, params);
+      const { rows, truncated } = applyRowLimit(result.rows, maxRows);
       return {
-        rows: result.rows,
-        rowCount: result.rowCount ?? result.rows.length,
+        rows,
+        rowCount: rows.length,
+        truncated,
       };
+    } catch (err) {
+      if (options.signal?.aborted) {
+        throw createCancelledError();
+      }
+      throw err;
     } finally {
+      removeAbortListener();
       client.release();
+      this.usage.release();
     }
   }
 
   async introspectSchema(schemas: string[] = ["public"]): Promise<TableInfo[]> {
-    const result = await this.pool.query(
-      `
-      SELECT table_schema, table_name, column_name, data_type
-      FROM information_schema.columns
-      WHERE table_schema = ANY($1)
-      ORDER BY table_schema, table_name, ordinal_position
-    `,
-      [schemas],
-    );
-
-    const tables = new Map<string, TableInfo>();
-    for (const row of result.rows) {
-      const key = `${row.table_schema}.${row.table_name}`;
-      if (!tables.has(key)) {
-        tables.set(key, {
-          schema: row.table_schema,
-          name: row.table_name,
-          columns: [],
-        });
-      }
-      tables.get(key)!.columns.push({
-        name: row.column_name,
-        type: row.data_type,
-      });
-    }
-    return Array.from(tables.values());
+    return introspectPostgresSchema((sql, params) => this.pool.query(sql, params), schemas);
   }
 
   async testConnection(): Promise<void> {
-    const client = await this.pool.connect();
+    const client = await this.usage.acquire(() => this.pool.connect());
     try {
       await client.query("SELECT 1");
     } finally {
       client.release();
+      this.usage.release();
     }
   }
 
   async close(): Promise<void> {
     await this.pool.end();
   }
+
+  getPoolStats(): PoolStats {
+    return this.usage.snapshot({
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+    });
+  }
 }
 
 // Singleton instance for server-side use
@@ -17,15 +17,82 @@ export interface DBConfig {
   filename?: string;
 }
 
+export interface ColumnDetails {
+  name: string;
+  type: string;
+  /** False when the column is declared NOT NULL */
+  nullable?: boolean;
+  /** Part of the table's primary key */
+  primaryKey?: boolean;
+  /** Database comment on the column */
+  comment?: string;
+}
+
+export interface ForeignKeyInfo {
+  /** Constraint name, when the database reports one */
+  name?: string;
+  columns: string[];
+  referencedSchema: string;
+  referencedTable: string;
+  referencedColumns: string[];
+}
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
 export interface TableInfo {
   schema: string;
   name: string;
-  columns: { name: string; type: string }[];
+  columns: ColumnDetails[];
+  /** Primary key columns, in key order */
+  primaryKey?: string[];
+  foreignKeys?: ForeignKeyInfo[];
+  /** Secondary indexes (the primary key index is not repeated) */
+  indexes?: IndexInfo[];
+  /** Approximate row count from the database statistics (null if unknown) */
+  rowCount?: number | null;
+  /** Database comment on the table */
+  comment?: string;
+}
+
+/**
+ * Per-query execution options.
+ */
+export interface QueryOptions {
+  /** Abort the query after this many milliseconds (default: QUERY_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Cancel the query on the server when this signal aborts */
+  signal?: AbortSignal;
 }
 
 export interface QueryResult<T = Record<string, unknown>> {
   rows: T[];
   rowCount: number;
+  /** True when more rows matched than the MAX_QUERY_ROWS limit allowed */
+  truncated?: boolean;
+}
+
+/**
+ * Connection pool statistics reported by an adapter.
+ */
+export interface PoolStats {
+  /** Open connections (active + idle) */
+  total: number;
+  /** Connections currently checked out by a query */
+  active: number;
+  /** Open connections waiting to be reused */
+  idle: number;
+  /** Callers waiting for a connection */
+  waiting: number;
+  /** Number of successful connection acquisitions */
+  acquisitions: number;
+  /** Average time spent waiting for a connection (ms) */
+  avgWaitMs: number;
+  /** Longest time spent waiting for a connection (ms) */
+  maxWaitMs: number;
 }
 
 /**
@@ -40,11 +107,13 @@ export interface DatabaseAdapter {
    * Execute a SQL query with optional parameters.
    * @param sql - SQL query string
    * @param params - Query parameters for parameterized queries
+   * @param options - Statement timeout and cancellation signal
    * @returns Query result with rows
    */
   query<T extends Record<string, unknown>>(
     sql: string,
     params?: unknown[],
+    options?: QueryOptions,
   ): Promise<QueryResult<T>>;
 
   /**
@@ -64,6 +133,11 @@ export interface DatabaseAdapter {
    * Close the database connection/pool.
    */
   close(): Promise<void>;
+
+  /**
+   * Report connection pool usage (used by the pool registry and /api/health).
+   */
+  getPoolStats?(): PoolStats;
 }
 
 /**
@@ -8,11 +8,18 @@ import {
   createAdapter,
   createTestAdapter,
   type DBConfig as AdapterDBConfig,
+  type DatabaseAdapter,
   type DatabaseType,
+  type QueryOptions,
 } from "./db-adapters";
+import {
+  applyByteBudget,
+  buildCountQuery,
+  getMaxResultBytes,
+} from "./db-adapters/row-limit";
 
 // Re-export types for backward compatibility
-export type { DatabaseType } from "./db-adapters";
+export type { DatabaseType, QueryOptions } from "./db-adapters";
 
 /**
  * Legacy DBConfig interface for backward compatibility.
@@ -62,18 +69,51 @@ function toAdapterConfig(config: DBConfig): AdapterDBConfig {
   };
 }
 
+/**
+ * Rows returned by a query together with truncation metadata.
+ */
+export interface LimitedQueryResult<T> {
+  rows: T[];
+  rowCount: number;
+  /** True when rows were dropped by the MAX_QUERY_ROWS or MAX_RESULT_BYTES budget */
+  truncated: boolean;
+  /** Number of rows the full query returns, when it could be determined */
+  totalRowsEstimate?: number;
+}
+
 /**
  * Execute a SQL query against the database.
  * @param sql - SQL query string
  * @param params - Query parameters
  * @param dbConfig - Database configuration
+ * @param options - Statement timeout and abort signal for cancellation
  * @returns Query result rows
  */
 export async function executeQuery<T extends Record<string, unknown>>(
   sql: string,
   params: unknown[] = [],
   dbConfig?: DBConfig,
+  options?: QueryOptions,
 ): Promise<T[]> {
+  const result = await executeLimitedQuery<T>(sql, params, dbConfig, options);
+  return result.rows;
+}
+
+/**
+ * Execute a SQL query within the row and byte budgets and report whether the
+ * result was truncated. When it was, the full result size is counted so
+ * callers (charts, the agent) know how much data they are missing.
+ * @param sql - SQL query string
+ * @param params - Query parameters
+ * @param dbConfig - Database configuration
+ * @param options - Statement timeout and abort signal for cancellation
+ */
+export async function executeLimitedQuery<T extends Record<string, unknown>>(
+  sql: string,
+  params: unknown[] = [],
+  dbConfig?: DBConfig,
+  options?: QueryOptions,
+): Promise<LimitedQueryResult<T>> {
   // Default to PostgreSQL with environment variables if no config provided
   const config = dbConfig
     ? toAdapterConfig(dbConfig)
@@ -88,8 +128,49 @@ export async function executeQuery<T extends Record<string, unknown>>(
       };
 
   const adapter = createAdapter(config);
-  const result = await adapter.query<T>(sql, params);
-  return result.rows;
+  const result = await adapter.query<T>(sql, params, options);
+  const budgeted = applyByteBudget(result.rows, getMaxResultBytes());
+  const truncatedByRows = result.truncated === true;
+
+  let totalRowsEstimate: number | undefined;
+  if (truncatedByRows) {
+    totalRowsEstimate = await countRows(adapter, config.type, sql, params, options);
+  } else if (budgeted.truncated) {
+    // Every matching row was fetched before the byte budget applied
+    totalRowsEstimate = result.rows.length;
+  }
+
+  return {
+    rows: budgeted.rows,
+    rowCount: budgeted.rows.length,
+    truncated: truncatedByRows || budgeted.truncated,
+    totalRowsEstimate,
+  };
+}
+
+/**
+ * Count the rows a query returns. Returns undefined if counting fails
+ * (e.g. it hits the statement timeout) - truncation is still reported.
+ */
+async function countRows(
+  adapter: DatabaseAdapter,
+  dialect: DatabaseType,
+  sql: string,
+  params: unknown[],
+  options?: QueryOptions,
+): Promise<number | undefined> {
+  try {
+    const result = await adapter.query<{ total: unknown }>(
+      buildCountQuery(sql, dialect),
+      params,
+      options,
+    );
+    const total = Number(result.rows[0]?.total);
+    return Number.isFinite(total) ? total : undefined;
+  } catch (err) {
+    console.warn("Failed to count rows for truncated result:", err);
+    return undefined;
+  }
 }
 
 /**
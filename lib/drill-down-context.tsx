@@ -6,8 +6,11 @@ import {
   useState,
   useCallback,
   useMemo,
+  useRef,
+  useEffect,
   type ReactNode,
 } from "react";
+import { useFiltersOptional } from "./filter-context";
 
 /**
  * Information about a drill-down action
@@ -43,7 +46,7 @@ export interface DrillDownData {
 interface DrillDownContextState {
   // Current drill-down data (if modal is open)
   drillDownData: DrillDownData | null;
-  // Open the drill-down modal with data
+  // Open the drill-down modal with data (in cross-filter mode, select the value instead)
   openDrillDown: (info: DrillDownInfo, rows: Record<string, unknown>[]) => void;
   // Close the drill-down modal
   closeDrillDown: () => void;
@@ -77,14 +80,34 @@ interface DrillDownProviderProps {
 
 /**
  * Drill-down provider component
+ *
+ * Charts report segment clicks through openDrillDown. In the filter
+ * context's cross-filter mode the click selects the value for the whole
+ * dashboard instead of opening the modal.
  */
 export function DrillDownProvider({ children }: DrillDownProviderProps) {
   const [drillDownData, setDrillDownData] = useState<DrillDownData | null>(
     null,
   );
+  // Through a ref, so openDrillDown stays stable while filter values change
+  const filters = useFiltersOptional();
+  const filtersRef = useRef(filters);
+  useEffect(() => {
+    filtersRef.current = filters;
+  }, [filters]);
 
   const openDrillDown = useCallback(
     (info: DrillDownInfo, rows: Record<string, unknown>[]) => {
+      const filters = filtersRef.current;
+      if (filters?.crossFilterMode) {
+        filters.toggleCrossFilter({
+          column: info.dimension,
+          value: info.value,
+          sourceQueryKey: info.queryKey,
+          sourceTitle: info.title,
+        });
+        return;
+      }
       setDrillDownData({ info, rows });
     },
     [],
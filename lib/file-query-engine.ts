@@ -0,0 +1,215 @@
+/**
+ * SQL engine for uploaded files (server-only).
+ *
+ * Tables registered in a table store are materialized into an in-memory
+ * SQLite database (better-sqlite3), so file sources get full SQL:
+ * joins across uploaded files, CASE, subqueries, window functions, date
+ * functions and real parameter binding.
+ */
+
+import Database from "better-sqlite3";
+import type { InMemoryDatabase, ColumnInfo } from "./in-memory-db";
+import { tokenizeSQL } from "./sql-tokenizer";
+
+export interface FileQueryResult {
+  rows: Record<string, unknown>[];
+  columns: string[];
+}
+
+/** SQLite column affinity for each inferred column type */
+const COLUMN_AFFINITY: Record<ColumnInfo["type"], string> = {
+  number: "NUMERIC",
+  boolean: "INTEGER",
+  date: "TEXT",
+  text: "TEXT",
+  unknown: "",
+};
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Convert a JS value from a parsed file into something SQLite can bind.
+ */
+function toSQLiteValue(value: unknown, type: ColumnInfo["type"]): unknown {
+  if (value === null || value === undefined || value === "") return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (type === "boolean" && (value === "true" || value === "false")) {
+    return value === "true" ? 1 : 0;
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return value;
+}
+
+function toSQLiteParam(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "boolean") return value ? 1 : 0;
+  return value;
+}
+
+/**
+ * Rewrite PostgreSQL-style `$n` placeholders (in SQL written for
+ * PostgreSQL) into SQLite `?` placeholders, reordering params to match.
+ * Placeholders inside string literals and comments are left alone.
+ */
+export function bindPositionalParams(
+  sql: string,
+  params: unknown[],
+): { sql: string; params: unknown[] } {
+  const tokens = tokenizeSQL(sql, "sqlite");
+  if (!tokens.some((t) => t.type === "parameter" && /^\$\d+$/.test(t.value))) {
+    return { sql, params };
+  }
+
+  const bound: unknown[] = [];
+  let result = "";
+  for (const token of tokens) {
+    if (token.type === "parameter" && /^\$\d+$/.test(token.value)) {
+      const index = parseInt(token.value.slice(1), 10) - 1;
+      if (index < 0 || index >= params.length) {
+        throw new Error(`No value provided for parameter ${token.value}`);
+      }
+      bound.push(params[index]);
+      result += "?";
+    } else {
+      result += token.value;
+    }
+  }
+  return { sql: result, params: bound };
+}
+
+export class FileQueryEngine {
+  private db: Database.Database;
+  /** Data array each table was loaded from, used to detect changes */
+  private loaded = new Map<string, Record<string, unknown>[]>();
+
+  constructor(private readonly source: () => InMemoryDatabase) {
+    this.db = new Database(":memory:");
+    // Give the pages of dropped tables back instead of keeping them for reuse
+    this.db.pragma("auto_vacuum = FULL");
+  }
+
+  /**
+   * Run a read-only query against the uploaded tables.
+   * @param sql - SQLite SQL; `?` and `$n` placeholders are bound from `params`
+   * @param params - Positional parameter values
+   */
+  query(sql: string, params: unknown[] = []): FileQueryResult {
+    this.sync();
+
+    const bound = bindPositionalParams(sql.replace(/;\s*$/, "").trim(), params);
+    let stmt: Database.Statement;
+    try {
+      stmt = this.db.prepare(bound.sql);
+    } catch (err) {
+      throw this.describeError(err);
+    }
+    if (!stmt.reader) {
+      throw new Error("Only SELECT queries are supported");
+    }
+
+    const rows = stmt.all(...bound.params.map(toSQLiteParam)) as Record<
+      string,
+      unknown
+    >[];
+    return {
+      rows,
+      columns: stmt.columns().map((column) => column.name),
+    };
+  }
+
+  /**
+   * Bytes a loaded table takes in the SQLite database (0 when not loaded).
+   */
+  tableBytes(name: string): number {
+    const row = this.db
+      .prepare("SELECT COALESCE(SUM(pgsize), 0) AS bytes FROM dbstat WHERE name = ?")
+      .get(name) as { bytes: number };
+    return row.bytes;
+  }
+
+  /**
+   * Drop every table and release the SQLite database.
+   */
+  close(): void {
+    this.loaded.clear();
+    this.db.close();
+  }
+
+  /**
+   * Bring the SQLite tables in line with the table store: load new or
+   * replaced tables and drop removed ones. Queries sync first; call it
+   * directly to load (or free) tables right away.
+   */
+  sync(): void {
+    const store = this.source();
+    const schemas = store.getAllSchemas();
+    const names = new Set(schemas.map((schema) => schema.name));
+
+    const stale = Array.from(this.loaded.keys()).filter((name) => !names.has(name));
+    const changed = schemas.filter(
+      (schema) => this.loaded.get(schema.name) !== store.getTableData(schema.name),
+    );
+    if (stale.length === 0 && changed.length === 0) return;
+
+    this.db.pragma("query_only = OFF");
+    try {
+      this.db.transaction(() => {
+        for (const name of stale) {
+          this.db.exec(`DROP TABLE IF EXISTS ${quoteIdentifier(name)}`);
+          this.loaded.delete(name);
+        }
+        for (const schema of changed) {
+          const data = store.getTableData(schema.name) ?? [];
+          this.loadTable(schema.name, schema.columns, data);
+          this.loaded.set(schema.name, data);
+        }
+      })();
+    } finally {
+      // Queries can never modify the loaded data
+      this.db.pragma("query_only = ON");
+    }
+  }
+
+  private loadTable(
+    name: string,
+    columns: ColumnInfo[],
+    data: Record<string, unknown>[],
+  ): void {
+    const table = quoteIdentifier(name);
+    this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+    if (columns.length === 0) {
+      // SQLite requires at least one column
+      this.db.exec(`CREATE TABLE ${table} (_empty TEXT)`);
+      return;
+    }
+
+    const columnDefs = columns
+      .map((col) => `${quoteIdentifier(col.name)} ${COLUMN_AFFINITY[col.type]}`.trim())
+      .join(", ");
+    this.db.exec(`CREATE TABLE ${table} (${columnDefs})`);
+
+    const insert = this.db.prepare(
+      `INSERT INTO ${table} VALUES (${columns.map(() => "?").join(", ")})`,
+    );
+    for (const row of data) {
+      insert.run(...columns.map((col) => toSQLiteValue(row[col.name], col.type)));
+    }
+  }
+
+  /**
+   * Make SQLite errors point the model at the tables that do exist.
+   */
+  private describeError(err: unknown): Error {
+    const message = err instanceof Error ? err.message : String(err);
+    const missing = /^no such table: (.+)$/.exec(message);
+    if (missing) {
+      const available = Array.from(this.loaded.keys()).join(", ") || "none";
+      return new Error(`Table "${missing[1]}" not found. Available tables: ${available}`);
+    }
+    return err instanceof Error ? err : new Error(message);
+  }
+}
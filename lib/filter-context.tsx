@@ -8,6 +8,13 @@ import {
   useMemo,
   type ReactNode,
 } from "react";
+import type { CrossFilter } from "./cross-filter";
+import type { ComparisonMode } from "./comparison";
+import {
+  isRelativeDateExpression,
+  resolveRelativeDate,
+  RELATIVE_PARAM_SUFFIX,
+} from "./relative-dates";
 
 /**
  * Filter value types
@@ -15,77 +22,83 @@ import {
 export interface DateRangeValue {
   from: string; // ISO date string
   to: string; // ISO date string
+  /** Relative date expression the dates were resolved from; the server re-resolves it */
+  relative?: string;
+}
+
+export interface NumberRangeValue {
+  min: number;
+  max: number;
 }
 
-export type FilterValue = string | string[] | DateRangeValue | null;
+export type FilterValue = string | string[] | DateRangeValue | NumberRangeValue | null;
 
 /**
  * Filter definition from LLM
  */
 export interface FilterDefinition {
   id: string;
-  type: "date-range" | "dropdown";
+  type: "date-range" | "dropdown" | "range" | "search" | "toggle";
   label: string;
   column: string;
   // For dropdown filters
   options?: string[];
   multiSelect?: boolean;
-  // For date-range filters
-  defaultPreset?: "last7days" | "last30days" | "last90days" | "ytd" | "custom";
+  // For date-range filters: a DATE_PRESETS key or a relative date expression
+  defaultPreset?: DatePresetKey | (string & {});
+  // For range filters: lookup query returning the column's min and max
+  boundsQueryKey?: string;
+  step?: number;
+  // For dropdown filters: lookup query the options are loaded from, and the
+  // filters whose values narrow it (lib/filter-options.ts)
+  optionsQueryKey?: string;
+  parentFilterIds?: string[];
 }
 
 /**
- * Date range presets
+ * Date range presets. Each (but custom) is a relative date expression,
+ * resolved again by the server when queries run.
  */
 export const DATE_PRESETS = {
-  last7days: {
-    label: "Last 7 days",
-    getRange: () => {
-      const to = new Date();
-      const from = new Date();
-      from.setDate(from.getDate() - 7);
-      return { from: formatDate(from), to: formatDate(to) };
-    },
-  },
-  last30days: {
-    label: "Last 30 days",
-    getRange: () => {
-      const to = new Date();
-      const from = new Date();
-      from.setDate(from.getDate() - 30);
-      return { from: formatDate(from), to: formatDate(to) };
-    },
-  },
-  last90days: {
-    label: "Last 90 days",
-    getRange: () => {
-      const to = new Date();
-      const from = new Date();
-      from.setDate(from.getDate() - 90);
-      return { from: formatDate(from), to: formatDate(to) };
-    },
-  },
-  ytd: {
-    label: "Year to date",
-    getRange: () => {
-      const to = new Date();
-      const from = new Date(to.getFullYear(), 0, 1);
-      return { from: formatDate(from), to: formatDate(to) };
-    },
-  },
-  custom: {
-    label: "Custom range",
-    getRange: () => {
-      const to = new Date();
-      const from = new Date();
-      from.setDate(from.getDate() - 30);
-      return { from: formatDate(from), to: formatDate(to) };
-    },
-  },
+  last7days: { label: "Last 7 days", expression: "last_7_days" },
+  last30days: { label: "Last 30 days", expression: "last_30_days" },
+  last90days: { label: "Last 90 days", expression: "last_90_days" },
+  last3CompleteMonths: { label: "Last 3 complete months", expression: "last_3_complete_months" },
+  quarterToDate: { label: "Quarter to date", expression: "quarter_to_date" },
+  ytd: { label: "Year to date", expression: "year_to_date" },
+  samePeriodLastYear: { label: "Same period last year", expression: "same_period_last_year" },
+  custom: { label: "Custom range", expression: null },
 } as const;
 
-function formatDate(date: Date): string {
-  return date.toISOString().split("T")[0] ?? "";
+export type DatePresetKey = keyof typeof DATE_PRESETS;
+
+/**
+ * The value of a date-range filter set to a preset or relative date
+ * expression. Unknown presets fall back to the last 30 days.
+ */
+export function dateRangeValue(preset?: string): DateRangeValue {
+  const expression =
+    preset && preset in DATE_PRESETS
+      ? DATE_PRESETS[preset as DatePresetKey].expression ?? "last_30_days"
+      : preset && isRelativeDateExpression(preset)
+        ? preset
+        : "last_30_days";
+  return { ...resolveRelativeDate(expression)!, relative: expression };
+}
+
+/**
+ * The value a filter starts with (and is reset to)
+ */
+function initialValue(filter: FilterDefinition): FilterValue {
+  switch (filter.type) {
+    case "date-range":
+      return dateRangeValue(filter.defaultPreset);
+    case "dropdown":
+      return filter.multiSelect ? [] : null;
+    default:
+      // Range, search and toggle filters start unset (no filtering)
+      return null;
+  }
 }
 
 /**
@@ -98,7 +111,19 @@ interface FilterContextState {
   setValue: (filterId: string, value: FilterValue) => void;
   clearFilters: () => void;
   clearValues: () => void;
-  getFilterParams: () => Record<string, string>;
+  /** SQL parameters of all filters, or of the given ones */
+  getFilterParams: (filterIds?: string[]) => Record<string, string>;
+  /** Whether clicking a chart segment cross-filters the dashboard (instead of drilling down) */
+  crossFilterMode: boolean;
+  setCrossFilterMode: (enabled: boolean) => void;
+  /** Values selected by clicking chart segments, at most one per chart */
+  crossFilters: CrossFilter[];
+  /** Select a chart segment, or deselect it if it's already selected */
+  toggleCrossFilter: (filter: CrossFilter) => void;
+  removeCrossFilter: (sourceQueryKey: string) => void;
+  /** Period the date-filtered queries are compared against, if any */
+  comparison: ComparisonMode | null;
+  setComparison: (mode: ComparisonMode | null) => void;
 }
 
 const FilterContext = createContext<FilterContextState | null>(null);
@@ -131,18 +156,16 @@ interface FilterProviderProps {
 export function FilterProvider({ children }: FilterProviderProps) {
   const [filters, setFiltersState] = useState<FilterDefinition[]>([]);
   const [values, setValues] = useState<Record<string, FilterValue>>({});
+  const [crossFilterMode, setCrossFilterModeState] = useState(false);
+  const [crossFilters, setCrossFilters] = useState<CrossFilter[]>([]);
+  const [comparison, setComparison] = useState<ComparisonMode | null>(null);
 
   const setFilters = useCallback((newFilters: FilterDefinition[]) => {
     setFiltersState(newFilters);
     // Initialize default values for new filters
     const initialValues: Record<string, FilterValue> = {};
     for (const filter of newFilters) {
-      if (filter.type === "date-range") {
-        const preset = filter.defaultPreset || "last30days";
-        initialValues[filter.id] = DATE_PRESETS[preset].getRange();
-      } else if (filter.type === "dropdown") {
-        initialValues[filter.id] = filter.multiSelect ? [] : null;
-      }
+      initialValues[filter.id] = initialValue(filter);
     }
     setValues(initialValues);
   }, []);
@@ -154,18 +177,36 @@ export function FilterProvider({ children }: FilterProviderProps) {
   const clearFilters = useCallback(() => {
     setFiltersState([]);
     setValues({});
+    setCrossFilters((prev) => (prev.length > 0 ? [] : prev));
+    setComparison(null);
+  }, []);
+
+  const setCrossFilterMode = useCallback((enabled: boolean) => {
+    setCrossFilterModeState(enabled);
+    if (!enabled) setCrossFilters((prev) => (prev.length > 0 ? [] : prev));
+  }, []);
+
+  const toggleCrossFilter = useCallback((filter: CrossFilter) => {
+    setCrossFilters((prev) => {
+      const current = prev.find((f) => f.sourceQueryKey === filter.sourceQueryKey);
+      const others = prev.filter((f) => f.sourceQueryKey !== filter.sourceQueryKey);
+      if (current && current.column === filter.column && String(current.value) === String(filter.value)) {
+        return others;
+      }
+      // One value per column: a selection in another chart on the same column replaces it
+      return [...others.filter((f) => f.column !== filter.column), filter];
+    });
+  }, []);
+
+  const removeCrossFilter = useCallback((sourceQueryKey: string) => {
+    setCrossFilters((prev) => prev.filter((f) => f.sourceQueryKey !== sourceQueryKey));
   }, []);
 
   const clearValues = useCallback(() => {
     // Reset values to defaults without removing filter definitions
     const resetValues: Record<string, FilterValue> = {};
     for (const filter of filters) {
-      if (filter.type === "date-range") {
-        const preset = filter.defaultPreset || "last30days";
-        resetValues[filter.id] = DATE_PRESETS[preset].getRange();
-      } else if (filter.type === "dropdown") {
-        resetValues[filter.id] = filter.multiSelect ? [] : null;
-      }
+      resetValues[filter.id] = initialValue(filter);
     }
     setValues(resetValues);
   }, [filters]);
@@ -173,11 +214,14 @@ export function FilterProvider({ children }: FilterProviderProps) {
   /**
    * Convert filter values to SQL parameters
    * Returns a flat object like { date_from: "2024-01-01", date_to: "2024-01-31", region: "West" }
+   * (date_relative: "quarter_to_date" for a relative range, amount_min/amount_max
+   * for a range, name_search: "%ada%" for a search)
    */
-  const getFilterParams = useCallback(() => {
+  const getFilterParams = useCallback((filterIds?: string[]) => {
     const params: Record<string, string> = {};
 
     for (const filter of filters) {
+      if (filterIds && !filterIds.includes(filter.id)) continue;
       const value = values[filter.id];
       if (value === null || value === undefined) continue;
 
@@ -186,8 +230,13 @@ export function FilterProvider({ children }: FilterProviderProps) {
         typeof value === "object" &&
         "from" in value
       ) {
-        params[`${filter.column}_from`] = value.from;
-        params[`${filter.column}_to`] = value.to;
+        if (value.relative) {
+          // The server resolves the expression to dates when the queries run
+          params[`${filter.column}${RELATIVE_PARAM_SUFFIX}`] = value.relative;
+        } else {
+          params[`${filter.column}_from`] = value.from;
+          params[`${filter.column}_to`] = value.to;
+        }
       } else if (filter.type === "dropdown") {
         if (Array.isArray(value)) {
           if (value.length > 0) {
@@ -196,6 +245,20 @@ export function FilterProvider({ children }: FilterProviderProps) {
         } else if (typeof value === "string") {
           params[filter.column] = value;
         }
+      } else if (
+        filter.type === "range" &&
+        typeof value === "object" &&
+        "min" in value
+      ) {
+        params[`${filter.column}_min`] = String(value.min);
+        params[`${filter.column}_max`] = String(value.max);
+      } else if (filter.type === "search" && typeof value === "string") {
+        // Contains-match, applied with ILIKE
+        if (value.trim()) {
+          params[`${filter.column}_search`] = `%${value.trim()}%`;
+        }
+      } else if (filter.type === "toggle" && value === "true") {
+        params[filter.column] = "true";
       }
     }
 
@@ -211,8 +274,29 @@ export function FilterProvider({ children }: FilterProviderProps) {
       clearFilters,
       clearValues,
       getFilterParams,
+      crossFilterMode,
+      setCrossFilterMode,
+      crossFilters,
+      toggleCrossFilter,
+      removeCrossFilter,
+      comparison,
+      setComparison,
     }),
-    [filters, values, setFilters, setValue, clearFilters, clearValues, getFilterParams],
+    [
+      filters,
+      values,
+      setFilters,
+      setValue,
+      clearFilters,
+      clearValues,
+      getFilterParams,
+      crossFilterMode,
+      setCrossFilterMode,
+      crossFilters,
+      toggleCrossFilter,
+      removeCrossFilter,
+      comparison,
+    ],
   );
 
   return (
@@ -221,3 +305,12 @@ export function FilterProvider({ children }: FilterProviderProps) {
     </FilterContext.Provider>
   );
 }
+
+/**
+ * The value selected in a chart by clicking it in cross-filter mode, if any
+ */
+export function useCrossFilterSelection(queryKey: string): string | null {
+  const filters = useFiltersOptional();
+  const selected = filters?.crossFilters.find((f) => f.sourceQueryKey === queryKey);
+  return selected ? String(selected.value) : null;
+}
@@ -3,7 +3,7 @@
  *
  * This module provides a robust, parameterized approach to applying filters to SQL queries.
  * Instead of string replacement with {{placeholders}}, filters are applied server-side
- * using PostgreSQL parameterized queries ($1, $2, etc.) which:
+ * using parameterized queries ($1, $2, etc. for PostgreSQL; ? for MySQL and SQLite) which:
  * - Prevents SQL injection by design
  * - Handles type casting automatically
  * - Works with any valid SQL from the AI
@@ -26,6 +26,15 @@
  *    - Kept for backward compatibility
  */
 
+import type { DatabaseType } from "./db-adapters/types";
+import {
+  isKeyword,
+  isSignificantToken,
+  significantTokens,
+  tokenizeSQL,
+  type SQLToken,
+} from "./sql-tokenizer";
+
 /**
  * Supported filter operators
  */
@@ -83,18 +92,26 @@ export interface QueryWithFilters {
 export interface FilteredQueryResult {
   /** The complete SQL with WHERE clause */
   sql: string;
-  /** Parameter values in order ($1, $2, ...) */
+  /** All parameter values of the SQL, in order ($1, $2, ... or the ? placeholders) */
   params: unknown[];
   /** The WHERE clause that was applied (for debugging) */
   whereClause: string;
 }
 
 /**
- * Cast a string value to the appropriate type for PostgreSQL
+ * Whether the dialect binds `?` placeholders in order, rather than numbered `$n` ones
+ */
+function usesPositionalParams(dialect?: DatabaseType): boolean {
+  return dialect === "mysql" || dialect === "sqlite";
+}
+
+/**
+ * Cast a string value to the type the database driver binds for the filter
  */
 function castValue(
   value: string | number | boolean,
   type: FilterType,
+  dialect?: DatabaseType,
 ): unknown {
   if (value === null || value === undefined) {
     return null;
@@ -107,11 +124,14 @@ function castValue(
       const num = parseFloat(strValue);
       return isNaN(num) ? null : num;
     }
-    case "boolean":
-      return strValue === "true" || strValue === "1";
+    case "boolean": {
+      const bool = strValue === "true" || strValue === "1";
+      // SQLite has no boolean type and can't bind one; it stores 1 and 0
+      return dialect === "sqlite" ? (bool ? 1 : 0) : bool;
+    }
     case "date":
-      // PostgreSQL handles ISO date string casting
-      return strValue;
+      // Bound as an ISO date string; dateValue() casts it per dialect
+      return strValue.trim();
     case "text":
     default:
       return strValue;
@@ -119,82 +139,170 @@ function castValue(
 }
 
 /**
- * Find the position to inject a WHERE clause in a SQL query.
- * Returns the index where WHERE should be inserted, accounting for existing WHERE, GROUP BY, etc.
+ * The SQL for a filter value. PostgreSQL types a date parameter from the
+ * column it is compared with; MySQL needs it cast, and SQLite (which stores
+ * dates as text) needs it normalized to the YYYY-MM-DD form it sorts by.
  */
-function findWhereInjectionPoint(sql: string): {
-  position: number;
-  hasExistingWhere: boolean;
-  insertText: string;
-} {
-  const upperSql = sql.toUpperCase();
-
-  // Check if there's already a WHERE clause
-  // We need to find WHERE that's not inside parentheses (not a subquery)
-  let depth = 0;
-  let wherePos = -1;
-  for (let i = 0; i < sql.length - 5; i++) {
-    const char = sql[i];
-    if (char === '(') depth++;
-    else if (char === ')') depth--;
-    else if (depth === 0 && upperSql.substring(i, i + 5) === 'WHERE' &&
-             (i === 0 || /\s/.test(sql[i - 1]))) {
-      wherePos = i;
-      break;
+function dateValue(placeholder: string, type: FilterType, dialect?: DatabaseType): string {
+  if (type !== "date") return placeholder;
+  switch (dialect) {
+    case "mysql":
+      return `CAST(${placeholder} AS DATE)`;
+    case "sqlite":
+      return `date(${placeholder})`;
+    default:
+      return placeholder;
+  }
+}
+
+const PLAIN_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_$]*$/;
+const QUOTED_IDENTIFIER = /^(?:"(?:[^"]|"")*"|`(?:[^`]|``)*`|\[(?:[^\]]|\]\])*\])$/;
+
+/**
+ * An identifier as the dialect reads it: plain names as they are, anything
+ * else (spaces, dashes...) quoted. Names quoted for another dialect
+ * (`name` or [name] on PostgreSQL) are unquoted and quoted again for this one.
+ */
+function quoteIdentifier(name: string, dialect?: DatabaseType): string {
+  if (PLAIN_IDENTIFIER.test(name)) return name;
+
+  let unquoted = name;
+  if (QUOTED_IDENTIFIER.test(name)) {
+    const close = name[name.length - 1]!;
+    unquoted = name.slice(1, -1).split(close + close).join(close);
+  }
+  const quote = dialect === "mysql" ? "`" : '"';
+  return `${quote}${unquoted.split(quote).join(quote + quote)}${quote}`;
+}
+
+/**
+ * Column reference of a filter, with its table qualifier if any
+ */
+function columnReference(meta: FilterMeta, dialect?: DatabaseType): string {
+  const parts = QUOTED_IDENTIFIER.test(meta.column) ? [meta.column] : meta.column.split(".");
+  if (meta.table) parts.unshift(meta.table);
+  return parts.map((part) => quoteIdentifier(part.trim(), dialect)).join(".");
+}
+
+/**
+ * The query on one line: whitespace collapsed and comments dropped (a line
+ * comment would swallow the rest of the line), string literals and quoted
+ * identifiers untouched, no trailing semicolon.
+ */
+function normalizeQuery(sql: string, dialect?: DatabaseType): string {
+  const tokens = tokenizeSQL(sql, dialect);
+  while (tokens.length > 0 && !isSignificantToken(tokens[tokens.length - 1]!)) tokens.pop();
+  while (tokens.length > 0 && tokens[tokens.length - 1]!.type === "semicolon") tokens.pop();
+
+  let normalized = "";
+  for (const token of tokens) {
+    if (isSignificantToken(token)) {
+      normalized += token.value;
+    } else if (normalized && !normalized.endsWith(" ")) {
+      normalized += " ";
     }
   }
+  return normalized.trim();
+}
 
-  if (wherePos !== -1) {
-    // Has existing WHERE - find the end of existing conditions
-    // Look for GROUP BY, ORDER BY, LIMIT, HAVING, or end of query
-    const afterWhere = upperSql.substring(wherePos + 5);
-    const terminators = ['GROUP BY', 'ORDER BY', 'LIMIT', 'HAVING', 'UNION', 'INTERSECT', 'EXCEPT'];
-
-    let endPos = sql.length;
-    for (const term of terminators) {
-      const termPos = afterWhere.indexOf(term);
-      if (termPos !== -1) {
-        const absolutePos = wherePos + 5 + termPos;
-        if (absolutePos < endPos) {
-          endPos = absolutePos;
-        }
-      }
+/**
+ * Where one SELECT takes the filter conditions
+ */
+interface InjectionPoint {
+  /** End of the FROM clause, or of the existing WHERE conditions */
+  position: number;
+  /** Start of the existing WHERE conditions, if the SELECT has any */
+  whereStart?: number;
+  /** The existing conditions have a top-level OR, so they need parentheses */
+  wrap: boolean;
+}
+
+const SET_OPERATORS = ["UNION", "INTERSECT", "EXCEPT"];
+const CLAUSES_AFTER_WHERE = ["GROUP", "HAVING", "WINDOW", "ORDER", "LIMIT", "OFFSET", "FETCH"];
+
+/**
+ * Find where to inject the filter conditions: after the WHERE conditions (or
+ * the FROM clause) of the main query, outside CTE bodies, subqueries and
+ * string literals, and in every branch of a UNION, INTERSECT or EXCEPT.
+ */
+function findInjectionPoints(sql: string, dialect?: DatabaseType): InjectionPoint[] {
+  const tokens = significantTokens(sql, dialect);
+  return statementInjectionPoints(tokens, 0, tokens.length, 0);
+}
+
+/** Injection points of the statement in tokens[from, to), at paren depth `depth` */
+function statementInjectionPoints(
+  tokens: SQLToken[],
+  from: number,
+  to: number,
+  depth: number,
+): InjectionPoint[] {
+  let start = from;
+  // Skip the WITH list: CTEs are filtered where the main query reads them
+  if (isKeyword(tokens[start], "WITH")) {
+    while (start < to && !(tokens[start]!.depth === depth && isKeyword(tokens[start], "SELECT"))) {
+      start++;
     }
+  }
 
-    return {
-      position: endPos,
-      hasExistingWhere: true,
-      insertText: ' AND ',
-    };
+  const points: InjectionPoint[] = [];
+  let branchStart = start;
+  for (let i = start; i <= to; i++) {
+    const isSetOperator =
+      i < to && tokens[i]!.depth === depth && SET_OPERATORS.some((op) => isKeyword(tokens[i], op));
+    if (i < to && !isSetOperator) continue;
+
+    points.push(...branchInjectionPoints(tokens, branchStart, i, depth));
+    branchStart = i + 1;
+    if (isKeyword(tokens[branchStart], "ALL") || isKeyword(tokens[branchStart], "DISTINCT")) {
+      branchStart++;
+    }
   }
+  return points;
+}
 
-  // No existing WHERE - find where to insert it
-  // Should be after FROM clause but before GROUP BY, ORDER BY, LIMIT, etc.
-  const insertBeforeKeywords = ['GROUP BY', 'ORDER BY', 'LIMIT', 'HAVING', 'UNION', 'INTERSECT', 'EXCEPT'];
-
-  let insertPos = sql.length;
-  for (const keyword of insertBeforeKeywords) {
-    // Find keyword at depth 0 (not in subquery)
-    let depth = 0;
-    for (let i = 0; i < sql.length - keyword.length; i++) {
-      const char = sql[i];
-      if (char === '(') depth++;
-      else if (char === ')') depth--;
-      else if (depth === 0 && upperSql.substring(i, i + keyword.length) === keyword &&
-               (i === 0 || /\s/.test(sql[i - 1]))) {
-        if (i < insertPos) {
-          insertPos = i;
-        }
-        break;
+/** Injection point of one SELECT (a set operation branch) in tokens[from, to) */
+function branchInjectionPoints(
+  tokens: SQLToken[],
+  from: number,
+  to: number,
+  depth: number,
+): InjectionPoint[] {
+  if (from >= to) return [];
+
+  // A parenthesized branch: (SELECT ... LIMIT 5) UNION (SELECT ...)
+  if (tokens[from]!.type === "open_paren") {
+    for (let i = from + 1; i < to; i++) {
+      if (tokens[i]!.type === "close_paren" && tokens[i]!.depth === depth) {
+        return statementInjectionPoints(tokens, from + 1, i, depth + 1);
       }
     }
   }
 
-  return {
-    position: insertPos,
-    hasExistingWhere: false,
-    insertText: ' WHERE ',
-  };
+  let where = -1;
+  let end = to;
+  for (let i = from; i < to; i++) {
+    const token = tokens[i]!;
+    if (token.depth !== depth) continue;
+    if (where === -1 && isKeyword(token, "WHERE")) {
+      where = i;
+    } else if (CLAUSES_AFTER_WHERE.some((clause) => isKeyword(token, clause))) {
+      end = i;
+      break;
+    }
+  }
+  if (end === from) return [];
+
+  const hasWhere = where !== -1 && where + 1 < end;
+  return [
+    {
+      position: tokens[end - 1]!.end,
+      whereStart: hasWhere ? tokens[where + 1]!.start : undefined,
+      wrap:
+        hasWhere &&
+        tokens.slice(where + 1, end).some((token) => token.depth === depth && isKeyword(token, "OR")),
+    },
+  ];
 }
 
 /**
@@ -203,11 +311,16 @@ function findWhereInjectionPoint(sql: string): {
  * This function injects filter conditions directly into the query rather than
  * wrapping it in a subquery. This allows filtering on columns that may not
  * be in the SELECT output (e.g., filtering by date on an aggregate query).
+ * The conditions go into the main query (not its CTEs or subqueries), and
+ * into each branch of a UNION.
  *
  * @param baseQuery - The base SQL query without filter conditions
  * @param filterMeta - Array of filter metadata describing how to apply filters
  * @param filterValues - Map of filter IDs to their values
- * @returns The complete SQL with WHERE clause and parameter values
+ * @param options.params - Parameter values the SQL already has, when filtering an already filtered query
+ * @param options.dialect - Target database: placeholders ($1 for PostgreSQL, ? for MySQL and SQLite),
+ *   case-insensitive matching, date casting and identifier quoting follow it
+ * @returns The complete SQL with WHERE clause and all its parameter values
  *
  * @example
  * const result = buildFilteredQuery(
@@ -225,10 +338,19 @@ export function buildFilteredQuery(
   baseQuery: string,
   filterMeta: FilterMeta[],
   filterValues: Record<string, string | string[] | number | boolean>,
+  options: { params?: unknown[]; dialect?: DatabaseType } = {},
 ): FilteredQueryResult {
+  const { dialect } = options;
+  const baseParams = options.params ?? [];
+  const positional = usesPositionalParams(dialect);
   const conditions: string[] = [];
   const params: unknown[] = [];
-  let paramIndex = 1;
+
+  // Placeholder for the next value: $n after the SQL's own parameters, or ?
+  const bind = (value: string | number | boolean, type: FilterType): string => {
+    params.push(castValue(value, type, dialect));
+    return dateValue(positional ? "?" : `$${baseParams.length + params.length}`, type, dialect);
+  };
 
   for (const meta of filterMeta) {
     const value = filterValues[meta.id];
@@ -242,68 +364,66 @@ export function buildFilteredQuery(
     }
 
     // Build column reference with optional table qualifier
-    const col = meta.table ? `${meta.table}.${meta.column}` : meta.column;
+    const col = columnReference(meta, dialect);
 
     switch (meta.operator) {
       case "eq":
-        conditions.push(`${col} = $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} = ${bind(value as string, meta.type)}`);
         break;
 
       case "neq":
-        conditions.push(`${col} != $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} != ${bind(value as string, meta.type)}`);
         break;
 
       case "gt":
-        conditions.push(`${col} > $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} > ${bind(value as string, meta.type)}`);
         break;
 
       case "gte":
-        conditions.push(`${col} >= $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} >= ${bind(value as string, meta.type)}`);
         break;
 
       case "lt":
-        conditions.push(`${col} < $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} < ${bind(value as string, meta.type)}`);
         break;
 
       case "lte":
-        conditions.push(`${col} <= $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} <= ${bind(value as string, meta.type)}`);
         break;
 
       case "in": {
-        const values = Array.isArray(value) ? value : [value];
+        // Multi-select dropdowns send their values comma-joined
+        const values = Array.isArray(value) ? value : String(value).split(",");
         if (values.length > 0) {
-          const placeholders = values.map(() => `$${paramIndex++}`).join(", ");
+          const placeholders = values.map((v) => bind(v, meta.type)).join(", ");
           conditions.push(`${col} IN (${placeholders})`);
-          params.push(...values.map((v) => castValue(v, meta.type)));
         }
         break;
       }
 
       case "not_in": {
-        const values = Array.isArray(value) ? value : [value];
+        const values = Array.isArray(value) ? value : String(value).split(",");
         if (values.length > 0) {
-          const placeholders = values.map(() => `$${paramIndex++}`).join(", ");
+          const placeholders = values.map((v) => bind(v, meta.type)).join(", ");
           conditions.push(`${col} NOT IN (${placeholders})`);
-          params.push(...values.map((v) => castValue(v, meta.type)));
         }
         break;
       }
 
       case "like":
-        conditions.push(`${col} LIKE $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+        conditions.push(`${col} LIKE ${bind(value as string, meta.type)}`);
         break;
 
-      case "ilike":
-        conditions.push(`${col} ILIKE $${paramIndex++}`);
-        params.push(castValue(value as string, meta.type));
+      case "ilike": {
+        // MySQL and SQLite have no ILIKE
+        const placeholder = bind(value as string, meta.type);
+        conditions.push(
+          dialect === "mysql" || dialect === "sqlite"
+            ? `LOWER(${col}) LIKE LOWER(${placeholder})`
+            : `${col} ILIKE ${placeholder}`,
+        );
         break;
+      }
 
       case "between": {
         // Expects value as [from, to] tuple
@@ -312,11 +432,7 @@ export function buildFilteredQuery(
           const toVal = value[1];
           if (fromVal !== undefined && toVal !== undefined) {
             conditions.push(
-              `${col} BETWEEN $${paramIndex++} AND $${paramIndex++}`,
-            );
-            params.push(
-              castValue(fromVal, meta.type),
-              castValue(toVal, meta.type),
+              `${col} BETWEEN ${bind(fromVal, meta.type)} AND ${bind(toVal, meta.type)}`,
             );
           }
         }
@@ -329,36 +445,55 @@ export function buildFilteredQuery(
   if (conditions.length === 0) {
     return {
       sql: baseQuery,
-      params: [],
+      params: baseParams,
       whereClause: "",
     };
   }
 
-  // Build WHERE clause conditions
   const conditionsText = conditions.join(" AND ");
-  const whereClause = `WHERE ${conditionsText}`;
-
-  // Clean the base query (strip trailing semicolons)
-  const cleanBase = baseQuery.replace(/;\s*$/, "").trim();
-
-  // Find where to inject the WHERE clause
-  const injection = findWhereInjectionPoint(cleanBase);
+  const cleanBase = normalizeQuery(baseQuery, dialect);
+  const points = findInjectionPoints(cleanBase, dialect);
+  if (points.length === 0) {
+    return { sql: cleanBase, params: baseParams, whereClause: "" };
+  }
 
-  // Build the final SQL by injecting conditions at the right position
-  const sql =
-    cleanBase.substring(0, injection.position) +
-    injection.insertText +
-    conditionsText +
-    ' ' +
-    cleanBase.substring(injection.position);
+  // Inject from the end, so earlier offsets stay valid
+  let sql = cleanBase;
+  for (const point of [...points].sort((a, b) => b.position - a.position)) {
+    const text = point.whereStart !== undefined ? ` AND ${conditionsText}` : ` WHERE ${conditionsText}`;
+    sql = `${sql.slice(0, point.position)}${point.wrap ? ")" : ""}${text}${sql.slice(point.position)}`;
+    if (point.wrap && point.whereStart !== undefined) {
+      sql = `${sql.slice(0, point.whereStart)}(${sql.slice(point.whereStart)}`;
+    }
+  }
 
   return {
-    sql: sql.replace(/\s+/g, ' ').trim(),
-    params,
-    whereClause: injection.hasExistingWhere ? `AND ${conditionsText}` : whereClause,
+    sql,
+    params: positional ? positionalParams(cleanBase, baseParams, points, params, dialect) : [...baseParams, ...params],
+    whereClause: points[0]!.whereStart !== undefined ? `AND ${conditionsText}` : `WHERE ${conditionsText}`,
   };
 }
 
+/**
+ * Parameter values in the order of the `?` placeholders: the SQL's own, with
+ * the filter values at each injection point (once per UNION branch)
+ */
+function positionalParams(
+  sql: string,
+  baseParams: unknown[],
+  points: InjectionPoint[],
+  filterParams: unknown[],
+  dialect?: DatabaseType,
+): unknown[] {
+  const existing = significantTokens(sql, dialect)
+    .filter((token) => token.type === "parameter" && token.value === "?")
+    .map((token, i) => ({ offset: token.start, values: i < baseParams.length ? [baseParams[i]] : [] }));
+  const injected = points.map((point) => ({ offset: point.position, values: filterParams }));
+  return [...existing, ...injected]
+    .sort((a, b) => a.offset - b.offset)
+    .flatMap((entry) => entry.values);
+}
+
 /**
  * Create filter metadata for common date range filters
  */
@@ -493,6 +628,7 @@ function detectDateColumnFromSQL(sql: string): string | null {
  * - date_from, start_date → date column detected from SQL, or skip if not found
  * - date_to, end_date → date column detected from SQL, or skip if not found
  * - category, region, status, type → equality filter on that column
+ * - <column>_search → ILIKE on that column; <column>_min/_max → range on that column
  *
  * @param filterParams - Map of filter parameter names to values
  * @param sql - Optional SQL query to help detect column names
@@ -572,6 +708,15 @@ export function inferFilterMeta(
         type: "number",
       });
     }
+    // Search filters send a %pattern%
+    else if (key.endsWith("_search")) {
+      meta.push({
+        id: key,
+        column: key.replace(/_search$/, ""),
+        operator: "ilike",
+        type: "text",
+      });
+    }
     // Filters with _min suffix
     else if (key.endsWith("_min")) {
       const column = key.replace(/_min$/, "");
@@ -609,11 +754,13 @@ export function inferFilterMeta(
  *
  * @param baseQuery - The base SQL query
  * @param filterParams - Map of filter parameter names to values
+ * @param dialect - Target database, passed on to buildFilteredQuery
  * @returns The filtered query result, or null if no filters could be inferred
  */
 export function buildAutoFilteredQuery(
   baseQuery: string,
   filterParams: Record<string, string | string[]>,
+  dialect?: DatabaseType,
 ): FilteredQueryResult | null {
   // Pass the SQL to help detect date column names
   const meta = inferFilterMeta(filterParams, baseQuery);
@@ -623,5 +770,13 @@ export function buildAutoFilteredQuery(
     return null;
   }
 
-  return buildFilteredQuery(baseQuery, meta, filterParams);
+  return buildFilteredQuery(baseQuery, meta, filterParams, { dialect });
+}
+
+/**
+ * Lookup queries feed the filters themselves - dropdown options
+ * (distinct-*) and range bounds (bounds-*) - so filters never apply to them.
+ */
+export function isLookupQueryKey(key: string): boolean {
+  return key.startsWith("distinct-") || key.startsWith("bounds-");
 }
@@ -0,0 +1,133 @@
+/**
+ * Dropdown options loaded from a lookup query
+ *
+ * A dropdown filter with an optionsQueryKey gets its options from
+ * /api/filter-options instead of an options array baked into the tree. The
+ * lookup runs with the values of the filter's parent filters (choosing
+ * country = Germany narrows the city options), one page at a time, and the
+ * search box matches on the server, so large option sets never reach the
+ * browser whole. The same request reports which selected values the parent
+ * filters still allow, so the browser can drop the rest.
+ */
+
+import type { DatabaseType } from "./db-adapters/types";
+import { buildFilteredQuery, type FilterMeta } from "./filter-metadata";
+
+export const DEFAULT_OPTIONS_PAGE = 100;
+export const MAX_OPTIONS_PAGE = 500;
+
+/** Options columns are interpolated into SQL, so only plain identifiers pass */
+const PLAIN_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export interface OptionsQueryInput {
+  /** The lookup query, e.g. SELECT DISTINCT city FROM customers ORDER BY city */
+  sql: string;
+  /** How the parent filters apply to the lookup */
+  filterMeta?: FilterMeta[];
+  /** Values of the parent filters, as from getFilterParams */
+  parentParams?: Record<string, string>;
+  /** Column holding the option values in the lookup's results */
+  column: string;
+  search?: string;
+  offset?: number;
+  limit?: number;
+  dialect?: DatabaseType;
+}
+
+/** /api/filter-options response */
+export interface FilterOptionsPage {
+  options: string[];
+  hasMore: boolean;
+  /** The requested selected values the parent filters still allow */
+  selected?: string[];
+}
+
+export interface BuiltQuery {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * The column holding option values: the filter's column without a table
+ * qualifier ("customers.city" is "city"), or null if it isn't a plain
+ * identifier.
+ */
+export function optionsColumn(column: string): string | null {
+  const name = column.split(".").pop()!.trim();
+  return PLAIN_IDENTIFIER.test(name) ? name : null;
+}
+
+/** A whole number from request input, which may be anything */
+function wholeNumber(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.floor(value) : fallback;
+}
+
+/** Options per page, within 1..MAX_OPTIONS_PAGE */
+export function optionsPageSize(limit?: number): number {
+  return Math.min(Math.max(1, wholeNumber(limit, DEFAULT_OPTIONS_PAGE)), MAX_OPTIONS_PAGE);
+}
+
+/**
+ * The lookup with the parent filters applied, reduced to one `value`
+ * column so searching and ordering never depend on the lookup's other
+ * columns or their order.
+ */
+function parentFiltered(input: OptionsQueryInput): BuiltQuery {
+  const filtered =
+    input.filterMeta && input.filterMeta.length > 0 && input.parentParams
+      ? buildFilteredQuery(input.sql, input.filterMeta, input.parentParams, { dialect: input.dialect })
+      : { sql: input.sql.replace(/;\s*$/, "").trim(), params: [] };
+  return {
+    // Wrapped once more so the conditions on `value` can go in a WHERE
+    sql: `SELECT * FROM (SELECT ${input.column} AS value FROM (${filtered.sql}) AS lookup) AS filter_options`,
+    params: filtered.params,
+  };
+}
+
+/**
+ * One page of options: the lookup with the parent filters applied,
+ * narrowed to values containing `search`. Asks for one row more than the
+ * page so the caller can tell whether there are more.
+ */
+export function buildOptionsPageQuery(input: OptionsQueryInput): BuiltQuery {
+  const base = parentFiltered(input);
+  const limit = optionsPageSize(input.limit);
+  const offset = Math.max(0, wholeNumber(input.offset, 0));
+  const search = input.search?.trim();
+  const searched = search
+    ? buildFilteredQuery(
+        base.sql,
+        [{ id: "search", column: "value", operator: "ilike", type: "text" }],
+        { search: `%${search}%` },
+        { params: base.params, dialect: input.dialect },
+      )
+    : base;
+  return {
+    sql: `${searched.sql} ORDER BY value LIMIT ${limit + 1} OFFSET ${offset}`,
+    params: searched.params,
+  };
+}
+
+/**
+ * Which of the selected values the parent filters still allow.
+ */
+export function buildSelectedCheckQuery(input: OptionsQueryInput, selected: string[]): BuiltQuery {
+  const base = parentFiltered(input);
+  const checked = buildFilteredQuery(
+    base.sql,
+    [{ id: "selected", column: "value", operator: "in", type: "text" }],
+    { selected },
+    { params: base.params, dialect: input.dialect },
+  );
+  return { sql: checked.sql, params: checked.params };
+}
+
+/**
+ * Option values from the rows of an options query.
+ */
+export function optionValues(rows: Record<string, unknown>[]): string[] {
+  return rows
+    .map((row) => row.value)
+    .filter((value) => value !== null && value !== undefined)
+    .map((value) => String(value));
+}
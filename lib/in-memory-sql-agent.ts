@@ -1,6 +1,9 @@
 import { z } from "zod";
-import { getInMemoryDb, type TableSchema } from "./in-memory-db";
+import type { TableSchema } from "./in-memory-db";
 import { SQLToolResult } from "./types/sql-tools";
+import { applyResultBudget } from "./db-adapters/row-limit";
+import { queryFileWorkspace, type FileWorkspace, type DataScope } from "./dataset-store";
+import { validateQuery, formatValidationError } from "./query-validator";
 
 // Re-export with both names for backward compatibility
 export type InMemorySQLToolResult = SQLToolResult;
@@ -29,45 +32,38 @@ export function inMemorySchemaToPrompt(schemas: TableSchema[]): string {
  * These tools allow the LLM agent to execute SQL queries against uploaded file data.
  *
  * @param schema - Schema description for LLM context
+ * @param workspace - The session's uploaded tables and query engine
+ * @param dataScope - Whether the workspace holds a sample or the complete files
  */
-export function createInMemorySQLTools(schema: string) {
+export function createInMemorySQLTools(
+  schema: string,
+  workspace: FileWorkspace,
+  dataScope: DataScope = "sample",
+) {
+  const scopeNote =
+    dataScope === "sample"
+      ? "\nQueries run on a SAMPLE of each file. The finished dashboard re-runs them on the complete files.\n"
+      : "";
+
   return {
     execute_sql: {
       description: `Execute a SQL SELECT query against the in-memory data and return the results.
 If the query fails, the error message will be returned so you can fix and retry.
 Only SELECT queries are allowed.
+${scopeNote}
+The uploaded tables are loaded into SQLite, so standard SQLite SQL works:
+- JOINs across uploaded tables
+- GROUP BY on any number of columns, HAVING
+- OR, BETWEEN, IN, LIKE, CASE WHEN, subqueries and CTEs (WITH ...)
+- Window functions (ROW_NUMBER() OVER (PARTITION BY ... ORDER BY ...))
+- Date functions: date(), strftime('%Y-%m', col), julianday()
 
-SUPPORTED SQL syntax (use ONLY these):
-- SELECT columns FROM table
-- SELECT * FROM table
-- WHERE conditions: col = value, col > value, col < value, col >= value, col <= value
-- WHERE col LIKE '%pattern%'
-- WHERE col IN ('val1', 'val2')
-- Multiple WHERE conditions with AND only
-- ORDER BY column [ASC|DESC]
-- LIMIT n
-- GROUP BY column (single column only)
-- Aggregations: COUNT(*), SUM(col), AVG(col), MIN(col), MAX(col)
-
-NOT SUPPORTED (will cause errors - DO NOT USE):
-- JOINs of any kind (only single-table queries work)
-- Subqueries (SELECT inside SELECT)
-- OR conditions in WHERE clause (use IN instead)
-- HAVING clause
-- Window functions (OVER, PARTITION BY)
-- CASE/WHEN statements
-- BETWEEN keyword (use >= AND <= instead)
-- Complex expressions or functions
-
-Examples that WORK:
-- SELECT * FROM sales LIMIT 10
-- SELECT category, SUM(amount) as total FROM sales GROUP BY category
-- SELECT name FROM customers WHERE revenue > 1000 ORDER BY revenue DESC
+Dates are stored as ISO-8601 text and booleans as 1/0.
 
-Examples that FAIL:
-- SELECT * FROM sales JOIN customers ON sales.id = customers.id
-- SELECT * FROM sales WHERE status = 'A' OR status = 'B'
-- SELECT * FROM sales WHERE amount BETWEEN 100 AND 500`,
+Examples:
+- SELECT category, SUM(amount) AS total FROM sales GROUP BY category ORDER BY total DESC
+- SELECT strftime('%Y-%m', order_date) AS month, COUNT(*) AS orders FROM orders GROUP BY month
+- SELECT c.region, SUM(s.amount) AS revenue FROM sales s JOIN customers c ON s.customer_id = c.id GROUP BY c.region`,
       inputSchema: z.object({
         key: z
           .string()
@@ -85,10 +81,8 @@ Examples that FAIL:
         key: string;
         sql: string;
       }): Promise<InMemorySQLToolResult> => {
-        const db = getInMemoryDb();
-
         // Check if we have any data
-        if (db.isEmpty()) {
+        if (workspace.tables.isEmpty() && workspace.remote.size === 0) {
           return {
             key,
             success: false,
@@ -96,13 +90,29 @@ Examples that FAIL:
           };
         }
 
+        const validation = validateQuery(sql, "sqlite");
+        if (!validation.valid) {
+          return {
+            key,
+            success: false,
+            error: formatValidationError(sql, validation),
+            issues: validation.issues,
+          };
+        }
+
         try {
-          const result = db.query(sql);
+          const result = await queryFileWorkspace(workspace, sql);
+          const { rows, truncated } = applyResultBudget(result.rows);
           return {
             key,
             success: true,
-            rows: result.rows,
-            rowCount: result.rows.length,
+            rows,
+            rowCount: rows.length,
+            dataScope,
+            ...(truncated && {
+              truncated: true,
+              totalRowsEstimate: result.rows.length,
+            }),
           };
         } catch (err) {
           return {
@@ -0,0 +1,245 @@
+/**
+ * Insights computed from query results.
+ *
+ * An Insight bound to queryKeys is recomputed from those queries' current
+ * rows, so it follows filter changes. The statistics are deterministic and
+ * computed here (in the browser, next to the rows); the model only phrases
+ * them (/api/insights), and the facts are phrased plainly when no model
+ * answers.
+ */
+
+import { z } from "zod";
+
+export const insightTypes = ["default", "positive", "negative", "warning", "info"] as const;
+export type InsightType = (typeof insightTypes)[number];
+
+const labelValueSchema = z.object({ label: z.string(), value: z.number() });
+
+export const resultFactsSchema = z.object({
+  queryKey: z.string(),
+  rowCount: z.number(),
+  /** The numeric column described */
+  measure: z.string().optional(),
+  /** The column that labels rows (a date or a category) */
+  dimension: z.string().optional(),
+  total: z.number().optional(),
+  /** Latest period against the one before, for time series */
+  periodChange: z
+    .object({
+      current: labelValueSchema,
+      previous: labelValueSchema,
+      changePct: z.number().nullable(),
+    })
+    .optional(),
+  /** Direction over the whole series, from a least-squares fit */
+  trend: z
+    .object({
+      direction: z.enum(["up", "down", "flat"]),
+      first: labelValueSchema,
+      last: labelValueSchema,
+      periods: z.number(),
+    })
+    .optional(),
+  /** Largest categories and their share of the total */
+  topContributors: z.array(labelValueSchema.extend({ sharePct: z.number() })).optional(),
+  /** Values more than OUTLIER_Z standard deviations from the mean */
+  outliers: z.array(labelValueSchema.extend({ zScore: z.number() })).optional(),
+});
+
+export type ResultFacts = z.infer<typeof resultFactsSchema>;
+type LabelValue = z.infer<typeof labelValueSchema>;
+
+/** Standard deviations from the mean that make a value an outlier */
+const OUTLIER_Z = 2;
+/** Outliers need enough values for a spread to mean something */
+const MIN_ROWS_FOR_OUTLIERS = 6;
+/** A fitted change of less than this share of the mean counts as flat */
+const FLAT_TREND = 0.05;
+const TOP_CONTRIBUTORS = 3;
+
+/** Numeric columns named like this hold periods (years, month numbers) */
+const PERIOD_NAME = /(^|_)(year|quarter|month|week|day|hour)$/i;
+const ISO_DATE = /^\d{4}-\d{2}(-\d{2})?([T ].*)?$/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value);
+  return null;
+}
+
+function isNumericColumn(rows: Record<string, unknown>[], column: string): boolean {
+  const values = rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined);
+  return values.length > 0 && values.every((value) => toNumber(value) !== null);
+}
+
+function isDateColumn(rows: Record<string, unknown>[], column: string): boolean {
+  const values = rows.map((row) => row[column]).filter((value) => value !== null && value !== undefined);
+  if (values.length === 0) return false;
+  if (values.every((value) => value instanceof Date || (typeof value === "string" && ISO_DATE.test(value)))) {
+    return true;
+  }
+  // Years and month numbers
+  return PERIOD_NAME.test(column) && values.every((value) => toNumber(value) !== null);
+}
+
+function sortValue(value: unknown): number | string {
+  if (value instanceof Date) return value.getTime();
+  return toNumber(value) ?? String(value);
+}
+
+function labelOf(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value ?? "(empty)");
+}
+
+/**
+ * Statistics for one query's rows: the first numeric column, described
+ * along the date column (change and trend) or the category column (top
+ * contributors), plus outliers either way.
+ */
+export function describeResult(queryKey: string, rows: Record<string, unknown>[]): ResultFacts {
+  const facts: ResultFacts = { queryKey, rowCount: rows.length };
+  if (rows.length === 0) return facts;
+
+  const columns = Object.keys(rows[0]!);
+  const dateColumn = columns.find((column) => isDateColumn(rows, column));
+  const measure = columns.find((column) => column !== dateColumn && isNumericColumn(rows, column));
+  if (!measure) return facts;
+  const dimension = dateColumn ?? columns.find((column) => column !== measure && !isNumericColumn(rows, column));
+
+  facts.measure = measure;
+  const points: LabelValue[] = rows.map((row, i) => ({
+    label: dimension ? labelOf(row[dimension]) : String(i + 1),
+    value: toNumber(row[measure]) ?? 0,
+  }));
+  const total = points.reduce((sum, point) => sum + point.value, 0);
+  facts.total = round(total);
+  if (!dimension) return facts;
+  facts.dimension = dimension;
+
+  if (dateColumn) {
+    const order = rows.map((row, i) => ({ key: sortValue(row[dateColumn]), point: points[i]! }));
+    order.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    const series = order.map((entry) => entry.point);
+    if (series.length >= 2) {
+      const current = series[series.length - 1]!;
+      const previous = series[series.length - 2]!;
+      facts.periodChange = {
+        current: { label: current.label, value: round(current.value) },
+        previous: { label: previous.label, value: round(previous.value) },
+        changePct: previous.value === 0 ? null : round(((current.value - previous.value) / Math.abs(previous.value)) * 100),
+      };
+      facts.trend = {
+        direction: trendDirection(series.map((point) => point.value)),
+        first: { label: series[0]!.label, value: round(series[0]!.value) },
+        last: { label: current.label, value: round(current.value) },
+        periods: series.length,
+      };
+    }
+  } else if (total > 0 && points.every((point) => point.value >= 0)) {
+    facts.topContributors = [...points]
+      .sort((a, b) => b.value - a.value)
+      .slice(0, TOP_CONTRIBUTORS)
+      .map((point) => ({ label: point.label, value: round(point.value), sharePct: round((point.value / total) * 100) }));
+  }
+
+  if (points.length >= MIN_ROWS_FOR_OUTLIERS) {
+    const mean = total / points.length;
+    const std = Math.sqrt(points.reduce((sum, point) => sum + (point.value - mean) ** 2, 0) / points.length);
+    if (std > 0) {
+      const outliers = points
+        .map((point) => ({ ...point, zScore: (point.value - mean) / std }))
+        .filter((point) => Math.abs(point.zScore) >= OUTLIER_Z)
+        .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))
+        .slice(0, TOP_CONTRIBUTORS)
+        .map((point) => ({ label: point.label, value: round(point.value), zScore: round(point.zScore) }));
+      if (outliers.length > 0) facts.outliers = outliers;
+    }
+  }
+  return facts;
+}
+
+/**
+ * Up, down or flat: the least-squares slope over the series, as a share of
+ * its mean.
+ */
+function trendDirection(values: number[]): "up" | "down" | "flat" {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, x) => {
+    numerator += (x - meanX) * (value - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  const slope = denominator === 0 ? 0 : numerator / denominator;
+  const relative = meanY === 0 ? slope : (slope * (n - 1)) / Math.abs(meanY);
+  if (Math.abs(relative) < FLAT_TREND) return "flat";
+  return relative > 0 ? "up" : "down";
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+/**
+ * The facts as plain sentences, used when no model phrases them.
+ */
+export function factsToText(facts: ResultFacts[]): string {
+  const sentences: string[] = [];
+  for (const result of facts) {
+    if (!result.measure) continue;
+    const { periodChange, trend, topContributors, outliers } = result;
+    if (periodChange && periodChange.changePct !== null) {
+      const direction = periodChange.changePct >= 0 ? "up" : "down";
+      sentences.push(
+        `${result.measure} is ${direction} ${formatNumber(Math.abs(periodChange.changePct))}% in ${periodChange.current.label} (${formatNumber(periodChange.current.value)} vs ${formatNumber(periodChange.previous.value)} in ${periodChange.previous.label}).`,
+      );
+    }
+    if (trend && trend.periods > 2) {
+      sentences.push(
+        trend.direction === "flat"
+          ? `${result.measure} has been flat over ${trend.periods} periods.`
+          : `${result.measure} is trending ${trend.direction} over ${trend.periods} periods, from ${formatNumber(trend.first.value)} to ${formatNumber(trend.last.value)}.`,
+      );
+    }
+    if (topContributors && topContributors.length > 0) {
+      const [top] = topContributors;
+      sentences.push(`${top!.label} contributes ${formatNumber(top!.sharePct)}% of ${result.measure}.`);
+    }
+    if (outliers && outliers.length > 0) {
+      const [outlier] = outliers;
+      sentences.push(`${outlier!.label} is unusually ${outlier!.zScore > 0 ? "high" : "low"} at ${formatNumber(outlier!.value)}.`);
+    }
+  }
+  return sentences.slice(0, 3).join(" ");
+}
+
+/**
+ * positive/negative for a change in the latest period, info otherwise.
+ */
+export function insightTypeFor(facts: ResultFacts[]): InsightType {
+  const change = facts.find((result) => result.periodChange?.changePct != null)?.periodChange?.changePct;
+  if (change == null || Math.abs(change) < 1) return "info";
+  return change > 0 ? "positive" : "negative";
+}
+
+/**
+ * Prompt asking the model to phrase the facts. `hint` is what the agent
+ * wrote when it built the dashboard, for the angle to take.
+ */
+export function buildInsightPrompt(facts: ResultFacts[], hint?: string): string {
+  return `Write a dashboard insight from these statistics, computed from the current query results:
+
+${JSON.stringify(facts, null, 2)}
+${hint ? `\nThe insight was originally about: "${hint}" - keep that angle, but only state what the statistics show.\n` : ""}
+Rules:
+- 1-2 short sentences, at most 40 words
+- Use only numbers that appear in the statistics; round them sensibly
+- Lead with the most important change or contributor
+- Pick the type: "positive" for a good trend, "negative" for a concerning one, "warning" for something to watch, "info" for neutral facts
+- Whether a rise is good depends on the measure: more revenue is positive, more churn is negative`;
+}
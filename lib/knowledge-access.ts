@@ -0,0 +1,70 @@
+/**
+ * Access to a database's shared knowledge
+ *
+ * Learnings and annotations end up in the prompts of everyone querying
+ * their database, so the knowledge routes only serve callers that can
+ * connect to it: with a connection profile stored in their session, the
+ * server's default or demo database, or an inline config that actually
+ * connects. Knowing a database's host and name isn't enough.
+ */
+
+import { testConnection, type DBConfig } from "./db";
+import { apiCache } from "./api-cache";
+import { resolveDatabaseConnection } from "./credential-vault";
+import {
+  databaseKey,
+  type KnowledgeEntry,
+  type KnowledgeResult,
+  type KnowledgeStore,
+} from "./knowledge-store";
+
+const VERIFIED_TTL = 10 * 60 * 1000;
+
+/**
+ * The knowledge key of the request's database, once the caller has shown
+ * they can connect to it.
+ */
+export async function resolveKnowledgeDatabase(
+  req: Request,
+  body: { connectionId?: string; dbConfig?: DBConfig },
+): Promise<KnowledgeResult<string>> {
+  const connection = resolveDatabaseConnection(req, body);
+  if (!connection.success) {
+    return { success: false, error: connection.error, status: connection.status };
+  }
+
+  const config = connection.config;
+  if (!body.connectionId && config && config.type !== "demo") {
+    try {
+      // Failed attempts aren't cached, so a wrong password is retried
+      await apiCache.getOrCompute(
+        apiCache.generateKey("knowledge-access", { connection: connection.cacheKey }),
+        async () => {
+          await testConnection(config);
+          return true;
+        },
+        VERIFIED_TTL,
+      );
+    } catch {
+      return { success: false, error: "Could not connect to this database", status: 403 };
+    }
+  }
+
+  return { success: true, value: databaseKey(config) };
+}
+
+/**
+ * A knowledge entry of the request's database. Entries of other databases
+ * are reported as missing.
+ */
+export async function getKnowledgeEntry(
+  store: KnowledgeStore,
+  id: string,
+  key: string,
+): Promise<KnowledgeResult<KnowledgeEntry>> {
+  const entry = await store.get(id);
+  if (!entry || entry.databaseKey !== key) {
+    return { success: false, error: "Entry not found", status: 404 };
+  }
+  return { success: true, value: entry };
+}
@@ -0,0 +1,79 @@
+/**
+ * Browser side of /api/knowledge: the shared SQL learnings and annotations
+ * stored for the connected database.
+ */
+
+import type { DBConfig } from "./db";
+import type {
+  AnnotationInput,
+  KnowledgeEntry,
+  LearningInput,
+  StoredAnnotation,
+  StoredLearning,
+} from "./knowledge-store";
+
+/** The request fields identifying a database (as sent to the query routes) */
+export type KnowledgeConnection = { connectionId: string } | { dbConfig: DBConfig };
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json" },
+  });
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(data.error || `HTTP error: ${response.status}`);
+  }
+  return (await response.json()) as T;
+}
+
+export function fetchKnowledge(
+  connection: KnowledgeConnection,
+): Promise<{ databaseKey: string; learnings: StoredLearning[]; annotations: StoredAnnotation[] }> {
+  return request("/api/knowledge", { method: "POST", body: JSON.stringify(connection) });
+}
+
+export async function createLearning(
+  connection: KnowledgeConnection,
+  learning: LearningInput,
+): Promise<StoredLearning> {
+  const data = await request<{ learning: StoredLearning }>("/api/knowledge/learnings", {
+    method: "POST",
+    body: JSON.stringify({ ...connection, learning }),
+  });
+  return data.learning;
+}
+
+export async function saveAnnotation(
+  connection: KnowledgeConnection,
+  annotation: AnnotationInput,
+): Promise<StoredAnnotation> {
+  const data = await request<{ annotation: StoredAnnotation }>("/api/knowledge/annotations", {
+    method: "POST",
+    body: JSON.stringify({ ...connection, annotation }),
+  });
+  return data.annotation;
+}
+
+/**
+ * Edit an entry. With `expectedVersion`, fails if someone else changed it.
+ */
+export async function updateKnowledgeEntry(
+  connection: KnowledgeConnection,
+  id: string,
+  changes: Record<string, unknown>,
+  expectedVersion?: number,
+): Promise<KnowledgeEntry> {
+  const data = await request<{ entry: KnowledgeEntry }>(`/api/knowledge/${encodeURIComponent(id)}`, {
+    method: "PUT",
+    body: JSON.stringify({ ...connection, changes, expectedVersion }),
+  });
+  return data.entry;
+}
+
+export async function deleteKnowledgeEntry(connection: KnowledgeConnection, id: string): Promise<void> {
+  await request(`/api/knowledge/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+    body: JSON.stringify(connection),
+  });
+}
@@ -0,0 +1,607 @@
+/**
+ * Shared SQL learnings and schema annotations (server-only).
+ *
+ * What the team knows about a database - fixes for SQL errors, and what
+ * tables and columns mean - is stored here per database, so everyone
+ * connecting to it shares it and the agent gets it in its system prompt.
+ * Entries are versioned: every change is kept as a revision, and updates
+ * can pass the version they were based on to detect concurrent edits.
+ * Dashboards the agent built successfully are kept too, as few-shot
+ * examples for similar requests (see dashboard-examples.ts).
+ *
+ * Stored in a SQLite file (KNOWLEDGE_DB_PATH, default .data/knowledge.db).
+ */
+
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import path from "path";
+import type { UITree } from "@json-render/core";
+import type { DBConfig } from "./db";
+import type { FilterMeta } from "./filter-metadata";
+import type { ColumnAnnotation, TableAnnotation } from "./column-annotations-context";
+import { hashConfig } from "./credential-vault";
+import type { SQLToolResult } from "./types/sql-tools";
+
+export interface LearningInput {
+  title: string;
+  learning: string;
+  /** The error message the learning fixes */
+  errorPattern?: string;
+  /** SQL that worked */
+  fixPattern?: string;
+  table?: string;
+  column?: string;
+}
+
+export type AnnotationInput =
+  | ({ kind: "table" } & Omit<TableAnnotation, "id" | "createdAt" | "updatedAt">)
+  | ({ kind: "column" } & Omit<ColumnAnnotation, "id" | "createdAt" | "updatedAt">);
+
+interface EntryMeta {
+  id: string;
+  databaseKey: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type StoredLearning = LearningInput &
+  EntryMeta & {
+    kind: "learning";
+    /** "auto" when captured from a repaired query */
+    source: "user" | "auto";
+    usageCount: number;
+  };
+
+export type StoredAnnotation = AnnotationInput & EntryMeta;
+
+export type KnowledgeEntry = StoredLearning | StoredAnnotation;
+
+export interface KnowledgeRevision {
+  version: number;
+  /** The entry as of this version; null once deleted */
+  entry: KnowledgeEntry | null;
+  changedAt: string;
+}
+
+/**
+ * A dashboard the agent built whose queries all ran.
+ */
+export interface DashboardExample {
+  prompt: string;
+  queries: Array<{ key: string; sql: string; filterMeta?: FilterMeta[] }>;
+  tree: UITree;
+  createdAt: string;
+}
+
+export type KnowledgeResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: string; status: number };
+
+interface KnowledgeRow {
+  id: string;
+  database_key: string;
+  kind: string;
+  data: string;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Learnings beyond this many per database are dropped, least used first */
+const MAX_LEARNINGS = 200;
+
+/** Learnings included in the agent's prompt */
+const PROMPT_LEARNINGS = 15;
+
+/** Dashboard examples kept per database, newest first */
+const MAX_EXAMPLES = 100;
+
+/**
+ * Identify a database across connection profiles and users: the same
+ * server and database share knowledge whatever the credentials.
+ */
+export function databaseKey(config: DBConfig | undefined): string {
+  if (!config) return "default";
+  const { type, host, port, database, filename } = config;
+  return hashConfig({ type: type ?? "postgresql", host, port, database, filename });
+}
+
+// Dynamic import to handle optional dependency
+let BetterSqlite3: typeof import("better-sqlite3") | null = null;
+
+async function getBetterSqlite3(): Promise<typeof import("better-sqlite3")> {
+  if (!BetterSqlite3) {
+    try {
+      BetterSqlite3 = (await import("better-sqlite3")).default;
+    } catch {
+      throw new Error(
+        "The knowledge store requires the better-sqlite3 package. Install it with: pnpm add better-sqlite3",
+      );
+    }
+  }
+  return BetterSqlite3;
+}
+
+function validateLearning(input: Partial<LearningInput>): string | null {
+  if (typeof input.title !== "string" || !input.title.trim()) return "title is required";
+  if (typeof input.learning !== "string" || !input.learning.trim()) return "learning is required";
+  return null;
+}
+
+function validateAnnotation(input: Partial<AnnotationInput>): string | null {
+  if (input.kind !== "table" && input.kind !== "column") return 'kind must be "table" or "column"';
+  if (typeof input.tableName !== "string" || !input.tableName.trim()) return "tableName is required";
+  if (input.kind === "column" && (typeof input.columnName !== "string" || !input.columnName.trim())) {
+    return "columnName is required for column annotations";
+  }
+  return null;
+}
+
+/** Fields that are stored in an entry's JSON document */
+function contentOf(entry: KnowledgeEntry): Record<string, unknown> {
+  const { id: _id, databaseKey: _key, version: _version, createdAt: _created, updatedAt: _updated, ...content } = entry;
+  return content;
+}
+
+function sameAnnotationTarget(a: AnnotationInput, b: AnnotationInput): boolean {
+  return (
+    a.kind === b.kind &&
+    a.tableName.toLowerCase() === b.tableName.toLowerCase() &&
+    (a.kind === "table" || a.columnName.toLowerCase() === (b as typeof a).columnName.toLowerCase())
+  );
+}
+
+export interface KnowledgeStoreOptions {
+  /** SQLite file, or ":memory:" (default: KNOWLEDGE_DB_PATH or .data/knowledge.db) */
+  filePath?: string;
+}
+
+export class KnowledgeStore {
+  private readonly filePath: string;
+  private db: import("better-sqlite3").Database | null = null;
+
+  constructor(options: KnowledgeStoreOptions = {}) {
+    this.filePath =
+      options.filePath ??
+      process.env.KNOWLEDGE_DB_PATH ??
+      path.join(process.cwd(), ".data", "knowledge.db");
+  }
+
+  private async getDb(): Promise<import("better-sqlite3").Database> {
+    if (!this.db) {
+      const Database = await getBetterSqlite3();
+      if (this.filePath !== ":memory:") {
+        mkdirSync(path.dirname(this.filePath), { recursive: true });
+      }
+      const db = new Database(this.filePath);
+      db.pragma("journal_mode = WAL");
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS knowledge (
+          id TEXT PRIMARY KEY,
+          database_key TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          data TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          deleted_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS knowledge_database ON knowledge (database_key, deleted_at);
+        CREATE TABLE IF NOT EXISTS knowledge_revisions (
+          id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          data TEXT,
+          changed_at TEXT NOT NULL,
+          PRIMARY KEY (id, version)
+        );
+        CREATE TABLE IF NOT EXISTS dashboard_examples (
+          database_key TEXT NOT NULL,
+          prompt_key TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (database_key, prompt_key)
+        );
+      `);
+      this.db = db;
+    }
+    return this.db;
+  }
+
+  private static fromRow(row: KnowledgeRow): KnowledgeEntry {
+    return {
+      ...(JSON.parse(row.data) as object),
+      id: row.id,
+      databaseKey: row.database_key,
+      version: row.version,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    } as KnowledgeEntry;
+  }
+
+  /**
+   * Write an entry (new or changed) and its revision.
+   */
+  private async write(entry: KnowledgeEntry, isNew: boolean): Promise<KnowledgeEntry> {
+    const db = await this.getDb();
+    const data = JSON.stringify(contentOf(entry));
+    db.transaction(() => {
+      if (isNew) {
+        db.prepare(
+          `INSERT INTO knowledge (id, database_key, kind, data, version, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        ).run(entry.id, entry.databaseKey, entry.kind, data, entry.version, entry.createdAt, entry.updatedAt);
+      } else {
+        db.prepare(`UPDATE knowledge SET data = ?, version = ?, updated_at = ? WHERE id = ?`).run(
+          data,
+          entry.version,
+          entry.updatedAt,
+          entry.id,
+        );
+      }
+      db.prepare(`INSERT INTO knowledge_revisions (id, version, data, changed_at) VALUES (?, ?, ?, ?)`).run(
+        entry.id,
+        entry.version,
+        data,
+        entry.updatedAt,
+      );
+    })();
+    return entry;
+  }
+
+  async list(databaseKey: string): Promise<{ learnings: StoredLearning[]; annotations: StoredAnnotation[] }> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare(`SELECT * FROM knowledge WHERE database_key = ? AND deleted_at IS NULL ORDER BY created_at`)
+      .all(databaseKey) as KnowledgeRow[];
+    const entries = rows.map(KnowledgeStore.fromRow);
+    return {
+      learnings: entries
+        .filter((entry): entry is StoredLearning => entry.kind === "learning")
+        .sort((a, b) => b.usageCount - a.usageCount || b.updatedAt.localeCompare(a.updatedAt)),
+      annotations: entries.filter((entry): entry is StoredAnnotation => entry.kind !== "learning"),
+    };
+  }
+
+  async get(id: string): Promise<KnowledgeEntry | null> {
+    const db = await this.getDb();
+    const row = db
+      .prepare(`SELECT * FROM knowledge WHERE id = ? AND deleted_at IS NULL`)
+      .get(id) as KnowledgeRow | undefined;
+    return row ? KnowledgeStore.fromRow(row) : null;
+  }
+
+  async history(id: string): Promise<KnowledgeRevision[]> {
+    const db = await this.getDb();
+    const row = db.prepare(`SELECT * FROM knowledge WHERE id = ?`).get(id) as KnowledgeRow | undefined;
+    if (!row) return [];
+    const revisions = db
+      .prepare(`SELECT version, data, changed_at FROM knowledge_revisions WHERE id = ? ORDER BY version`)
+      .all(id) as Array<{ version: number; data: string | null; changed_at: string }>;
+    return revisions.map((revision) => ({
+      version: revision.version,
+      entry: revision.data
+        ? KnowledgeStore.fromRow({ ...row, data: revision.data, version: revision.version, updated_at: revision.changed_at })
+        : null,
+      changedAt: revision.changed_at,
+    }));
+  }
+
+  /**
+   * Save a learning. A learning for the same error (or with the same title)
+   * is updated instead, and its usage count goes up.
+   */
+  async addLearning(
+    databaseKey: string,
+    input: LearningInput,
+    source: StoredLearning["source"] = "user",
+    now: number = Date.now(),
+  ): Promise<KnowledgeResult<StoredLearning>> {
+    const invalid = validateLearning(input);
+    if (invalid) return { success: false, error: invalid, status: 400 };
+
+    const timestamp = new Date(now).toISOString();
+    const { learnings } = await this.list(databaseKey);
+    const existing = learnings.find(
+      (learning) =>
+        learning.title === input.title ||
+        (!!input.errorPattern && learning.errorPattern === input.errorPattern),
+    );
+    if (existing) {
+      const updated: StoredLearning = {
+        ...existing,
+        ...input,
+        // A user's wording isn't replaced by an automatic capture
+        ...(source === "auto" && existing.source === "user"
+          ? { title: existing.title, learning: existing.learning }
+          : {}),
+        usageCount: existing.usageCount + 1,
+        version: existing.version + 1,
+        updatedAt: timestamp,
+      };
+      return { success: true, value: (await this.write(updated, false)) as StoredLearning };
+    }
+
+    const learning: StoredLearning = {
+      ...input,
+      kind: "learning",
+      source,
+      usageCount: 0,
+      id: randomUUID(),
+      databaseKey,
+      version: 1,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    await this.write(learning, true);
+    await this.pruneLearnings(databaseKey, learnings.length + 1, now);
+    return { success: true, value: learning };
+  }
+
+  private async pruneLearnings(databaseKey: string, count: number, now: number): Promise<void> {
+    if (count <= MAX_LEARNINGS) return;
+    const { learnings } = await this.list(databaseKey);
+    for (const learning of learnings.slice(MAX_LEARNINGS)) {
+      await this.remove(learning.id, undefined, now);
+    }
+  }
+
+  /**
+   * Save an annotation. There is one per table and per column: annotating
+   * the same table or column again updates it.
+   */
+  async setAnnotation(
+    databaseKey: string,
+    input: AnnotationInput,
+    now: number = Date.now(),
+  ): Promise<KnowledgeResult<StoredAnnotation>> {
+    const invalid = validateAnnotation(input);
+    if (invalid) return { success: false, error: invalid, status: 400 };
+
+    const timestamp = new Date(now).toISOString();
+    const { annotations } = await this.list(databaseKey);
+    const existing = annotations.find((annotation) => sameAnnotationTarget(annotation, input));
+    if (existing) {
+      const updated = {
+        ...existing,
+        ...input,
+        version: existing.version + 1,
+        updatedAt: timestamp,
+      } as StoredAnnotation;
+      return { success: true, value: (await this.write(updated, false)) as StoredAnnotation };
+    }
+
+    const annotation = {
+      ...input,
+      id: randomUUID(),
+      databaseKey,
+      version: 1,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    } as StoredAnnotation;
+    await this.write(annotation, true);
+    return { success: true, value: annotation };
+  }
+
+  /**
+   * Change an entry. With `expectedVersion`, the update is refused (409)
+   * when someone else changed the entry since that version.
+   */
+  async update(
+    id: string,
+    changes: Record<string, unknown>,
+    expectedVersion?: number,
+    now: number = Date.now(),
+  ): Promise<KnowledgeResult<KnowledgeEntry>> {
+    const current = await this.get(id);
+    if (!current) return { success: false, error: `Entry ${id} not found`, status: 404 };
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      return {
+        success: false,
+        error: `Entry ${id} was changed by someone else (version ${current.version}, expected ${expectedVersion})`,
+        status: 409,
+      };
+    }
+
+    // Identity and bookkeeping fields can't be changed
+    const {
+      id: _id,
+      databaseKey: _key,
+      kind: _kind,
+      version: _version,
+      createdAt: _created,
+      updatedAt: _updated,
+      source: _source,
+      usageCount: _usage,
+      ...allowed
+    } = changes;
+    const updated = {
+      ...current,
+      ...allowed,
+      version: current.version + 1,
+      updatedAt: new Date(now).toISOString(),
+    } as KnowledgeEntry;
+
+    const invalid = updated.kind === "learning" ? validateLearning(updated) : validateAnnotation(updated);
+    if (invalid) return { success: false, error: invalid, status: 400 };
+
+    return { success: true, value: await this.write(updated, false) };
+  }
+
+  /**
+   * Delete an entry. Its revisions are kept.
+   */
+  async remove(id: string, expectedVersion?: number, now: number = Date.now()): Promise<KnowledgeResult<null>> {
+    const current = await this.get(id);
+    if (!current) return { success: false, error: `Entry ${id} not found`, status: 404 };
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      return {
+        success: false,
+        error: `Entry ${id} was changed by someone else (version ${current.version}, expected ${expectedVersion})`,
+        status: 409,
+      };
+    }
+
+    const db = await this.getDb();
+    const timestamp = new Date(now).toISOString();
+    const version = current.version + 1;
+    db.transaction(() => {
+      db.prepare(`UPDATE knowledge SET version = ?, updated_at = ?, deleted_at = ? WHERE id = ?`).run(
+        version,
+        timestamp,
+        timestamp,
+        id,
+      );
+      db.prepare(`INSERT INTO knowledge_revisions (id, version, data, changed_at) VALUES (?, ?, NULL, ?)`).run(
+        id,
+        version,
+        timestamp,
+      );
+    })();
+    return { success: true, value: null };
+  }
+
+  /**
+   * Keep a dashboard as an example for the database. A newer dashboard for
+   * the same request replaces the older one.
+   */
+  async saveExample(databaseKey: string, example: Omit<DashboardExample, "createdAt">, now: number = Date.now()): Promise<void> {
+    const db = await this.getDb();
+    const stored: DashboardExample = { ...example, createdAt: new Date(now).toISOString() };
+    db.transaction(() => {
+      db.prepare(
+        `INSERT OR REPLACE INTO dashboard_examples (database_key, prompt_key, data, created_at) VALUES (?, ?, ?, ?)`,
+      ).run(databaseKey, example.prompt.trim().toLowerCase(), JSON.stringify(stored), stored.createdAt);
+      db.prepare(
+        `DELETE FROM dashboard_examples WHERE database_key = ? AND prompt_key NOT IN (
+           SELECT prompt_key FROM dashboard_examples WHERE database_key = ? ORDER BY created_at DESC LIMIT ?
+         )`,
+      ).run(databaseKey, databaseKey, MAX_EXAMPLES);
+    })();
+  }
+
+  /**
+   * The database's dashboard examples, newest first.
+   */
+  async listExamples(databaseKey: string): Promise<DashboardExample[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare(`SELECT data FROM dashboard_examples WHERE database_key = ? ORDER BY created_at DESC`)
+      .all(databaseKey) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as DashboardExample);
+  }
+
+  /**
+   * The database's learnings and annotations for the agent's system prompt.
+   * Annotations can be left out when the agent reads them per table
+   * (schema retrieval).
+   */
+  async promptSection(databaseKey: string, options: { annotations?: boolean } = {}): Promise<string> {
+    const { learnings, annotations } = await this.list(databaseKey);
+    const sections: string[] = [];
+
+    if (learnings.length > 0) {
+      const lines = learnings.slice(0, PROMPT_LEARNINGS).map((learning) => {
+        const fix = learning.fixPattern ? `\n  Working SQL: ${learning.fixPattern.replace(/\s+/g, " ").trim()}` : "";
+        return `- ${learning.title}: ${learning.learning}${fix}`;
+      });
+      sections.push(`LEARNINGS FROM PAST QUERIES ON THIS DATABASE (avoid repeating these mistakes):\n${lines.join("\n")}`);
+    }
+
+    if (options.annotations !== false && annotations.length > 0) {
+      const tableLines = annotations
+        .filter((annotation) => annotation.kind === "table")
+        .map((t) => {
+          const parts = [`- ${t.tableName}`];
+          if (t.displayName) parts.push(` (${t.displayName})`);
+          if (t.description) parts.push(`: ${t.description}`);
+          if (t.businessContext) parts.push(`\n  Business rule: ${t.businessContext}`);
+          return parts.join("");
+        });
+      const columnLines = annotations
+        .filter((annotation) => annotation.kind === "column")
+        .map((c) => {
+          const parts = [`- ${c.tableName}.${c.columnName}`];
+          if (c.displayName) parts.push(` ("${c.displayName}")`);
+          if (c.description) parts.push(`: ${c.description}`);
+          if (c.businessRule) parts.push(` [Rule: ${c.businessRule}]`);
+          if (c.format) parts.push(` [Format: ${c.format}]`);
+          return parts.join("");
+        });
+      const lines = [...tableLines, ...columnLines];
+      sections.push(`BUSINESS CONTEXT (team annotations):\n${lines.join("\n")}`);
+    }
+
+    return sections.join("\n\n");
+  }
+}
+
+// Singleton instance for the server
+let globalStore: KnowledgeStore | null = null;
+
+export function getKnowledgeStore(): KnowledgeStore {
+  if (!globalStore) {
+    globalStore = new KnowledgeStore();
+  }
+  return globalStore;
+}
+
+/**
+ * Turn a failed query and the retry that fixed it into a learning.
+ */
+export function learningFromRepair(repair: {
+  key: string;
+  error: string;
+  failedSql: string;
+  fixedSql: string;
+}): LearningInput {
+  const error = repair.error.split("\n")[0]!.trim().slice(0, 300);
+  const table = /\b(?:from|join)\s+([\w."]+)/i.exec(repair.fixedSql)?.[1]?.replace(/"/g, "");
+  const column = /column\s+"?([\w.]+)"?/i.exec(error)?.[1];
+  return {
+    title: `Fix for "${error.slice(0, 80)}"`,
+    learning: `Query "${repair.key}" failed with: ${error}. The corrected query worked.`,
+    errorPattern: error,
+    fixPattern: repair.fixedSql,
+    ...(table && { table }),
+    ...(column && { column }),
+  };
+}
+
+/**
+ * Capture a learning whenever execute_sql fails for a key and a later
+ * retry with the same key succeeds.
+ */
+export function learnFromRetries<
+  T extends {
+    execute_sql: {
+      execute: (input: { key: string; sql: string }, ...rest: never[]) => Promise<SQLToolResult>;
+    };
+  },
+>(tools: T, save: (learning: LearningInput) => Promise<unknown>): T {
+  const execute = tools.execute_sql.execute;
+  const failures = new Map<string, { sql: string; error: string }>();
+  return {
+    ...tools,
+    execute_sql: {
+      ...tools.execute_sql,
+      execute: async (...args: Parameters<typeof execute>) => {
+        const result = await execute(...args);
+        const { key, sql } = args[0];
+        const failure = failures.get(key);
+        if (!result.success) {
+          // Keep the first error - later attempts may fail differently on the way to the fix
+          if (!failure && result.error) failures.set(key, { sql, error: result.error });
+        } else if (failure) {
+          failures.delete(key);
+          try {
+            await save(learningFromRepair({ key, error: failure.error, failedSql: failure.sql, fixedSql: sql }));
+          } catch (err) {
+            console.error("Failed to save SQL learning:", err);
+          }
+        }
+        return result;
+      },
+    },
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Recorded model responses, for deterministic tests without an LLM.
+ *
+ * A replay model (`{ provider: "replay", model: "<fixture>" }` in
+ * CustomModelSettings) answers each model call from a fixture file in
+ * LLM_REPLAY_DIR (default tests/fixtures/llm-replay). With
+ * LLM_REPLAY_RECORD set to a `provider:model` spec, calls go to that model
+ * instead and its responses are written to the fixture.
+ *
+ * Only the model is replayed: tool calls are executed for real, so the
+ * SQL, validation and rendering paths run as they do in production.
+ * Calls are matched by the latest user message and the step within it, so
+ * one fixture can hold a whole flow (generate, then refine).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { simulateReadableStream, wrapLanguageModel, type LanguageModel } from "ai";
+
+type ModelV3 = Extract<LanguageModel, { specificationVersion: "v3" }>;
+type CallOptions = Parameters<ModelV3["doStream"]>[0];
+type GenerateResult = Awaited<ReturnType<ModelV3["doGenerate"]>>;
+type StreamPart =
+  Awaited<ReturnType<ModelV3["doStream"]>>["stream"] extends ReadableStream<infer P> ? P : never;
+
+/** Models whose responses can be recorded (the current provider spec) */
+export type RecordableModel = ModelV3;
+
+export interface ReplayCall {
+  /** Text of the latest user message */
+  request: string;
+  /** Model calls made for that message before this one (agent steps) */
+  step: number;
+  /** streamText: the model's stream */
+  stream?: StreamPart[];
+  /** generateText: the model's result */
+  generate?: Pick<GenerateResult, "content" | "finishReason" | "usage">;
+}
+
+export interface ReplayFixture {
+  /** The model the calls were recorded with */
+  recordedWith?: string;
+  calls: ReplayCall[];
+}
+
+export interface ReplayOptions {
+  /** Fixture directory (default: LLM_REPLAY_DIR or tests/fixtures/llm-replay) */
+  dir?: string;
+  /** Record this model's responses instead of replaying */
+  record?: RecordableModel;
+}
+
+export function fixturePath(name: string, dir?: string): string {
+  if (!/^[\w.-]+$/.test(name) || name.startsWith(".")) {
+    throw new Error(`Invalid replay fixture name "${name}" - use letters, digits, dots, dashes and underscores`);
+  }
+  const base = dir ?? process.env.LLM_REPLAY_DIR ?? path.join(process.cwd(), "tests", "fixtures", "llm-replay");
+  return path.join(base, `${name}.json`);
+}
+
+export function loadFixture(file: string): ReplayFixture {
+  if (!existsSync(file)) return { calls: [] };
+  return JSON.parse(readFileSync(file, "utf8")) as ReplayFixture;
+}
+
+/**
+ * Identify a model call: the latest user message, and how many assistant
+ * turns (agent steps) followed it.
+ */
+export function replayKey(prompt: CallOptions["prompt"]): { request: string; step: number } {
+  let lastUser = -1;
+  prompt.forEach((message, i) => {
+    if (message.role === "user") lastUser = i;
+  });
+  const user = prompt[lastUser];
+  const request =
+    user?.role === "user"
+      ? user.content.map((part) => (part.type === "text" ? part.text : "")).join("")
+      : "";
+  const step = prompt.slice(lastUser + 1).filter((message) => message.role === "assistant").length;
+  return { request, step };
+}
+
+function saveCall(file: string, call: ReplayCall, recordedWith: string): void {
+  const fixture = loadFixture(file);
+  fixture.recordedWith = recordedWith;
+  fixture.calls = [
+    ...fixture.calls.filter((c) => c.request !== call.request || c.step !== call.step),
+    call,
+  ];
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+function findCall(file: string, name: string, options: CallOptions): ReplayCall {
+  const { request, step } = replayKey(options.prompt);
+  const call = loadFixture(file).calls.find((c) => c.request === request && c.step === step);
+  if (!call) {
+    throw new Error(
+      `No recorded response in replay fixture "${name}" for step ${step} of "${request.slice(0, 80)}" - record it with LLM_REPLAY_RECORD=<provider:model>`,
+    );
+  }
+  return call;
+}
+
+/**
+ * JSON turns dates into strings; response metadata expects a Date back.
+ */
+function reviveParts(parts: StreamPart[]): StreamPart[] {
+  return parts.map((part) =>
+    part.type === "response-metadata" && typeof part.timestamp === "string"
+      ? { ...part, timestamp: new Date(part.timestamp) }
+      : part,
+  );
+}
+
+/**
+ * A model that replays the named fixture, or records into it.
+ */
+export function createReplayModel(name: string, options: ReplayOptions = {}): LanguageModel {
+  const file = fixturePath(name, options.dir);
+
+  if (options.record) {
+    const recordedWith = `${options.record.provider}:${options.record.modelId}`;
+    return wrapLanguageModel({
+      model: options.record,
+      middleware: {
+        specificationVersion: "v3",
+        wrapGenerate: async ({ doGenerate, params }) => {
+          const result = await doGenerate();
+          const { content, finishReason, usage } = result;
+          saveCall(file, { ...replayKey(params.prompt), generate: { content, finishReason, usage } }, recordedWith);
+          return result;
+        },
+        wrapStream: async ({ doStream, params }) => {
+          const { stream, ...rest } = await doStream();
+          const parts: StreamPart[] = [];
+          const recorder = new TransformStream<StreamPart, StreamPart>({
+            transform(part, controller) {
+              // Raw provider chunks are only sent on request and aren't replayed
+              if (part.type !== "raw") parts.push(part);
+              controller.enqueue(part);
+            },
+            flush() {
+              saveCall(file, { ...replayKey(params.prompt), stream: parts }, recordedWith);
+            },
+          });
+          return { stream: stream.pipeThrough(recorder), ...rest };
+        },
+      },
+    });
+  }
+
+  const model: ModelV3 = {
+    specificationVersion: "v3",
+    provider: "replay",
+    modelId: name,
+    supportedUrls: {},
+    async doGenerate(callOptions) {
+      const call = findCall(file, name, callOptions);
+      if (!call.generate) {
+        throw new Error(`Replay fixture "${name}" recorded a streamed response for this call, not a generated one`);
+      }
+      return { ...call.generate, warnings: [] };
+    },
+    async doStream(callOptions) {
+      const call = findCall(file, name, callOptions);
+      if (!call.stream) {
+        throw new Error(`Replay fixture "${name}" recorded a generated response for this call, not a streamed one`);
+      }
+      return { stream: simulateReadableStream({ chunks: reviveParts(call.stream), chunkDelayInMs: null }) };
+    },
+  };
+  return model;
+}
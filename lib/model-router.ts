@@ -0,0 +1,318 @@
+/**
+ * Model router (server-only).
+ *
+ * Every AI call goes through here: the router picks the models for a task,
+ * retries transient failures with backoff, falls back to the next model on
+ * rate limits, server errors and rejected credentials, and records which
+ * model served the request.
+ *
+ * Models per task come from MODEL_DASHBOARD, MODEL_QUESTIONS,
+ * MODEL_SQL_REPAIR and MODEL_INSIGHT: comma-separated `provider:model`
+ * specs, tried in order (e.g. `openrouter:anthropic/claude-haiku-4.5,gemini:gemini-2.5-flash`).
+ * Without one, every configured provider is tried: OpenRouter, then Gemini,
+ * then the AI Gateway when neither has a key. SQL repair is the exception:
+ * without MODEL_SQL_REPAIR the dashboard model repairs its own queries.
+ *
+ * Models the user configured in the UI are used on their own - a request
+ * meant for a local Ollama model never falls back to a cloud provider.
+ */
+
+import { APICallError, RetryError, type LanguageModel } from "ai";
+import {
+  createServerModel,
+  CUSTOM_OPENAI_MODELS,
+  getCustomModelProvider,
+  isProviderConfigured,
+  type CustomModelSettings,
+  type ServerModelProvider,
+} from "./ai-providers";
+
+export type ModelTask = "dashboard" | "questions" | "sql-repair" | "insight";
+
+const TASK_ENV: Record<ModelTask, string> = {
+  dashboard: "MODEL_DASHBOARD",
+  questions: "MODEL_QUESTIONS",
+  "sql-repair": "MODEL_SQL_REPAIR",
+  insight: "MODEL_INSIGHT",
+};
+
+const DEFAULT_MODEL = "anthropic/claude-haiku-4.5";
+const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+const SERVER_PROVIDERS: ServerModelProvider[] = ["openrouter", "gemini", "openai", "gateway"];
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export interface ModelCandidate {
+  provider: string;
+  modelId: string;
+  /** `provider:modelId` */
+  label: string;
+  model: LanguageModel;
+}
+
+/**
+ * The model that answered a request, after any retries and fallbacks.
+ */
+export interface ServedModel {
+  task: ModelTask;
+  provider: string;
+  modelId: string;
+  label: string;
+  /** Calls made in total, including failed ones */
+  attempts: number;
+  /** Models skipped before this one */
+  fallbacks: number;
+}
+
+/**
+ * Split a `provider:model` spec. Model ids may contain colons themselves
+ * (`qwen/qwen3-next-80b-a3b-instruct:free`), so the prefix only counts when
+ * it names a provider.
+ */
+export function parseModelSpec(spec: string): { provider: ServerModelProvider | null; modelId: string } {
+  const trimmed = spec.trim();
+  const colon = trimmed.indexOf(":");
+  const prefix = colon > 0 ? trimmed.slice(0, colon) : "";
+  if (SERVER_PROVIDERS.includes(prefix as ServerModelProvider)) {
+    return { provider: prefix as ServerModelProvider, modelId: trimmed.slice(colon + 1) };
+  }
+  return { provider: null, modelId: trimmed };
+}
+
+/**
+ * The `provider:model` specs to try for a task, in order.
+ */
+export function getModelSpecs(task: ModelTask): string[] {
+  const configured = process.env[TASK_ENV[task]];
+  if (configured?.trim()) {
+    return configured.split(",").map((spec) => spec.trim()).filter(Boolean);
+  }
+
+  const modelId = process.env.AI_GATEWAY_MODEL || DEFAULT_MODEL;
+  const specs: string[] = [];
+  if (CUSTOM_OPENAI_MODELS.includes(modelId) && isProviderConfigured("openai")) {
+    specs.push(`openai:${modelId}`);
+  }
+  if (isProviderConfigured("openrouter")) specs.push(`openrouter:${modelId}`);
+  if (isProviderConfigured("gemini")) specs.push(`gemini:${DEFAULT_GEMINI_MODEL}`);
+  if (specs.length === 0) specs.push(`gateway:${modelId}`);
+  return specs;
+}
+
+/**
+ * Resolve the models to try for a task. Specs without a provider go to
+ * OpenRouter when it has a key, otherwise to the AI Gateway.
+ */
+export function resolveModelCandidates(
+  task: ModelTask,
+  settings?: CustomModelSettings | null,
+): ModelCandidate[] {
+  if (settings?.model) {
+    return [
+      {
+        provider: settings.provider,
+        modelId: settings.model,
+        label: `${settings.provider}:${settings.model}`,
+        model: getCustomModelProvider(settings),
+      },
+    ];
+  }
+
+  return getModelSpecs(task).map((spec) => {
+    const parsed = parseModelSpec(spec);
+    const provider =
+      parsed.provider ?? (isProviderConfigured("openrouter") ? "openrouter" : "gateway");
+    return {
+      provider,
+      modelId: parsed.modelId,
+      label: `${provider}:${parsed.modelId}`,
+      model: createServerModel(provider, parsed.modelId),
+    };
+  });
+}
+
+/**
+ * The model for SQL repair: the agent step after a failed execute_sql call
+ * runs on the first MODEL_SQL_REPAIR model. Null when that isn't set or the
+ * user picked a model, so the dashboard model keeps the step. The step
+ * runs inside the dashboard stream, so streamText's own `maxRetries`
+ * covers its errors rather than a fallback chain.
+ */
+export function resolveSqlRepairModel(settings?: CustomModelSettings | null): ModelCandidate | null {
+  if (settings?.model || !process.env[TASK_ENV["sql-repair"]]?.trim()) return null;
+  return resolveModelCandidates("sql-repair")[0] ?? null;
+}
+
+/**
+ * Whether the agent's latest step ran SQL that failed, so the next step
+ * is a repair.
+ */
+export function lastStepFailedSql(
+  steps: Array<{ toolResults: Array<{ toolName: string; output: unknown }> }>,
+): boolean {
+  return (steps.at(-1)?.toolResults ?? []).some(
+    (result) =>
+      result.toolName === "execute_sql" && (result.output as { success?: boolean } | undefined)?.success === false,
+  );
+}
+
+type ModelErrorKind = "rate-limit" | "transient" | "auth" | "fatal";
+
+/**
+ * Classify a model call failure: rate limits and rejected credentials move
+ * on to the next model, transient (5xx, network) errors are retried first.
+ */
+export function classifyModelError(error: unknown): ModelErrorKind {
+  const cause = RetryError.isInstance(error) ? error.lastError : error;
+  if (APICallError.isInstance(cause)) {
+    const status = cause.statusCode;
+    if (status === 429) return "rate-limit";
+    if (status === 401 || status === 403) return "auth";
+    if ((status !== undefined && status >= 500) || cause.isRetryable) return "transient";
+    return "fatal";
+  }
+  if (cause instanceof Error && cause.name === "AbortError") return "fatal";
+  // Network failures surface as TypeError from fetch
+  if (cause instanceof TypeError) return "transient";
+  return "fatal";
+}
+
+export interface RouteOptions {
+  /** User-configured model (from the settings panel) */
+  settings?: CustomModelSettings | null;
+  /** Retries per model for transient errors (default: MODEL_MAX_RETRIES or 2) */
+  maxRetries?: number;
+  /** First backoff delay, doubled per retry (default: MODEL_RETRY_BASE_MS or 500) */
+  retryBaseMs?: number;
+  /** Stops waiting between retries */
+  signal?: AbortSignal;
+  /** Override the candidates (tests) */
+  candidates?: ModelCandidate[];
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Run a non-streaming model call (e.g. generateText) with retries and
+ * fallbacks. The call should pass `maxRetries: 0` - the router retries.
+ */
+export async function runWithModel<T>(
+  task: ModelTask,
+  call: (candidate: ModelCandidate) => Promise<T>,
+  options: RouteOptions = {},
+): Promise<{ result: T; servedBy: ServedModel }> {
+  const candidates = options.candidates ?? resolveModelCandidates(task, options.settings);
+  const maxRetries = options.maxRetries ?? envInt("MODEL_MAX_RETRIES", 2);
+  const retryBaseMs = options.retryBaseMs ?? envInt("MODEL_RETRY_BASE_MS", 500);
+
+  let attempts = 0;
+  let lastError: unknown;
+  for (const [index, candidate] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    for (let retry = 0; ; retry++) {
+      attempts++;
+      try {
+        const result = await call(candidate);
+        return {
+          result,
+          servedBy: {
+            task,
+            provider: candidate.provider,
+            modelId: candidate.modelId,
+            label: candidate.label,
+            attempts,
+            fallbacks: index,
+          },
+        };
+      } catch (error) {
+        lastError = error;
+        const kind = classifyModelError(error);
+        console.warn(`[model-router] ${task}: ${candidate.label} failed (${kind}):`, error);
+        if (kind === "fatal" || options.signal?.aborted) throw error;
+        // Rate limits and bad credentials go straight to the next model;
+        // the last model retries rate limits rather than giving up
+        const retryHere = kind === "transient" || (kind === "rate-limit" && isLast);
+        if (!retryHere || retry >= maxRetries) break;
+        await sleep(retryBaseMs * 2 ** retry, options.signal);
+      }
+    }
+  }
+  throw lastError ?? new Error(`No model is configured for ${task}`);
+}
+
+/** Emitted into a routed stream once a model has started answering */
+export interface ModelServedPart extends ServedModel {
+  type: "model-served";
+}
+
+/** Stream parts that carry no output yet - a failure after them can still fall back */
+const PRELUDE_PARTS = new Set(["start", "start-step"]);
+
+/**
+ * Stream from the first model that starts answering (e.g. streamText's
+ * fullStream). A model that fails before producing any output - a rate
+ * limit or a 5xx on the first request - is replaced by the next one. Once
+ * output has been streamed the model is kept; streamText's own `maxRetries`
+ * covers failures in later steps.
+ */
+export async function* streamWithModel<P extends { type: string }>(
+  task: ModelTask,
+  start: (candidate: ModelCandidate) => { fullStream: AsyncIterable<P> },
+  options: RouteOptions = {},
+): AsyncGenerator<P | ModelServedPart> {
+  const candidates = options.candidates ?? resolveModelCandidates(task, options.settings);
+
+  for (const [index, candidate] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    const prelude: P[] = [];
+    let served = false;
+
+    for await (const part of start(candidate).fullStream) {
+      if (!served) {
+        if (PRELUDE_PARTS.has(part.type)) {
+          prelude.push(part);
+          continue;
+        }
+        if (part.type === "error" && !isLast && !options.signal?.aborted) {
+          const error = (part as { error?: unknown }).error;
+          const kind = classifyModelError(error);
+          if (kind !== "fatal") {
+            console.warn(`[model-router] ${task}: ${candidate.label} failed (${kind}):`, error);
+            break;
+          }
+        }
+        served = true;
+        yield {
+          type: "model-served",
+          task,
+          provider: candidate.provider,
+          modelId: candidate.modelId,
+          label: candidate.label,
+          attempts: index + 1,
+          fallbacks: index,
+        };
+        yield* prelude;
+      }
+      yield part;
+    }
+
+    if (served) return;
+    if (isLast) {
+      // The stream ended without output - pass on what there was
+      yield* prelude;
+      return;
+    }
+  }
+}
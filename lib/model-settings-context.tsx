@@ -101,6 +101,13 @@ export function useModelSettings(): ModelSettingsContextValue {
   return context;
 }
 
+/**
+ * Hook for components that also render outside a ModelSettingsProvider
+ */
+export function useModelSettingsOptional(): ModelSettingsContextValue | null {
+  return useContext(ModelSettingsContext);
+}
+
 /**
  * Predefined Ollama models for quick selection
  */
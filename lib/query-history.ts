@@ -7,6 +7,9 @@
  */
 
 import type { UITree } from "@json-render/core";
+import type { FilterMeta } from "./filter-metadata";
+import type { ConversationTurn } from "./dashboard-edit";
+import type { GenerationUsage } from "./usage";
 
 // Re-export UITree type for callers
 export type { UITree };
@@ -19,26 +22,35 @@ export interface SQLQuery {
   key: string;
   sql: string;
   executedSql?: string;
+  filterMeta?: FilterMeta[];
 }
 
 // Filter definition structure
 export interface FilterDefinition {
   id: string;
-  type: "date-range" | "dropdown";
+  type: "date-range" | "dropdown" | "range" | "search" | "toggle";
   label: string;
   column: string;
   options?: string[];
   multiSelect?: boolean;
-  defaultPreset?: "last7days" | "last30days" | "last90days" | "ytd" | "custom";
+  defaultPreset?: string;
+  boundsQueryKey?: string;
+  step?: number;
 }
 
 // Filter value types
 export interface DateRangeValue {
   from: string;
   to: string;
+  relative?: string;
 }
 
-export type FilterValue = string | string[] | DateRangeValue | null;
+export interface NumberRangeValue {
+  min: number;
+  max: number;
+}
+
+export type FilterValue = string | string[] | DateRangeValue | NumberRangeValue | null;
 
 // Main history entry interface
 export interface HistoryEntry {
@@ -52,6 +64,10 @@ export interface HistoryEntry {
   queries?: SQLQuery[];
   filters?: FilterDefinition[];
   filterValues?: Record<string, FilterValue>;
+  // Follow-up edits made to the dashboard
+  conversation?: ConversationTurn[];
+  // Tokens and estimated cost of the generation
+  usage?: GenerationUsage;
 }
 
 /**
@@ -101,6 +117,8 @@ export interface DashboardState {
   queries: SQLQuery[];
   filters: FilterDefinition[];
   filterValues: Record<string, FilterValue>;
+  conversation?: ConversationTurn[];
+  usage?: GenerationUsage | null;
 }
 
 /**
@@ -125,6 +143,8 @@ export function addToHistory(
       queries: dashboardState.queries,
       filters: dashboardState.filters,
       filterValues: dashboardState.filterValues,
+      conversation: dashboardState.conversation,
+      ...(dashboardState.usage && { usage: dashboardState.usage }),
     }),
   };
 
@@ -189,6 +209,22 @@ ${promptLines.join("\n")}
 `;
 }
 
+/**
+ * Format a generation's usage for display, e.g. "12.4k tokens · $0.021"
+ */
+export function formatUsage(usage: GenerationUsage): string {
+  const tokens =
+    usage.totalTokens >= 1000
+      ? `${(usage.totalTokens / 1000).toFixed(1)}k tokens`
+      : `${usage.totalTokens} tokens`;
+  if (usage.estimatedCostUsd === null) return tokens;
+  const cost =
+    usage.estimatedCostUsd > 0 && usage.estimatedCostUsd < 0.001
+      ? "<$0.001"
+      : `$${usage.estimatedCostUsd.toFixed(3)}`;
+  return `${tokens} · ${cost}`;
+}
+
 export function formatTimestamp(timestamp: string): string {
   const date = new Date(timestamp);
   const now = new Date();
@@ -1,33 +1,407 @@
-const DISALLOWED_PATTERNS = [
-  /\b(INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|TRUNCATE|GRANT|REVOKE)\b/i,
-  /\b(EXECUTE|EXEC|CALL)\b/i,
-  /--/,
-  /\/\*/,
-  /;\s*\w/,
-  /\bpg_sleep\b/i,
-  /\bpg_read_file\b/i,
+/**
+ * SQL safety validator.
+ *
+ * Tokenizes the query for the target dialect and checks its structure
+ * instead of pattern-matching the raw text, so string literals such as
+ * `'pre--launch'` or `'DELETED'` are accepted while dialect-specific
+ * escapes (`INTO OUTFILE`, `pg_read_binary_file`, `ATTACH DATABASE`)
+ * are rejected.
+ *
+ * Rules enforced:
+ * - Exactly one statement (a trailing semicolon is tolerated)
+ * - The statement is a SELECT, optionally preceded by read-only CTEs
+ * - No comments, data-modifying keywords or denied functions
+ */
+
+import type { DatabaseType } from "./db-adapters/types";
+import {
+  tokenizeSQL,
+  isSignificantToken,
+  isKeyword,
+  identifierName,
+  type SQLToken,
+} from "./sql-tokenizer";
+
+const MAX_QUERY_LENGTH = 5000;
+
+/**
+ * Keywords that modify data, schema or session state. Rejected anywhere
+ * in the query (outside literals and quoted identifiers).
+ */
+const DISALLOWED_KEYWORDS = [
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "UPSERT",
+  "DROP",
+  "CREATE",
+  "ALTER",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "EXECUTE",
+  "EXEC",
+  "CALL",
+  "COPY",
+  "INTO",
 ];
 
+/**
+ * Additional dialect-specific keywords that give access to the file system
+ * or other databases. Statements that only make sense at the start (MySQL's
+ * LOAD DATA, LOCK TABLES) are left to the SELECT-only check, so columns
+ * named `load` or `lock` stay readable.
+ */
+const DIALECT_DISALLOWED_KEYWORDS: Record<DatabaseType, string[]> = {
+  postgresql: ["LISTEN", "NOTIFY", "VACUUM", "REINDEX", "CLUSTER"],
+  demo: ["LISTEN", "NOTIFY", "VACUUM", "REINDEX", "CLUSTER"],
+  mysql: ["OUTFILE", "DUMPFILE", "HANDLER"],
+  sqlite: ["ATTACH", "DETACH", "PRAGMA", "VACUUM", "REINDEX"],
+};
+
+/**
+ * Functions rejected per dialect. Matching is case-insensitive and ignores
+ * schema qualification (`pg_catalog.pg_sleep` matches `pg_sleep`).
+ * Extend at deploy time with the comma-separated SQL_DENIED_FUNCTIONS env var.
+ */
+const POSTGRES_DENIED_FUNCTIONS = [
+  "pg_sleep",
+  "pg_sleep_for",
+  "pg_sleep_until",
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_ls_dir",
+  "pg_stat_file",
+  "pg_ls_logdir",
+  "pg_ls_waldir",
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_advisory_lock",
+  "pg_advisory_xact_lock",
+  "lo_import",
+  "lo_export",
+  "lo_from_bytea",
+  "set_config",
+  "dblink",
+  "dblink_exec",
+  "dblink_connect",
+  "query_to_xml",
+  "query_to_xml_and_xmlschema",
+  "cursor_to_xml",
+];
+
+export const DEFAULT_DENIED_FUNCTIONS: Record<DatabaseType, string[]> = {
+  postgresql: POSTGRES_DENIED_FUNCTIONS,
+  demo: POSTGRES_DENIED_FUNCTIONS,
+  mysql: [
+    "sleep",
+    "benchmark",
+    "load_file",
+    "get_lock",
+    "release_lock",
+    "release_all_locks",
+    "sys_exec",
+    "sys_eval",
+  ],
+  sqlite: [
+    "load_extension",
+    "readfile",
+    "writefile",
+    "edit",
+    "fts3_tokenizer",
+  ],
+};
+
+/**
+ * A single validation problem with its location in the SQL string.
+ */
+export interface ValidationIssue {
+  /** Zero-based character offset where the problem starts */
+  position: number;
+  /** Human-readable explanation */
+  reason: string;
+  /** The offending token text, if any */
+  token?: string;
+}
+
 export interface ValidationResult {
   valid: boolean;
+  /** Reason of the first issue (kept for callers that only show one message) */
   error?: string;
+  /** All issues found, in order of position */
+  issues?: ValidationIssue[];
+}
+
+export interface ValidateQueryOptions {
+  /** Replace the dialect's default function denylist */
+  deniedFunctions?: string[];
+  /** Functions to deny in addition to the defaults */
+  extraDeniedFunctions?: string[];
+}
+
+/** Deploy-time additions to the denylist, read once */
+const ENV_DENIED_FUNCTIONS = (process.env.SQL_DENIED_FUNCTIONS || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+function getDeniedFunctions(
+  dialect: DatabaseType,
+  options: ValidateQueryOptions,
+): Set<string> {
+  const base = options.deniedFunctions ?? DEFAULT_DENIED_FUNCTIONS[dialect] ?? [];
+  return new Set(
+    [...base, ...(options.extraDeniedFunctions ?? []), ...ENV_DENIED_FUNCTIONS].map((name) =>
+      name.toLowerCase(),
+    ),
+  );
+}
+
+function invalid(issues: ValidationIssue[]): ValidationResult {
+  const sorted = [...issues].sort((a, b) => a.position - b.position);
+  return { valid: false, error: sorted[0]!.reason, issues: sorted };
+}
+
+/**
+ * Check that every CTE body in a WITH clause is itself a read-only query
+ * and that the statement following the CTE list is a SELECT.
+ */
+function checkCTEs(tokens: SQLToken[]): ValidationIssue | null {
+  // tokens[0] is WITH
+  let i = 1;
+  if (isKeyword(tokens[i], "RECURSIVE")) i++;
+
+  while (i < tokens.length) {
+    // CTE name
+    const name = tokens[i];
+    if (!name || (name.type !== "word" && name.type !== "quoted_identifier")) {
+      return {
+        position: name?.start ?? 0,
+        reason: "Expected a CTE name after WITH",
+        token: name?.value,
+      };
+    }
+    i++;
+
+    // Optional column list
+    if (tokens[i]?.type === "open_paren") {
+      const depth = tokens[i]!.depth;
+      i++;
+      while (
+        i < tokens.length &&
+        !(tokens[i]!.type === "close_paren" && tokens[i]!.depth === depth)
+      ) {
+        i++;
+      }
+      i++;
+    }
+
+    if (!isKeyword(tokens[i], "AS")) {
+      return {
+        position: tokens[i]?.start ?? name.end,
+        reason: `Expected AS after CTE name ${name.value}`,
+        token: tokens[i]?.value,
+      };
+    }
+    i++;
+    if (isKeyword(tokens[i], "NOT")) i++;
+    if (isKeyword(tokens[i], "MATERIALIZED")) i++;
+
+    const open = tokens[i];
+    if (open?.type !== "open_paren") {
+      return {
+        position: open?.start ?? 0,
+        reason: `Expected ( to open the body of CTE ${name.value}`,
+        token: open?.value,
+      };
+    }
+
+    const first = tokens[i + 1];
+    if (
+      !isKeyword(first, "SELECT") &&
+      !isKeyword(first, "WITH") &&
+      !isKeyword(first, "VALUES") &&
+      first?.type !== "open_paren"
+    ) {
+      return {
+        position: first?.start ?? open.end,
+        reason: `CTE ${name.value} must contain a SELECT query`,
+        token: first?.value,
+      };
+    }
+
+    // Skip to the matching close paren
+    const depth = open.depth;
+    i++;
+    while (
+      i < tokens.length &&
+      !(tokens[i]!.type === "close_paren" && tokens[i]!.depth === depth)
+    ) {
+      i++;
+    }
+    i++;
+
+    if (tokens[i]?.type === "comma") {
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const main = tokens[i];
+  if (!isKeyword(main, "SELECT") && main?.type !== "open_paren") {
+    return {
+      position: main?.start ?? 0,
+      reason: "Only SELECT queries allowed after WITH",
+      token: main?.value,
+    };
+  }
+  return null;
 }
 
-export function validateQuery(sql: string): ValidationResult {
-  if (!sql || sql.length > 5000) {
-    return { valid: false, error: "Invalid query length" };
+/**
+ * Validate that a SQL string is a single, read-only SELECT statement.
+ *
+ * @param sql - The SQL to validate
+ * @param dialect - Target database dialect (affects quoting rules and denylists)
+ * @param options - Override or extend the function denylist
+ */
+export function validateQuery(
+  sql: string,
+  dialect: DatabaseType = "postgresql",
+  options: ValidateQueryOptions = {},
+): ValidationResult {
+  if (!sql || sql.length > MAX_QUERY_LENGTH) {
+    return invalid([{ position: 0, reason: "Invalid query length" }]);
+  }
+
+  const allTokens = tokenizeSQL(sql, dialect);
+  const issues: ValidationIssue[] = [];
+
+  // Lexical problems: unterminated literals and comments
+  for (const token of allTokens) {
+    if (token.unterminated) {
+      issues.push({
+        position: token.start,
+        reason: `Unterminated ${token.type.replace("_", " ")}`,
+        token: token.value.slice(0, 20),
+      });
+    } else if (token.type === "line_comment" || token.type === "block_comment") {
+      issues.push({
+        position: token.start,
+        reason: "Query contains disallowed comment",
+        token: token.value.slice(0, 20),
+      });
+    }
   }
+  if (issues.length > 0) return invalid(issues);
 
-  for (const pattern of DISALLOWED_PATTERNS) {
-    if (pattern.test(sql)) {
-      return { valid: false, error: "Query contains disallowed operations" };
+  // Statement boundaries: only trailing semicolons are allowed
+  const tokens = allTokens.filter(isSignificantToken);
+  const firstSemicolon = tokens.findIndex((t) => t.type === "semicolon");
+  if (firstSemicolon !== -1) {
+    const trailing = tokens.slice(firstSemicolon);
+    const extra = trailing.find((t) => t.type !== "semicolon");
+    if (extra) {
+      return invalid([
+        {
+          position: extra.start,
+          reason: "Multiple statements are disallowed",
+          token: extra.value,
+        },
+      ]);
     }
   }
+  const statement =
+    firstSemicolon === -1 ? tokens : tokens.slice(0, firstSemicolon);
 
-  const trimmed = sql.trim().toUpperCase();
-  if (!trimmed.startsWith("SELECT") && !trimmed.startsWith("WITH")) {
-    return { valid: false, error: "Only SELECT queries allowed" };
+  if (statement.length === 0) {
+    return invalid([{ position: 0, reason: "Invalid query length" }]);
+  }
+
+  // Disallowed keywords and functions
+  const disallowedKeywords = new Set([
+    ...DISALLOWED_KEYWORDS,
+    ...(DIALECT_DISALLOWED_KEYWORDS[dialect] ?? []),
+  ]);
+  const deniedFunctions = getDeniedFunctions(dialect, options);
+
+  statement.forEach((token, index) => {
+    if (token.type !== "word" && token.type !== "quoted_identifier") return;
+    const upper = token.value.toUpperCase();
+
+    // A word followed by "." is a qualifier (schema/table), never a keyword
+    const isQualifier = statement[index + 1]?.type === "dot";
+    const isQualified = statement[index - 1]?.type === "dot";
+
+    if (token.type === "word" && !isQualifier && !isQualified && disallowedKeywords.has(upper)) {
+      issues.push({
+        position: token.start,
+        reason: `Query contains disallowed operation: ${upper}`,
+        token: token.value,
+      });
+      return;
+    }
+
+    // Function calls, including quoted names: "pg_sleep"(10), `sleep`(10)
+    const name = identifierName(token).toLowerCase();
+    if (
+      !isQualifier &&
+      statement[index + 1]?.type === "open_paren" &&
+      deniedFunctions.has(name)
+    ) {
+      issues.push({
+        position: token.start,
+        reason: `Function ${name}() is disallowed`,
+        token: token.value,
+      });
+    }
+  });
+  if (issues.length > 0) return invalid(issues);
+
+  // Statement type
+  let first = 0;
+  while (statement[first]?.type === "open_paren") first++;
+  const leading = statement[first];
+  if (isKeyword(leading, "WITH")) {
+    const cteIssue = checkCTEs(statement.slice(first));
+    if (cteIssue) return invalid([cteIssue]);
+  } else if (!isKeyword(leading, "SELECT")) {
+    return invalid([
+      {
+        position: leading?.start ?? 0,
+        reason: "Only SELECT queries allowed",
+        token: leading?.value,
+      },
+    ]);
   }
 
   return { valid: true };
 }
+
+/**
+ * Format validation issues as feedback for the SQL agent, including the
+ * position and a short excerpt of the SQL around each problem.
+ */
+export function formatValidationError(
+  sql: string,
+  result: ValidationResult,
+): string {
+  if (result.valid) return "";
+  if (!result.issues || result.issues.length === 0) {
+    return result.error || "Query validation failed";
+  }
+
+  return result.issues
+    .map((issue) => {
+      const excerpt = sql
+        .slice(Math.max(0, issue.position - 15), issue.position + 25)
+        .replace(/\s+/g, " ")
+        .trim();
+      return `${issue.reason} (at position ${issue.position}, near "${excerpt}")`;
+    })
+    .join("; ");
+}
@@ -0,0 +1,182 @@
+/**
+ * Relative date expressions
+ *
+ * A date-range filter can hold an expression like "last_3_complete_months"
+ * instead of fixed dates. The browser sends the expression and
+ * /api/execute-queries resolves it (resolveRelativeDateParams), so a saved
+ * or auto-refreshed dashboard always covers the current period. The browser
+ * resolves the same expressions only to show the dates.
+ *
+ * Grammar:
+ * - last_N_days: the N days up to today
+ * - last_N_complete_(weeks|months|quarters|years): the N whole units before the current one
+ * - previous_(week|month|quarter|year): the last complete unit
+ * - (week|month|quarter|year)_to_date: from the start of the current unit to today
+ * - same_period_last_year: year to date, one year earlier
+ *
+ * Dates are calendar dates in UTC; weeks start on Monday.
+ */
+
+export interface ResolvedDateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+type Unit = "week" | "month" | "quarter" | "year";
+
+type RelativeDate =
+  | { kind: "last-days"; count: number }
+  | { kind: "complete"; count: number; unit: Unit }
+  | { kind: "to-date"; unit: Unit }
+  | { kind: "same-period-last-year" };
+
+/** Longest look-back an expression may ask for, in units */
+const MAX_COUNT = 1000;
+
+const UNITS = "(week|month|quarter|year)";
+const LAST_DAYS = /^last_(\d+)_days?$/;
+const LAST_COMPLETE = new RegExp(`^last_(\\d+)_complete_${UNITS}s?$`);
+const PREVIOUS = new RegExp(`^previous_${UNITS}$`);
+const TO_DATE = new RegExp(`^${UNITS}_to_date$`);
+
+function parse(expression: string): RelativeDate | null {
+  const normalized = expression.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  let match: RegExpMatchArray | null;
+  if ((match = normalized.match(LAST_DAYS))) {
+    const count = Number(match[1]);
+    return count > 0 && count <= MAX_COUNT ? { kind: "last-days", count } : null;
+  }
+  if ((match = normalized.match(LAST_COMPLETE))) {
+    const count = Number(match[1]);
+    return count > 0 && count <= MAX_COUNT ? { kind: "complete", count, unit: match[2] as Unit } : null;
+  }
+  if ((match = normalized.match(PREVIOUS))) {
+    return { kind: "complete", count: 1, unit: match[1] as Unit };
+  }
+  if ((match = normalized.match(TO_DATE))) {
+    return { kind: "to-date", unit: match[1] as Unit };
+  }
+  if (normalized === "same_period_last_year") {
+    return { kind: "same-period-last-year" };
+  }
+  return null;
+}
+
+export function isRelativeDateExpression(expression: string): boolean {
+  return parse(expression) !== null;
+}
+
+function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+/** First day of the unit containing `date` */
+function startOf(date: Date, unit: Unit): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (unit) {
+    case "week":
+      // getUTCDay: 0 is Sunday
+      return addDays(date, -((date.getUTCDay() + 6) % 7));
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month - (month % 3), 1));
+    case "year":
+      return new Date(Date.UTC(year, 0, 1));
+  }
+}
+
+/** The same point `count` units earlier (or later, for a negative count) */
+function shift(date: Date, unit: Unit, count: number): Date {
+  if (unit === "week") return addDays(date, -7 * count);
+  const months = unit === "month" ? count : unit === "quarter" ? 3 * count : 12 * count;
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - months, 1));
+  // Clamp the day, so Mar 31 one month back is Feb 28/29
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The dates an expression covers on `today`, or null when it isn't a
+ * relative date expression.
+ */
+export function resolveRelativeDate(expression: string, today: Date = new Date()): ResolvedDateRange | null {
+  const parsed = parse(expression);
+  if (!parsed) return null;
+  const day = utcDay(today);
+
+  switch (parsed.kind) {
+    case "last-days":
+      return { from: formatDay(addDays(day, -parsed.count)), to: formatDay(day) };
+    case "complete": {
+      const currentStart = startOf(day, parsed.unit);
+      return {
+        from: formatDay(shift(currentStart, parsed.unit, parsed.count)),
+        to: formatDay(addDays(currentStart, -1)),
+      };
+    }
+    case "to-date":
+      return { from: formatDay(startOf(day, parsed.unit)), to: formatDay(day) };
+    case "same-period-last-year":
+      return { from: formatDay(shift(startOf(day, "year"), "year", 1)), to: formatDay(shift(day, "year", 1)) };
+  }
+}
+
+/**
+ * Human label for an expression, e.g. "Last 3 complete months"
+ */
+export function describeRelativeDate(expression: string): string {
+  const parsed = parse(expression);
+  if (!parsed) return expression;
+  switch (parsed.kind) {
+    case "last-days":
+      return `Last ${parsed.count} day${parsed.count === 1 ? "" : "s"}`;
+    case "complete":
+      return parsed.count === 1
+        ? `Previous ${parsed.unit}`
+        : `Last ${parsed.count} complete ${parsed.unit}s`;
+    case "to-date":
+      return `${parsed.unit[0]!.toUpperCase()}${parsed.unit.slice(1)} to date`;
+    case "same-period-last-year":
+      return "Same period last year";
+  }
+}
+
+/** Suffix of the request parameter that carries a date-range filter's expression */
+export const RELATIVE_PARAM_SUFFIX = "_relative";
+
+/**
+ * Replace `<column>_relative` parameters with the `<column>_from` and
+ * `<column>_to` dates they cover today. Unknown expressions are dropped, so
+ * the filter is left unset rather than applied with the wrong dates.
+ */
+export function resolveRelativeDateParams(
+  params: Record<string, string>,
+  today: Date = new Date(),
+): Record<string, string> {
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (!key.endsWith(RELATIVE_PARAM_SUFFIX)) {
+      resolved[key] = value;
+    }
+  }
+  for (const [key, value] of Object.entries(params)) {
+    if (!key.endsWith(RELATIVE_PARAM_SUFFIX)) continue;
+    const range = resolveRelativeDate(value, today);
+    if (!range) continue;
+    const column = key.slice(0, -RELATIVE_PARAM_SUFFIX.length);
+    resolved[`${column}_from`] = range.from;
+    resolved[`${column}_to`] = range.to;
+  }
+  return resolved;
+}
@@ -1,10 +1,7 @@
 import { getAdapter, DBConfig } from "./db";
+import type { ColumnDetails, ForeignKeyInfo, TableInfo } from "./db-adapters/types";
 
-export interface TableInfo {
-  schema: string;
-  name: string;
-  columns: { name: string; type: string }[];
-}
+export type { TableInfo };
 
 export async function introspectSchema(
   dbConfig?: DBConfig,
@@ -34,13 +31,80 @@ export async function introspectSchema(
   return adapter.introspectSchema(schemas);
 }
 
+/**
+ * Render tables for the agent's prompt, one line per column:
+ *
+ *   public.orders (~12,000 rows) -- Customer orders
+ *     id integer PK
+ *     customer_id integer NOT NULL -> public.customers.id
+ *     indexes: (customer_id), UNIQUE (order_number)
+ *
+ * Single-column foreign keys are shown on the column so join keys are
+ * obvious; composite keys get their own line.
+ */
 export function schemaToPrompt(tables: TableInfo[]): string {
-  return tables
-    .map(
-      (t) =>
-        `${t.schema}.${t.name}: ${t.columns.map((c) => c.name).join(", ")}`,
-    )
-    .join("\n");
+  return tables.map(tableToPrompt).join("\n\n");
+}
+
+/**
+ * Render one table in the `schemaToPrompt` format.
+ */
+export function tableToPrompt(table: TableInfo): string {
+  let header = `${table.schema}.${table.name}`;
+  if (table.rowCount != null) {
+    header += ` (~${table.rowCount.toLocaleString("en-US")} rows)`;
+  }
+  if (table.comment) {
+    header += ` -- ${oneLine(table.comment)}`;
+  }
+
+  const inlineKeys = new Map<string, ForeignKeyInfo>();
+  const compositeKeys: ForeignKeyInfo[] = [];
+  for (const key of table.foreignKeys ?? []) {
+    if (key.columns.length === 1) inlineKeys.set(key.columns[0]!, key);
+    else compositeKeys.push(key);
+  }
+
+  const lines = [header];
+  for (const column of table.columns) {
+    lines.push(`  ${columnToPrompt(column, inlineKeys.get(column.name))}`);
+  }
+  for (const key of compositeKeys) {
+    lines.push(
+      `  foreign key (${key.columns.join(", ")}) -> ${key.referencedSchema}.${key.referencedTable} (${key.referencedColumns.join(", ")})`,
+    );
+  }
+  // Multi-column primary keys are flagged on each column; spell out the order
+  if (table.primaryKey && table.primaryKey.length > 1) {
+    lines.push(`  primary key (${table.primaryKey.join(", ")})`);
+  }
+  if (table.indexes && table.indexes.length > 0) {
+    const indexes = table.indexes.map(
+      (index) => `${index.unique ? "UNIQUE " : ""}(${index.columns.join(", ")})`,
+    );
+    lines.push(`  indexes: ${indexes.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function columnToPrompt(column: ColumnDetails, foreignKey?: ForeignKeyInfo): string {
+  let line = `${column.name} ${column.type}`;
+  if (column.primaryKey) {
+    line += " PK";
+  } else if (column.nullable === false) {
+    line += " NOT NULL";
+  }
+  if (foreignKey) {
+    line += ` -> ${foreignKey.referencedSchema}.${foreignKey.referencedTable}.${foreignKey.referencedColumns[0]}`;
+  }
+  if (column.comment) {
+    line += ` -- ${oneLine(column.comment)}`;
+  }
+  return line;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
 }
 
 export async function fetchSampleData(
@@ -0,0 +1,300 @@
+/**
+ * Schema retrieval for large databases.
+ *
+ * Warehouses with hundreds of tables don't fit in the system prompt. Above
+ * SCHEMA_PROMPT_MAX_TABLES tables the prompt only lists the tables, and the
+ * agent looks up the rest on demand: `search_schema` ranks tables against a
+ * question with BM25 over their names, comments and the user's annotations,
+ * and `describe_table` returns a table's full definition.
+ */
+
+import { z } from "zod";
+import type { ColumnAnnotation, TableAnnotation } from "./column-annotations-context";
+import { schemaToPrompt, tableToPrompt, type TableInfo } from "./schema-introspector";
+
+/**
+ * User annotations the index takes into account (the fields that carry text).
+ */
+export interface SchemaAnnotations {
+  tables?: Array<Pick<TableAnnotation, "tableName" | "displayName" | "description" | "businessContext">>;
+  columns?: Array<
+    Pick<ColumnAnnotation, "tableName" | "columnName" | "displayName" | "description" | "businessRule">
+  >;
+}
+
+export interface SchemaSearchResult {
+  /** `schema.table` */
+  table: string;
+  score: number;
+  rowCount?: number | null;
+  description?: string;
+  /** Columns that matched the query, most relevant first */
+  matchedColumns: string[];
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Table names count this many times more than the rest of the text */
+const NAME_WEIGHT = 3;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "by", "for", "from", "how", "in", "is", "of", "on",
+  "or", "per", "show", "the", "to", "what", "which", "with",
+]);
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Split text into search terms: identifiers are broken up at underscores and
+ * camelCase humps, and plurals are folded (`orderItems` -> order, item).
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith("ies")) return `${term.slice(0, -3)}y`;
+  if (term.length > 4 && /(ss|sh|ch|x)es$/.test(term)) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith("s") && !term.endsWith("ss")) return term.slice(0, -1);
+  return term;
+}
+
+interface IndexedTable {
+  info: TableInfo;
+  qualifiedName: string;
+  description?: string;
+  annotationText: string[];
+  /** Term frequencies over the whole table document */
+  terms: Map<string, number>;
+  length: number;
+  /** Search terms of each column, for reporting which columns matched */
+  columnTerms: Array<{ name: string; terms: Set<string> }>;
+}
+
+function countTerms(terms: string[], into: Map<string, number> = new Map()): Map<string, number> {
+  for (const term of terms) {
+    into.set(term, (into.get(term) ?? 0) + 1);
+  }
+  return into;
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+export class SchemaIndex {
+  private tables: IndexedTable[];
+  private documentFrequency = new Map<string, number>();
+  private averageLength: number;
+
+  constructor(tables: TableInfo[], annotations: SchemaAnnotations = {}) {
+    this.tables = tables.map((info) => SchemaIndex.indexTable(info, annotations));
+    for (const table of this.tables) {
+      for (const term of Array.from(table.terms.keys())) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    this.averageLength =
+      this.tables.reduce((sum, table) => sum + table.length, 0) / Math.max(this.tables.length, 1);
+  }
+
+  private static indexTable(info: TableInfo, annotations: SchemaAnnotations): IndexedTable {
+    const matches = (tableName: string) =>
+      tableName.toLowerCase() === info.name.toLowerCase() ||
+      tableName.toLowerCase() === `${info.schema}.${info.name}`.toLowerCase();
+
+    const tableNote = annotations.tables?.find((note) => matches(note.tableName));
+    const columnNotes = annotations.columns?.filter((note) => matches(note.tableName)) ?? [];
+
+    const annotationText: string[] = [];
+    if (tableNote) {
+      annotationText.push(
+        ...[tableNote.displayName, tableNote.description, tableNote.businessContext].filter(
+          (text): text is string => !!text,
+        ),
+      );
+    }
+
+    const terms = new Map<string, number>();
+    for (let i = 0; i < NAME_WEIGHT; i++) countTerms(tokenize(info.name), terms);
+    countTerms(tokenize([info.comment, ...annotationText].filter(Boolean).join(" ")), terms);
+
+    const columnTerms = info.columns.map((column) => {
+      const note = columnNotes.find((n) => n.columnName.toLowerCase() === column.name.toLowerCase());
+      const text = [column.name, column.comment, note?.displayName, note?.description, note?.businessRule]
+        .filter(Boolean)
+        .join(" ");
+      const tokens = tokenize(text);
+      countTerms(tokens, terms);
+      return { name: column.name, terms: new Set(tokens) };
+    });
+
+    const description = tableNote?.description || tableNote?.displayName || info.comment;
+    return {
+      info,
+      qualifiedName: `${info.schema}.${info.name}`,
+      description: description ? oneLine(description) : undefined,
+      annotationText,
+      terms,
+      length: Array.from(terms.values()).reduce((sum, count) => sum + count, 0),
+      columnTerms,
+    };
+  }
+
+  get size(): number {
+    return this.tables.length;
+  }
+
+  /**
+   * Rank tables against a question or keywords with BM25.
+   */
+  search(query: string, limit: number = 8): SchemaSearchResult[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const results: SchemaSearchResult[] = [];
+    for (const table of this.tables) {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = table.terms.get(term);
+        if (!frequency) continue;
+        const documents = this.documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (this.tables.length - documents + 0.5) / (documents + 0.5));
+        score +=
+          (idf * frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * table.length) / this.averageLength));
+      }
+      if (score <= 0) continue;
+
+      const matchedColumns = table.columnTerms
+        .map((column) => ({
+          name: column.name,
+          hits: queryTerms.filter((term) => column.terms.has(term)).length,
+        }))
+        .filter((column) => column.hits > 0)
+        .sort((a, b) => b.hits - a.hits)
+        .map((column) => column.name);
+
+      results.push({
+        table: table.qualifiedName,
+        score: Math.round(score * 100) / 100,
+        rowCount: table.info.rowCount,
+        ...(table.description && { description: table.description }),
+        matchedColumns,
+      });
+    }
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Find a table by `schema.table` or its bare name (case-insensitive).
+   */
+  find(name: string): TableInfo | null {
+    const wanted = name.trim().replace(/["`]/g, "").toLowerCase();
+    const table =
+      this.tables.find((t) => t.qualifiedName.toLowerCase() === wanted) ??
+      this.tables.find((t) => t.info.name.toLowerCase() === wanted);
+    return table?.info ?? null;
+  }
+
+  /**
+   * A table's full definition (columns, keys, indexes) with its annotations.
+   */
+  describe(name: string): string | null {
+    const info = this.find(name);
+    if (!info) return null;
+    const table = this.tables.find((t) => t.info === info)!;
+    const notes = table.annotationText.length > 0 ? `\n  notes: ${oneLine(table.annotationText.join(". "))}` : "";
+    return `${tableToPrompt(info)}${notes}`;
+  }
+
+  /**
+   * One line per table - name, size and description - for the system prompt.
+   */
+  tableList(): string {
+    return this.tables
+      .map((table) => {
+        let line = `${table.qualifiedName} (${table.info.columns.length} columns`;
+        if (table.info.rowCount != null) {
+          line += `, ~${table.info.rowCount.toLocaleString("en-US")} rows`;
+        }
+        line += ")";
+        if (table.description) line += ` -- ${table.description.slice(0, 120)}`;
+        return line;
+      })
+      .join("\n");
+  }
+}
+
+/**
+ * Whether a schema is too large to put in the prompt in full.
+ */
+export function needsSchemaRetrieval(tables: TableInfo[]): boolean {
+  return tables.length > envInt("SCHEMA_PROMPT_MAX_TABLES", 25);
+}
+
+/**
+ * The schema section of the agent's prompt: the full schema for small
+ * databases, otherwise the table list and how to look up details.
+ */
+export function schemaPromptFor(tables: TableInfo[], index: SchemaIndex): string {
+  if (!needsSchemaRetrieval(tables)) {
+    return schemaToPrompt(tables);
+  }
+  return `${tables.length} tables - only their names are listed here. Before writing SQL, call search_schema to find the tables relevant to the request and describe_table for their columns, keys and notes. Never guess column names.
+
+${index.tableList()}`;
+}
+
+/**
+ * `search_schema` and `describe_table` tools for the agent.
+ */
+export function createSchemaTools(index: SchemaIndex) {
+  return {
+    search_schema: {
+      description:
+        "Search the database schema for tables relevant to a question. Matches table and column names, comments and user annotations. Returns tables ranked by relevance, with the columns that matched.",
+      inputSchema: z.object({
+        query: z
+          .string()
+          .describe("Keywords or a question, e.g. 'customer churn by plan' or 'invoice payments'"),
+        limit: z.number().int().min(1).max(20).optional().describe("Maximum tables to return (default 8)"),
+      }),
+      execute: async ({ query, limit }: { query: string; limit?: number }) => {
+        const results = index.search(query, limit ?? 8);
+        return results.length > 0
+          ? { results }
+          : { results, hint: "No tables matched - try other words, or pick from the table list" };
+      },
+    },
+
+    describe_table: {
+      description:
+        "Get the full definition of a table: columns with types, primary and foreign keys, indexes, comments and user annotations.",
+      inputSchema: z.object({
+        table: z.string().describe("Table name, as schema.table or just the table name"),
+      }),
+      execute: async ({ table }: { table: string }) => {
+        const definition = index.describe(table);
+        if (definition) {
+          return { success: true, definition };
+        }
+        const suggestions = index.search(table, 3).map((result) => result.table);
+        return {
+          success: false,
+          error: `Table "${table}" not found${suggestions.length > 0 ? ` - did you mean ${suggestions.join(", ")}?` : ""}`,
+        };
+      },
+    },
+  };
+}
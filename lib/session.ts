@@ -0,0 +1,53 @@
+/**
+ * Anonymous browser sessions, identified by an HttpOnly cookie.
+ * Used to scope server-side state (uploaded datasets) to one browser.
+ */
+
+import { randomUUID } from "crypto";
+
+export const SESSION_COOKIE = "dashbee_session";
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read the session id from the request cookies, ignoring malformed values.
+ */
+export function getSessionId(req: Request): string | null {
+  const header = req.headers.get("cookie");
+  if (!header) return null;
+
+  for (const part of header.split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      const value = decodeURIComponent(rest.join("="));
+      return SESSION_ID_PATTERN.test(value) ? value : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the request's session id, creating one if needed.
+ * `isNew` tells the caller to send the cookie back with `sessionCookie()`.
+ */
+export function getOrCreateSessionId(req: Request): { sessionId: string; isNew: boolean } {
+  const existing = getSessionId(req);
+  return existing
+    ? { sessionId: existing, isNew: false }
+    : { sessionId: randomUUID(), isNew: true };
+}
+
+/**
+ * How long the session cookie lasts, in seconds. Connection profiles left
+ * unused for as long are deleted (see CredentialVault), so a session's
+ * profiles don't outlive it on disk.
+ */
+export const SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * Set-Cookie header value for a session id.
+ */
+export function sessionCookie(sessionId: string): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${sessionId}; Path=/; Max-Age=${SESSION_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`;
+}
@@ -1,6 +1,6 @@
 import { z } from "zod";
-import { executeQuery, DBConfig } from "./db";
-import { validateQuery } from "./query-validator";
+import { executeLimitedQuery, DBConfig } from "./db";
+import { validateQuery, formatValidationError } from "./query-validator";
 import { injectFilterParams } from "./filter-utils";
 import {
   FilterMeta,
@@ -8,6 +8,7 @@ import {
   validateFilterMeta,
 } from "./filter-metadata";
 import { SQLToolResult } from "./types/sql-tools";
+import { createSchemaTools, type SchemaIndex } from "./schema-search";
 
 // Re-export for backward compatibility
 export type { SQLToolResult };
@@ -20,17 +21,23 @@ export type { SQLToolResult };
  * @param dbConfig - Database connection configuration
  * @param schema - Database schema description for LLM
  * @param filterParams - Filter parameter values to inject into queries with {{placeholder}} syntax
+ * @param schemaIndex - Searchable schema; adds the search_schema and describe_table tools
  */
 export function createSQLTools(
   dbConfig?: DBConfig,
   schema?: string,
   filterParams?: Record<string, string>,
+  schemaIndex?: SchemaIndex,
 ) {
   return {
+    ...(schemaIndex && createSchemaTools(schemaIndex)),
     execute_sql: {
       description: `Execute a SQL SELECT query against the database and return the results.
 If the query fails, the error message will be returned so you can fix and retry.
 Only SELECT queries are allowed.
+Results are capped (MAX_QUERY_ROWS rows). When "truncated" is true you are seeing
+partial data ("totalRowsEstimate" is the full row count) - aggregate in SQL
+(GROUP BY, COUNT, SUM) instead of fetching raw rows.
 
 **NEW: Filter Metadata** (recommended)
 Instead of embedding filter placeholders in SQL, provide filterMeta to describe how 
@@ -97,15 +104,18 @@ Example:
             "Filter metadata describing how to apply user filters. When provided, filters are applied server-side with parameterized queries.",
           ),
       }),
-      execute: async ({
-        key,
-        sql,
-        filterMeta,
-      }: {
-        key: string;
-        sql: string;
-        filterMeta?: FilterMeta[];
-      }): Promise<SQLToolResult> => {
+      execute: async (
+        {
+          key,
+          sql,
+          filterMeta,
+        }: {
+          key: string;
+          sql: string;
+          filterMeta?: FilterMeta[];
+        },
+        options?: { abortSignal?: AbortSignal },
+      ): Promise<SQLToolResult> => {
         let finalSql: string;
         let params: unknown[] = [];
 
@@ -122,7 +132,9 @@ Example:
           }
 
           // Build parameterized query
-          const filtered = buildFilteredQuery(sql, filterMeta, filterParams);
+          const filtered = buildFilteredQuery(sql, filterMeta, filterParams, {
+            dialect: dbConfig?.type,
+          });
           finalSql = filtered.sql;
           params = filtered.params;
         } else {
@@ -131,23 +143,33 @@ Example:
         }
 
         // Validate the query structure
-        const queryValidation = validateQuery(finalSql);
+        const queryValidation = validateQuery(
+          finalSql,
+          dbConfig?.type || "postgresql",
+        );
         if (!queryValidation.valid) {
           return {
             key,
             success: false,
-            error: queryValidation.error,
+            error: formatValidationError(finalSql, queryValidation),
+            issues: queryValidation.issues,
           };
         }
 
         // Try to execute the query
         try {
-          const rows = await executeQuery(finalSql, params, dbConfig);
+          const result = await executeLimitedQuery(finalSql, params, dbConfig, {
+            signal: options?.abortSignal,
+          });
           return {
             key,
             success: true,
-            rows,
-            rowCount: rows.length,
+            rows: result.rows,
+            rowCount: result.rowCount,
+            ...(result.truncated && {
+              truncated: true,
+              totalRowsEstimate: result.totalRowsEstimate,
+            }),
           };
         } catch (err) {
           return {
@@ -8,6 +8,12 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import {
+  createLearning,
+  deleteKnowledgeEntry,
+  fetchKnowledge,
+  type KnowledgeConnection,
+} from "./knowledge-client";
 
 /**
  * SQLLearning represents a discovered pattern or fix from SQL errors.
@@ -23,6 +29,8 @@ export interface SQLLearning {
   column?: string; // Related column name
   createdAt: string;
   usageCount: number;
+  source?: "user" | "auto"; // "auto" when the agent captured it from a retried query
+  version?: number; // Server revision
 }
 
 interface SQLLearningsContextValue {
@@ -32,87 +40,94 @@ interface SQLLearningsContextValue {
   incrementUsage: (id: string) => void;
   searchLearnings: (errorMessage: string) => SQLLearning[];
   getLearningsForPrompt: () => string;
+  /** Switch to another database's learnings (null when no database is connected) */
+  setConnection: (connection: KnowledgeConnection | null) => void;
 }
 
 const SQLLearningsContext = createContext<SQLLearningsContextValue | null>(null);
 
-const STORAGE_KEY = "dashb-sql-learnings";
+// Learnings used to live in the browser; they move to the server on first load
+const LEGACY_STORAGE_KEY = "dashb-sql-learnings";
 
 interface SQLLearningsProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Learnings are stored on the server per database (/api/knowledge) and
+ * shared by everyone using it; the agent gets them in its system prompt.
+ */
 export function SQLLearningsProvider({ children }: SQLLearningsProviderProps) {
   const [learnings, setLearnings] = useState<SQLLearning[]>([]);
-  const [isLoaded, setIsLoaded] = useState(false);
+  const [connection, setConnectionState] = useState<KnowledgeConnection | null>(null);
 
-  // Load from localStorage on mount
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        setLearnings(JSON.parse(stored));
-      }
-    } catch (e) {
-      console.error("Failed to load SQL learnings:", e);
-    }
-    setIsLoaded(true);
+  const setConnection = useCallback((next: KnowledgeConnection | null) => {
+    // Callers pass a fresh object on every render; only reload on a real change
+    setConnectionState((prev) =>
+      JSON.stringify(prev) === JSON.stringify(next) ? prev : next,
+    );
   }, []);
 
-  // Save to localStorage when learnings change
+  // Load the connected database's learnings
   useEffect(() => {
-    if (isLoaded) {
+    if (!connection) {
+      setLearnings([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(learnings));
+        await migrateLegacyLearnings(connection);
+        const knowledge = await fetchKnowledge(connection);
+        if (!cancelled) setLearnings(knowledge.learnings);
       } catch (e) {
-        console.error("Failed to save SQL learnings:", e);
+        console.error("Failed to load SQL learnings:", e);
       }
-    }
-  }, [learnings, isLoaded]);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [connection]);
+
+  // Replace or add a learning returned by the server
+  const applyServerLearning = useCallback((saved: SQLLearning) => {
+    setLearnings((prev) =>
+      prev.some((l) => l.id === saved.id)
+        ? prev.map((l) => (l.id === saved.id ? saved : l))
+        : [saved, ...prev],
+    );
+  }, []);
 
   const saveLearning = useCallback(
     (learning: Omit<SQLLearning, "id" | "createdAt" | "usageCount">) => {
-      // Check for duplicate learnings
-      const existingIndex = learnings.findIndex(
-        (l) =>
-          l.title === learning.title ||
-          (l.errorPattern && l.errorPattern === learning.errorPattern)
-      );
-
-      if (existingIndex >= 0) {
-        // Update existing learning
-        setLearnings((prev) =>
-          prev.map((l, i) =>
-            i === existingIndex
-              ? { ...l, ...learning, usageCount: l.usageCount + 1 }
-              : l
-          )
-        );
-        return;
-      }
-
-      const newLearning: SQLLearning = {
-        ...learning,
-        id: `learning-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-        createdAt: new Date().toISOString(),
-        usageCount: 0,
-      };
-      setLearnings((prev) => [newLearning, ...prev].slice(0, 100)); // Keep max 100 learnings
+      if (!connection) return;
+      // The server updates an existing learning for the same error or title
+      const { source: _source, version: _version, ...input } = learning;
+      createLearning(connection, input)
+        .then(applyServerLearning)
+        .catch((e) => console.error("Failed to save SQL learning:", e));
     },
-    [learnings]
+    [connection, applyServerLearning]
   );
 
   const deleteLearning = useCallback((id: string) => {
+    if (!connection) return;
     setLearnings((prev) => prev.filter((l) => l.id !== id));
-  }, []);
-
-  const incrementUsage = useCallback((id: string) => {
-    setLearnings((prev) =>
-      prev.map((l) =>
-        l.id === id ? { ...l, usageCount: l.usageCount + 1 } : l
-      )
-    );
-  }, []);
+    deleteKnowledgeEntry(connection, id).catch((e) => console.error("Failed to delete SQL learning:", e));
+  }, [connection]);
+
+  const incrementUsage = useCallback(
+    (id: string) => {
+      const learning = learnings.find((l) => l.id === id);
+      if (!learning || !connection) return;
+      // Saving the same learning again counts as a use
+      const { title, learning: text, errorPattern, fixPattern, table, column } = learning;
+      createLearning(connection, { title, learning: text, errorPattern, fixPattern, table, column })
+        .then(applyServerLearning)
+        .catch((e) => console.error("Failed to update SQL learning:", e));
+    },
+    [learnings, connection, applyServerLearning]
+  );
 
   const searchLearnings = useCallback(
     (errorMessage: string): SQLLearning[] => {
@@ -163,6 +178,7 @@ ${learningLines.join("\n")}
         incrementUsage,
         searchLearnings,
         getLearningsForPrompt,
+        setConnection,
       }}
     >
       {children}
@@ -170,6 +186,19 @@ ${learningLines.join("\n")}
   );
 }
 
+/**
+ * Move learnings saved in this browser by older versions to the server.
+ */
+async function migrateLegacyLearnings(connection: KnowledgeConnection): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+  const legacy = JSON.parse(stored) as SQLLearning[];
+  for (const { title, learning, errorPattern, fixPattern, table, column } of legacy) {
+    await createLearning(connection, { title, learning, errorPattern, fixPattern, table, column });
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
 export function useSQLLearnings(): SQLLearningsContextValue {
   const context = useContext(SQLLearningsContext);
   if (!context) {
@@ -0,0 +1,350 @@
+/**
+ * Dialect-aware SQL tokenizer.
+ *
+ * Splits a SQL string into tokens while respecting string literals,
+ * quoted identifiers and comments, so callers can reason about the
+ * structure of a query without being fooled by `'pre--launch'` or
+ * `"update"` appearing inside literals.
+ *
+ * Used by the query validator, filter injection and row limiting.
+ */
+
+import type { DatabaseType } from "./db-adapters/types";
+
+export type SQLTokenType =
+  | "word" // Keywords and bare identifiers
+  | "quoted_identifier" // "col", `col`, [col]
+  | "string" // 'text', E'text', $$text$$
+  | "number"
+  | "parameter" // $1, ?, :name, @name
+  | "operator"
+  | "open_paren"
+  | "close_paren"
+  | "comma"
+  | "semicolon"
+  | "dot"
+  | "line_comment"
+  | "block_comment"
+  | "whitespace";
+
+export interface SQLToken {
+  type: SQLTokenType;
+  /** Raw token text as it appears in the SQL */
+  value: string;
+  /** Start offset (inclusive) in the source string */
+  start: number;
+  /** End offset (exclusive) in the source string */
+  end: number;
+  /** Parenthesis nesting depth at which the token appears */
+  depth: number;
+  /** Set when a string, identifier or comment is not closed */
+  unterminated?: boolean;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uFFFF]/;
+const WORD_PART = /[A-Za-z0-9_$\u0080-\uFFFF]/;
+const DIGIT = /[0-9]/;
+const OPERATOR_CHARS = "+-*/<>=!~^&|%@#:?";
+
+/**
+ * Find the end of a quoted section starting at `start` (which is the opening quote).
+ * Doubled quotes are treated as escapes; backslash escapes are honoured when requested.
+ */
+function scanQuoted(
+  sql: string,
+  start: number,
+  quote: string,
+  backslashEscapes: boolean,
+): { end: number; unterminated: boolean } {
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return { end: i + 1, unterminated: false };
+    }
+    i++;
+  }
+  return { end: sql.length, unterminated: true };
+}
+
+/**
+ * Tokenize a SQL string for the given dialect.
+ * Never throws: unterminated literals and comments are flagged on the token.
+ */
+export function tokenizeSQL(
+  sql: string,
+  dialect: DatabaseType = "postgresql",
+): SQLToken[] {
+  const tokens: SQLToken[] = [];
+  const isPostgres = dialect === "postgresql" || dialect === "demo";
+  const isMySQL = dialect === "mysql";
+  let depth = 0;
+  let i = 0;
+
+  const push = (
+    type: SQLTokenType,
+    start: number,
+    end: number,
+    unterminated = false,
+  ) => {
+    tokens.push({
+      type,
+      value: sql.slice(start, end),
+      start,
+      end,
+      depth,
+      ...(unterminated ? { unterminated } : {}),
+    });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i]!;
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && /\s/.test(sql[j]!)) j++;
+      push("whitespace", i, j);
+      i = j;
+      continue;
+    }
+
+    // Line comments: -- (all dialects), # (MySQL)
+    if ((ch === "-" && next === "-") || (isMySQL && ch === "#")) {
+      let j = i + 1;
+      while (j < sql.length && sql[j] !== "\n") j++;
+      push("line_comment", i, j);
+      i = j;
+      continue;
+    }
+
+    // Block comments (PostgreSQL allows nesting)
+    if (ch === "/" && next === "*") {
+      let j = i + 2;
+      let nesting = 1;
+      while (j < sql.length && nesting > 0) {
+        if (sql[j] === "*" && sql[j + 1] === "/") {
+          nesting--;
+          j += 2;
+        } else if (isPostgres && sql[j] === "/" && sql[j + 1] === "*") {
+          nesting++;
+          j += 2;
+        } else {
+          j++;
+        }
+      }
+      push("block_comment", i, j, nesting > 0);
+      i = j;
+      continue;
+    }
+
+    // Escape-string prefix (E'...') and national/binary prefixes (N'...', X'...')
+    if (/[EeNnXxBb]/.test(ch) && next === "'") {
+      const backslash = isMySQL || ch === "E" || ch === "e";
+      const { end, unterminated } = scanQuoted(sql, i + 1, "'", backslash);
+      push("string", i, end, unterminated);
+      i = end;
+      continue;
+    }
+
+    // Single-quoted strings
+    if (ch === "'") {
+      const { end, unterminated } = scanQuoted(sql, i, "'", isMySQL);
+      push("string", i, end, unterminated);
+      i = end;
+      continue;
+    }
+
+    // Double quotes: identifiers, except in MySQL where they are strings by default
+    if (ch === '"') {
+      const { end, unterminated } = scanQuoted(sql, i, '"', isMySQL);
+      push(isMySQL ? "string" : "quoted_identifier", i, end, unterminated);
+      i = end;
+      continue;
+    }
+
+    // Backtick identifiers (MySQL, SQLite)
+    if (ch === "`") {
+      const { end, unterminated } = scanQuoted(sql, i, "`", false);
+      push("quoted_identifier", i, end, unterminated);
+      i = end;
+      continue;
+    }
+
+    // Bracket identifiers (SQLite)
+    if (ch === "[" && dialect === "sqlite") {
+      const close = sql.indexOf("]", i + 1);
+      const end = close === -1 ? sql.length : close + 1;
+      push("quoted_identifier", i, end, close === -1);
+      i = end;
+      continue;
+    }
+
+    // PostgreSQL dollar-quoted strings ($$...$$, $tag$...$tag$) and $n parameters
+    if (ch === "$") {
+      if (next !== undefined && DIGIT.test(next)) {
+        let j = i + 1;
+        while (j < sql.length && DIGIT.test(sql[j]!)) j++;
+        push("parameter", i, j);
+        i = j;
+        continue;
+      }
+      if (isPostgres) {
+        const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+        if (tagMatch) {
+          const tag = tagMatch[0];
+          const close = sql.indexOf(tag, i + tag.length);
+          const end = close === -1 ? sql.length : close + tag.length;
+          push("string", i, end, close === -1);
+          i = end;
+          continue;
+        }
+      }
+    }
+
+    // Positional and named parameters
+    if (ch === "?") {
+      push("parameter", i, i + 1);
+      i++;
+      continue;
+    }
+    if (
+      (ch === ":" || ch === "@") &&
+      next !== undefined &&
+      WORD_START.test(next) &&
+      // Avoid PostgreSQL casts (::type)
+      sql[i - 1] !== ":"
+    ) {
+      if (!(ch === ":" && next === ":")) {
+        let j = i + 1;
+        while (j < sql.length && WORD_PART.test(sql[j]!)) j++;
+        push("parameter", i, j);
+        i = j;
+        continue;
+      }
+    }
+
+    // Numbers
+    if (DIGIT.test(ch) || (ch === "." && next !== undefined && DIGIT.test(next))) {
+      let j = i + 1;
+      while (j < sql.length && /[0-9.]/.test(sql[j]!)) j++;
+      if ((sql[j] === "e" || sql[j] === "E") && /[0-9+-]/.test(sql[j + 1] ?? "")) {
+        j += 2;
+        while (j < sql.length && DIGIT.test(sql[j]!)) j++;
+      }
+      push("number", i, j);
+      i = j;
+      continue;
+    }
+
+    // Words (keywords and identifiers)
+    if (WORD_START.test(ch)) {
+      let j = i + 1;
+      while (j < sql.length && WORD_PART.test(sql[j]!)) j++;
+      push("word", i, j);
+      i = j;
+      continue;
+    }
+
+    if (ch === "(") {
+      push("open_paren", i, i + 1);
+      depth++;
+      i++;
+      continue;
+    }
+    if (ch === ")") {
+      depth = Math.max(0, depth - 1);
+      push("close_paren", i, i + 1);
+      i++;
+      continue;
+    }
+    if (ch === ",") {
+      push("comma", i, i + 1);
+      i++;
+      continue;
+    }
+    if (ch === ";") {
+      push("semicolon", i, i + 1);
+      i++;
+      continue;
+    }
+    if (ch === ".") {
+      push("dot", i, i + 1);
+      i++;
+      continue;
+    }
+
+    // Operators (greedy run of operator characters)
+    if (OPERATOR_CHARS.includes(ch)) {
+      let j = i + 1;
+      while (
+        j < sql.length &&
+        OPERATOR_CHARS.includes(sql[j]!) &&
+        !(sql[j] === "-" && sql[j + 1] === "-") &&
+        !(sql[j] === "/" && sql[j + 1] === "*")
+      ) {
+        j++;
+      }
+      push("operator", i, j);
+      i = j;
+      continue;
+    }
+
+    // Anything else is a single-character operator
+    push("operator", i, i + 1);
+    i++;
+  }
+
+  return tokens;
+}
+
+/**
+ * Whether a token carries meaning (not whitespace or a comment).
+ */
+export function isSignificantToken(token: SQLToken): boolean {
+  return (
+    token.type !== "whitespace" &&
+    token.type !== "line_comment" &&
+    token.type !== "block_comment"
+  );
+}
+
+/**
+ * Tokenize and drop whitespace and comments.
+ */
+export function significantTokens(
+  sql: string,
+  dialect: DatabaseType = "postgresql",
+): SQLToken[] {
+  return tokenizeSQL(sql, dialect).filter(isSignificantToken);
+}
+
+/**
+ * Check whether a token is the given keyword (case-insensitive, bare words only).
+ */
+export function isKeyword(token: SQLToken | undefined, keyword: string): boolean {
+  return (
+    token !== undefined &&
+    token.type === "word" &&
+    token.value.toUpperCase() === keyword
+  );
+}
+
+/**
+ * Strip the quotes from an identifier token and return its bare name.
+ */
+export function identifierName(token: SQLToken): string {
+  if (token.type === "quoted_identifier") {
+    return token.value.slice(1, -1);
+  }
+  return token.value;
+}
@@ -5,6 +5,8 @@
  * consistent result structures.
  */
 
+import type { ValidationIssue } from "../query-validator";
+
 /**
  * Result from executing a SQL query through the agent tools.
  * Includes success status for LLM self-correction on errors.
@@ -18,6 +20,14 @@ export interface SQLToolResult {
   rows?: unknown[];
   /** Number of rows returned */
   rowCount?: number;
+  /** True when the rows are a partial result cut to the row/byte budget */
+  truncated?: boolean;
+  /** Number of rows the full query returns (when known) */
+  totalRowsEstimate?: number;
+  /** For uploaded files: whether the query ran on a sample or the complete file */
+  dataScope?: "sample" | "full";
   /** Error message (if failed) */
   error?: string;
+  /** Structured validation problems (position + reason) when the SQL was rejected */
+  issues?: ValidationIssue[];
 }
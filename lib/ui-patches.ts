@@ -0,0 +1,408 @@
+/**
+ * UI patches: applying the agent's JSON patches to a UI tree, and checking
+ * them against the component catalog and the queries that actually ran.
+ *
+ * The agent submits its patches through the render_ui tool. Violations -
+ * unknown component types, props that don't match the catalog schema,
+ * children that don't resolve, queryKeys without a successful query, columns
+ * missing from a query's results - are returned to the model as a tool
+ * error, so it repairs the dashboard before anything is rendered.
+ */
+
+import { z } from "zod";
+import { setByPath, type JsonPatch, type UIElement, type UITree } from "@json-render/core";
+import { sqlDashboardCatalog } from "./catalog";
+import type { SQLToolResult } from "./types/sql-tools";
+
+/**
+ * Apply a JSON patch to a tree, returning a new tree.
+ */
+export function applyPatch(tree: UITree, patch: JsonPatch): UITree {
+  const newTree = { ...tree, elements: { ...tree.elements } };
+
+  switch (patch.op) {
+    case "set":
+    case "add":
+    case "replace": {
+      if (patch.path === "/root") {
+        newTree.root = patch.value as string;
+        return newTree;
+      }
+
+      if (patch.path.startsWith("/elements/")) {
+        const pathParts = patch.path.slice("/elements/".length).split("/");
+        const elementKey = pathParts[0];
+
+        if (!elementKey) return newTree;
+
+        if (pathParts.length === 1) {
+          newTree.elements[elementKey] = patch.value as UIElement;
+        } else {
+          const element = newTree.elements[elementKey];
+          if (element && typeof element === "object") {
+            const propPath = "/" + pathParts.slice(1).join("/");
+            // setByPath mutates nested objects, which the previous tree shares
+            const newElement = structuredClone(element);
+            try {
+              setByPath(
+                newElement as unknown as Record<string, unknown>,
+                propPath,
+                patch.value,
+              );
+              newTree.elements[elementKey] = newElement;
+            } catch (err) {
+              console.warn("Failed to apply patch:", propPath, err);
+            }
+          }
+        }
+      }
+      break;
+    }
+    case "remove": {
+      if (patch.path.startsWith("/elements/")) {
+        const pathParts = patch.path.slice("/elements/".length).split("/");
+        const elementKey = pathParts[0];
+        const element = elementKey ? newTree.elements[elementKey] : undefined;
+        if (!elementKey || !element) break;
+
+        if (pathParts.length > 1) {
+          // Remove a prop (e.g. /elements/revenue-chart/props/title)
+          const newElement = structuredClone(element) as unknown as Record<string, unknown>;
+          let parent: Record<string, unknown> | undefined = newElement;
+          for (const part of pathParts.slice(1, -1)) {
+            const next: unknown = parent?.[part];
+            parent = next && typeof next === "object" ? (next as Record<string, unknown>) : undefined;
+          }
+          if (parent) delete parent[pathParts[pathParts.length - 1]!];
+          newTree.elements[elementKey] = newElement as unknown as UIElement;
+          break;
+        }
+
+        const { [elementKey]: _, ...rest } = newTree.elements;
+        // Unlink the element from its parent so no dangling child remains
+        newTree.elements = Object.fromEntries(
+          Object.entries(rest).map(([key, other]) => [
+            key,
+            other.children?.includes(elementKey)
+              ? { ...other, children: other.children.filter((child) => child !== elementKey) }
+              : other,
+          ]),
+        );
+      }
+      break;
+    }
+  }
+
+  return newTree;
+}
+
+const PATCH_OPS = new Set(["add", "set", "replace", "remove"]);
+
+/**
+ * Parse JSONL patches (one JSON object per line). Blank lines and `//`
+ * comments are skipped; anything else that isn't a patch is an error.
+ */
+export function parsePatchLines(text: string): { patches: JsonPatch[]; errors: string[] } {
+  const patches: JsonPatch[] = [];
+  const errors: string[] = [];
+  text.split("\n").forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("//")) return;
+    try {
+      const patch = JSON.parse(trimmed) as Partial<JsonPatch>;
+      if (!patch || !PATCH_OPS.has(patch.op as string) || typeof patch.path !== "string") {
+        errors.push(`Line ${index + 1}: expected {"op":"add"|"set"|"replace"|"remove","path":...}`);
+      } else if (patch.path !== "/root" && !patch.path.startsWith("/elements/")) {
+        errors.push(`Line ${index + 1}: path must be /root or /elements/<key>, got ${patch.path}`);
+      } else {
+        patches.push(patch as JsonPatch);
+      }
+    } catch {
+      errors.push(`Line ${index + 1}: not valid JSON`);
+    }
+  });
+  return { patches, errors };
+}
+
+type CatalogComponents = Record<string, { props: z.ZodObject<z.ZodRawShape> }>;
+
+/**
+ * Catalog fields are nullable rather than optional (for structured output),
+ * so a missing nullable field - at any depth - counts as null.
+ */
+function withNullDefaults(schema: z.ZodType, value: unknown): unknown {
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodOptional) {
+    return value == null ? value : withNullDefaults(schema.unwrap() as z.ZodType, value);
+  }
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item) => withNullDefaults(schema.element as z.ZodType, item));
+  }
+  if (schema instanceof z.ZodObject && value && typeof value === "object" && !Array.isArray(value)) {
+    const filled: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [field, fieldSchema] of Object.entries(schema.shape)) {
+      const fieldValue = filled[field];
+      filled[field] =
+        fieldValue === undefined && (fieldSchema as z.ZodType).safeParse(null).success
+          ? null
+          : withNullDefaults(fieldSchema as z.ZodType, fieldValue);
+    }
+    return filled;
+  }
+  return value;
+}
+
+/**
+ * Check props against a component's schema.
+ */
+function validateProps(key: string, type: string, props: Record<string, unknown>): string[] {
+  const schema = (sqlDashboardCatalog.components as unknown as CatalogComponents)[type]!.props;
+  const result = schema.safeParse(withNullDefaults(schema, props));
+  if (result.success) return [];
+  return result.error.issues.map(
+    (issue) => `Element "${key}" (${type}): props.${issue.path.join(".") || "(root)"} ${issue.message}`,
+  );
+}
+
+/**
+ * Result columns an element reads: *Column props, Metric's valuePath and
+ * Table column keys. Filter's `column` is a database column, not a result
+ * column.
+ */
+function referencedColumns(props: Record<string, unknown>): string[] {
+  const columns: string[] = [];
+  for (const [field, value] of Object.entries(props)) {
+    if ((field.endsWith("Column") || field === "valuePath") && typeof value === "string" && value) {
+      columns.push(value);
+    }
+  }
+  if (Array.isArray(props.columns)) {
+    for (const column of props.columns) {
+      const key = (column as { key?: unknown } | null)?.key;
+      if (typeof key === "string") columns.push(key);
+    }
+  }
+  return columns;
+}
+
+export interface UIValidatorOptions {
+  /** The dashboard being edited (follow-up requests) */
+  tree?: UITree;
+  /** Queries that already back the dashboard; their result columns aren't known here */
+  queryKeys?: string[];
+  /** Component types the agent may use (default: the whole catalog) */
+  components?: string[];
+}
+
+/**
+ * Tracks the tree the agent has rendered so far and the queries that
+ * succeeded, and validates each batch of patches against them.
+ */
+export class UIPatchValidator {
+  private tree: UITree;
+  /** Result columns per successful query (null when unknown, e.g. no rows) */
+  private queries = new Map<string, string[] | null>();
+  private components: Set<string>;
+  /** Violations of the last rejected batch, cleared once a batch is accepted */
+  lastViolations: string[] = [];
+  /** Number of accepted batches */
+  accepted = 0;
+
+  constructor(options: UIValidatorOptions = {}) {
+    this.tree = options.tree ?? { root: "", elements: {} };
+    for (const key of options.queryKeys ?? []) {
+      this.queries.set(key, null);
+    }
+    this.components = new Set(
+      (options.components ?? sqlDashboardCatalog.componentNames).filter((name) =>
+        sqlDashboardCatalog.hasComponent(name),
+      ),
+    );
+  }
+
+  /** The tree as of the last accepted batch */
+  get renderedTree(): UITree {
+    return this.tree;
+  }
+
+  /**
+   * Record an execute_sql result: successful queries become valid queryKeys.
+   */
+  recordQuery(result: SQLToolResult): void {
+    if (!result.success) {
+      this.queries.delete(result.key);
+      return;
+    }
+    const firstRow = result.rows?.[0];
+    this.queries.set(
+      result.key,
+      firstRow && typeof firstRow === "object" ? Object.keys(firstRow as object) : null,
+    );
+  }
+
+  /**
+   * Validate patches against the current tree. Accepted patches become part
+   * of the tree; rejected batches leave it unchanged.
+   */
+  submit(patches: JsonPatch[]): { success: boolean; violations: string[] } {
+    let tree = this.tree;
+    const touched = new Set<string>();
+    for (const patch of patches) {
+      tree = applyPatch(tree, patch);
+      const key = patch.path.startsWith("/elements/")
+        ? patch.path.slice("/elements/".length).split("/")[0]
+        : undefined;
+      // Removing a whole element leaves nothing to check; removing a prop does
+      if (key && (patch.op !== "remove" || patch.path.split("/").length > 3)) touched.add(key);
+    }
+
+    const violations = this.check(tree, touched);
+    this.lastViolations = violations;
+    if (violations.length === 0) {
+      this.tree = tree;
+      this.accepted++;
+    }
+    return { success: violations.length === 0, violations };
+  }
+
+  private check(tree: UITree, touched: Set<string>): string[] {
+    const violations: string[] = [];
+
+    if (!tree.root) {
+      violations.push('The dashboard has no root - add {"op":"set","path":"/root","value":"<element key>"}');
+    } else if (!tree.elements[tree.root]) {
+      violations.push(`/root is "${tree.root}", but no element has that key`);
+    }
+
+    for (const [key, element] of Object.entries(tree.elements)) {
+      // Dangling children break rendering wherever they are
+      for (const child of element?.children ?? []) {
+        if (!tree.elements[child]) {
+          violations.push(`Element "${key}": child "${child}" does not exist`);
+        }
+      }
+      if (touched.has(key)) {
+        violations.push(...this.checkElement(key, element));
+      }
+    }
+    return violations;
+  }
+
+  private checkElement(key: string, element: UIElement | undefined): string[] {
+    if (!element || typeof element !== "object") {
+      return [`Element "${key}" must be an object like {"key":"${key}","type":...,"props":{...}}`];
+    }
+    if (element.key !== key) {
+      return [`Element at /elements/${key} has key "${element.key}" - the two must match`];
+    }
+    if (!this.components.has(element.type)) {
+      return [
+        `Element "${key}": unknown component type "${element.type}". Use one of: ${Array.from(this.components).join(", ")}`,
+      ];
+    }
+    if (element.children !== undefined && !Array.isArray(element.children)) {
+      return [`Element "${key}": children must be an array of element keys`];
+    }
+
+    const props = (element.props ?? {}) as Record<string, unknown>;
+    const violations = validateProps(key, element.type, props);
+
+    const queryKey = props.queryKey;
+    if (typeof queryKey === "string") {
+      if (!this.queries.has(queryKey)) {
+        const known = Array.from(this.queries.keys());
+        violations.push(
+          `Element "${key}": queryKey "${queryKey}" has no successful query - run it with execute_sql first` +
+            (known.length > 0 ? ` (successful queries: ${known.join(", ")})` : ""),
+        );
+      } else {
+        const columns = this.queries.get(queryKey);
+        for (const column of columns ? referencedColumns(props) : []) {
+          if (!columns!.includes(column)) {
+            violations.push(
+              `Element "${key}": column "${column}" is not in the results of "${queryKey}" (columns: ${columns!.join(", ")})`,
+            );
+          }
+        }
+      }
+    }
+    // Filters read range bounds and dropdown options from lookup queries
+    for (const field of ["boundsQueryKey", "optionsQueryKey"]) {
+      const lookupKey = props[field];
+      if (typeof lookupKey === "string" && !this.queries.has(lookupKey)) {
+        violations.push(
+          `Element "${key}": ${field} "${lookupKey}" has no successful query - run it with execute_sql first`,
+        );
+      }
+    }
+    // Insights name the queries they describe
+    if (Array.isArray(props.queryKeys)) {
+      for (const insightKey of props.queryKeys) {
+        if (typeof insightKey === "string" && !this.queries.has(insightKey)) {
+          violations.push(`Element "${key}": queryKeys entry "${insightKey}" has no successful query - run it with execute_sql first`);
+        }
+      }
+    }
+    return violations;
+  }
+}
+
+/**
+ * The render_ui tool: the only way the agent outputs UI. Accepted patches
+ * are streamed to the client by the route.
+ */
+export function createRenderUITool(validator: UIPatchValidator) {
+  return {
+    render_ui: {
+      description: `Render the dashboard UI. Call this ONCE after all execute_sql queries succeed, with every UI patch.
+The patches are checked against the component catalog and your query results:
+component types and props must match the catalog, children must exist, every queryKey
+must belong to a successful query, and column props must be columns of that query's results.
+If success is false, NOTHING was rendered: fix every violation and call render_ui again
+with the complete corrected set of patches.`,
+      inputSchema: z.object({
+        patches: z
+          .string()
+          .describe(
+            'UI patches as JSONL, one JSON object per line, e.g. {"op":"set","path":"/root","value":"main-card"}',
+          ),
+      }),
+      execute: async ({ patches }: { patches: string }) => {
+        const parsed = parsePatchLines(patches);
+        if (parsed.errors.length > 0 || parsed.patches.length === 0) {
+          const violations = parsed.errors.length > 0 ? parsed.errors : ["No patches were given"];
+          validator.lastViolations = violations;
+          return { success: false, error: "The patches could not be parsed", violations };
+        }
+        const result = validator.submit(parsed.patches);
+        return result.success
+          ? { success: true, patchesApplied: parsed.patches.length }
+          : {
+              success: false,
+              error: `The UI has ${result.violations.length} problem(s) and was not rendered`,
+              violations: result.violations,
+            };
+      },
+    },
+  };
+}
+
+/**
+ * Record execute_sql results with the validator so render_ui knows which
+ * queries succeeded and what columns they returned.
+ */
+export function trackQueryResults<
+  T extends { execute_sql: { execute: (...args: never[]) => Promise<SQLToolResult> } },
+>(tools: T, validator: UIPatchValidator): T {
+  const execute = tools.execute_sql.execute;
+  return {
+    ...tools,
+    execute_sql: {
+      ...tools.execute_sql,
+      execute: async (...args: Parameters<typeof execute>) => {
+        const result = await execute(...args);
+        validator.recordQuery(result);
+        return result;
+      },
+    },
+  };
+}
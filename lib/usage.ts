@@ -0,0 +1,339 @@
+/**
+ * Token and cost accounting for dashboard generation (server-only).
+ *
+ * The agent route meters every step of a generation (tokens, tool calls),
+ * estimates its cost from a per-model price table and streams the summary
+ * back to the client. Token budgets cap a single generation
+ * (TOKEN_BUDGET_PER_REQUEST) and all of the server's model calls per UTC
+ * day (TOKEN_BUDGET_PER_DAY). A generation that runs over its budget gets
+ * one last step to render what it has, then stops.
+ */
+
+import type { LanguageModelUsage } from "ai";
+
+/**
+ * Usage of one generation, as sent to the client and stored in history.
+ */
+export interface GenerationUsage {
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  steps: number;
+  toolCalls: number;
+  /** Estimated cost in USD; null when the model's prices are unknown */
+  estimatedCostUsd: number | null;
+  /** The token budget this generation ran with, if any */
+  budget: number | null;
+  /** Which budget stopped the agent early */
+  budgetExceeded?: "request" | "daily";
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of the models the router uses by default. Override or extend
+ * them with MODEL_PRICES, e.g. `{"anthropic/claude-sonnet-4.5":{"input":3,"output":15}}`.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "anthropic/claude-haiku-4.5": { input: 1, output: 5 },
+  "anthropic/claude-sonnet-4.5": { input: 3, output: 15 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5.1": { input: 1.25, output: 10 },
+};
+
+function envInt(name: string, fallback: number): number {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function configuredPrices(): Record<string, ModelPrice> {
+  const raw = process.env.MODEL_PRICES;
+  if (!raw) return MODEL_PRICES;
+  try {
+    return { ...MODEL_PRICES, ...(JSON.parse(raw) as Record<string, ModelPrice>) };
+  } catch {
+    console.warn("[usage] MODEL_PRICES is not valid JSON - using the built-in prices");
+    return MODEL_PRICES;
+  }
+}
+
+/**
+ * Look up a model's price. Local models and OpenRouter's `:free` variants
+ * cost nothing; provider prefixes (`google/gemini-2.5-flash`) are ignored
+ * when the full id isn't listed.
+ */
+export function getModelPrice(provider: string, modelId: string): ModelPrice | null {
+  if (provider === "ollama" || modelId.endsWith(":free")) {
+    return { input: 0, output: 0 };
+  }
+  const prices = configuredPrices();
+  return prices[modelId] ?? prices[modelId.slice(modelId.indexOf("/") + 1)] ?? null;
+}
+
+/**
+ * Estimated cost in USD, or null when the model's prices are unknown.
+ */
+export function estimateCost(
+  provider: string,
+  modelId: string,
+  inputTokens: number,
+  outputTokens: number,
+): number | null {
+  const price = getModelPrice(provider, modelId);
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Accumulates a generation's usage from its stream parts.
+ */
+export class UsageMeter {
+  provider = "unknown";
+  model = "unknown";
+  inputTokens = 0;
+  outputTokens = 0;
+  totalTokens = 0;
+  steps = 0;
+  toolCalls = 0;
+
+  constructor(readonly budget: number | null = null) {}
+
+  setModel(provider: string, model: string): void {
+    this.provider = provider;
+    this.model = model;
+  }
+
+  addStep(usage: LanguageModelUsage): void {
+    const input = usage.inputTokens ?? 0;
+    const output = usage.outputTokens ?? 0;
+    this.inputTokens += input;
+    this.outputTokens += output;
+    this.totalTokens += usage.totalTokens ?? input + output;
+    this.steps++;
+  }
+
+  addToolCall(): void {
+    this.toolCalls++;
+  }
+
+  summary(budgetExceeded?: GenerationUsage["budgetExceeded"]): GenerationUsage {
+    return {
+      provider: this.provider,
+      model: this.model,
+      inputTokens: this.inputTokens,
+      outputTokens: this.outputTokens,
+      totalTokens: this.totalTokens,
+      steps: this.steps,
+      toolCalls: this.toolCalls,
+      estimatedCostUsd: estimateCost(this.provider, this.model, this.inputTokens, this.outputTokens),
+      budget: this.budget,
+      ...(budgetExceeded && { budgetExceeded }),
+    };
+  }
+}
+
+/**
+ * Total tokens of the steps run so far.
+ */
+export function tokensUsed(steps: Array<{ usage: LanguageModelUsage }>): number {
+  return steps.reduce(
+    (sum, step) =>
+      sum + (step.usage.totalTokens ?? (step.usage.inputTokens ?? 0) + (step.usage.outputTokens ?? 0)),
+    0,
+  );
+}
+
+/**
+ * Stops an agent that has used up its token budget. Once the budget is
+ * spent, the agent gets one final step that may only call `finalTool`
+ * (render_ui), so the user still sees a dashboard built from the queries
+ * that already succeeded - unless it has rendered one already.
+ */
+export class TokenBudget<TOOL extends string = string> {
+  exceeded = false;
+  private finalStepGiven = false;
+
+  constructor(
+    readonly limit: number | null,
+    private readonly options: {
+      /** Tool the final step must call */
+      finalTool: TOOL;
+      /** Whether the agent already produced output, so no final step is needed */
+      isDone: () => boolean;
+      /** System prompt for the final step */
+      finalSystem: string;
+    },
+  ) {}
+
+  private check(steps: Array<{ usage: LanguageModelUsage }>): boolean {
+    if (this.limit !== null && tokensUsed(steps) >= this.limit) {
+      this.exceeded = true;
+    }
+    return this.exceeded;
+  }
+
+  /** For streamText's `stopWhen` */
+  readonly stopWhen = ({ steps }: { steps: Array<{ usage: LanguageModelUsage }> }): boolean =>
+    this.check(steps) && (this.finalStepGiven || this.options.isDone());
+
+  /** For streamText's `prepareStep` */
+  readonly prepareStep = ({
+    steps,
+  }: {
+    steps: Array<{ usage: LanguageModelUsage }>;
+  }): {
+    activeTools?: TOOL[];
+    toolChoice?: { type: "tool"; toolName: TOOL };
+    system?: string;
+  } => {
+    if (!this.check(steps) || this.finalStepGiven || this.options.isDone()) return {};
+    this.finalStepGiven = true;
+    return {
+      activeTools: [this.options.finalTool],
+      toolChoice: { type: "tool", toolName: this.options.finalTool },
+      system: this.options.finalSystem,
+    };
+  };
+}
+
+/**
+ * A generation's share of the daily budget, held from its start until it
+ * settles with the tokens it actually used. Settling twice is a no-op.
+ */
+export interface UsageReservation {
+  readonly tokens: number;
+  settle(tokens: number, now?: number): void;
+}
+
+/**
+ * Tokens used on this server per UTC day, for TOKEN_BUDGET_PER_DAY. The
+ * budget belongs to the server rather than a session, which a client can
+ * reset by dropping its cookie. Running generations count with their
+ * reservation until they settle, so concurrent ones can't overspend it.
+ */
+export class UsageLedger {
+  private day = "";
+  private settled = 0;
+  private reservations = new Set<UsageReservation>();
+
+  private rollOver(now: number): void {
+    const day = new Date(now).toISOString().slice(0, 10);
+    if (day !== this.day) {
+      this.day = day;
+      this.settled = 0;
+    }
+  }
+
+  used(now: number = Date.now()): number {
+    this.rollOver(now);
+    let reserved = 0;
+    for (const reservation of this.reservations) reserved += reservation.tokens;
+    return this.settled + reserved;
+  }
+
+  record(tokens: number, now: number = Date.now()): void {
+    this.rollOver(now);
+    this.settled += tokens;
+  }
+
+  reserve(tokens: number): UsageReservation {
+    const reservation: UsageReservation = {
+      tokens,
+      settle: (used, now = Date.now()) => {
+        if (this.reservations.delete(reservation)) this.record(used, now);
+      },
+    };
+    this.reservations.add(reservation);
+    return reservation;
+  }
+}
+
+// Singleton instance for the server
+let globalLedger: UsageLedger | null = null;
+
+export function getUsageLedger(): UsageLedger {
+  if (!globalLedger) {
+    globalLedger = new UsageLedger();
+  }
+  return globalLedger;
+}
+
+/** What a generation without a request budget reserves of the daily budget */
+export const GENERATION_ESTIMATE = 50_000;
+
+export type ResolvedTokenBudget =
+  | { success: true; limit: number | null; kind: "request" | "daily"; reservation: UsageReservation }
+  | { success: false; error: string };
+
+/**
+ * Work out a model call's token budget: TOKEN_BUDGET_PER_REQUEST (a client
+ * may ask for less, not more), capped by what is left of the server's
+ * TOKEN_BUDGET_PER_DAY. Unset or 0 means no limit.
+ *
+ * Reserves the request budget (or `estimate` without one) in the ledger;
+ * settle the reservation with the tokens used once the call is done.
+ */
+export function resolveTokenBudget(
+  requested?: number,
+  {
+    estimate = GENERATION_ESTIMATE,
+    ledger = getUsageLedger(),
+    now = Date.now(),
+  }: { estimate?: number; ledger?: UsageLedger; now?: number } = {},
+): ResolvedTokenBudget {
+  const perRequest = envInt("TOKEN_BUDGET_PER_REQUEST", 0);
+  const perDay = envInt("TOKEN_BUDGET_PER_DAY", 0);
+
+  let limit: number | null = perRequest > 0 ? perRequest : null;
+  if (typeof requested === "number" && Number.isFinite(requested) && requested > 0) {
+    limit = limit === null ? Math.floor(requested) : Math.min(limit, Math.floor(requested));
+  }
+  let kind: "request" | "daily" = "request";
+  let reserve = limit ?? estimate;
+
+  if (perDay > 0) {
+    const remaining = perDay - ledger.used(now);
+    if (remaining <= 0) {
+      return {
+        success: false,
+        error: `Daily token budget of ${perDay.toLocaleString("en-US")} tokens used up - try again tomorrow`,
+      };
+    }
+    if (limit === null || remaining < limit) {
+      limit = remaining;
+      kind = "daily";
+    }
+    reserve = Math.min(reserve, remaining);
+  }
+  return { success: true, limit, kind, reservation: ledger.reserve(reserve) };
+}
+
+/**
+ * Run a single model call on a reservation from resolveTokenBudget, settling
+ * it with the call's usage (or nothing, when the call failed).
+ */
+export async function settleAfter<T>(
+  reservation: UsageReservation,
+  call: () => Promise<T>,
+  usage: (result: T) => LanguageModelUsage,
+): Promise<T> {
+  let tokens = 0;
+  try {
+    const result = await call();
+    tokens = tokensUsed([{ usage: usage(result) }]);
+    return result;
+  } finally {
+    reservation.settle(tokens);
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("@/lib/db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/db")>()),
+  executeLimitedQuery: vi.fn(),
+}));
+vi.mock("@/lib/schema-introspector", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/schema-introspector")>()),
+  introspectSchema: vi.fn(),
+}));
+
+import { POST } from "@/app/api/execute-queries/route";
+import { apiCache } from "@/lib/api-cache";
+import { executeLimitedQuery } from "@/lib/db";
+import { introspectSchema } from "@/lib/schema-introspector";
+
+const orders = [
+  { date: "2026-03-10", amount: 100 },
+  { date: "2026-03-20", amount: 50 },
+  { date: "2026-02-10", amount: 30 },
+];
+
+function request(body: unknown): Request {
+  return new Request("http://localhost/api/execute-queries", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("execute-queries comparison", () => {
+  beforeEach(() => {
+    apiCache.clear();
+  });
+
+  it("compares queries whose date filters were inferred", async () => {
+    const response = await POST(
+      request({
+        queries: [{ key: "total", sql: "SELECT MAX(date) AS latest, SUM(amount) AS total FROM orders" }],
+        filterParams: { date_from: "2026-03-01", date_to: "2026-03-31" },
+        comparison: "previous-period",
+        dataSourceType: "file",
+        filesData: [{ tableName: "orders", data: orders }],
+      }),
+    );
+    const body = await response.json();
+
+    expect(body.results.total).toEqual([{ latest: "2026-03-20", total: 150 }]);
+    expect(body.comparisonResults.total).toEqual([{ latest: "2026-02-10", total: 30 }]);
+    expect(body.comparison.ranges).toEqual({ date: { from: "2026-01-29", to: "2026-02-28" } });
+  });
+});
+
+describe("execute-queries cross filters", () => {
+  beforeEach(() => {
+    apiCache.clear();
+  });
+
+  it("runs the queries unfiltered when the schema can't be read", async () => {
+    vi.mocked(introspectSchema).mockRejectedValueOnce(new Error("permission denied for schema"));
+    vi.mocked(executeLimitedQuery).mockResolvedValue({ rows: [{ total: 180 }], rowCount: 1, truncated: false });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await POST(
+      request({
+        queries: [{ key: "total", sql: "SELECT SUM(amount) AS total FROM orders" }],
+        crossFilters: [{ column: "region", value: "North", sourceQueryKey: "by-region" }],
+        dbConfig: { type: "postgresql", host: "localhost", port: 5432, database: "demo", user: "u", password: "p" },
+      }),
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.results.total).toEqual([{ total: 180 }]);
+    expect(executeLimitedQuery).toHaveBeenCalledWith(
+      "SELECT SUM(amount) AS total FROM orders",
+      [],
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(consoleError).toHaveBeenCalledWith(
+      "Failed to introspect schema for cross filters:",
+      expect.any(Error),
+    );
+    consoleError.mockRestore();
+  });
+});
@@ -1,18 +1,22 @@
 import { test, expect } from "@playwright/test";
+import { replayLLM } from "./fixtures/llm-replay";
 
 /**
  * E2E tests for the Chart Refinement Panel feature.
  * These tests verify the column selectors and chart type switching work in fullscreen mode.
  *
  * Note: These tests depend on dashboard generation which can be slow.
- * They are marked with @slow tag for CI filtering.
+ * They are marked with @slow tag for CI filtering; with E2E_LLM_REPLAY set
+ * they replay recorded responses instead (see fixtures/llm-replay.ts).
  */
 
 test.describe("Chart Refinement Panel", () => {
   // Increase timeout for these tests since they depend on LLM generation
   test.setTimeout(180000);
 
-  test("fullscreen mode shows chart refinement controls @postgres @slow", async ({ page }) => {
+  test("fullscreen mode shows chart refinement controls @postgres @slow", async ({ page }, testInfo) => {
+    await replayLLM(page, testInfo);
+
     // Navigate to the app
     await page.goto("/");
 
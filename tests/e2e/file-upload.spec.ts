@@ -0,0 +1,32 @@
+import path from "path";
+import { test, expect } from "@playwright/test";
+import { replayLLM } from "./fixtures/llm-replay";
+
+/**
+ * E2E test for building a dashboard from an uploaded file.
+ *
+ * The model replays the committed tests/fixtures/llm-replay/file-upload-dashboard.json,
+ * and the uploaded CSV is queried in memory, so this runs without a
+ * database or API keys. Its SQL and UI patches still go through the real
+ * tools and validation.
+ */
+
+test.describe("File Upload Dashboard", () => {
+  test("generates a dashboard from an uploaded CSV", async ({ page }, testInfo) => {
+    await replayLLM(page, testInfo, "file-upload-dashboard");
+
+    await page.goto("/dashboard");
+    await expect(page.getByText("Choose Data Source")).toBeVisible({ timeout: 10000 });
+
+    // The table is named after the file: "sample"
+    await page
+      .locator('input[type="file"]')
+      .first()
+      .setInputFiles(path.join(process.cwd(), "tests", "fixtures", "sample.csv"));
+
+    // Uploading triggers the initial dashboard
+    await expect(page.getByText("Scores by City")).toBeVisible({ timeout: 60000 });
+    await expect(page.getByText("Average Score by City")).toBeVisible();
+    await expect(page.getByText("People", { exact: true })).toBeVisible();
+  });
+});
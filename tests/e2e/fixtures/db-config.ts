@@ -12,6 +12,7 @@
  */
 
 import { test as base, expect } from "@playwright/test";
+import { replayLLM } from "./llm-replay";
 
 // Database configuration interface matching the app's expected format
 export interface DBConfig {
@@ -69,7 +70,7 @@ export const dbConfigs: Record<string, DBConfig> = {
 
 // Extended test fixture that injects DB config into localStorage
 // Using auto: true ensures this fixture runs for every test automatically
-export const test = base.extend<{ dbConfig: DBConfig }>({
+export const test = base.extend<{ dbConfig: DBConfig; llmReplay: void }>({
   dbConfig: [async ({ page }, use, testInfo) => {
     const projectName = testInfo.project.name;
     const config = dbConfigs[projectName] || dbConfigs.postgres;
@@ -81,6 +82,12 @@ export const test = base.extend<{ dbConfig: DBConfig }>({
 
     await use(config);
   }, { auto: true }],
+
+  // Recorded LLM responses instead of a live model when E2E_LLM_REPLAY is set
+  llmReplay: [async ({ page }, use, testInfo) => {
+    await replayLLM(page, testInfo);
+    await use();
+  }, { auto: true }],
 });
 
 export { expect };
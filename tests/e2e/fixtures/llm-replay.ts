@@ -0,0 +1,48 @@
+/**
+ * Offline LLM for E2E tests.
+ *
+ * With E2E_LLM_REPLAY set, generation requests use the replay model
+ * (lib/llm-replay.ts) with one fixture per test, so specs that generate
+ * dashboards run in seconds without API keys or network access.
+ *
+ *   # Record fixtures once against a real model
+ *   LLM_REPLAY_RECORD=openrouter:openai/gpt-4o E2E_LLM_REPLAY=1 pnpm test:e2e
+ *   # Replay them (CI, offline)
+ *   E2E_LLM_REPLAY=1 pnpm test:e2e
+ *
+ * Specs can also name a committed fixture, which is always replayed
+ * (see file-upload.spec.ts and tests/fixtures/llm-replay/).
+ */
+
+import type { Page, TestInfo } from "@playwright/test";
+
+const GENERATION_ROUTES = ["**/api/generate-agentic", "**/api/generate-questions"];
+
+/**
+ * Fixture name for a test: its project (the SQL differs per database), file
+ * and title, e.g. "postgres-chart-refinement-fullscreen-mode-shows-chart-refinement-controls".
+ */
+export function replayFixtureName(testInfo: TestInfo): string {
+  const file = testInfo.file.split(/[\\/]/).pop()!.replace(/\.spec\.ts$/, "");
+  return [testInfo.project.name, file, testInfo.title]
+    .join("-")
+    .toLowerCase()
+    .replace(/@\w+/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Send the page's generation requests to the replay model: always for a
+ * named fixture, otherwise only when E2E_LLM_REPLAY is set.
+ */
+export async function replayLLM(page: Page, testInfo: TestInfo, fixture?: string): Promise<void> {
+  if (!fixture && !process.env.E2E_LLM_REPLAY) return;
+  const modelSettings = { provider: "replay", model: fixture ?? replayFixtureName(testInfo) };
+  for (const pattern of GENERATION_ROUTES) {
+    await page.route(pattern, async (route) => {
+      const body = route.request().postDataJSON() as Record<string, unknown> | null;
+      await route.continue({ postData: JSON.stringify({ ...body, modelSettings }) });
+    });
+  }
+}
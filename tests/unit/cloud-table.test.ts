@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { readFile } from "fs/promises";
+import path from "path";
+import * as parquet from "parquet-wasm/esm";
+import * as arrow from "apache-arrow";
+import {
+  createObjectStore,
+  globToRegExp,
+  globPrefix,
+  parseCloudUri,
+  resolveObjects,
+  type ObjectStore,
+} from "@/lib/cloud-storage";
+import {
+  CloudTable,
+  detectCloudFormat,
+  referencedColumns,
+  referencesTable,
+} from "@/lib/cloud-table";
+
+/**
+ * In-memory bucket that records how many bytes each read fetched.
+ */
+function createMemoryStore(objects: Record<string, Uint8Array>) {
+  const stats = { bytesRead: 0, streamedChunks: 0 };
+  const store: ObjectStore = {
+    async list(prefix) {
+      return Object.entries(objects)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, bytes]) => ({ key, size: bytes.length }));
+    },
+    async readRange(key, start, end) {
+      stats.bytesRead += end - start;
+      return objects[key]!.slice(start, end);
+    },
+    async stream(key) {
+      const bytes = objects[key]!;
+      let offset = 0;
+      // Small chunks so early cancellation is observable
+      return new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (offset >= bytes.length) {
+            controller.close();
+            return;
+          }
+          stats.streamedChunks++;
+          controller.enqueue(bytes.slice(offset, offset + 64));
+          offset += 64;
+        },
+      });
+    },
+  };
+  return { store, stats };
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function writeParquetFile(rows: number, offset = 0): Uint8Array {
+  const table = arrow.tableFromArrays({
+    id: Int32Array.from({ length: rows }, (_, i) => i + offset),
+    region: Array.from({ length: rows }, (_, i) => ["North", "South", "East"][i % 3]!),
+    amount: Float64Array.from({ length: rows }, (_, i) => (i + offset) * 1.5),
+    // Unique values so this column dominates the file size
+    note: Array.from({ length: rows }, (_, i) => `note-${i}-${"x".repeat(40)}`),
+  });
+  const props = new parquet.WriterPropertiesBuilder().setMaxRowGroupSize(1000).build();
+  return parquet.writeParquet(
+    parquet.Table.fromIPCStream(arrow.tableToIPC(table, "stream")),
+    props,
+  );
+}
+
+describe("cloud object resolution", () => {
+  it("parses cloud URIs", () => {
+    expect(parseCloudUri("s3://bucket/events/2025-*/*.parquet")).toEqual({
+      provider: "s3",
+      bucket: "bucket",
+      pattern: "events/2025-*/*.parquet",
+    });
+    expect(parseCloudUri("gs://data/file.csv")?.provider).toBe("gcs");
+    expect(parseCloudUri("https://example.com/file.csv")).toBeNull();
+  });
+
+  it("matches globs within and across path segments", () => {
+    const regex = globToRegExp("events/2025-*/*.parquet");
+    expect(regex.test("events/2025-01/part-0.parquet")).toBe(true);
+    expect(regex.test("events/2025-01/nested/part-0.parquet")).toBe(false);
+    expect(regex.test("events/2024-12/part-0.parquet")).toBe(false);
+
+    const deep = globToRegExp("logs/**/*.csv");
+    expect(deep.test("logs/a.csv")).toBe(true);
+    expect(deep.test("logs/2025/01/a.csv")).toBe(true);
+    expect(globToRegExp("part-[01].csv").test("part-1.csv")).toBe(true);
+    expect(globPrefix("events/2025-*/*.parquet")).toBe("events/2025-");
+  });
+
+  it("lists only the objects a pattern matches", async () => {
+    const { store } = createMemoryStore({
+      "events/2025-02/b.parquet": encode("b"),
+      "events/2025-01/a.parquet": encode("a"),
+      "events/2025-01/readme.txt": encode("c"),
+      "events/2024-12/z.parquet": encode("z"),
+    });
+    const objects = await resolveObjects(store, "events/2025-*/*.parquet");
+    expect(objects.map((o) => o.key)).toEqual([
+      "events/2025-01/a.parquet",
+      "events/2025-02/b.parquet",
+    ]);
+    expect(await resolveObjects(store, "events/2025-01/a.parquet")).toHaveLength(1);
+  });
+
+  it("detects formats from extensions", () => {
+    expect(detectCloudFormat("a/b.PARQUET")).toBe("parquet");
+    expect(detectCloudFormat("a/b.csv")).toBe("csv");
+    expect(detectCloudFormat("a/b.jsonl")).toBe("ndjson");
+    expect(detectCloudFormat("a/b.txt")).toBeNull();
+  });
+});
+
+describe("referencedColumns", () => {
+  const columns = ["id", "region", "amount", "note"];
+
+  it("finds the columns a query mentions", () => {
+    expect(
+      referencedColumns("SELECT region, SUM(amount) FROM sales GROUP BY region", columns),
+    ).toEqual(["region", "amount"]);
+    expect(referencedColumns('SELECT COUNT(*) FROM sales WHERE "ID" > 3', columns)).toEqual(["id"]);
+  });
+
+  it("needs every column for star projections", () => {
+    expect(referencedColumns("SELECT * FROM sales", columns)).toEqual(columns);
+    expect(referencedColumns("SELECT s.* FROM sales s", columns)).toEqual(columns);
+    expect(referencedColumns("SELECT amount * 2 AS double FROM sales", columns)).toEqual([
+      "amount",
+    ]);
+  });
+
+  it("detects table references", () => {
+    expect(referencesTable("SELECT 1 FROM Sales", "sales")).toBe(true);
+    expect(referencesTable("SELECT 'sales' FROM other", "sales")).toBe(false);
+  });
+});
+
+describe("CloudTable", () => {
+  beforeAll(async () => {
+    const wasm = await readFile(
+      path.join(process.cwd(), "node_modules/parquet-wasm/esm/parquet_wasm_bg.wasm"),
+    );
+    await parquet.default({ module_or_path: wasm });
+  });
+
+  describe("parquet", () => {
+    it("reads only the requested columns through ranged reads", async () => {
+      const file = writeParquetFile(5000);
+      const { store, stats } = createMemoryStore({ "sales/part-0.parquet": file });
+      const table = new CloudTable(store, await store.list("sales/"), "parquet");
+
+      const rows = await table.read({ columns: ["region", "amount"] });
+
+      expect(rows).toHaveLength(5000);
+      expect(rows[1]).toEqual({ region: "South", amount: 1.5 });
+      expect(stats.bytesRead).toBeLessThan(file.length / 2);
+    });
+
+    it("reads only the row groups a limit needs", async () => {
+      const file = writeParquetFile(5000);
+      const { store, stats } = createMemoryStore({ "sales/part-0.parquet": file });
+      const table = new CloudTable(store, await store.list("sales/"), "parquet");
+
+      const info = await table.describe(10);
+
+      expect(info.rowCount).toBe(5000);
+      expect(info.columns).toEqual(["id", "region", "amount", "note"]);
+      expect(info.sampleRows).toHaveLength(10);
+      expect(stats.bytesRead).toBeLessThan(file.length / 2);
+    });
+
+    it("treats a glob's files as one table", async () => {
+      const { store } = createMemoryStore({
+        "events/2025-01/part-0.parquet": writeParquetFile(100),
+        "events/2025-02/part-0.parquet": writeParquetFile(50, 100),
+      });
+      const objects = await resolveObjects(store, "events/2025-*/*.parquet");
+      const table = new CloudTable(store, objects, "parquet");
+
+      const rows = await table.read({ columns: ["id"] });
+      expect(rows).toHaveLength(150);
+      expect(rows[149]).toEqual({ id: 149 });
+      expect((await table.describe(5)).rowCount).toBe(150);
+    });
+
+    it("refuses tables over the row cap", async () => {
+      const { store } = createMemoryStore({ "sales/part-0.parquet": writeParquetFile(2000) });
+      const table = new CloudTable(store, await store.list("sales/"), "parquet", 1500);
+      await expect(table.read({ columns: ["id"] })).rejects.toThrow(/more than 1500 rows/);
+    });
+  });
+
+  describe("csv", () => {
+    const csv =
+      "id,region,amount\n" +
+      Array.from({ length: 500 }, (_, i) => `${i},${i % 2 ? "North" : "South"},${i * 2}`).join("\n");
+
+    it("streams rows with typed values", async () => {
+      const { store } = createMemoryStore({ "sales.csv": encode(csv) });
+      const table = new CloudTable(store, await store.list("sales.csv"), "csv");
+
+      const rows = await table.read({ columns: ["id", "amount"] });
+      expect(rows).toHaveLength(500);
+      expect(rows[3]).toEqual({ id: 3, amount: 6 });
+    });
+
+    it("stops streaming once the sample is read", async () => {
+      const { store, stats } = createMemoryStore({ "sales.csv": encode(csv) });
+      const table = new CloudTable(store, await store.list("sales.csv"), "csv");
+
+      const info = await table.describe(5);
+      expect(info.columns).toEqual(["id", "region", "amount"]);
+      expect(info.rowCount).toBeNull();
+      expect(info.sampleRows).toHaveLength(5);
+      expect(stats.streamedChunks).toBeLessThan(csv.length / 64 / 2);
+    });
+  });
+
+  describe("ndjson", () => {
+    it("streams one JSON object per line", async () => {
+      const ndjson = Array.from({ length: 200 }, (_, i) =>
+        JSON.stringify({ id: i, kind: i % 2 ? "click" : "view" }),
+      ).join("\n");
+      const { store, stats } = createMemoryStore({ "events.ndjson": encode(ndjson) });
+      const table = new CloudTable(store, await store.list("events.ndjson"), "ndjson");
+
+      expect(await table.read({ columns: ["kind"], limit: 2 })).toEqual([
+        { kind: "view" },
+        { kind: "click" },
+      ]);
+      expect(stats.streamedChunks).toBeLessThan(5);
+      expect(await table.read()).toHaveLength(200);
+    });
+
+    it("stops reading past the byte budget", async () => {
+      const ndjson = Array.from({ length: 2000 }, (_, i) => JSON.stringify({ id: i })).join("\n");
+      const { store, stats } = createMemoryStore({ "events.ndjson": encode(ndjson) });
+      const table = new CloudTable(store, await store.list("events.ndjson"), "ndjson");
+
+      await expect(table.read({ maxBytes: 1000 })).rejects.toThrow(/more than 1000 bytes/);
+      expect(stats.streamedChunks).toBeLessThan(ndjson.length / 64 / 2);
+    });
+  });
+});
+
+// Runs against the MinIO service in sample-db/docker-compose.yml:
+// S3_ENDPOINT=http://localhost:9000 pnpm test
+describe.skipIf(!process.env.S3_ENDPOINT)("MinIO", () => {
+  it("streams the seeded CSV through the S3 API", async () => {
+    const store = createObjectStore(
+      "s3",
+      {
+        accessKeyId: process.env.AWS_ACCESS_KEY_ID || "minio",
+        secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || "minio123",
+        region: "us-east-1",
+      },
+      "demo",
+    );
+    const objects = await resolveObjects(store, "sales/*.csv");
+    expect(objects).toHaveLength(1);
+
+    const info = await new CloudTable(store, objects, "csv").describe(5);
+    expect(info.columns.length).toBeGreaterThan(0);
+    expect(info.sampleRows).toHaveLength(5);
+  });
+});
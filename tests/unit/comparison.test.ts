@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  comparisonParams,
+  comparisonRange,
+  isComparedQuery,
+  periodChange,
+} from "@/lib/comparison";
+import type { FilterMeta } from "@/lib/filter-metadata";
+
+const dateMeta: FilterMeta[] = [
+  { id: "date_from", column: "date", operator: "gte", type: "date" },
+  { id: "date_to", column: "date", operator: "lte", type: "date" },
+];
+
+describe("comparisonRange", () => {
+  it("takes the equally long period just before", () => {
+    expect(comparisonRange({ from: "2026-03-01", to: "2026-03-31" }, "previous-period")).toEqual({
+      from: "2026-01-29",
+      to: "2026-02-28",
+    });
+    expect(comparisonRange({ from: "2026-01-05", to: "2026-01-05" }, "previous-period")).toEqual({
+      from: "2026-01-04",
+      to: "2026-01-04",
+    });
+  });
+
+  it("takes the same dates a year earlier, clamping Feb 29", () => {
+    expect(comparisonRange({ from: "2024-02-01", to: "2024-02-29" }, "same-period-last-year")).toEqual({
+      from: "2023-02-01",
+      to: "2023-02-28",
+    });
+  });
+
+  it("rejects ranges that aren't calendar dates in order", () => {
+    expect(comparisonRange({ from: "2026-03-31", to: "2026-03-01" }, "previous-period")).toBeNull();
+    expect(comparisonRange({ from: "yesterday", to: "2026-03-01" }, "previous-period")).toBeNull();
+  });
+});
+
+describe("comparisonParams", () => {
+  it("shifts complete date pairs and keeps the other parameters", () => {
+    const comparison = comparisonParams(
+      { date_from: "2026-04-01", date_to: "2026-06-30", shipped_from: "2026-05-01", region: "West" },
+      "same-period-last-year",
+    );
+    expect(comparison).toEqual({
+      mode: "same-period-last-year",
+      params: { date_from: "2025-04-01", date_to: "2025-06-30", shipped_from: "2026-05-01", region: "West" },
+      shifted: ["date_from", "date_to"],
+      ranges: { date: { from: "2025-04-01", to: "2025-06-30" } },
+    });
+  });
+
+  it("is null without a date range", () => {
+    expect(comparisonParams({ region: "West" }, "previous-period")).toBeNull();
+  });
+});
+
+describe("isComparedQuery", () => {
+  const params = { date_from: "2026-04-01", date_to: "2026-04-30", shipped_from: "2026-04-10" };
+  const comparison = comparisonParams(params, "previous-period")!;
+
+  it("compares queries whose applied date filters are all shifted", () => {
+    expect(isComparedQuery(dateMeta, params, comparison)).toBe(true);
+    expect(isComparedQuery([{ id: "region", column: "region", operator: "eq", type: "text" }], params, comparison)).toBe(
+      false,
+    );
+    expect(isComparedQuery(undefined, params, comparison)).toBe(false);
+  });
+
+  it("skips queries that would mix the two periods", () => {
+    const meta: FilterMeta[] = [...dateMeta, { id: "shipped_from", column: "shipped", operator: "gte", type: "date" }];
+    expect(isComparedQuery(meta, params, comparison)).toBe(false);
+  });
+});
+
+describe("periodChange", () => {
+  it("gives the delta and percent change", () => {
+    expect(periodChange(120, 100)).toEqual({ delta: 20, percent: 20 });
+    expect(periodChange(-50, -100)).toEqual({ delta: 50, percent: 50 });
+    expect(periodChange(5, 0)).toEqual({ delta: 5, percent: null });
+  });
+});
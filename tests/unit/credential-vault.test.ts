@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  CredentialVault,
+  mergeConnectionConfig,
+  resolveConnection,
+} from "@/lib/credential-vault";
+import type { DBConfig } from "@/lib/db";
+
+const SESSION_A = "11111111-1111-4111-8111-111111111111";
+const SESSION_B = "22222222-2222-4222-8222-222222222222";
+
+const dbConfig: DBConfig = {
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  database: "sales",
+  user: "analyst",
+  password: "hunter2",
+  ssl: true,
+};
+
+describe("CredentialVault", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "vault-"));
+    filePath = path.join(dir, "connections.json");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("encrypts configs at rest and reloads them with the same key", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+
+    expect(profile.summary).toMatchObject({ host: "db.internal", database: "sales" });
+    expect(profile.summary).not.toHaveProperty("password");
+    expect(readFileSync(filePath, "utf8")).not.toContain("hunter2");
+
+    const reloaded = new CredentialVault({ key: "test-key", filePath });
+    const found = reloaded.get(SESSION_A, profile.id, "database");
+    if (!found.success) throw new Error(found.error);
+    expect(found.value.config).toEqual(dbConfig);
+  });
+
+  it("fails to decrypt with a different key", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+
+    const other = new CredentialVault({ key: "other-key", filePath });
+    expect(other.get(SESSION_A, profile.id)).toMatchObject({
+      success: false,
+      error: expect.stringContaining("could not be decrypted"),
+    });
+  });
+
+  it("scopes profiles to the session that created them", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+
+    expect(vault.list(SESSION_B)).toEqual([]);
+    expect(vault.get(SESSION_B, profile.id).success).toBe(false);
+    expect(vault.get(null, profile.id).success).toBe(false);
+    expect(vault.remove(SESSION_B, profile.id)).toBe(false);
+    expect(vault.list(SESSION_A)).toEqual([profile]);
+  });
+
+  it("checks the connection kind", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+    expect(vault.get(SESSION_A, profile.id, "s3")).toMatchObject({ success: false });
+  });
+
+  it("rotates credentials and keeps stored secrets left blank", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig }, 0);
+
+    const moved = vault.rotate(SESSION_A, profile.id, { config: { host: "db2.internal", password: "" } }, 1000);
+    if (!moved.success) throw new Error(moved.error);
+    expect(moved.value.updatedAt).not.toBe(profile.updatedAt);
+    const afterMove = vault.get(SESSION_A, profile.id, "database");
+    if (!afterMove.success) throw new Error(afterMove.error);
+    expect(afterMove.value.config).toMatchObject({ host: "db2.internal", password: "hunter2" });
+
+    vault.rotate(SESSION_A, profile.id, { config: { password: "correct-horse" } });
+    const afterRotate = vault.get(SESSION_A, profile.id, "database");
+    if (!afterRotate.success) throw new Error(afterRotate.error);
+    expect(afterRotate.value.config.password).toBe("correct-horse");
+  });
+
+  it("deletes profiles", () => {
+    const vault = new CredentialVault({ key: "test-key", filePath });
+    const profile = vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+
+    expect(vault.remove(SESSION_A, profile.id)).toBe(true);
+    expect(new CredentialVault({ key: "test-key", filePath }).list(SESSION_A)).toEqual([]);
+  });
+
+  it("deletes profiles left unused longer than the session lasts", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.now() - 10 * day;
+    const vault = new CredentialVault({ key: "test-key", filePath, retentionMs: 5 * day });
+    const stale = vault.create(SESSION_A, { name: "old", kind: "database", config: dbConfig }, start);
+    const used = vault.create(SESSION_A, { name: "used", kind: "database", config: dbConfig }, start);
+    vault.get(SESSION_A, used.id, "database", start + 8 * day);
+
+    const reloaded = new CredentialVault({ key: "test-key", filePath, retentionMs: 5 * day });
+    expect(reloaded.list(SESSION_A).map((profile) => profile.id)).toEqual([used.id]);
+    expect(readFileSync(filePath, "utf8")).not.toContain(stale.id);
+  });
+
+  it("keeps profiles in memory only without a key", () => {
+    const original = process.env.CREDENTIAL_VAULT_KEY;
+    delete process.env.CREDENTIAL_VAULT_KEY;
+    try {
+      const vault = new CredentialVault({ filePath });
+      vault.create(SESSION_A, { name: "sales", kind: "database", config: dbConfig });
+      expect(vault.isPersistent).toBe(false);
+      expect(vault.list(SESSION_A)).toHaveLength(1);
+      expect(() => readFileSync(filePath)).toThrow();
+    } finally {
+      if (original !== undefined) process.env.CREDENTIAL_VAULT_KEY = original;
+    }
+  });
+});
+
+describe("mergeConnectionConfig", () => {
+  it("only replaces secrets that were filled in", () => {
+    const s3 = { accessKeyId: "AKIA", secretAccessKey: "secret", region: "us-east-1" };
+    expect(mergeConnectionConfig(s3, { region: "eu-west-1", secretAccessKey: "" })).toEqual({
+      ...s3,
+      region: "eu-west-1",
+    });
+  });
+});
+
+describe("resolveConnection", () => {
+  it("never puts inline secrets in the cache key", () => {
+    const req = new Request("http://localhost/api/schema", { method: "POST" });
+    const resolved = resolveConnection(req, "database", { config: dbConfig });
+    if (!resolved.success) throw new Error(resolved.error);
+    expect(resolved.config).toEqual(dbConfig);
+    expect(resolved.cacheKey).not.toContain("hunter2");
+  });
+
+  it("reports unknown profiles as not found", () => {
+    const req = new Request("http://localhost/api/schema", {
+      method: "POST",
+      headers: { cookie: `dashbee_session=${SESSION_A}` },
+    });
+    expect(resolveConnection(req, "database", { connectionId: "missing" })).toMatchObject({
+      success: false,
+      status: 404,
+    });
+  });
+});
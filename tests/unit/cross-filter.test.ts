@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  columnLookup,
+  crossFilterMeta,
+  crossFilterParams,
+  sourceTables,
+  type CrossFilter,
+} from "@/lib/cross-filter";
+
+const columnsOf = columnLookup([
+  { name: "orders", columns: [{ name: "id" }, { name: "Region" }, { name: "amount" }] },
+  { name: "customers", columns: [{ name: "id" }, { name: "region" }, { name: "plan" }] },
+  { name: "events", columns: [{ name: "id" }, { name: "kind" }] },
+]);
+
+const byRegion: CrossFilter = { column: "region", value: "West", sourceQueryKey: "sales-by-region" };
+
+describe("sourceTables", () => {
+  it("finds tables and aliases in FROM and JOIN clauses", () => {
+    expect(
+      sourceTables(
+        'SELECT * FROM public."orders" o JOIN customers AS c ON c.id = o.customer_id LEFT JOIN events WHERE 1 = 1',
+      ),
+    ).toEqual([{ table: "orders", alias: "o" }, { table: "customers", alias: "c" }, { table: "events" }]);
+    expect(sourceTables("SELECT region FROM orders GROUP BY region")).toEqual([{ table: "orders" }]);
+  });
+
+  it("skips CTEs, subqueries and comments", () => {
+    expect(
+      sourceTables(
+        `WITH orders AS (SELECT * FROM raw_orders) -- FROM events
+         SELECT * FROM orders, "sales data" s JOIN (SELECT id FROM customers) c ON c.id = s.id /* JOIN plans */`,
+      ),
+    ).toEqual([{ table: "sales data", alias: "s" }]);
+    expect(sourceTables("SELECT * FROM `order items` AS i", "mysql")).toEqual([{ table: "order items", alias: "i" }]);
+  });
+});
+
+describe("crossFilterMeta", () => {
+  it("filters other queries on tables that have the column", () => {
+    expect(crossFilterMeta("revenue", "SELECT SUM(amount) FROM orders", [byRegion], columnsOf)).toEqual([
+      { id: "xf_region", column: "Region", operator: "eq", type: "text" },
+    ]);
+    expect(crossFilterParams([byRegion])).toEqual({ xf_region: "West" });
+  });
+
+  it("leaves the clicked chart and unrelated tables alone", () => {
+    expect(crossFilterMeta("sales-by-region", "SELECT region FROM orders", [byRegion], columnsOf)).toEqual([]);
+    expect(crossFilterMeta("event-kinds", "SELECT kind FROM events", [byRegion], columnsOf)).toEqual([]);
+  });
+
+  it("qualifies the column when the query joins tables", () => {
+    const meta = crossFilterMeta(
+      "plans",
+      "SELECT c.plan, COUNT(*) FROM events e JOIN customers c ON c.id = e.id GROUP BY c.plan",
+      [byRegion, { column: "amount", value: 10, sourceQueryKey: "by-amount" }],
+      columnsOf,
+    );
+    expect(meta).toEqual([{ id: "xf_region", column: "region", operator: "eq", type: "text", table: "c" }]);
+  });
+});
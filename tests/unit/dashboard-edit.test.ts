@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import type { UITree } from "@json-render/core";
+import {
+  buildConversationMessages,
+  buildEditInstructions,
+  describeEditTurn,
+  MAX_CONVERSATION_TURNS,
+  parseDashboardContext,
+  pruneRemovedQueries,
+  type ConversationTurn,
+} from "@/lib/dashboard-edit";
+
+const tree: UITree = {
+  root: "main",
+  elements: {
+    main: { key: "main", type: "Grid", props: { columns: 2 }, children: ["revenue", "orders"] },
+    revenue: { key: "revenue", type: "Metric", props: { label: "Revenue", queryKey: "total-revenue" } },
+    orders: {
+      key: "orders",
+      type: "Chart",
+      props: { type: "bar", queryKey: "orders-by-month", labelColumn: "month", valueColumn: "n" },
+    },
+  },
+};
+
+const queries = [
+  { key: "total-revenue", sql: "SELECT SUM(amount) AS total\n  FROM orders" },
+  {
+    key: "orders-by-month",
+    sql: "SELECT month, COUNT(*) AS n FROM orders GROUP BY month",
+    filterMeta: [{ id: "region", column: "region", operator: "in" as const, type: "text" as const }],
+  },
+  { key: "distinct-region", sql: "SELECT DISTINCT region FROM orders" },
+];
+
+describe("parseDashboardContext", () => {
+  it("accepts a tree with queries", () => {
+    expect(parseDashboardContext({ tree, queries })).toEqual({ tree, queries, filters: [] });
+  });
+
+  it("rejects malformed contexts", () => {
+    expect(parseDashboardContext(null)).toBeNull();
+    expect(parseDashboardContext({ tree: { elements: {} }, queries })).toBeNull();
+    expect(parseDashboardContext({ tree, queries: [{ key: "a" }] })).toBeNull();
+  });
+});
+
+describe("buildEditInstructions", () => {
+  it("describes the current tree, queries and filters", () => {
+    const prompt = buildEditInstructions({
+      tree,
+      queries,
+      filters: [{ id: "region", type: "dropdown", label: "Region", column: "region" }],
+    });
+
+    expect(prompt).toContain('CURRENT UI TREE (root: "main")');
+    expect(prompt).toContain('"queryKey":"orders-by-month"');
+    expect(prompt).toContain("- total-revenue: SELECT SUM(amount) AS total FROM orders");
+    expect(prompt).toContain('filterMeta: [{"id":"region","column":"region","operator":"in","type":"text"}]');
+    expect(prompt).toContain('- region: dropdown filter "Region" on column region');
+  });
+});
+
+describe("buildConversationMessages", () => {
+  it("appends the new request to the conversation", () => {
+    const conversation: ConversationTurn[] = [
+      { role: "user", content: "Revenue dashboard" },
+      { role: "assistant", content: "add /elements/main" },
+    ];
+    expect(buildConversationMessages(conversation, "Add a region breakdown")).toEqual([
+      { role: "user", content: "Revenue dashboard" },
+      { role: "assistant", content: "add /elements/main" },
+      { role: "user", content: "Add a region breakdown" },
+    ]);
+  });
+
+  it("keeps only recent turns and starts with a user turn", () => {
+    const conversation: ConversationTurn[] = Array.from({ length: 31 }, (_, i) => ({
+      role: i % 2 === 0 ? "user" : "assistant",
+      content: `turn ${i}`,
+    }));
+    const messages = buildConversationMessages(conversation, "next");
+
+    expect(messages.length).toBeLessThanOrEqual(MAX_CONVERSATION_TURNS + 1);
+    expect(messages[0]!.role).toBe("user");
+    expect(messages.at(-2)).toEqual({ role: "user", content: "turn 30" });
+  });
+});
+
+describe("describeEditTurn", () => {
+  it("lists the patched paths and changed queries", () => {
+    expect(
+      describeEditTurn(
+        [
+          { op: "add", path: "/elements/region-chart", value: {} },
+          { op: "replace", path: "/elements/main/children", value: [] },
+        ],
+        ["revenue-by-region"],
+      ),
+    ).toBe("add /elements/region-chart\nreplace /elements/main/children\nqueries: revenue-by-region");
+    expect(describeEditTurn([], [])).toBe("No changes");
+  });
+});
+
+describe("pruneRemovedQueries", () => {
+  it("drops queries only the removed elements used", () => {
+    const { orders: _orders, ...elements } = tree.elements;
+    const after: UITree = { ...tree, elements };
+
+    expect(pruneRemovedQueries(queries, tree, after).map((q) => q.key)).toEqual([
+      "total-revenue",
+      "distinct-region",
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { UITree } from "@json-render/core";
+import {
+  examplesToPrompt,
+  exampleFromRun,
+  findSimilarExamples,
+  outlineTree,
+  recordSuccessfulQueries,
+  type ExampleQuery,
+} from "@/lib/dashboard-examples";
+import { KnowledgeStore, type DashboardExample } from "@/lib/knowledge-store";
+import type { SQLToolResult } from "@/lib/types/sql-tools";
+
+const tree: UITree = {
+  root: "grid",
+  elements: {
+    grid: { key: "grid", type: "Grid", props: { columns: 2 }, children: ["total", "by-plan"] },
+    total: { key: "total", type: "Metric", props: { title: "Total MRR", queryKey: "mrr-total" } },
+    "by-plan": { key: "by-plan", type: "Chart", props: { title: "MRR by plan", queryKey: "mrr-by-plan" } },
+  },
+};
+
+const example = (prompt: string, createdAt = "2026-01-01T00:00:00.000Z"): DashboardExample => ({
+  prompt,
+  tree,
+  queries: [{ key: "mrr-by-plan", sql: "SELECT plan, SUM(mrr) AS mrr\nFROM subscriptions GROUP BY plan" }],
+  createdAt,
+});
+
+describe("findSimilarExamples", () => {
+  afterEach(() => {
+    delete process.env.FEW_SHOT_EXAMPLES;
+  });
+
+  const examples = [
+    example("Revenue by region"),
+    example("Show MRR by plan tier"),
+    example("Churned customers last quarter"),
+    example("MRR by plan"),
+  ];
+
+  it("ranks earlier requests by shared terms", () => {
+    const similar = findSimilarExamples(examples, "What is MRR by plan?");
+    expect(similar.map((e) => [e.prompt, e.similarity])).toEqual([
+      ["MRR by plan", 1],
+      ["Show MRR by plan tier", 0.54],
+    ]);
+  });
+
+  it("leaves out unrelated requests", () => {
+    expect(findSimilarExamples(examples, "orders by warehouse")).toEqual([]);
+    expect(findSimilarExamples(examples, "revenue by plan").map((e) => e.prompt)).toEqual([]);
+  });
+
+  it("can be turned off", () => {
+    process.env.FEW_SHOT_EXAMPLES = "0";
+    expect(findSimilarExamples(examples, "MRR by plan")).toEqual([]);
+  });
+});
+
+describe("examplesToPrompt", () => {
+  it("shows the verified SQL and an outline of the layout", () => {
+    expect(outlineTree(tree)).toBe('Grid\n  Metric "Total MRR" [mrr-total]\n  Chart "MRR by plan" [mrr-by-plan]');
+
+    const prompt = examplesToPrompt([example("MRR by plan")]);
+    expect(prompt).toContain('Example 1 - "MRR by plan":');
+    expect(prompt).toContain("- mrr-by-plan: SELECT plan, SUM(mrr) AS mrr FROM subscriptions GROUP BY plan");
+    expect(examplesToPrompt([])).toBe("");
+  });
+});
+
+describe("capturing examples", () => {
+  it("keeps the queries the rendered tree uses", async () => {
+    const results: Record<string, SQLToolResult> = {
+      "mrr-total": { key: "mrr-total", success: true, rows: [], rowCount: 0 },
+      "mrr-by-plan": { key: "mrr-by-plan", success: true, rows: [], rowCount: 0 },
+      "plan-options": { key: "plan-options", success: true, rows: [], rowCount: 0 },
+    };
+    const queries = new Map<string, ExampleQuery>();
+    const tools = recordSuccessfulQueries(
+      { execute_sql: { execute: async ({ key }: { key: string; sql: string }) => results[key]! } },
+      queries,
+    );
+    await tools.execute_sql.execute({ key: "mrr-total", sql: "SELECT SUM(mrr) FROM subscriptions" });
+    await tools.execute_sql.execute({ key: "plan-options", sql: "SELECT DISTINCT plan FROM subscriptions" });
+    expect(exampleFromRun("MRR by plan", tree, queries)).toBeNull();
+
+    await tools.execute_sql.execute({ key: "mrr-by-plan", sql: "SELECT plan, SUM(mrr) FROM subscriptions GROUP BY plan" });
+    expect(exampleFromRun("MRR by plan", tree, queries)?.queries.map((q) => q.key)).toEqual(["mrr-total", "mrr-by-plan"]);
+  });
+
+  it("stores one example per request and database", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    await store.saveExample("db", example("MRR by plan"), Date.UTC(2026, 0, 1));
+    await store.saveExample("db", example("mrr by plan "), Date.UTC(2026, 0, 2));
+    await store.saveExample("db", example("Revenue by region"), Date.UTC(2026, 0, 3));
+
+    expect((await store.listExamples("db")).map((e) => e.prompt)).toEqual(["Revenue by region", "mrr by plan "]);
+    expect(await store.listExamples("other")).toEqual([]);
+  });
+});
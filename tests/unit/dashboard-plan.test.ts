@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { componentList } from "@/lib/catalog";
+import { parseDashboardPlan, planComponents, planToPrompt, type DashboardPlan } from "@/lib/dashboard-plan";
+
+const plan: DashboardPlan = {
+  title: "Revenue overview",
+  items: [
+    { id: "total-revenue", title: "Total revenue", description: "Sum of order amounts", component: "Metric", tables: ["orders"] },
+    { id: "revenue-by-month", title: "Revenue by month", description: "Monthly order amounts", component: "Chart", tables: ["orders"] },
+  ],
+  filters: [{ id: "order-date", label: "Order date", column: "orders.order_date", type: "date-range" }],
+};
+
+describe("parseDashboardPlan", () => {
+  it("accepts an approved plan with at least one item", () => {
+    expect(parseDashboardPlan(plan)).toEqual(plan);
+    expect(parseDashboardPlan({ ...plan, items: [] })).toBeNull();
+    expect(parseDashboardPlan({ ...plan, items: [{ ...plan.items[0], component: "Marquee" }] })).toBeNull();
+    expect(parseDashboardPlan("build it")).toBeNull();
+  });
+});
+
+describe("planComponents", () => {
+  it("keeps layout components and only the chart types the plan uses", () => {
+    const components = planComponents(plan, componentList);
+    expect(components).toEqual(expect.arrayContaining(["Card", "Grid", "Filter", "Metric", "Chart"]));
+    expect(components).not.toContain("Table");
+    expect(components).not.toContain("Heatmap");
+
+    expect(planComponents({ ...plan, filters: [] }, componentList)).not.toContain("Filter");
+    // Chart types the user turned off stay off
+    expect(planComponents(plan, ["Grid", "Metric"])).toEqual(["Grid", "Metric"]);
+  });
+});
+
+describe("planToPrompt", () => {
+  it("lists the approved items and filters", () => {
+    const prompt = planToPrompt(plan);
+    expect(prompt).toContain('APPROVED PLAN:\nThe user reviewed and approved this outline for "Revenue overview"');
+    expect(prompt).toContain('- Metric "Total revenue": Sum of order amounts (tables: orders)');
+    expect(prompt).toContain('- date-range "Order date" on orders.order_date');
+    expect(planToPrompt({ ...plan, filters: [] })).toContain("- None: do not add Filter components");
+  });
+});
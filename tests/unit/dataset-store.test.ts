@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DatasetStore, queryFileWorkspace, resolveFileWorkspace } from "@/lib/dataset-store";
+import { CloudTable } from "@/lib/cloud-table";
+import type { ObjectStore } from "@/lib/cloud-storage";
+
+const SESSION_A = "11111111-1111-4111-8111-111111111111";
+const SESSION_B = "22222222-2222-4222-8222-222222222222";
+
+const orders = [
+  { id: 1, amount: 50 },
+  { id: 2, amount: 75 },
+];
+
+describe("DatasetStore", () => {
+  let store: DatasetStore;
+
+  beforeEach(() => {
+    store = new DatasetStore({ ttlMs: 1000, maxSessionBytes: 64 * 1024, maxSessions: 2 });
+  });
+
+  afterEach(() => {
+    store.clear();
+  });
+
+  it("stores datasets and lists them per session", () => {
+    const result = store.put(SESSION_A, { tableName: "orders", fileName: "orders.csv", data: orders });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.dataset).toMatchObject({ tableName: "orders", fileName: "orders.csv", rowCount: 2 });
+    expect(store.list(SESSION_A)).toEqual([result.dataset]);
+    expect(store.list(SESSION_B)).toEqual([]);
+  });
+
+  it("queries stored datasets through the session workspace", () => {
+    const put = store.put(SESSION_A, { tableName: "orders", data: orders });
+    if (!put.success) throw new Error(put.error);
+
+    const lookup = store.getWorkspace(SESSION_A, [put.dataset.id]);
+    if (!lookup.success) throw new Error(lookup.error);
+    expect(lookup.workspace.engine.query("SELECT SUM(amount) AS total FROM orders").rows).toEqual([
+      { total: 125 },
+    ]);
+  });
+
+  it("keeps a sample of each dataset for the agent", () => {
+    const sampled = new DatasetStore({ sampleRows: 2 });
+    const rows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, amount: 10 }));
+    const put = sampled.put(SESSION_A, { tableName: "orders", data: rows });
+    if (!put.success) throw new Error(put.error);
+    expect(put.dataset).toMatchObject({ rowCount: 5, sampleRowCount: 2 });
+
+    const count = (scope: "sample" | "full") => {
+      const lookup = sampled.getWorkspace(SESSION_A, [put.dataset.id], scope);
+      if (!lookup.success) throw new Error(lookup.error);
+      return lookup.workspace.engine.query("SELECT COUNT(*) AS n FROM orders").rows;
+    };
+    expect(count("sample")).toEqual([{ n: 2 }]);
+    expect(count("full")).toEqual([{ n: 5 }]);
+    sampled.clear();
+  });
+
+  it("replaces a dataset with the same table name", () => {
+    const first = store.put(SESSION_A, { tableName: "orders", data: orders });
+    const second = store.put(SESSION_A, { tableName: "orders", data: [{ id: 3, amount: 10 }] });
+    if (!first.success || !second.success) throw new Error("put failed");
+
+    expect(store.list(SESSION_A).map((d) => d.id)).toEqual([second.dataset.id]);
+    expect(store.getWorkspace(SESSION_A, [first.dataset.id])).toMatchObject({
+      success: false,
+      missingDatasetIds: [first.dataset.id],
+    });
+  });
+
+  it("keeps sessions isolated", () => {
+    const a = store.put(SESSION_A, { tableName: "orders", data: orders });
+    const b = store.put(SESSION_B, { tableName: "orders", data: [{ id: 9, amount: 1 }] });
+    if (!a.success || !b.success) throw new Error("put failed");
+
+    expect(store.getWorkspace(SESSION_B, [a.dataset.id]).success).toBe(false);
+    const lookup = store.getWorkspace(SESSION_B, [b.dataset.id]);
+    if (!lookup.success) throw new Error(lookup.error);
+    expect(lookup.workspace.engine.query("SELECT id FROM orders").rows).toEqual([{ id: 9 }]);
+  });
+
+  it("rejects datasets over the session quota", () => {
+    const big = Array.from({ length: 2000 }, (_, i) => ({ id: i, label: "x".repeat(20) }));
+    const result = store.put(SESSION_A, { tableName: "big", data: big });
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toContain("quota exceeded");
+    expect(store.size).toBe(0);
+  });
+
+  it("counts the SQLite copy of the rows against the quota", () => {
+    const small = new DatasetStore({ maxSessionBytes: 24 * 1024 });
+    const first = small.put(SESSION_A, { tableName: "orders", data: orders });
+    if (!first.success) throw new Error(first.error);
+    // Each copy takes at least one 4 KB SQLite page on top of the JSON
+    expect(first.dataset.bytes).toBeGreaterThan(2 * 4096);
+
+    // The JSON alone fits in what's left; with its SQLite copy it doesn't
+    const rows = Array.from({ length: 250 }, (_, i) => ({ id: i, label: "x".repeat(20) }));
+    expect(Buffer.byteLength(JSON.stringify(rows))).toBeLessThan(24 * 1024 - first.dataset.bytes);
+    const replaced = small.put(SESSION_A, { tableName: "orders", data: rows });
+    expect(replaced).toMatchObject({ success: false, error: expect.stringContaining("quota exceeded") });
+
+    // The rejected upload left the stored dataset as it was
+    expect(small.list(SESSION_A)).toEqual([first.dataset]);
+    const lookup = small.getWorkspace(SESSION_A, [first.dataset.id]);
+    if (!lookup.success) throw new Error(lookup.error);
+    expect(lookup.workspace.engine.query("SELECT COUNT(*) AS n FROM orders").rows).toEqual([{ n: 2 }]);
+    small.clear();
+  });
+
+  it("reports missing datasets for unknown sessions", () => {
+    expect(store.getWorkspace(null, ["abc"])).toMatchObject({
+      success: false,
+      missingDatasetIds: ["abc"],
+    });
+  });
+
+  it("removes datasets and drops empty sessions", () => {
+    const put = store.put(SESSION_A, { tableName: "orders", data: orders });
+    if (!put.success) throw new Error(put.error);
+
+    expect(store.remove(SESSION_A, put.dataset.id)).toBe(true);
+    expect(store.remove(SESSION_A, put.dataset.id)).toBe(false);
+    expect(store.size).toBe(0);
+  });
+
+  it("expires sessions after the TTL", () => {
+    store.put(SESSION_A, { tableName: "orders", data: orders }, 0);
+    store.put(SESSION_B, { tableName: "orders", data: orders }, 0);
+    store.list(SESSION_B, 900);
+
+    expect(store.evictExpired(1500)).toBe(1);
+    expect(store.list(SESSION_A, 1500)).toEqual([]);
+    expect(store.list(SESSION_B, 1500)).toHaveLength(1);
+  });
+
+  it("evicts the least recently used session at capacity", () => {
+    store.put(SESSION_A, { tableName: "orders", data: orders }, 0);
+    store.put(SESSION_B, { tableName: "orders", data: orders }, 10);
+    store.put("33333333-3333-4333-8333-333333333333", { tableName: "orders", data: orders }, 20);
+
+    expect(store.size).toBe(2);
+    expect(store.list(SESSION_A, 20)).toEqual([]);
+    expect(store.list(SESSION_B, 20)).toHaveLength(1);
+  });
+});
+
+describe("cloud datasets", () => {
+  const ndjson = Array.from({ length: 300 }, (_, i) =>
+    JSON.stringify({ id: i, region: i % 2 ? "North" : "South", amount: i }),
+  ).join("\n");
+  const bucket: ObjectStore = {
+    list: async () => [{ key: "sales.ndjson", size: ndjson.length }],
+    readRange: async () => new Uint8Array(),
+    stream: async () =>
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode(ndjson));
+          controller.close();
+        },
+      }),
+  };
+
+  it("stores only the sample and reads referenced columns on demand", async () => {
+    const store = new DatasetStore({ sampleRows: 10 });
+    const source = new CloudTable(bucket, await bucket.list(""), "ndjson");
+    const info = await source.describe(10);
+    const read = vi.spyOn(source, "read");
+    const put = store.putCloud(SESSION_A, { tableName: "sales", uri: "s3://bucket/sales.ndjson", source, info });
+    if (!put.success) throw new Error(put.error);
+    expect(put.dataset).toMatchObject({ rowCount: null, sampleRowCount: 10 });
+    expect(put.dataset.cloud).toEqual({ uri: "s3://bucket/sales.ndjson", format: "ndjson", objectCount: 1 });
+
+    const sample = store.getWorkspace(SESSION_A, [put.dataset.id], "sample");
+    const full = store.getWorkspace(SESSION_A, [put.dataset.id], "full");
+    if (!sample.success || !full.success) throw new Error("lookup failed");
+
+    expect((await queryFileWorkspace(sample.workspace, "SELECT COUNT(*) AS n FROM sales")).rows).toEqual([
+      { n: 10 },
+    ]);
+    expect(read).not.toHaveBeenCalled();
+
+    const sampleBytes = put.dataset.bytes;
+    const total = await queryFileWorkspace(full.workspace, "SELECT SUM(amount) AS total FROM sales");
+    expect(total.rows).toEqual([{ total: 44850 }]);
+    expect(read).toHaveBeenLastCalledWith({ columns: ["amount"], maxBytes: expect.any(Number) });
+    expect(store.list(SESSION_A)[0]!.bytes).toBeGreaterThan(sampleBytes);
+
+    // Already loaded columns are not read again
+    await queryFileWorkspace(full.workspace, "SELECT MAX(amount) AS m FROM sales");
+    expect(read).toHaveBeenCalledTimes(1);
+
+    const byRegion = await queryFileWorkspace(
+      full.workspace,
+      "SELECT region, COUNT(*) AS n FROM sales GROUP BY region ORDER BY region",
+    );
+    expect(byRegion.rows).toEqual([
+      { region: "North", n: 150 },
+      { region: "South", n: 150 },
+    ]);
+    expect(read).toHaveBeenLastCalledWith({
+      columns: ["region", "amount"],
+      maxBytes: expect.any(Number),
+    });
+    store.clear();
+  });
+
+  it("rejects loads that would exceed the session quota", async () => {
+    const store = new DatasetStore({ sampleRows: 10, maxSessionBytes: 16 * 1024 });
+    const source = new CloudTable(bucket, await bucket.list(""), "ndjson");
+    const put = store.putCloud(SESSION_A, {
+      tableName: "sales",
+      uri: "s3://bucket/sales.ndjson",
+      source,
+      info: await source.describe(10),
+    });
+    if (!put.success) throw new Error(put.error);
+    const full = store.getWorkspace(SESSION_A, [put.dataset.id], "full");
+    if (!full.success) throw new Error(full.error);
+
+    // One column fits; every column doesn't
+    await queryFileWorkspace(full.workspace, "SELECT SUM(amount) AS total FROM sales");
+    const loadedBytes = store.list(SESSION_A)[0]!.bytes;
+    await expect(queryFileWorkspace(full.workspace, "SELECT * FROM sales")).rejects.toThrow(
+      /bytes/,
+    );
+
+    // The loaded column is still there and still counted
+    expect(store.list(SESSION_A)[0]!.bytes).toBe(loadedBytes);
+    expect(
+      (await queryFileWorkspace(full.workspace, "SELECT SUM(amount) AS total FROM sales")).rows,
+    ).toEqual([{ total: 44850 }]);
+    store.clear();
+  });
+});
+
+describe("resolveFileWorkspace", () => {
+  it("builds a throwaway workspace from inline rows", () => {
+    const resolved = resolveFileWorkspace(null, undefined, [{ tableName: "orders", data: orders }]);
+    if (!resolved.success) throw new Error(resolved.error);
+
+    // Clients only post a sample inline
+    expect(resolved.scope).toBe("sample");
+    expect(resolved.workspace.engine.query("SELECT COUNT(*) AS n FROM orders").rows).toEqual([{ n: 2 }]);
+    resolved.release();
+  });
+});
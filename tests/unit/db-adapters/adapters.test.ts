@@ -85,6 +85,60 @@ describe("db-adapters", () => {
       const adapter = new PostgresAdapter(config);
       expect(adapter.type).toBe("postgresql");
     });
+
+    it("cancels a query over a separate connection, not the pool", async () => {
+      const poolQuery = vi.fn();
+      const cancelQuery = vi.fn().mockResolvedValue({ rows: [] });
+      let rejectRunning: (error: Error) => void = () => {};
+      const pooledClient = {
+        processID: 4242,
+        query: vi.fn((sql: string) =>
+          sql.startsWith("SET")
+            ? Promise.resolve({ rows: [] })
+            : new Promise((_, reject) => {
+                rejectRunning = reject;
+              }),
+        ),
+        release: vi.fn(),
+      };
+      vi.doMock("pg", () => ({
+        Pool: class MockPool {
+          query = poolQuery;
+          connect = vi.fn().mockResolvedValue(pooledClient);
+          end = vi.fn();
+          on = vi.fn();
+        },
+        Client: class MockClient {
+          connect = vi.fn().mockResolvedValue(undefined);
+          query = cancelQuery.mockImplementation(async () => {
+            rejectRunning(new Error("canceling statement due to user request"));
+            return { rows: [] };
+          });
+          end = vi.fn().mockResolvedValue(undefined);
+          on = vi.fn();
+        },
+      }));
+
+      const { PostgresAdapter } = await import("@/lib/db-adapters/postgres");
+      const adapter = new PostgresAdapter({
+        type: "postgresql",
+        host: "localhost",
+        port: 5432,
+        database: "test",
+        user: "postgres",
+        password: "password",
+        ssl: false,
+      });
+
+      const controller = new AbortController();
+      const running = adapter.query("SELECT pg_sleep(60)", [], { signal: controller.signal });
+      await vi.waitFor(() => expect(pooledClient.query).toHaveBeenCalledTimes(2));
+      controller.abort();
+
+      await expect(running).rejects.toThrow("Query cancelled");
+      expect(cancelQuery).toHaveBeenCalledWith("SELECT pg_cancel_backend($1)", [4242]);
+      expect(poolQuery).not.toHaveBeenCalled();
+    });
   });
 
   describe("MySQL adapter", () => {
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Database from "better-sqlite3";
+import { SQLiteAdapter } from "@/lib/db-adapters/sqlite";
+import { groupForeignKeys } from "@/lib/db-adapters/introspection";
+import { schemaToPrompt } from "@/lib/schema-introspector";
+import type { DBConfig, TableInfo } from "@/lib/db-adapters/types";
+
+describe("SQLite schema introspection", () => {
+  let dir: string;
+  let tables: TableInfo[];
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "dashbee-sqlite-"));
+    const filename = join(dir, "shop.db");
+    const db = new Database(filename);
+    db.exec(`
+      CREATE TABLE customers (id INTEGER PRIMARY KEY, email TEXT NOT NULL UNIQUE, name TEXT);
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        customer_id INTEGER NOT NULL REFERENCES customers,
+        order_number TEXT NOT NULL,
+        total REAL
+      );
+      CREATE UNIQUE INDEX orders_number ON orders (order_number);
+      CREATE INDEX orders_customer ON orders (customer_id);
+      CREATE TABLE order_lines (
+        order_id INTEGER NOT NULL REFERENCES orders (id),
+        line_no INTEGER NOT NULL,
+        quantity INTEGER,
+        PRIMARY KEY (order_id, line_no)
+      );
+      INSERT INTO customers (email, name) VALUES ('a@example.com', 'A'), ('b@example.com', 'B');
+      INSERT INTO orders (customer_id, order_number, total) VALUES (1, 'A-1', 10), (2, 'B-1', 20), (1, 'A-2', 5);
+    `);
+    db.close();
+
+    const config: DBConfig = {
+      type: "sqlite",
+      host: "",
+      port: 0,
+      database: "",
+      user: "",
+      password: "",
+      ssl: false,
+      filename,
+    };
+    const adapter = new SQLiteAdapter(config);
+    tables = await adapter.introspectSchema();
+    await adapter.close();
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function table(name: string): TableInfo {
+    return tables.find((t) => t.name === name)!;
+  }
+
+  it("reports primary keys, nullability and row counts", () => {
+    const orders = table("orders");
+    expect(orders.primaryKey).toEqual(["id"]);
+    expect(orders.rowCount).toBe(3);
+    expect(orders.columns).toEqual([
+      { name: "id", type: "INTEGER", nullable: false, primaryKey: true },
+      { name: "customer_id", type: "INTEGER", nullable: false },
+      { name: "order_number", type: "TEXT", nullable: false },
+      { name: "total", type: "REAL", nullable: true },
+    ]);
+    expect(table("order_lines").primaryKey).toEqual(["order_id", "line_no"]);
+  });
+
+  it("resolves foreign keys, including ones that omit the target column", () => {
+    expect(table("orders").foreignKeys).toEqual([
+      {
+        columns: ["customer_id"],
+        referencedSchema: "main",
+        referencedTable: "customers",
+        referencedColumns: ["id"],
+      },
+    ]);
+    expect(table("order_lines").foreignKeys?.[0]?.referencedColumns).toEqual(["id"]);
+  });
+
+  it("lists secondary indexes", () => {
+    expect(table("orders").indexes).toEqual(
+      expect.arrayContaining([
+        { name: "orders_number", columns: ["order_number"], unique: true },
+        { name: "orders_customer", columns: ["customer_id"], unique: false },
+      ]),
+    );
+    // UNIQUE constraints create automatic indexes too
+    expect(table("customers").indexes).toEqual([
+      expect.objectContaining({ columns: ["email"], unique: true }),
+    ]);
+  });
+});
+
+describe("groupForeignKeys", () => {
+  it("keeps composite key columns together and in order", () => {
+    const reference = { referencedSchema: "public", referencedTable: "orders" };
+    expect(
+      groupForeignKeys([
+        { key: "fk_line", name: "fk_line", column: "order_id", referencedColumn: "id", ...reference },
+        { key: "fk_line", name: "fk_line", column: "line_no", referencedColumn: "no", ...reference },
+      ]),
+    ).toEqual([
+      {
+        name: "fk_line",
+        columns: ["order_id", "line_no"],
+        referencedSchema: "public",
+        referencedTable: "orders",
+        referencedColumns: ["id", "no"],
+      },
+    ]);
+  });
+});
+
+describe("schemaToPrompt", () => {
+  it("renders types, keys and relationships compactly", () => {
+    const prompt = schemaToPrompt([
+      {
+        schema: "public",
+        name: "orders",
+        rowCount: 12000,
+        comment: "Customer\norders",
+        primaryKey: ["id"],
+        columns: [
+          { name: "id", type: "integer", nullable: false, primaryKey: true },
+          { name: "customer_id", type: "integer", nullable: false },
+          { name: "status", type: "text", nullable: true, comment: "open or closed" },
+          { name: "region", type: "text" },
+          { name: "shipment_no", type: "integer" },
+        ],
+        foreignKeys: [
+          {
+            columns: ["customer_id"],
+            referencedSchema: "public",
+            referencedTable: "customers",
+            referencedColumns: ["id"],
+          },
+          {
+            columns: ["region", "shipment_no"],
+            referencedSchema: "public",
+            referencedTable: "shipments",
+            referencedColumns: ["region", "number"],
+          },
+        ],
+        indexes: [
+          { name: "orders_customer", columns: ["customer_id"], unique: false },
+          { name: "orders_status", columns: ["status", "region"], unique: true },
+        ],
+      },
+    ]);
+
+    expect(prompt).toBe(
+      [
+        "public.orders (~12,000 rows) -- Customer orders",
+        "  id integer PK",
+        "  customer_id integer NOT NULL -> public.customers.id",
+        "  status text -- open or closed",
+        "  region text",
+        "  shipment_no integer",
+        "  foreign key (region, shipment_no) -> public.shipments (region, number)",
+        "  indexes: (customer_id), UNIQUE (status, region)",
+      ].join("\n"),
+    );
+  });
+
+  it("renders tables without metadata as columns and types only", () => {
+    expect(
+      schemaToPrompt([
+        { schema: "file", name: "sales", columns: [{ name: "amount", type: "number" }] },
+        {
+          schema: "main",
+          name: "lines",
+          primaryKey: ["order_id", "line_no"],
+          columns: [
+            { name: "order_id", type: "INTEGER", primaryKey: true },
+            { name: "line_no", type: "INTEGER", primaryKey: true },
+          ],
+        },
+      ]),
+    ).toBe(
+      [
+        "file.sales",
+        "  amount number",
+        "",
+        "main.lines",
+        "  order_id INTEGER PK",
+        "  line_no INTEGER PK",
+        "  primary key (order_id, line_no)",
+      ].join("\n"),
+    );
+  });
+});
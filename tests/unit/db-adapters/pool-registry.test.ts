@@ -0,0 +1,166 @@
+import { describe, it, expect, vi } from "vitest";
+import { PoolRegistry, hashDBConfig } from "@/lib/db-adapters/pool-registry";
+import type { DBConfig, DatabaseAdapter, PoolStats } from "@/lib/db-adapters/types";
+
+const baseConfig: DBConfig = {
+  type: "postgresql",
+  host: "localhost",
+  port: 5432,
+  database: "test",
+  user: "postgres",
+  password: "password",
+  ssl: false,
+};
+
+function createFakeAdapter(stats: Partial<PoolStats> = {}) {
+  return {
+    type: "postgresql" as const,
+    query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }),
+    introspectSchema: vi.fn().mockResolvedValue([]),
+    testConnection: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    getPoolStats: vi.fn(() => ({
+      total: 2,
+      active: 0,
+      idle: 2,
+      waiting: 0,
+      acquisitions: 5,
+      avgWaitMs: 3,
+      maxWaitMs: 10,
+      ...stats,
+    })),
+  } satisfies DatabaseAdapter;
+}
+
+describe("PoolRegistry", () => {
+  it("reuses the adapter for identical configs", () => {
+    const factory = vi.fn(() => createFakeAdapter());
+    const registry = new PoolRegistry(factory);
+
+    const a = registry.acquire(baseConfig);
+    const b = registry.acquire({ ...baseConfig });
+
+    expect(a).toBe(b);
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it("creates a new pool when the password changes", () => {
+    const factory = vi.fn(() => createFakeAdapter());
+    const registry = new PoolRegistry(factory);
+
+    registry.acquire(baseConfig);
+    registry.acquire({ ...baseConfig, password: "rotated" });
+
+    expect(factory).toHaveBeenCalledTimes(2);
+    expect(hashDBConfig(baseConfig)).not.toBe(
+      hashDBConfig({ ...baseConfig, password: "rotated" }),
+    );
+  });
+
+  it("evicts pools idle longer than the timeout", async () => {
+    const adapter = createFakeAdapter();
+    const registry = new PoolRegistry(() => adapter, { idleTimeoutMs: 1000 });
+
+    registry.acquire(baseConfig);
+    expect(await registry.evictIdle(Date.now() + 500)).toBe(0);
+    expect(await registry.evictIdle(Date.now() + 2000)).toBe(1);
+
+    expect(adapter.close).toHaveBeenCalled();
+    expect(registry.size).toBe(0);
+  });
+
+  it("does not evict pools with active connections", async () => {
+    const adapter = createFakeAdapter({ active: 1 });
+    const registry = new PoolRegistry(() => adapter, { idleTimeoutMs: 1000 });
+
+    registry.acquire(baseConfig);
+    expect(await registry.evictIdle(Date.now() + 2000)).toBe(0);
+    expect(adapter.close).not.toHaveBeenCalled();
+  });
+
+  it("closes the least recently used pool when at the limit", () => {
+    const adapters: ReturnType<typeof createFakeAdapter>[] = [];
+    const registry = new PoolRegistry(
+      () => {
+        const adapter = createFakeAdapter();
+        adapters.push(adapter);
+        return adapter;
+      },
+      { maxPools: 2 },
+    );
+
+    registry.acquire({ ...baseConfig, database: "a" });
+    registry.acquire({ ...baseConfig, database: "b" });
+    registry.acquire({ ...baseConfig, database: "c" });
+
+    expect(registry.size).toBe(2);
+    expect(adapters[0]!.close).toHaveBeenCalled();
+  });
+
+  it("reports metrics without credentials", () => {
+    const registry = new PoolRegistry(() => createFakeAdapter());
+    registry.acquire(baseConfig);
+
+    const [metrics] = registry.getMetrics();
+    expect(metrics).toMatchObject({
+      label: "postgresql://localhost:5432/test",
+      active: 0,
+      idle: 2,
+      avgWaitMs: 3,
+    });
+    expect(JSON.stringify(metrics)).not.toContain("password");
+  });
+
+  it("drops pools that fail the health check", async () => {
+    const adapter = createFakeAdapter();
+    adapter.testConnection.mockRejectedValueOnce(new Error("connection reset"));
+    const registry = new PoolRegistry(() => adapter);
+
+    registry.acquire(baseConfig);
+    const [health] = await registry.checkHealth();
+
+    expect(health).toMatchObject({ healthy: false, error: "connection reset" });
+    expect(registry.size).toBe(0);
+  });
+
+  it("keeps a failing pool until its running queries are done", async () => {
+    const adapter = createFakeAdapter({ active: 1 });
+    adapter.testConnection.mockRejectedValueOnce(new Error("connection reset"));
+    const registry = new PoolRegistry(() => adapter, { idleTimeoutMs: 60_000 });
+
+    registry.acquire(baseConfig);
+    await registry.checkHealth();
+    expect(registry.size).toBe(1);
+    expect(adapter.close).not.toHaveBeenCalled();
+
+    adapter.getPoolStats.mockReturnValue({ ...adapter.getPoolStats(), active: 0 });
+    expect(await registry.evictIdle()).toBe(1);
+    expect(adapter.close).toHaveBeenCalled();
+  });
+
+  it("drains busy pools once their connections are returned", async () => {
+    const adapter = createFakeAdapter({ active: 1 });
+    const registry = new PoolRegistry(() => adapter, { drainIntervalMs: 5 });
+
+    registry.acquire(baseConfig);
+    const drained = registry.drain();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(adapter.close).not.toHaveBeenCalled();
+
+    adapter.getPoolStats.mockReturnValue({ ...adapter.getPoolStats(), active: 0 });
+    await drained;
+    expect(adapter.close).toHaveBeenCalled();
+    expect(registry.size).toBe(0);
+  });
+
+  it("closes everything on shutdown", async () => {
+    const adapter = createFakeAdapter();
+    const registry = new PoolRegistry(() => adapter);
+
+    registry.acquire(baseConfig);
+    await registry.closeAll();
+
+    expect(adapter.close).toHaveBeenCalled();
+    expect(registry.size).toBe(0);
+  });
+});
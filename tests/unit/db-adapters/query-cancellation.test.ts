@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Database from "better-sqlite3";
+import { SQLiteAdapter } from "@/lib/db-adapters/sqlite";
+import { resolveQueryTimeout } from "@/lib/db-adapters/query-options";
+import type { DBConfig } from "@/lib/db-adapters/types";
+
+// Recursive CTE that runs far longer than any test timeout
+const SLOW_QUERY = `
+  WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n)
+  SELECT COUNT(*) AS total FROM n
+`;
+
+describe("query timeouts and cancellation", () => {
+  let dir: string;
+  let config: DBConfig;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "dashbee-sqlite-"));
+    const filename = join(dir, "test.db");
+    const db = new Database(filename);
+    db.exec("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)");
+    db.exec("INSERT INTO items (name) VALUES ('a'), ('b'), ('c')");
+    db.close();
+
+    config = {
+      type: "sqlite",
+      host: "",
+      port: 0,
+      database: "",
+      user: "",
+      password: "",
+      ssl: false,
+      filename,
+    };
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("runs ordinary queries", async () => {
+    const adapter = new SQLiteAdapter(config);
+    const result = await adapter.query("SELECT name FROM items ORDER BY id");
+    expect(result.rows).toEqual([{ name: "a" }, { name: "b" }, { name: "c" }]);
+    await adapter.close();
+  });
+
+  it("times out long-running queries", async () => {
+    const adapter = new SQLiteAdapter(config);
+    await expect(
+      adapter.query(SLOW_QUERY, [], { timeoutMs: 200 }),
+    ).rejects.toThrow("Query timed out after 200ms");
+    await adapter.close();
+  });
+
+  it("cancels a query when the signal aborts", async () => {
+    const adapter = new SQLiteAdapter(config);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(
+      adapter.query(SLOW_QUERY, [], { signal: controller.signal }),
+    ).rejects.toThrow("Query cancelled");
+    await adapter.close();
+  });
+
+  it("rejects immediately when already aborted", async () => {
+    const adapter = new SQLiteAdapter(config);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      adapter.query("SELECT 1", [], { signal: controller.signal }),
+    ).rejects.toThrow("Query cancelled");
+  });
+
+  it("keeps answering after a timed-out query, and queues queries behind it", async () => {
+    const adapter = new SQLiteAdapter(config);
+    const slow = adapter.query(SLOW_QUERY, [], { timeoutMs: 200 });
+    const queued = adapter.query("SELECT COUNT(*) AS n FROM items");
+
+    await expect(slow).rejects.toThrow("Query timed out after 200ms");
+    expect((await queued).rows).toEqual([{ n: 3 }]);
+    expect((await adapter.query("SELECT name FROM items WHERE id = ?", [2])).rows).toEqual([{ name: "b" }]);
+    await adapter.close();
+  });
+
+  it("opens databases read-only and never creates them", async () => {
+    const missing = join(dir, "missing.db");
+    const adapter = new SQLiteAdapter({ ...config, filename: missing });
+    await expect(adapter.testConnection()).rejects.toThrow();
+    expect(existsSync(missing)).toBe(false);
+
+    await expect(
+      new SQLiteAdapter({ ...config, filename: ":memory:" }).testConnection(),
+    ).rejects.toThrow("in-memory databases are not supported");
+  });
+
+  it("prefers the per-query timeout over the environment default", () => {
+    const original = process.env.QUERY_TIMEOUT_MS;
+    process.env.QUERY_TIMEOUT_MS = "7000";
+    try {
+      expect(resolveQueryTimeout({ timeoutMs: 250 }, 5000)).toBe(250);
+      expect(resolveQueryTimeout({}, 5000)).toBe(7000);
+    } finally {
+      if (original === undefined) delete process.env.QUERY_TIMEOUT_MS;
+      else process.env.QUERY_TIMEOUT_MS = original;
+    }
+  });
+});
+
+describe("MySQL cancellation", () => {
+  afterAll(() => {
+    vi.doUnmock("mysql2/promise");
+    vi.resetModules();
+  });
+
+  it("kills a query over a separate connection while the pool is saturated", async () => {
+    vi.resetModules();
+    let rejectRunning: (error: Error) => void = () => {};
+    const running = {
+      threadId: 17,
+      execute: vi.fn(
+        () =>
+          new Promise((_, reject) => {
+            rejectRunning = reject;
+          }),
+      ),
+      release: vi.fn(),
+    };
+    // Every pooled connection is busy: further requests wait forever
+    const poolQuery = vi.fn(() => new Promise(() => {}));
+    const getConnection = vi
+      .fn()
+      .mockResolvedValueOnce(running)
+      .mockImplementation(() => new Promise(() => {}));
+    const killQuery = vi.fn(async () => {
+      rejectRunning(new Error("Query execution was interrupted"));
+      return [[]];
+    });
+    const killerEnd = vi.fn().mockResolvedValue(undefined);
+    const createConnection = vi.fn().mockResolvedValue({ query: killQuery, end: killerEnd });
+    vi.doMock("mysql2/promise", () => ({
+      createPool: () => ({ getConnection, query: poolQuery, on: vi.fn(), end: vi.fn() }),
+      createConnection,
+    }));
+
+    const { MySQLAdapter } = await import("@/lib/db-adapters/mysql");
+    const adapter = new MySQLAdapter({
+      type: "mysql",
+      host: "localhost",
+      port: 3306,
+      database: "test",
+      user: "root",
+      password: "password",
+      ssl: false,
+    });
+
+    const controller = new AbortController();
+    const query = adapter.query("SELECT SLEEP(60)", [], { signal: controller.signal });
+    await vi.waitFor(() => expect(running.execute).toHaveBeenCalled());
+    // A second query holds the pool's queue
+    void adapter.query("SELECT 1");
+    controller.abort();
+
+    await expect(query).rejects.toThrow("Query cancelled");
+    expect(createConnection).toHaveBeenCalledWith(expect.objectContaining({ host: "localhost", database: "test" }));
+    expect(killQuery).toHaveBeenCalledWith("KILL QUERY 17");
+    expect(killerEnd).toHaveBeenCalled();
+    expect(poolQuery).not.toHaveBeenCalled();
+  });
+});
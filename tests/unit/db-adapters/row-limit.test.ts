@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import Database from "better-sqlite3";
+import {
+  wrapWithLimit,
+  buildCountQuery,
+  applyRowLimit,
+  applyByteBudget,
+  applyResultBudget,
+} from "@/lib/db-adapters/row-limit";
+import { SQLiteAdapter } from "@/lib/db-adapters/sqlite";
+import type { DBConfig } from "@/lib/db-adapters/types";
+
+describe("row-limit", () => {
+  describe("wrapWithLimit", () => {
+    it("wraps the query in an aliased subquery for PostgreSQL and MySQL", () => {
+      expect(wrapWithLimit("SELECT * FROM t ORDER BY x LIMIT 5;", "postgresql", 101)).toBe(
+        "SELECT * FROM (SELECT * FROM t ORDER BY x LIMIT 5) AS limited_result LIMIT 101",
+      );
+      expect(wrapWithLimit("SELECT 1", "mysql", 10)).toBe(
+        "SELECT * FROM (SELECT 1) AS limited_result LIMIT 10",
+      );
+    });
+
+    it("omits the alias for SQLite", () => {
+      expect(wrapWithLimit("SELECT 1", "sqlite", 10)).toBe(
+        "SELECT * FROM (SELECT 1) LIMIT 10",
+      );
+    });
+
+    it("places an optimizer hint after the outer SELECT", () => {
+      expect(
+        wrapWithLimit("SELECT 1", "mysql", 10, "/*+ MAX_EXECUTION_TIME(5000) */"),
+      ).toBe(
+        "SELECT /*+ MAX_EXECUTION_TIME(5000) */ * FROM (SELECT 1) AS limited_result LIMIT 10",
+      );
+    });
+
+    it("builds a count query", () => {
+      expect(buildCountQuery("SELECT * FROM t;", "postgresql")).toBe(
+        "SELECT COUNT(*) AS total FROM (SELECT * FROM t) AS counted_result",
+      );
+    });
+  });
+
+  describe("budgets", () => {
+    it("drops the extra row fetched to detect truncation", () => {
+      expect(applyRowLimit([1, 2, 3], 3)).toEqual({ rows: [1, 2, 3], truncated: false });
+      expect(applyRowLimit([1, 2, 3, 4], 3)).toEqual({ rows: [1, 2, 3], truncated: true });
+    });
+
+    it("keeps the rows that fit in the byte budget", () => {
+      const rows = Array.from({ length: 10 }, (_, i) => ({ id: i, name: "x".repeat(20) }));
+      const result = applyByteBudget(rows, 100);
+      expect(result.truncated).toBe(true);
+      expect(result.rows.length).toBeGreaterThan(0);
+      expect(JSON.stringify(result.rows).length).toBeLessThanOrEqual(100);
+    });
+
+    it("applies both budgets to in-memory rows", () => {
+      const rows = Array.from({ length: 50 }, (_, i) => ({ id: i }));
+      expect(applyResultBudget(rows, { maxRows: 20, maxBytes: 1_000_000 })).toMatchObject({
+        truncated: true,
+      });
+      expect(applyResultBudget(rows, { maxRows: 20, maxBytes: 1_000_000 }).rows).toHaveLength(20);
+      expect(applyResultBudget(rows, { maxRows: 100, maxBytes: 1_000_000 }).truncated).toBe(false);
+    });
+  });
+
+  describe("SQLite adapter truncation", () => {
+    let dir: string;
+    let config: DBConfig;
+    const originalMaxRows = process.env.MAX_QUERY_ROWS;
+
+    beforeAll(() => {
+      process.env.MAX_QUERY_ROWS = "5";
+      dir = mkdtempSync(join(tmpdir(), "dashbee-row-limit-"));
+      const filename = join(dir, "test.db");
+      const db = new Database(filename);
+      db.exec("CREATE TABLE events (id INTEGER PRIMARY KEY)");
+      const insert = db.prepare("INSERT INTO events (id) VALUES (?)");
+      for (let i = 1; i <= 20; i++) insert.run(i);
+      db.close();
+      config = {
+        type: "sqlite",
+        host: "",
+        port: 0,
+        database: "",
+        user: "",
+        password: "",
+        ssl: false,
+        filename,
+      };
+    });
+
+    afterAll(() => {
+      if (originalMaxRows === undefined) delete process.env.MAX_QUERY_ROWS;
+      else process.env.MAX_QUERY_ROWS = originalMaxRows;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("flags results that exceed MAX_QUERY_ROWS", async () => {
+      const adapter = new SQLiteAdapter(config);
+      const result = await adapter.query("SELECT id FROM events ORDER BY id DESC");
+      expect(result.truncated).toBe(true);
+      expect(result.rows.map((row) => row.id)).toEqual([20, 19, 18, 17, 16]);
+      await adapter.close();
+    });
+
+    it("preserves the query's own LIMIT", async () => {
+      const adapter = new SQLiteAdapter(config);
+      const result = await adapter.query("SELECT id FROM events ORDER BY id LIMIT 3");
+      expect(result.truncated).toBe(false);
+      expect(result.rows).toHaveLength(3);
+      await adapter.close();
+    });
+  });
+});
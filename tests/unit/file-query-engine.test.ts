@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { InMemoryDatabase } from "@/lib/in-memory-db";
+import { FileQueryEngine, bindPositionalParams } from "@/lib/file-query-engine";
+
+describe("FileQueryEngine", () => {
+  let store: InMemoryDatabase;
+  let engine: FileQueryEngine;
+
+  beforeEach(() => {
+    store = new InMemoryDatabase();
+    engine = new FileQueryEngine(() => store);
+  });
+
+  afterEach(() => {
+    engine.close();
+  });
+
+  describe("query - SELECT", () => {
+    beforeEach(() => {
+      store.addTable("products", [
+        { id: 1, name: "Widget A", price: 29.99, category: "Electronics" },
+        { id: 2, name: "Widget B", price: 49.99, category: "Electronics" },
+        { id: 3, name: "Gadget X", price: 19.99, category: "Accessories" },
+        { id: 4, name: "Gadget Y", price: 39.99, category: "Accessories" },
+        { id: 5, name: "Device Z", price: 99.99, category: "Hardware" },
+      ]);
+    });
+
+    it("selects all columns with *", () => {
+      const result = engine.query("SELECT * FROM products");
+
+      expect(result.rows).toHaveLength(5);
+      expect(result.columns).toEqual(["id", "name", "price", "category"]);
+    });
+
+    it("selects specific columns", () => {
+      const result = engine.query("SELECT name, price FROM products");
+
+      expect(result.columns).toEqual(["name", "price"]);
+      expect(result.rows[0]).not.toHaveProperty("id");
+    });
+
+    it("handles case-insensitive table names", () => {
+      const result = engine.query("SELECT * FROM PRODUCTS");
+      expect(result.rows).toHaveLength(5);
+    });
+
+    it("filters with OR, BETWEEN and CASE", () => {
+      const result = engine.query(`
+        SELECT name, CASE WHEN price > 40 THEN 'premium' ELSE 'budget' END AS tier
+        FROM products
+        WHERE category = 'Hardware' OR price BETWEEN 20 AND 40
+        ORDER BY id
+      `);
+      expect(result.rows).toEqual([
+        { name: "Widget A", tier: "budget" },
+        { name: "Gadget Y", tier: "budget" },
+        { name: "Device Z", tier: "premium" },
+      ]);
+    });
+
+    it("supports window functions", () => {
+      const result = engine.query(`
+        SELECT name, ROW_NUMBER() OVER (PARTITION BY category ORDER BY price DESC) AS rank
+        FROM products
+        WHERE category = 'Electronics'
+      `);
+      expect(result.rows[0]).toEqual({ name: "Widget B", rank: 1 });
+    });
+  });
+
+  describe("query - aggregations", () => {
+    beforeEach(() => {
+      store.addTable("sales", [
+        { region: "North", amount: 100 },
+        { region: "North", amount: 200 },
+        { region: "South", amount: 150 },
+        { region: "South", amount: 250 },
+        { region: "South", amount: 100 },
+      ]);
+    });
+
+    it("calculates aggregates without GROUP BY", () => {
+      const result = engine.query(
+        "SELECT COUNT(*) as n, SUM(amount) as sum, AVG(amount) as avg, MIN(amount) as min, MAX(amount) as max FROM sales",
+      );
+      expect(result.rows[0]).toEqual({ n: 5, sum: 800, avg: 160, min: 100, max: 250 });
+    });
+
+    it("groups with aggregates and HAVING", () => {
+      const result = engine.query(
+        "SELECT region, COUNT(*) as count, SUM(amount) as total FROM sales GROUP BY region HAVING COUNT(*) > 2",
+      );
+      expect(result.rows).toEqual([{ region: "South", count: 3, total: 500 }]);
+    });
+  });
+
+  describe("multiple tables", () => {
+    beforeEach(() => {
+      store.addTable("orders", [
+        { id: 1, customer_id: 1, amount: 50, ordered_at: "2024-01-15" },
+        { id: 2, customer_id: 2, amount: 75, ordered_at: "2024-02-03" },
+        { id: 3, customer_id: 1, amount: 25, ordered_at: "2024-02-20" },
+      ]);
+      store.addTable("customers", [
+        { id: 1, name: "Acme", active: true },
+        { id: 2, name: "Globex", active: false },
+      ]);
+    });
+
+    it("joins uploaded tables", () => {
+      const result = engine.query(`
+        SELECT c.name, SUM(o.amount) AS total
+        FROM orders o JOIN customers c ON o.customer_id = c.id
+        GROUP BY c.name ORDER BY c.name
+      `);
+      expect(result.rows).toEqual([
+        { name: "Acme", total: 75 },
+        { name: "Globex", total: 75 },
+      ]);
+    });
+
+    it("supports date functions on ISO dates", () => {
+      const result = engine.query(
+        "SELECT strftime('%Y-%m', ordered_at) AS month, COUNT(*) AS orders FROM orders GROUP BY month ORDER BY month",
+      );
+      expect(result.rows).toEqual([
+        { month: "2024-01", orders: 1 },
+        { month: "2024-02", orders: 2 },
+      ]);
+    });
+
+    it("stores booleans as 1/0", () => {
+      const result = engine.query("SELECT name FROM customers WHERE active = 1");
+      expect(result.rows).toEqual([{ name: "Acme" }]);
+    });
+
+    it("picks up replaced and removed tables", () => {
+      store.addTable("customers", [{ id: 3, name: "Initech", active: true }]);
+      expect(engine.query("SELECT name FROM customers").rows).toEqual([{ name: "Initech" }]);
+
+      store.removeTable("orders");
+      expect(() => engine.query("SELECT * FROM orders")).toThrow(
+        /Table "orders" not found/,
+      );
+    });
+  });
+
+  describe("parameters", () => {
+    beforeEach(() => {
+      store.addTable("events", [
+        { id: 1, kind: "click", day: "2024-01-01" },
+        { id: 2, kind: "view", day: "2024-01-02" },
+        { id: 3, kind: "click", day: "2024-01-03" },
+      ]);
+    });
+
+    it("binds $n placeholders", () => {
+      const result = engine.query(
+        "SELECT id FROM events WHERE kind = $1 AND day >= $2 ORDER BY id",
+        ["click", "2024-01-02"],
+      );
+      expect(result.rows).toEqual([{ id: 3 }]);
+    });
+
+    it("does not treat parameter values as SQL", () => {
+      const result = engine.query("SELECT id FROM events WHERE kind = $1", [
+        "click' OR '1'='1",
+      ]);
+      expect(result.rows).toEqual([]);
+    });
+
+    it("rewrites placeholders outside of string literals only", () => {
+      expect(bindPositionalParams("SELECT '$1' AS a, $2 AS b, $1 AS c", [1, 2])).toEqual({
+        sql: "SELECT '$1' AS a, ? AS b, ? AS c",
+        params: [2, 1],
+      });
+    });
+  });
+
+  describe("error handling", () => {
+    it("throws error for non-existent table", () => {
+      store.addTable("products", [{ id: 1 }]);
+      expect(() => engine.query("SELECT * FROM nonexistent")).toThrow(
+        /Table "nonexistent" not found. Available tables: products/,
+      );
+    });
+
+    it("throws error for invalid SQL", () => {
+      expect(() => engine.query("INVALID SQL")).toThrow();
+    });
+
+    it("rejects statements that modify data", () => {
+      store.addTable("products", [{ id: 1 }]);
+      expect(() => engine.query("DELETE FROM products")).toThrow();
+      expect(engine.query("SELECT COUNT(*) AS n FROM products").rows).toEqual([{ n: 1 }]);
+    });
+  });
+});
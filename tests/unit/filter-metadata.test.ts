@@ -52,6 +52,17 @@ describe("filter-metadata", () => {
       expect(result.params).toEqual(["pending", "processing", "shipped"]);
     });
 
+    it("splits comma-joined multi-select values for IN", () => {
+      const filterMeta: FilterMeta[] = [
+        { id: "region", column: "region", operator: "in", type: "text" },
+      ];
+
+      const result = buildFilteredQuery("SELECT * FROM orders", filterMeta, { region: "East,West" });
+
+      expect(result.sql).toContain("WHERE region IN ($1, $2)");
+      expect(result.params).toEqual(["East", "West"]);
+    });
+
     it("builds query with BETWEEN operator", () => {
       const baseQuery = "SELECT * FROM products";
       const filterMeta: FilterMeta[] = [
@@ -274,6 +285,33 @@ describe("filter-metadata", () => {
       expect(result.params).toEqual(["%WIDGET%"]);
     });
 
+    it("emulates ILIKE on MySQL and SQLite", () => {
+      const filterMeta: FilterMeta[] = [
+        { id: "name_search", column: "name", operator: "ilike", type: "text" },
+      ];
+      const values = { name_search: "%Widget%" };
+
+      for (const dialect of ["mysql", "sqlite"] as const) {
+        const result = buildFilteredQuery("SELECT * FROM products", filterMeta, values, { dialect });
+        expect(result.sql).toContain("WHERE LOWER(name) LIKE LOWER(?)");
+        expect(result.params).toEqual(["%Widget%"]);
+      }
+      const postgres = buildFilteredQuery("SELECT * FROM products", filterMeta, values, { dialect: "postgresql" });
+      expect(postgres.sql).toContain("WHERE name ILIKE $1");
+    });
+
+    it("numbers placeholders after existing params", () => {
+      const baseQuery = "SELECT * FROM orders WHERE created_at >= $1";
+      const filterMeta: FilterMeta[] = [
+        { id: "region", column: "region", operator: "eq", type: "text" },
+      ];
+
+      const result = buildFilteredQuery(baseQuery, filterMeta, { region: "West" }, { params: ["2024-01-01"] });
+
+      expect(result.sql).toContain("AND region = $2");
+      expect(result.params).toEqual(["2024-01-01", "West"]);
+    });
+
     it("handles NOT IN operator", () => {
       const baseQuery = "SELECT * FROM orders";
       const filterMeta: FilterMeta[] = [
@@ -344,6 +382,110 @@ describe("filter-metadata", () => {
     });
   });
 
+  describe("buildFilteredQuery dialects", () => {
+    const filterMeta: FilterMeta[] = [
+      { id: "date_from", column: "created_at", operator: "gte", type: "date" },
+      { id: "name_search", column: "name", operator: "ilike", type: "text" },
+      { id: "region", column: "sales region", operator: "in", type: "text" },
+      { id: "is_paid", column: "is_paid", operator: "eq", type: "boolean" },
+    ];
+    const filterValues = { date_from: "2024-01-01", name_search: "%Widget%", region: "East,West", is_paid: "true" };
+
+    it.each([
+      {
+        dialect: "postgresql" as const,
+        where: `WHERE created_at >= $1 AND name ILIKE $2 AND "sales region" IN ($3, $4) AND is_paid = $5`,
+        params: ["2024-01-01", "%Widget%", "East", "West", true],
+      },
+      {
+        dialect: "mysql" as const,
+        where:
+          "WHERE created_at >= CAST(? AS DATE) AND LOWER(name) LIKE LOWER(?) AND `sales region` IN (?, ?) AND is_paid = ?",
+        params: ["2024-01-01", "%Widget%", "East", "West", true],
+      },
+      {
+        dialect: "sqlite" as const,
+        where: `WHERE created_at >= date(?) AND LOWER(name) LIKE LOWER(?) AND "sales region" IN (?, ?) AND is_paid = ?`,
+        params: ["2024-01-01", "%Widget%", "East", "West", 1],
+      },
+    ])("writes placeholders, matching, casts and quoting for $dialect", ({ dialect, where, params }) => {
+      const result = buildFilteredQuery("SELECT * FROM orders ORDER BY id", filterMeta, filterValues, { dialect });
+
+      expect(result.sql).toBe(`SELECT * FROM orders ${where} ORDER BY id`);
+      expect(result.params).toEqual(params);
+    });
+
+    it("re-quotes identifiers quoted for another dialect", () => {
+      const meta: FilterMeta[] = [
+        { id: "region", table: "[sales data]", column: "`Region`", operator: "eq", type: "text" },
+      ];
+
+      const postgres = buildFilteredQuery("SELECT * FROM orders", meta, { region: "West" }, { dialect: "postgresql" });
+      expect(postgres.sql).toBe(`SELECT * FROM orders WHERE "sales data"."Region" = $1`);
+
+      const mysql = buildFilteredQuery("SELECT * FROM orders", meta, { region: "West" }, { dialect: "mysql" });
+      expect(mysql.sql).toBe("SELECT * FROM orders WHERE `sales data`.`Region` = ?");
+    });
+
+    it("filters every UNION branch, repeating positional values", () => {
+      const baseQuery =
+        "SELECT region, amount FROM orders UNION ALL SELECT region, amount FROM archived_orders WHERE amount > ? ORDER BY amount";
+      const meta: FilterMeta[] = [{ id: "region", column: "region", operator: "eq", type: "text" }];
+
+      const mysql = buildFilteredQuery(baseQuery, meta, { region: "West" }, { params: [10], dialect: "mysql" });
+      expect(mysql.sql).toBe(
+        "SELECT region, amount FROM orders WHERE region = ? UNION ALL SELECT region, amount FROM archived_orders WHERE amount > ? AND region = ? ORDER BY amount",
+      );
+      expect(mysql.params).toEqual(["West", 10, "West"]);
+
+      const postgres = buildFilteredQuery(
+        baseQuery.replace("?", "$1"),
+        meta,
+        { region: "West" },
+        { params: [10], dialect: "postgresql" },
+      );
+      expect(postgres.sql).toContain("FROM orders WHERE region = $2 UNION ALL");
+      expect(postgres.sql).toContain("WHERE amount > $1 AND region = $2 ORDER BY amount");
+      expect(postgres.params).toEqual([10, "West"]);
+    });
+
+    it("filters the main query of a CTE, not its body", () => {
+      const result = buildFilteredQuery(
+        "WITH recent AS (SELECT * FROM orders WHERE status = 'paid' GROUP BY id) SELECT region, SUM(amount) FROM recent GROUP BY region",
+        [{ id: "region", column: "region", operator: "eq", type: "text" }],
+        { region: "West" },
+        { dialect: "sqlite" },
+      );
+
+      expect(result.sql).toBe(
+        "WITH recent AS (SELECT * FROM orders WHERE status = 'paid' GROUP BY id) SELECT region, SUM(amount) FROM recent WHERE region = ? GROUP BY region",
+      );
+    });
+
+    it("skips subqueries in FROM and keywords in string literals", () => {
+      const result = buildFilteredQuery(
+        "SELECT t.region, COUNT(*) FROM (SELECT * FROM orders WHERE note <> ')') t WHERE t.label = 'ORDER BY (' GROUP BY t.region",
+        [{ id: "region", column: "region", operator: "eq", type: "text", table: "t" }],
+        { region: "West" },
+        { dialect: "mysql" },
+      );
+
+      expect(result.sql).toBe(
+        "SELECT t.region, COUNT(*) FROM (SELECT * FROM orders WHERE note <> ')') t WHERE t.label = 'ORDER BY (' AND t.region = ? GROUP BY t.region",
+      );
+    });
+
+    it("keeps an existing OR together and drops comments", () => {
+      const result = buildFilteredQuery(
+        "SELECT * FROM orders -- all orders\nWHERE status = 'paid' OR status = 'shipped'",
+        [{ id: "region", column: "region", operator: "eq", type: "text" }],
+        { region: "West" },
+      );
+
+      expect(result.sql).toBe("SELECT * FROM orders WHERE (status = 'paid' OR status = 'shipped') AND region = $1");
+    });
+  });
+
   describe("validateFilterMeta", () => {
     it("returns valid for correct filter metadata", () => {
       const filterMeta: FilterMeta[] = [
@@ -530,6 +672,14 @@ describe("filter-metadata", () => {
       });
     });
 
+    it("infers _search suffix as ilike filter", () => {
+      const result = inferFilterMeta({ customer_name_search: "%ada%" });
+
+      expect(result).toEqual([
+        { id: "customer_name_search", column: "customer_name", operator: "ilike", type: "text" },
+      ]);
+    });
+
     it("skips empty values", () => {
       const result = inferFilterMeta({
         date_from: "2024-01-01",
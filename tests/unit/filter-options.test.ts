@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { FilterMeta } from "@/lib/filter-metadata";
+import { createFileWorkspace } from "@/lib/dataset-store";
+import {
+  buildOptionsPageQuery,
+  buildSelectedCheckQuery,
+  optionsColumn,
+  optionValues,
+} from "@/lib/filter-options";
+
+const cityLookup = {
+  sql: "SELECT DISTINCT city FROM customers ORDER BY city;",
+  filterMeta: [{ id: "country", column: "country", operator: "in", type: "text" }] as FilterMeta[],
+  column: "city",
+};
+
+describe("buildOptionsPageQuery", () => {
+  it("narrows the lookup by its parent filters, searches and pages it", () => {
+    const query = buildOptionsPageQuery({
+      ...cityLookup,
+      parentParams: { country: "Germany,Austria" },
+      search: " ber ",
+      offset: 100,
+      limit: 50,
+    });
+    expect(query.sql).toBe(
+      "SELECT * FROM (SELECT city AS value FROM" +
+        " (SELECT DISTINCT city FROM customers WHERE country IN ($1, $2) ORDER BY city) AS lookup) AS filter_options" +
+        " WHERE value ILIKE $3 ORDER BY value LIMIT 51 OFFSET 100",
+    );
+    expect(query.params).toEqual(["Germany", "Austria", "%ber%"]);
+  });
+
+  it("runs the lookup as-is without parent values, and clamps paging", () => {
+    const query = buildOptionsPageQuery({ ...cityLookup, limit: 10_000, offset: -5, dialect: "sqlite" });
+    expect(query.sql).toBe(
+      "SELECT * FROM (SELECT city AS value FROM (SELECT DISTINCT city FROM customers ORDER BY city) AS lookup)" +
+        " AS filter_options ORDER BY value LIMIT 501 OFFSET 0",
+    );
+    expect(query.params).toEqual([]);
+  });
+
+  it("pages the options column even when the lookup selects others first", () => {
+    const workspace = createFileWorkspace();
+    workspace.tables.addTable("customers", [
+      { id: 3, city: "Berlin" },
+      { id: 1, city: "Vienna" },
+      { id: 2, city: "Bern" },
+    ]);
+    const query = buildOptionsPageQuery({
+      sql: "SELECT id, city FROM customers",
+      column: "city",
+      search: "ber",
+      dialect: "sqlite",
+    });
+    expect(optionValues(workspace.engine.query(query.sql, query.params).rows)).toEqual(["Berlin", "Bern"]);
+    workspace.engine.close();
+  });
+});
+
+describe("buildSelectedCheckQuery", () => {
+  it("asks which selected values the parent filters still allow", () => {
+    const query = buildSelectedCheckQuery(
+      { ...cityLookup, parentParams: { country: "Germany" } },
+      ["Berlin", "Paris"],
+    );
+    expect(query.sql).toContain("AS filter_options WHERE value IN ($2, $3)");
+    expect(query.params).toEqual(["Germany", "Berlin", "Paris"]);
+  });
+});
+
+describe("optionsColumn", () => {
+  it("strips the table and rejects anything but a plain identifier", () => {
+    expect(optionsColumn("customers.city")).toBe("city");
+    expect(optionsColumn("city; DROP TABLE x")).toBeNull();
+    expect(optionValues([{ value: "Berlin" }, { value: null }, { value: 3 }])).toEqual(["Berlin", "3"]);
+  });
+});
@@ -63,226 +63,6 @@ describe("InMemoryDatabase", () => {
     });
   });
 
-  describe("query - SELECT", () => {
-    beforeEach(() => {
-      db.addTable("products", [
-        { id: 1, name: "Widget A", price: 29.99, category: "Electronics" },
-        { id: 2, name: "Widget B", price: 49.99, category: "Electronics" },
-        { id: 3, name: "Gadget X", price: 19.99, category: "Accessories" },
-        { id: 4, name: "Gadget Y", price: 39.99, category: "Accessories" },
-        { id: 5, name: "Device Z", price: 99.99, category: "Hardware" },
-      ]);
-    });
-
-    it("selects all columns with *", () => {
-      const result = db.query("SELECT * FROM products");
-
-      expect(result.rows).toHaveLength(5);
-      expect(result.columns).toContain("id");
-      expect(result.columns).toContain("name");
-      expect(result.columns).toContain("price");
-      expect(result.columns).toContain("category");
-    });
-
-    it("selects specific columns", () => {
-      const result = db.query("SELECT name, price FROM products");
-
-      expect(result.columns).toEqual(["name", "price"]);
-      expect(result.rows[0]).toHaveProperty("name");
-      expect(result.rows[0]).toHaveProperty("price");
-      expect(result.rows[0]).not.toHaveProperty("id");
-    });
-
-    it("handles case-insensitive table names", () => {
-      const result = db.query("SELECT * FROM PRODUCTS");
-      expect(result.rows).toHaveLength(5);
-    });
-  });
-
-  describe("query - WHERE", () => {
-    beforeEach(() => {
-      db.addTable("products", [
-        { id: 1, name: "Widget A", price: 29.99, category: "Electronics" },
-        { id: 2, name: "Widget B", price: 49.99, category: "Electronics" },
-        { id: 3, name: "Gadget X", price: 19.99, category: "Accessories" },
-        { id: 4, name: "Gadget Y", price: 39.99, category: "Accessories" },
-        { id: 5, name: "Device Z", price: 99.99, category: "Hardware" },
-      ]);
-    });
-
-    it("filters with equality", () => {
-      const result = db.query("SELECT * FROM products WHERE category = 'Electronics'");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with greater than", () => {
-      const result = db.query("SELECT * FROM products WHERE price > 40");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with less than", () => {
-      const result = db.query("SELECT * FROM products WHERE price < 30");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with greater than or equal", () => {
-      const result = db.query("SELECT * FROM products WHERE price >= 49.99");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with less than or equal", () => {
-      const result = db.query("SELECT * FROM products WHERE price <= 29.99");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with not equal", () => {
-      const result = db.query("SELECT * FROM products WHERE category != 'Electronics'");
-      expect(result.rows).toHaveLength(3);
-    });
-
-    it("filters with LIKE pattern", () => {
-      const result = db.query("SELECT * FROM products WHERE name LIKE 'Widget%'");
-      expect(result.rows).toHaveLength(2);
-    });
-
-    it("filters with AND conditions", () => {
-      const result = db.query("SELECT * FROM products WHERE category = 'Electronics' AND price > 30");
-      expect(result.rows).toHaveLength(1);
-      expect(result.rows[0]!.name).toBe("Widget B");
-    });
-
-    // Note: OR is not supported by the current implementation
-  });
-
-  describe("query - ORDER BY", () => {
-    beforeEach(() => {
-      db.addTable("products", [
-        { id: 3, name: "C Product", price: 30 },
-        { id: 1, name: "A Product", price: 10 },
-        { id: 2, name: "B Product", price: 20 },
-      ]);
-    });
-
-    it("orders by column ascending", () => {
-      const result = db.query("SELECT * FROM products ORDER BY name ASC");
-      expect(result.rows[0]!.name).toBe("A Product");
-      expect(result.rows[2]!.name).toBe("C Product");
-    });
-
-    it("orders by column descending", () => {
-      const result = db.query("SELECT * FROM products ORDER BY price DESC");
-      expect(result.rows[0]!.price).toBe(30);
-      expect(result.rows[2]!.price).toBe(10);
-    });
-
-    it("defaults to ascending order", () => {
-      const result = db.query("SELECT * FROM products ORDER BY id");
-      expect(result.rows[0]!.id).toBe(1);
-      expect(result.rows[2]!.id).toBe(3);
-    });
-  });
-
-  describe("query - LIMIT", () => {
-    beforeEach(() => {
-      db.addTable("items", [
-        { id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }, { id: 5 },
-      ]);
-    });
-
-    it("limits results", () => {
-      const result = db.query("SELECT * FROM items LIMIT 3");
-      expect(result.rows).toHaveLength(3);
-    });
-
-    it("handles LIMIT larger than data", () => {
-      const result = db.query("SELECT * FROM items LIMIT 100");
-      expect(result.rows).toHaveLength(5);
-    });
-  });
-
-  describe("query - aggregations without GROUP BY", () => {
-    beforeEach(() => {
-      db.addTable("numbers", [
-        { value: 10 }, { value: 20 }, { value: 30 }, { value: 40 }, { value: 50 },
-      ]);
-    });
-
-    it("calculates COUNT(*)", () => {
-      const result = db.query("SELECT COUNT(*) as count FROM numbers");
-      expect(result.rows[0]!.count).toBe(5);
-    });
-
-    it("calculates SUM", () => {
-      const result = db.query("SELECT SUM(value) as total FROM numbers");
-      expect(result.rows[0]!.total).toBe(150);
-    });
-
-    it("calculates AVG", () => {
-      const result = db.query("SELECT AVG(value) as average FROM numbers");
-      expect(result.rows[0]!.average).toBe(30);
-    });
-
-    it("calculates multiple aggregations", () => {
-      const result = db.query("SELECT COUNT(*) as n, SUM(value) as sum, AVG(value) as avg, MIN(value) as min, MAX(value) as max FROM numbers");
-      expect(result.rows[0]!.n).toBe(5);
-      expect(result.rows[0]!.sum).toBe(150);
-      expect(result.rows[0]!.avg).toBe(30);
-      expect(result.rows[0]!.min).toBe(10);
-      expect(result.rows[0]!.max).toBe(50);
-    });
-  });
-
-  // Note: GROUP BY queries are not currently supported by the simple SQL parser.
-  // The parser regex expects queries to end after LIMIT, so GROUP BY clauses fail to parse.
-  // If GROUP BY support is added in the future, uncomment and update these tests.
-  describe.skip("query - GROUP BY with aggregations", () => {
-    beforeEach(() => {
-      db.addTable("sales", [
-        { region: "North", amount: 100 },
-        { region: "North", amount: 200 },
-        { region: "South", amount: 150 },
-        { region: "South", amount: 250 },
-        { region: "South", amount: 100 },
-      ]);
-    });
-
-    it("groups with COUNT", () => {
-      const result = db.query("SELECT region, COUNT(*) as count FROM sales GROUP BY region");
-      expect(result.rows).toHaveLength(2);
-
-      const north = result.rows.find(r => r.region === "North");
-      const south = result.rows.find(r => r.region === "South");
-      expect(north?.count).toBe(2);
-      expect(south?.count).toBe(3);
-    });
-
-    it("groups with SUM", () => {
-      const result = db.query("SELECT region, SUM(amount) as total FROM sales GROUP BY region");
-
-      const north = result.rows.find(r => r.region === "North");
-      const south = result.rows.find(r => r.region === "South");
-      expect(north?.total).toBe(300);
-      expect(south?.total).toBe(500);
-    });
-
-    it("groups with AVG", () => {
-      const result = db.query("SELECT region, AVG(amount) as avg FROM sales GROUP BY region");
-
-      const north = result.rows.find(r => r.region === "North");
-      const south = result.rows.find(r => r.region === "South");
-      expect(north?.avg).toBe(150);
-      expect(south?.avg).toBeCloseTo(166.67, 1);
-    });
-
-    it("groups with MIN and MAX", () => {
-      const result = db.query("SELECT region, MIN(amount) as min, MAX(amount) as max FROM sales GROUP BY region");
-
-      const south = result.rows.find(r => r.region === "South");
-      expect(south?.min).toBe(100);
-      expect(south?.max).toBe(250);
-    });
-  });
-
   describe("getTableData", () => {
     it("returns table data", () => {
       const data = [{ id: 1 }, { id: 2 }];
@@ -307,16 +87,4 @@ describe("InMemoryDatabase", () => {
       expect(schemas).toHaveLength(2);
     });
   });
-
-  describe("error handling", () => {
-    it("throws error for non-existent table", () => {
-      expect(() => db.query("SELECT * FROM nonexistent"))
-        .toThrow(/Table "nonexistent" not found/);
-    });
-
-    it("throws error for invalid SQL", () => {
-      expect(() => db.query("INVALID SQL"))
-        .toThrow();
-    });
-  });
 });
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { describeResult, factsToText, insightTypeFor } from "@/lib/insights";
+
+describe("describeResult", () => {
+  it("compares the latest period and fits a trend for time series", () => {
+    const facts = describeResult("revenue-by-month", [
+      { month: "2026-03-01", revenue: "1200" },
+      { month: "2026-01-01", revenue: "1000" },
+      { month: "2026-02-01", revenue: "1100" },
+    ]);
+    expect(facts).toMatchObject({
+      measure: "revenue",
+      dimension: "month",
+      total: 3300,
+      periodChange: {
+        current: { label: "2026-03-01", value: 1200 },
+        previous: { label: "2026-02-01", value: 1100 },
+        changePct: 9.09,
+      },
+      trend: { direction: "up", periods: 3 },
+    });
+    expect(facts.topContributors).toBeUndefined();
+  });
+
+  it("treats numeric period columns as time", () => {
+    const facts = describeResult("orders-by-year", [
+      { order_year: 2024, orders: 50 },
+      { order_year: 2025, orders: 40 },
+    ]);
+    expect(facts).toMatchObject({ dimension: "order_year", periodChange: { changePct: -20 }, trend: { direction: "down" } });
+  });
+
+  it("finds top contributors and outliers among categories", () => {
+    const rows = ["a", "b", "c", "d", "e", "f", "g"].map((region) => ({ region, sales: 10 }));
+    rows.push({ region: "north", sales: 130 });
+    const facts = describeResult("sales-by-region", rows);
+    expect(facts.topContributors?.[0]).toEqual({ label: "north", value: 130, sharePct: 65 });
+    expect(facts.outliers).toEqual([{ label: "north", value: 130, zScore: 2.65 }]);
+    expect(facts.periodChange).toBeUndefined();
+  });
+
+  it("describes nothing without a numeric column", () => {
+    expect(describeResult("names", [{ name: "Ada" }])).toEqual({ queryKey: "names", rowCount: 1 });
+    expect(describeResult("empty", [])).toEqual({ queryKey: "empty", rowCount: 0 });
+  });
+});
+
+describe("factsToText", () => {
+  it("phrases the facts without a model", () => {
+    const facts = [
+      describeResult("revenue", [
+        { month: "2026-01", revenue: 1000 },
+        { month: "2026-02", revenue: 900 },
+      ]),
+      describeResult("by-plan", [
+        { plan: "Pro", revenue: 750 },
+        { plan: "Free", revenue: 250 },
+      ]),
+    ];
+    expect(factsToText(facts)).toBe(
+      "revenue is down 10% in 2026-02 (900 vs 1,000 in 2026-01). Pro contributes 75% of revenue.",
+    );
+    expect(insightTypeFor(facts)).toBe("negative");
+    expect(insightTypeFor([facts[1]!])).toBe("info");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  testConnection: vi.fn(),
+}));
+
+import { testConnection, type DBConfig } from "@/lib/db";
+import { apiCache } from "@/lib/api-cache";
+import { getKnowledgeEntry, resolveKnowledgeDatabase } from "@/lib/knowledge-access";
+import { databaseKey, KnowledgeStore } from "@/lib/knowledge-store";
+
+const config: DBConfig = {
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  database: "analytics",
+  user: "alice",
+  password: "secret",
+  ssl: true,
+};
+
+const req = () => new Request("http://localhost/api/knowledge", { method: "POST" });
+
+beforeEach(() => {
+  vi.mocked(testConnection).mockReset();
+  apiCache.clear();
+});
+
+describe("resolveKnowledgeDatabase", () => {
+  it("only accepts inline configs that connect", async () => {
+    vi.mocked(testConnection).mockRejectedValueOnce(new Error("password authentication failed"));
+    expect(await resolveKnowledgeDatabase(req(), { dbConfig: config })).toEqual({
+      success: false,
+      error: "Could not connect to this database",
+      status: 403,
+    });
+
+    expect(await resolveKnowledgeDatabase(req(), { dbConfig: config })).toEqual({
+      success: true,
+      value: databaseKey(config),
+    });
+    expect(testConnection).toHaveBeenCalledTimes(2);
+  });
+
+  it("remembers a config that connected", async () => {
+    await resolveKnowledgeDatabase(req(), { dbConfig: config });
+    await resolveKnowledgeDatabase(req(), { dbConfig: config });
+    expect(testConnection).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses the default database without a config", async () => {
+    expect(await resolveKnowledgeDatabase(req(), {})).toEqual({ success: true, value: "default" });
+    expect(testConnection).not.toHaveBeenCalled();
+  });
+});
+
+describe("getKnowledgeEntry", () => {
+  it("hides entries of other databases", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    const added = await store.addLearning("db-a", { title: "Use ILIKE", learning: "Match names case-insensitively" });
+    if (!added.success) throw new Error(added.error);
+
+    expect(await getKnowledgeEntry(store, added.value.id, "db-a")).toMatchObject({ success: true });
+    expect(await getKnowledgeEntry(store, added.value.id, "db-b")).toEqual({
+      success: false,
+      error: "Entry not found",
+      status: 404,
+    });
+  });
+});
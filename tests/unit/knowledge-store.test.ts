@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import type { DBConfig } from "@/lib/db";
+import {
+  databaseKey,
+  KnowledgeStore,
+  type KnowledgeEntry,
+  learnFromRetries,
+  learningFromRepair,
+} from "@/lib/knowledge-store";
+import type { SQLToolResult } from "@/lib/types/sql-tools";
+
+const config: DBConfig = {
+  type: "postgresql",
+  host: "db.internal",
+  port: 5432,
+  database: "analytics",
+  user: "alice",
+  password: "secret",
+  ssl: true,
+};
+
+const T0 = Date.UTC(2026, 0, 1);
+
+describe("databaseKey", () => {
+  it("identifies the database, not the credentials", () => {
+    expect(databaseKey({ ...config, user: "bob", password: "other" })).toBe(databaseKey(config));
+    expect(databaseKey({ ...config, database: "billing" })).not.toBe(databaseKey(config));
+    expect(databaseKey(undefined)).toBe("default");
+  });
+});
+
+describe("KnowledgeStore", () => {
+  it("keeps learnings per database and merges repeats", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    const first = await store.addLearning("db-a", {
+      title: "Quote mixed-case columns",
+      learning: 'Use "orderDate" with quotes',
+      errorPattern: 'column "orderdate" does not exist',
+    }, "user", T0);
+    expect(first).toMatchObject({ success: true, value: { version: 1, usageCount: 0, source: "user" } });
+
+    const again = await store.addLearning("db-a", {
+      title: "Auto title",
+      learning: "Auto text",
+      errorPattern: 'column "orderdate" does not exist',
+      fixPattern: 'SELECT "orderDate" FROM orders',
+    }, "auto", T0 + 1000);
+    // The user's wording is kept, the fix is added
+    expect(again).toMatchObject({
+      success: true,
+      value: { title: "Quote mixed-case columns", fixPattern: 'SELECT "orderDate" FROM orders', usageCount: 1, version: 2 },
+    });
+
+    expect((await store.list("db-a")).learnings).toHaveLength(1);
+    expect((await store.list("db-b")).learnings).toEqual([]);
+    expect(await store.addLearning("db-a", { title: "", learning: "x" })).toEqual({
+      success: false,
+      error: "title is required",
+      status: 400,
+    });
+  });
+
+  it("keeps one annotation per table and column", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    await store.setAnnotation("db", { kind: "table", tableName: "orders", description: "Customer orders" });
+    await store.setAnnotation("db", { kind: "column", tableName: "orders", columnName: "amt", displayName: "Amount" });
+    const updated = await store.setAnnotation("db", { kind: "column", tableName: "ORDERS", columnName: "amt", businessRule: "Excludes tax" });
+
+    expect(updated).toMatchObject({ success: true, value: { version: 2, businessRule: "Excludes tax" } });
+    expect((await store.list("db")).annotations).toHaveLength(2);
+    expect(await store.setAnnotation("db", { kind: "column", tableName: "orders" } as never)).toMatchObject({
+      success: false,
+      status: 400,
+    });
+  });
+
+  it("versions edits and refuses stale ones", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    const created = await store.addLearning("db", { title: "Dates", learning: "Use date_trunc" }, "user", T0);
+    if (!created.success) throw new Error(created.error);
+    const { id } = created.value;
+
+    const edited = await store.update(id, { learning: "Use date_trunc('month', ...)", usageCount: 99 }, 1, T0 + 1000);
+    expect(edited).toMatchObject({ success: true, value: { version: 2, usageCount: 0 } });
+    expect(await store.update(id, { learning: "stale" }, 1)).toMatchObject({ success: false, status: 409 });
+
+    expect(await store.remove(id, 2, T0 + 2000)).toEqual({ success: true, value: null });
+    expect(await store.get(id)).toBeNull();
+    expect(await store.update(id, { learning: "gone" })).toMatchObject({ success: false, status: 404 });
+
+    const history = await store.history(id);
+    const learningAt = (entry: KnowledgeEntry | null) => (entry?.kind === "learning" ? entry.learning : null);
+    expect(history.map((revision) => [revision.version, learningAt(revision.entry)])).toEqual([
+      [1, "Use date_trunc"],
+      [2, "Use date_trunc('month', ...)"],
+      [3, null],
+    ]);
+  });
+
+  it("writes the prompt section", async () => {
+    const store = new KnowledgeStore({ filePath: ":memory:" });
+    expect(await store.promptSection("db")).toBe("");
+
+    await store.addLearning("db", { title: "Quote columns", learning: "Quote mixed-case names", fixPattern: 'SELECT "orderDate"\n  FROM orders' });
+    await store.setAnnotation("db", { kind: "table", tableName: "orders", displayName: "Orders", description: "One row per order" });
+    await store.setAnnotation("db", { kind: "column", tableName: "orders", columnName: "amt", displayName: "Amount", businessRule: "Excludes tax" });
+
+    const section = await store.promptSection("db");
+    expect(section).toContain('- Quote columns: Quote mixed-case names\n  Working SQL: SELECT "orderDate" FROM orders');
+    expect(section).toContain("- orders (Orders): One row per order");
+    expect(section).toContain('- orders.amt ("Amount") [Rule: Excludes tax]');
+
+    expect(await store.promptSection("db", { annotations: false })).not.toContain("BUSINESS CONTEXT");
+  });
+});
+
+describe("learnFromRetries", () => {
+  const ok = (key: string): SQLToolResult => ({ key, success: true, rows: [], rowCount: 0 });
+  const failed = (key: string, error: string): SQLToolResult => ({ key, success: false, error });
+
+  it("saves a learning when a failed query key later succeeds", async () => {
+    const execute = vi
+      .fn<(input: { key: string; sql: string }) => Promise<SQLToolResult>>()
+      .mockResolvedValueOnce(failed("revenue", 'column "amount" does not exist\nLINE 1: ...'))
+      .mockResolvedValueOnce(failed("revenue", "syntax error"))
+      .mockResolvedValueOnce(ok("revenue"))
+      .mockResolvedValueOnce(ok("orders"));
+    const save = vi.fn(async () => {});
+    const tools = learnFromRetries({ execute_sql: { execute } }, save);
+
+    await tools.execute_sql.execute({ key: "revenue", sql: "SELECT SUM(amount) FROM sales" });
+    await tools.execute_sql.execute({ key: "revenue", sql: "SELECT SUM(amt FROM sales" });
+    await tools.execute_sql.execute({ key: "revenue", sql: "SELECT SUM(amt) FROM sales" });
+    await tools.execute_sql.execute({ key: "orders", sql: "SELECT COUNT(*) FROM orders" });
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith({
+      title: 'Fix for "column "amount" does not exist"',
+      learning: 'Query "revenue" failed with: column "amount" does not exist. The corrected query worked.',
+      errorPattern: 'column "amount" does not exist',
+      fixPattern: "SELECT SUM(amt) FROM sales",
+      table: "sales",
+      column: "amount",
+    });
+  });
+
+  it("names the table from the fixed query", () => {
+    expect(
+      learningFromRepair({
+        key: "k",
+        error: "division by zero",
+        failedSql: "SELECT 1/0",
+        fixedSql: 'SELECT x FROM "public"."orders" o JOIN items i ON i.id = o.id',
+      }),
+    ).toMatchObject({ table: "public.orders" });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { generateText, stepCountIs, streamText } from "ai";
+import { MockLanguageModelV3, simulateReadableStream } from "ai/test";
+import { z } from "zod";
+import { createReplayModel, fixturePath, loadFixture, replayKey } from "@/lib/llm-replay";
+import { resolveFileWorkspace } from "@/lib/dataset-store";
+import { createInMemorySQLTools } from "@/lib/in-memory-sql-agent";
+import { createRenderUITool, trackQueryResults, UIPatchValidator } from "@/lib/ui-patches";
+
+const usage = {
+  inputTokens: { total: 100, noCache: 100, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 20, text: 20, reasoning: 0 },
+};
+
+/** A model that calls run_sql once, then answers */
+function scriptedModel() {
+  let calls = 0;
+  return new MockLanguageModelV3({
+    provider: "mock",
+    modelId: "agent",
+    doStream: async () => {
+      calls++;
+      if (calls === 1) {
+        return {
+          stream: simulateReadableStream({
+            chunks: [
+              { type: "response-metadata", id: "r1", modelId: "agent", timestamp: new Date(0) },
+              { type: "tool-call", toolCallId: "c1", toolName: "run_sql", input: '{"sql":"SELECT 1"}' },
+              { type: "finish", finishReason: { unified: "tool-calls", raw: undefined }, usage },
+            ],
+          }),
+        };
+      }
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: "text-start", id: "t1" },
+            { type: "text-delta", id: "t1", delta: "Revenue is up" },
+            { type: "text-end", id: "t1" },
+            { type: "finish", finishReason: { unified: "stop", raw: undefined }, usage },
+          ],
+        }),
+      };
+    },
+    doGenerate: async () => ({
+      content: [{ type: "text", text: "Which region grew fastest?" }],
+      finishReason: { unified: "stop", raw: undefined },
+      usage,
+      warnings: [],
+    }),
+  });
+}
+
+describe("llm replay", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "llm-replay-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function runAgent(model: ReturnType<typeof createReplayModel>) {
+    const execute = vi.fn(async ({ sql }: { sql: string }) => ({ rows: [{ value: sql.length }] }));
+    const result = streamText({
+      model,
+      prompt: "Show revenue",
+      tools: { run_sql: { inputSchema: z.object({ sql: z.string() }), execute } },
+      stopWhen: stepCountIs(5),
+    });
+    return { text: await result.text, steps: (await result.steps).length, execute };
+  }
+
+  it("records a streamed agent run and replays it with tools still executing", async () => {
+    const recorded = await runAgent(createReplayModel("agent", { dir, record: scriptedModel() }));
+    expect(recorded).toMatchObject({ text: "Revenue is up", steps: 2 });
+
+    const fixture = loadFixture(fixturePath("agent", dir));
+    expect(fixture.recordedWith).toBe("mock:agent");
+    expect(fixture.calls.map((c) => [c.request, c.step])).toEqual([
+      ["Show revenue", 0],
+      ["Show revenue", 1],
+    ]);
+
+    const replayed = await runAgent(createReplayModel("agent", { dir }));
+    expect(replayed).toMatchObject({ text: "Revenue is up", steps: 2 });
+    expect(replayed.execute).toHaveBeenCalledWith({ sql: "SELECT 1" }, expect.anything());
+  });
+
+  it("replays generateText calls", async () => {
+    await generateText({ model: createReplayModel("questions", { dir, record: scriptedModel() }), prompt: "Suggest" });
+    const { text } = await generateText({ model: createReplayModel("questions", { dir }), prompt: "Suggest" });
+    expect(text).toBe("Which region grew fastest?");
+  });
+
+  it("fails clearly when a call wasn't recorded", async () => {
+    await expect(
+      generateText({ model: createReplayModel("missing", { dir }), prompt: "Suggest", maxRetries: 0 }),
+    ).rejects.toThrow('No recorded response in replay fixture "missing" for step 0 of "Suggest"');
+    expect(() => fixturePath("../secrets", dir)).toThrow("Invalid replay fixture name");
+  });
+
+  it("keys calls by the latest user message and the step after it", () => {
+    expect(
+      replayKey([
+        { role: "system", content: "You build dashboards" },
+        { role: "user", content: [{ type: "text", text: "Show revenue" }] },
+        { role: "assistant", content: [{ type: "text", text: "Done" }] },
+        { role: "user", content: [{ type: "text", text: "Make it a line chart" }] },
+        { role: "assistant", content: [{ type: "tool-call", toolCallId: "c", toolName: "run_sql", input: {} }] },
+        { role: "tool", content: [] },
+      ]),
+    ).toEqual({ request: "Make it a line chart", step: 1 });
+  });
+});
+
+describe("committed replay fixtures", () => {
+  it("builds the file upload dashboard with the real tools", async () => {
+    // tests/fixtures/sample.csv, as the upload parses it
+    const resolved = resolveFileWorkspace(null, undefined, [
+      {
+        tableName: "sample",
+        data: [
+          { name: "Alice", age: 30, city: "New York", score: 85.5 },
+          { name: "Bob", age: 25, city: "Los Angeles", score: 92.3 },
+          { name: "Charlie", age: 35, city: "Chicago", score: 78.1 },
+          { name: "Diana", age: 28, city: "Houston", score: 88.9 },
+          { name: "Eve", age: 32, city: "Phoenix", score: 91.2 },
+        ],
+      },
+    ]);
+    if (!resolved.success) throw new Error(resolved.error);
+
+    const validator = new UIPatchValidator();
+    const result = streamText({
+      model: createReplayModel("file-upload-dashboard"),
+      prompt:
+        "Explore this dataset and create a dashboard with 4-5 interesting visualizations using different charts. Show key insights and trends from the data.",
+      tools: {
+        ...trackQueryResults(createInMemorySQLTools("", resolved.workspace, resolved.scope), validator),
+        ...createRenderUITool(validator),
+      },
+      stopWhen: stepCountIs(20),
+    });
+    const toolResults = (await result.steps).flatMap((step) => step.toolResults);
+    resolved.release();
+
+    expect(toolResults.map((r) => [r.toolName, (r.output as { success?: boolean }).success])).toEqual([
+      ["execute_sql", true],
+      ["execute_sql", true],
+      ["render_ui", true],
+    ]);
+    expect(validator.accepted).toBe(1);
+    expect(validator.renderedTree.elements.chart?.props).toMatchObject({ queryKey: "score-by-city" });
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { APICallError } from "ai";
+import {
+  classifyModelError,
+  getModelSpecs,
+  lastStepFailedSql,
+  parseModelSpec,
+  resolveModelCandidates,
+  resolveSqlRepairModel,
+  runWithModel,
+  streamWithModel,
+  type ModelCandidate,
+} from "@/lib/model-router";
+
+function apiError(statusCode: number): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://example.test/v1/chat",
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+function candidate(label: string): ModelCandidate {
+  const [provider, modelId] = label.split(":") as [string, string];
+  return { provider, modelId, label, model: modelId };
+}
+
+const ENV_KEYS = ["MODEL_QUESTIONS", "MODEL_SQL_REPAIR", "AI_GATEWAY_MODEL", "OPENROUTER_API_KEY", "GEMINI_API_KEY", "OPENAI_BASE_URL"];
+
+describe("model router", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    vi.restoreAllMocks();
+  });
+
+  describe("model selection", () => {
+    it("only treats known providers as a spec prefix", () => {
+      expect(parseModelSpec("gemini:gemini-2.5-flash")).toEqual({ provider: "gemini", modelId: "gemini-2.5-flash" });
+      expect(parseModelSpec("qwen/qwen3-next-80b-a3b-instruct:free")).toEqual({
+        provider: null,
+        modelId: "qwen/qwen3-next-80b-a3b-instruct:free",
+      });
+    });
+
+    it("tries every configured provider by default", () => {
+      expect(getModelSpecs("questions")).toEqual(["gateway:anthropic/claude-haiku-4.5"]);
+
+      process.env.OPENROUTER_API_KEY = "sk-or-test";
+      process.env.GEMINI_API_KEY = "AIza-test";
+      expect(getModelSpecs("questions")).toEqual([
+        "openrouter:anthropic/claude-haiku-4.5",
+        "gemini:gemini-2.5-flash",
+      ]);
+    });
+
+    it("reads per-task chains from the environment", () => {
+      process.env.OPENROUTER_API_KEY = "sk-or-test";
+      process.env.MODEL_QUESTIONS = "gemini:gemini-2.5-flash, qwen/qwen3-next-80b-a3b-instruct:free";
+      process.env.GEMINI_API_KEY = "AIza-test";
+
+      expect(resolveModelCandidates("questions").map((c) => c.label)).toEqual([
+        "gemini:gemini-2.5-flash",
+        "openrouter:qwen/qwen3-next-80b-a3b-instruct:free",
+      ]);
+      expect(getModelSpecs("dashboard")).toEqual([
+        "openrouter:anthropic/claude-haiku-4.5",
+        "gemini:gemini-2.5-flash",
+      ]);
+    });
+
+    it("uses a user-configured model without fallbacks", () => {
+      process.env.OPENROUTER_API_KEY = "sk-or-test";
+      const candidates = resolveModelCandidates("dashboard", { provider: "ollama", model: "llama3.1" });
+      expect(candidates.map((c) => c.label)).toEqual(["ollama:llama3.1"]);
+    });
+
+    it("only routes SQL repair to its own model when MODEL_SQL_REPAIR is set", () => {
+      process.env.OPENROUTER_API_KEY = "sk-or-test";
+      process.env.GEMINI_API_KEY = "AIza-test";
+      expect(resolveSqlRepairModel()).toBeNull();
+
+      process.env.MODEL_SQL_REPAIR = "openrouter:qwen/qwen3-coder,gemini:gemini-2.5-flash";
+      expect(resolveSqlRepairModel()?.label).toBe("openrouter:qwen/qwen3-coder");
+      expect(resolveSqlRepairModel({ provider: "ollama", model: "llama3.1" })).toBeNull();
+    });
+
+    it("treats the step after a failed execute_sql call as a repair", () => {
+      const step = (...results: Array<[string, unknown]>) => ({
+        toolResults: results.map(([toolName, output]) => ({ toolName, output })),
+      });
+      expect(lastStepFailedSql([])).toBe(false);
+      expect(lastStepFailedSql([step(["execute_sql", { success: true }], ["execute_sql", { success: false }])])).toBe(true);
+      expect(lastStepFailedSql([step(["execute_sql", { success: false }]), step(["execute_sql", { success: true }])])).toBe(false);
+      expect(lastStepFailedSql([step(["render_ui", { success: false }])])).toBe(false);
+    });
+  });
+
+  describe("classifyModelError", () => {
+    it("separates rate limits, server errors, bad keys and request errors", () => {
+      expect(classifyModelError(apiError(429))).toBe("rate-limit");
+      expect(classifyModelError(apiError(503))).toBe("transient");
+      expect(classifyModelError(apiError(401))).toBe("auth");
+      expect(classifyModelError(apiError(400))).toBe("fatal");
+      expect(classifyModelError(new TypeError("fetch failed"))).toBe("transient");
+      expect(classifyModelError(new Error("bad prompt"))).toBe("fatal");
+    });
+  });
+
+  describe("runWithModel", () => {
+    const options = {
+      candidates: [candidate("openrouter:primary"), candidate("gemini:secondary")],
+      retryBaseMs: 0,
+    };
+
+    it("falls back to the next model on a rate limit", async () => {
+      const call = vi.fn(async (c: ModelCandidate) => {
+        if (c.provider === "openrouter") throw apiError(429);
+        return "ok";
+      });
+      const { result, servedBy } = await runWithModel("questions", call, options);
+
+      expect(result).toBe("ok");
+      expect(servedBy).toMatchObject({ label: "gemini:secondary", attempts: 2, fallbacks: 1 });
+    });
+
+    it("retries server errors before falling back", async () => {
+      const call = vi.fn(async (c: ModelCandidate) => {
+        if (c.provider === "openrouter") throw apiError(502);
+        return "ok";
+      });
+      const { servedBy } = await runWithModel("questions", call, { ...options, maxRetries: 2 });
+
+      expect(call.mock.calls.map(([c]) => c.label)).toEqual([
+        "openrouter:primary",
+        "openrouter:primary",
+        "openrouter:primary",
+        "gemini:secondary",
+      ]);
+      expect(servedBy.attempts).toBe(4);
+    });
+
+    it("recovers when a retry succeeds", async () => {
+      let failures = 1;
+      const { servedBy } = await runWithModel(
+        "questions",
+        async () => {
+          if (failures-- > 0) throw apiError(500);
+          return "ok";
+        },
+        options,
+      );
+      expect(servedBy).toMatchObject({ label: "openrouter:primary", attempts: 2, fallbacks: 0 });
+    });
+
+    it("does not retry request errors", async () => {
+      const call = vi.fn(async () => {
+        throw apiError(400);
+      });
+      await expect(runWithModel("questions", call, options)).rejects.toThrow("HTTP 400");
+      expect(call).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws the last error when every model fails", async () => {
+      await expect(
+        runWithModel("questions", async () => { throw apiError(429); }, { ...options, maxRetries: 1 }),
+      ).rejects.toThrow("HTTP 429");
+    });
+  });
+
+  describe("streamWithModel", () => {
+    type Part = { type: string; text?: string; error?: unknown };
+
+    function fakeStream(parts: Part[]) {
+      return {
+        fullStream: (async function* () {
+          yield* parts;
+        })(),
+      };
+    }
+
+    async function collect(parts: AsyncIterable<Part>) {
+      const out: Part[] = [];
+      for await (const part of parts) out.push(part);
+      return out;
+    }
+
+    it("switches models when the first fails before streaming output", async () => {
+      const parts = await collect(
+        streamWithModel(
+          "dashboard",
+          (c) =>
+            c.provider === "openrouter"
+              ? fakeStream([{ type: "start" }, { type: "error", error: apiError(429) }])
+              : fakeStream([{ type: "start" }, { type: "text-delta", text: "hi" }, { type: "finish" }]),
+          { candidates: [candidate("openrouter:primary"), candidate("gemini:secondary")] },
+        ),
+      );
+
+      expect(parts.map((p) => p.type)).toEqual(["model-served", "start", "text-delta", "finish"]);
+      expect(parts[0]).toMatchObject({ label: "gemini:secondary", fallbacks: 1 });
+    });
+
+    it("keeps the model once it has produced output", async () => {
+      const start = vi.fn(() =>
+        fakeStream([{ type: "text-delta", text: "hi" }, { type: "error", error: apiError(503) }]),
+      );
+      const parts = await collect(
+        streamWithModel("dashboard", start, {
+          candidates: [candidate("openrouter:primary"), candidate("gemini:secondary")],
+        }),
+      );
+
+      expect(start).toHaveBeenCalledTimes(1);
+      expect(parts.map((p) => p.type)).toEqual(["model-served", "text-delta", "error"]);
+    });
+  });
+});
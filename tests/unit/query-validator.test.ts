@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { validateQuery } from "@/lib/query-validator";
+import { validateQuery, formatValidationError } from "@/lib/query-validator";
 
 describe("validateQuery", () => {
   describe("valid queries", () => {
@@ -151,4 +151,175 @@ describe("validateQuery", () => {
       expect(result.error).toContain("Only SELECT queries allowed");
     });
   });
+
+  describe("string literals and quoted identifiers", () => {
+    it("allows comment markers inside string literals", () => {
+      const result = validateQuery(
+        "SELECT * FROM campaigns WHERE name = 'pre--launch' OR name = '/* draft */'",
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("allows disallowed keywords inside string literals", () => {
+      const result = validateQuery(
+        "SELECT COUNT(*) FROM orders WHERE status = 'DELETED' OR note = 'drop table'",
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("allows quoted identifiers that look like keywords", () => {
+      expect(validateQuery('SELECT "update" FROM audit_log').valid).toBe(true);
+      expect(validateQuery("SELECT `delete` FROM audit_log", "mysql").valid).toBe(
+        true,
+      );
+    });
+
+    it("allows semicolons inside string literals", () => {
+      const result = validateQuery(
+        "SELECT * FROM users WHERE bio = 'a; DROP TABLE users'",
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("allows a single trailing semicolon", () => {
+      expect(validateQuery("SELECT 1;").valid).toBe(true);
+    });
+
+    it("handles backslash escapes in MySQL strings", () => {
+      const result = validateQuery(
+        "SELECT * FROM t WHERE name = 'it\\'s; DROP TABLE t'",
+        "mysql",
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("rejects unterminated string literals", () => {
+      const result = validateQuery("SELECT * FROM users WHERE name = 'abc");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Unterminated");
+    });
+  });
+
+  describe("CTEs", () => {
+    it("allows multiple and recursive CTEs", () => {
+      const result = validateQuery(
+        "WITH RECURSIVE a AS (SELECT 1 AS n), b (n) AS (SELECT n + 1 FROM a) SELECT * FROM b",
+      );
+      expect(result.valid).toBe(true);
+    });
+
+    it("rejects data-modifying CTEs", () => {
+      const result = validateQuery(
+        "WITH gone AS (DELETE FROM users RETURNING *) SELECT * FROM gone",
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("disallowed");
+    });
+
+    it("rejects a non-SELECT statement after the CTE list", () => {
+      const result = validateQuery("WITH a AS (SELECT 1) VALUES (1)");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("Only SELECT");
+    });
+  });
+
+  describe("dialect-specific dangers", () => {
+    it("rejects SELECT INTO OUTFILE on MySQL", () => {
+      const result = validateQuery(
+        "SELECT * FROM users INTO OUTFILE '/tmp/users.csv'",
+        "mysql",
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("disallowed");
+    });
+
+    it("rejects LOAD_FILE on MySQL", () => {
+      const result = validateQuery("SELECT LOAD_FILE('/etc/passwd')", "mysql");
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("load_file");
+    });
+
+    it("rejects schema-qualified pg_read_binary_file on PostgreSQL", () => {
+      const result = validateQuery(
+        "SELECT pg_catalog.pg_read_binary_file('/etc/passwd')",
+      );
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("pg_read_binary_file");
+    });
+
+    it("rejects ATTACH DATABASE on SQLite", () => {
+      const result = validateQuery(
+        "SELECT 1; ATTACH DATABASE '/tmp/x.db' AS x",
+        "sqlite",
+      );
+      expect(result.valid).toBe(false);
+    });
+
+    it("rejects load_extension on SQLite", () => {
+      const result = validateQuery("SELECT load_extension('evil.so')", "sqlite");
+      expect(result.valid).toBe(false);
+    });
+
+    it("only applies the denylist to function calls", () => {
+      expect(validateQuery("SELECT sleep FROM shifts", "mysql").valid).toBe(true);
+    });
+
+    it("rejects denied functions written as quoted identifiers", () => {
+      const postgres = validateQuery('SELECT "pg_sleep"(10)');
+      expect(postgres.valid).toBe(false);
+      expect(postgres.error).toContain("pg_sleep");
+
+      const qualified = validateQuery(`SELECT pg_catalog."pg_read_file"('/etc/passwd')`);
+      expect(qualified.valid).toBe(false);
+      expect(qualified.error).toContain("pg_read_file");
+
+      const mysql = validateQuery("SELECT `sleep`(10)", "mysql");
+      expect(mysql.valid).toBe(false);
+      expect(mysql.error).toContain("sleep");
+    });
+
+    it("allows MySQL columns named load or lock", () => {
+      expect(validateQuery("SELECT load, lock, id FROM servers", "mysql").valid).toBe(true);
+      expect(validateQuery("LOAD DATA INFILE '/etc/passwd' INTO TABLE t", "mysql").valid).toBe(false);
+      expect(validateQuery("LOCK TABLES servers READ", "mysql").valid).toBe(false);
+    });
+
+    it("supports custom denied functions", () => {
+      const result = validateQuery("SELECT md5(email) FROM users", "postgresql", {
+        extraDeniedFunctions: ["md5"],
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("md5");
+    });
+  });
+
+  describe("structured errors", () => {
+    it("reports the position of the offending token", () => {
+      const sql = "SELECT pg_sleep(10)";
+      const result = validateQuery(sql);
+      expect(result.issues).toHaveLength(1);
+      expect(result.issues![0]!.position).toBe(sql.indexOf("pg_sleep"));
+      expect(result.issues![0]!.token).toBe("pg_sleep");
+    });
+
+    it("formats issues with position and excerpt for the agent", () => {
+      const sql = "SELECT * FROM users; DROP TABLE users";
+      const message = formatValidationError(sql, validateQuery(sql));
+      expect(message).toContain("Multiple statements are disallowed");
+      expect(message).toContain(`position ${sql.indexOf("DROP")}`);
+    });
+
+    it("reports the first issue by position as the error", () => {
+      const result = validateQuery("SELECT 1 -- note\nFROM t /* unterminated");
+      expect(result.issues).toHaveLength(2);
+      expect(result.error).toBe(result.issues![0]!.reason);
+      expect(result.error).toBe("Query contains disallowed comment");
+    });
+
+    it("returns an empty message for valid queries", () => {
+      expect(formatValidationError("SELECT 1", validateQuery("SELECT 1"))).toBe(
+        "",
+      );
+    });
+  });
 });
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeRelativeDate,
+  isRelativeDateExpression,
+  resolveRelativeDate,
+  resolveRelativeDateParams,
+} from "@/lib/relative-dates";
+
+// A Wednesday in the middle of Q2
+const today = new Date("2026-05-13T15:30:00Z");
+
+describe("resolveRelativeDate", () => {
+  it.each([
+    ["last_7_days", "2026-05-06", "2026-05-13"],
+    ["last_3_complete_months", "2026-02-01", "2026-04-30"],
+    ["last_2_complete_weeks", "2026-04-27", "2026-05-10"],
+    ["previous_quarter", "2026-01-01", "2026-03-31"],
+    ["previous_year", "2025-01-01", "2025-12-31"],
+    ["quarter_to_date", "2026-04-01", "2026-05-13"],
+    ["week_to_date", "2026-05-11", "2026-05-13"],
+    ["same_period_last_year", "2025-01-01", "2025-05-13"],
+    ["Last 3 complete months", "2026-02-01", "2026-04-30"],
+  ])("resolves %s", (expression, from, to) => {
+    expect(resolveRelativeDate(expression, today)).toEqual({ from, to });
+  });
+
+  it("clamps month ends and rejects unknown expressions", () => {
+    expect(resolveRelativeDate("same_period_last_year", new Date("2028-02-29T00:00:00Z"))).toEqual({
+      from: "2027-01-01",
+      to: "2027-02-28",
+    });
+    expect(resolveRelativeDate("next_tuesday", today)).toBeNull();
+    expect(isRelativeDateExpression("last_0_days")).toBe(false);
+    expect(describeRelativeDate("last_3_complete_months")).toBe("Last 3 complete months");
+    expect(describeRelativeDate("quarter_to_date")).toBe("Quarter to date");
+  });
+});
+
+describe("resolveRelativeDateParams", () => {
+  it("turns <column>_relative into _from and _to dates", () => {
+    expect(
+      resolveRelativeDateParams(
+        { order_date_relative: "previous_month", order_date_from: "2020-01-01", region: "West", date_relative: "soon" },
+        today,
+      ),
+    ).toEqual({ order_date_from: "2026-04-01", order_date_to: "2026-04-30", region: "West" });
+  });
+});
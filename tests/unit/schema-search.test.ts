@@ -0,0 +1,145 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { TableInfo } from "@/lib/schema-introspector";
+import {
+  createSchemaTools,
+  needsSchemaRetrieval,
+  SchemaIndex,
+  schemaPromptFor,
+  tokenize,
+} from "@/lib/schema-search";
+
+const tables: TableInfo[] = [
+  {
+    schema: "sales",
+    name: "orders",
+    rowCount: 120000,
+    comment: "One row per customer order",
+    primaryKey: ["id"],
+    columns: [
+      { name: "id", type: "integer", primaryKey: true },
+      { name: "customer_id", type: "integer", nullable: false },
+      { name: "order_total", type: "numeric" },
+      { name: "created_at", type: "timestamp" },
+    ],
+    foreignKeys: [
+      { columns: ["customer_id"], referencedSchema: "sales", referencedTable: "customers", referencedColumns: ["id"] },
+    ],
+  },
+  {
+    schema: "sales",
+    name: "customers",
+    rowCount: 8000,
+    columns: [
+      { name: "id", type: "integer", primaryKey: true },
+      { name: "companyName", type: "text" },
+      { name: "plan_tier", type: "text" },
+    ],
+  },
+  {
+    schema: "billing",
+    name: "inv_ln",
+    columns: [
+      { name: "id", type: "integer", primaryKey: true },
+      { name: "amt", type: "numeric" },
+    ],
+  },
+  {
+    schema: "ops",
+    name: "warehouse_shipments",
+    columns: [
+      { name: "id", type: "integer" },
+      { name: "shipped_at", type: "timestamp", comment: "When the parcel left the warehouse" },
+    ],
+  },
+];
+
+const annotations = {
+  tables: [{ tableName: "inv_ln", description: "Invoice line items, one per billed product" }],
+  columns: [{ tableName: "billing.inv_ln", columnName: "amt", displayName: "Line revenue", businessRule: "Excludes tax" }],
+};
+
+describe("tokenize", () => {
+  it("splits identifiers and folds plurals", () => {
+    expect(tokenize("orderItems created_at")).toEqual(["order", "item", "created", "at"]);
+    expect(tokenize("Revenue by categories and boxes")).toEqual(["revenue", "category", "box"]);
+  });
+});
+
+describe("SchemaIndex", () => {
+  const index = new SchemaIndex(tables, annotations);
+
+  it("ranks tables by name, columns and comments", () => {
+    const results = index.search("customer orders total");
+    expect(results[0]).toMatchObject({
+      table: "sales.orders",
+      rowCount: 120000,
+      description: "One row per customer order",
+    });
+    expect(results[0]!.matchedColumns).toEqual(["order_total", "customer_id"]);
+    expect(results.map((r) => r.table)).toContain("sales.customers");
+    expect(results.map((r) => r.table)).not.toContain("ops.warehouse_shipments");
+  });
+
+  it("finds cryptically named tables through annotations", () => {
+    expect(index.search("invoice revenue")[0]).toMatchObject({
+      table: "billing.inv_ln",
+      description: "Invoice line items, one per billed product",
+      matchedColumns: ["amt"],
+    });
+    expect(index.search("parcel shipped")[0]!.table).toBe("ops.warehouse_shipments");
+    expect(index.search("the of and")).toEqual([]);
+  });
+
+  it("describes a table with its keys and annotations", () => {
+    const definition = index.describe("ORDERS");
+    expect(definition).toContain("sales.orders (~120,000 rows) -- One row per customer order");
+    expect(definition).toContain("customer_id integer NOT NULL -> sales.customers.id");
+
+    expect(index.describe("billing.inv_ln")).toContain("notes: Invoice line items, one per billed product");
+    expect(index.describe("nope")).toBeNull();
+  });
+
+  it("lists tables compactly", () => {
+    expect(index.tableList().split("\n")).toEqual([
+      "sales.orders (4 columns, ~120,000 rows) -- One row per customer order",
+      "sales.customers (3 columns, ~8,000 rows)",
+      "billing.inv_ln (2 columns) -- Invoice line items, one per billed product",
+      "ops.warehouse_shipments (2 columns)",
+    ]);
+  });
+});
+
+describe("schema prompt", () => {
+  afterEach(() => {
+    delete process.env.SCHEMA_PROMPT_MAX_TABLES;
+  });
+
+  it("sends small schemas in full and lists large ones", () => {
+    const index = new SchemaIndex(tables);
+    expect(needsSchemaRetrieval(tables)).toBe(false);
+    expect(schemaPromptFor(tables, index)).toContain("order_total numeric");
+
+    process.env.SCHEMA_PROMPT_MAX_TABLES = "3";
+    const prompt = schemaPromptFor(tables, index);
+    expect(prompt).toContain("call search_schema");
+    expect(prompt).toContain("sales.customers (3 columns, ~8,000 rows)");
+    expect(prompt).not.toContain("order_total");
+  });
+});
+
+describe("schema tools", () => {
+  const { search_schema, describe_table } = createSchemaTools(new SchemaIndex(tables, annotations));
+
+  it("searches and describes tables", async () => {
+    const { results } = await search_schema.execute({ query: "plan tier", limit: 1 });
+    expect(results.map((r) => r.table)).toEqual(["sales.customers"]);
+    expect(await describe_table.execute({ table: "customers" })).toMatchObject({ success: true });
+  });
+
+  it("suggests tables for unknown names", async () => {
+    expect(await describe_table.execute({ table: "customer_plans" })).toEqual({
+      success: false,
+      error: 'Table "customer_plans" not found - did you mean sales.customers, sales.orders?',
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect } from "vitest";
+import type { JsonPatch, UITree } from "@json-render/core";
+import {
+  applyPatch,
+  createRenderUITool,
+  parsePatchLines,
+  trackQueryResults,
+  UIPatchValidator,
+} from "@/lib/ui-patches";
+import type { SQLToolResult } from "@/lib/types/sql-tools";
+
+function jsonl(patches: JsonPatch[]): string {
+  return patches.map((patch) => JSON.stringify(patch)).join("\n");
+}
+
+const revenueQuery: SQLToolResult = {
+  key: "revenue-by-region",
+  success: true,
+  rows: [{ region: "North", total: 120 }],
+  rowCount: 1,
+};
+
+const dashboard: JsonPatch[] = [
+  { op: "set", path: "/root", value: "main" },
+  {
+    op: "add",
+    path: "/elements/main",
+    value: { key: "main", type: "Card", props: { title: "Revenue" }, children: ["chart"] },
+  },
+  {
+    op: "add",
+    path: "/elements/chart",
+    value: {
+      key: "chart",
+      type: "Chart",
+      props: { type: "bar", queryKey: "revenue-by-region", labelColumn: "region", valueColumn: "total" },
+    },
+  },
+];
+
+describe("applyPatch", () => {
+  const tree: UITree = {
+    root: "main",
+    elements: {
+      main: { key: "main", type: "Card", props: { title: "Revenue" }, children: ["chart", "note"] },
+      chart: { key: "chart", type: "Chart", props: { title: "By region" } },
+      note: { key: "note", type: "Text", props: { content: "Hi" } },
+    },
+  };
+
+  it("removes elements and unlinks them from their parent", () => {
+    const next = applyPatch(tree, { op: "remove", path: "/elements/note" });
+    expect(next.elements.note).toBeUndefined();
+    expect(next.elements.main!.children).toEqual(["chart"]);
+    expect(tree.elements.main!.children).toEqual(["chart", "note"]);
+  });
+
+  it("sets and removes props without mutating the previous tree", () => {
+    const renamed = applyPatch(tree, { op: "replace", path: "/elements/chart/props/title", value: "Top regions" });
+    expect(renamed.elements.chart!.props).toEqual({ title: "Top regions" });
+    expect(tree.elements.chart!.props).toEqual({ title: "By region" });
+
+    const untitled = applyPatch(tree, { op: "remove", path: "/elements/chart/props/title" });
+    expect(untitled.elements.chart!.props).toEqual({});
+    expect(untitled.elements.main!.children).toEqual(["chart", "note"]);
+  });
+});
+
+describe("parsePatchLines", () => {
+  it("parses JSONL and reports lines that aren't patches", () => {
+    const { patches, errors } = parsePatchLines(
+      ['{"op":"set","path":"/root","value":"main"}', "", "// comment", "{oops", '{"op":"move","path":"/root"}', '{"op":"add","path":"/data/x"}'].join("\n"),
+    );
+    expect(patches).toEqual([{ op: "set", path: "/root", value: "main" }]);
+    expect(errors).toEqual([
+      "Line 4: not valid JSON",
+      'Line 5: expected {"op":"add"|"set"|"replace"|"remove","path":...}',
+      "Line 6: path must be /root or /elements/<key>, got /data/x",
+    ]);
+  });
+});
+
+describe("UIPatchValidator", () => {
+  it("accepts patches that match the catalog and the query results", () => {
+    const validator = new UIPatchValidator();
+    validator.recordQuery(revenueQuery);
+    expect(validator.submit(dashboard)).toEqual({ success: true, violations: [] });
+    expect(validator.accepted).toBe(1);
+  });
+
+  it("rejects unknown component types and invalid props", () => {
+    const validator = new UIPatchValidator({ components: ["Card", "Chart", "Text"] });
+    validator.recordQuery(revenueQuery);
+    const { success, violations } = validator.submit([
+      ...dashboard.slice(0, 2),
+      {
+        op: "add",
+        path: "/elements/chart",
+        value: { key: "chart", type: "Chart", props: { type: "donut", queryKey: "revenue-by-region", labelColumn: "region" } },
+      },
+      { op: "add", path: "/elements/map", value: { key: "map", type: "Heatmap", props: {} } },
+      { op: "add", path: "/elements/gadget", value: { key: "gadget", type: "Gadget", props: {} } },
+    ]);
+
+    expect(success).toBe(false);
+    expect(violations).toEqual([
+      expect.stringMatching(/^Element "chart" \(Chart\): props\.type /),
+      expect.stringMatching(/^Element "chart" \(Chart\): props\.valueColumn /),
+      expect.stringMatching(/^Element "map": unknown component type "Heatmap"/),
+      expect.stringMatching(/^Element "gadget": unknown component type "Gadget"/),
+    ]);
+    expect(validator.accepted).toBe(0);
+  });
+
+  it("checks children, the root and element keys", () => {
+    const validator = new UIPatchValidator();
+    const { violations } = validator.submit([
+      { op: "set", path: "/root", value: "missing" },
+      { op: "add", path: "/elements/main", value: { key: "main", type: "Card", props: {}, children: ["ghost"] } },
+      { op: "add", path: "/elements/title", value: { key: "heading", type: "Heading", props: { text: "Sales" } } },
+    ]);
+    expect(violations).toEqual([
+      '/root is "missing", but no element has that key',
+      'Element "main": child "ghost" does not exist',
+      'Element at /elements/title has key "heading" - the two must match',
+    ]);
+  });
+
+  it("requires queryKeys of successful queries and columns from their results", () => {
+    const validator = new UIPatchValidator();
+    validator.recordQuery(revenueQuery);
+    validator.recordQuery({ key: "orders", success: false, error: "no such table" });
+
+    const { violations } = validator.submit([
+      ...dashboard.slice(0, 1),
+      {
+        op: "add",
+        path: "/elements/main",
+        value: { key: "main", type: "Stack", props: {}, children: ["chart", "table", "insight"] },
+      },
+      {
+        op: "add",
+        path: "/elements/chart",
+        value: {
+          key: "chart",
+          type: "Chart",
+          props: { type: "bar", queryKey: "revenue-by-region", labelColumn: "state", valueColumn: "total" },
+        },
+      },
+      {
+        op: "add",
+        path: "/elements/table",
+        value: { key: "table", type: "Table", props: { queryKey: "orders", columns: [{ key: "id", label: "ID" }] } },
+      },
+      {
+        op: "add",
+        path: "/elements/insight",
+        value: { key: "insight", type: "Insight", props: { content: "West leads", queryKeys: ["revenue-by-region", "orders"] } },
+      },
+    ]);
+    expect(violations).toEqual([
+      'Element "chart": column "state" is not in the results of "revenue-by-region" (columns: region, total)',
+      'Element "table": queryKey "orders" has no successful query - run it with execute_sql first (successful queries: revenue-by-region)',
+      'Element "insight": queryKeys entry "orders" has no successful query - run it with execute_sql first',
+    ]);
+  });
+
+  it("validates edits against the existing dashboard", () => {
+    const tree: UITree = {
+      root: "main",
+      elements: {
+        main: { key: "main", type: "Card", props: { title: "Revenue" }, children: ["total"] },
+        total: { key: "total", type: "Metric", props: { label: "Total", queryKey: "total-revenue" } },
+      },
+    };
+    const validator = new UIPatchValidator({ tree, queryKeys: ["total-revenue"] });
+    validator.recordQuery(revenueQuery);
+
+    expect(
+      validator.submit([
+        dashboard[2]!,
+        { op: "replace", path: "/elements/main/children", value: ["total", "chart"] },
+      ]).success,
+    ).toBe(true);
+    // Columns of queries from the existing dashboard aren't known, so only the key is checked
+    expect(
+      validator.submit([
+        { op: "replace", path: "/elements/total/props/valuePath", value: "anything" },
+      ]).success,
+    ).toBe(true);
+  });
+});
+
+describe("render_ui tool", () => {
+  it("returns violations as a tool error and accepts the repaired patches", async () => {
+    const validator = new UIPatchValidator();
+    const tools = trackQueryResults(
+      {
+        execute_sql: {
+          execute: async ({ key }: { key: string }): Promise<SQLToolResult> => ({ ...revenueQuery, key }),
+        },
+      },
+      validator,
+    );
+    const { render_ui } = createRenderUITool(validator);
+
+    const early = await render_ui.execute({ patches: jsonl(dashboard) });
+    expect(early).toMatchObject({ success: false, violations: [expect.stringContaining("has no successful query")] });
+
+    await tools.execute_sql.execute({ key: "revenue-by-region" });
+    expect(await render_ui.execute({ patches: jsonl(dashboard) })).toEqual({ success: true, patchesApplied: 3 });
+  });
+
+  it("reports unparseable input", async () => {
+    const { render_ui } = createRenderUITool(new UIPatchValidator());
+    expect(await render_ui.execute({ patches: "" })).toMatchObject({
+      success: false,
+      violations: ["No patches were given"],
+    });
+  });
+});
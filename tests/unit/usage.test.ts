@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { LanguageModelUsage } from "ai";
+import {
+  estimateCost,
+  resolveTokenBudget,
+  TokenBudget,
+  UsageLedger,
+  UsageMeter,
+} from "@/lib/usage";
+import { formatUsage } from "@/lib/query-history";
+
+function usage(inputTokens: number, outputTokens: number): LanguageModelUsage {
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    inputTokenDetails: { noCacheTokens: inputTokens, cacheReadTokens: 0, cacheWriteTokens: 0 },
+    outputTokenDetails: { textTokens: outputTokens, reasoningTokens: 0 },
+  };
+}
+
+const ENV_KEYS = ["TOKEN_BUDGET_PER_REQUEST", "TOKEN_BUDGET_PER_DAY", "MODEL_PRICES"];
+
+describe("usage accounting", () => {
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  describe("estimateCost", () => {
+    it("prices known, free and unknown models", () => {
+      expect(estimateCost("openrouter", "anthropic/claude-haiku-4.5", 1_000_000, 100_000)).toBeCloseTo(1.5);
+      expect(estimateCost("openrouter", "google/gemini-2.5-flash", 1_000_000, 0)).toBeCloseTo(0.3);
+      expect(estimateCost("openrouter", "qwen/qwen3-next-80b-a3b-instruct:free", 5000, 500)).toBe(0);
+      expect(estimateCost("ollama", "llama3.1", 5000, 500)).toBe(0);
+      expect(estimateCost("openrouter", "acme/unknown-model", 5000, 500)).toBeNull();
+    });
+
+    it("reads extra prices from MODEL_PRICES", () => {
+      process.env.MODEL_PRICES = '{"acme/unknown-model":{"input":2,"output":8}}';
+      expect(estimateCost("openrouter", "acme/unknown-model", 500_000, 250_000)).toBeCloseTo(3);
+    });
+  });
+
+  describe("UsageMeter", () => {
+    it("sums steps and tool calls into a summary", () => {
+      const meter = new UsageMeter(50_000);
+      meter.setModel("gemini", "gemini-2.5-flash");
+      meter.addStep(usage(10_000, 500));
+      meter.addToolCall();
+      meter.addStep(usage(12_000, 1_500));
+
+      const summary = meter.summary("request");
+      expect(summary).toMatchObject({
+        provider: "gemini",
+        model: "gemini-2.5-flash",
+        inputTokens: 22_000,
+        outputTokens: 2_000,
+        totalTokens: 24_000,
+        steps: 2,
+        toolCalls: 1,
+        budget: 50_000,
+        budgetExceeded: "request",
+      });
+      expect(summary.estimatedCostUsd).toBeCloseTo(0.0116);
+      expect(formatUsage(summary)).toBe("24.0k tokens · $0.012");
+    });
+  });
+
+  describe("TokenBudget", () => {
+    it("gives one final render step once the budget is spent, then stops", () => {
+      const budget = new TokenBudget(10_000, {
+        finalTool: "render_ui",
+        isDone: () => false,
+        finalSystem: "render now",
+      });
+      const steps = [{ usage: usage(4_000, 500) }];
+
+      expect(budget.stopWhen({ steps })).toBe(false);
+      expect(budget.prepareStep({ steps })).toEqual({});
+
+      steps.push({ usage: usage(6_000, 500) });
+      expect(budget.stopWhen({ steps })).toBe(false);
+      expect(budget.prepareStep({ steps })).toEqual({
+        activeTools: ["render_ui"],
+        toolChoice: { type: "tool", toolName: "render_ui" },
+        system: "render now",
+      });
+      expect(budget.exceeded).toBe(true);
+
+      steps.push({ usage: usage(7_000, 800) });
+      expect(budget.stopWhen({ steps })).toBe(true);
+      expect(budget.prepareStep({ steps })).toEqual({});
+    });
+
+    it("stops straight away when the dashboard was already rendered", () => {
+      const budget = new TokenBudget(1_000, { finalTool: "render_ui", isDone: () => true, finalSystem: "" });
+      expect(budget.stopWhen({ steps: [{ usage: usage(900, 200) }] })).toBe(true);
+    });
+
+    it("never stops without a limit", () => {
+      const budget = new TokenBudget(null, { finalTool: "render_ui", isDone: () => false, finalSystem: "" });
+      expect(budget.stopWhen({ steps: [{ usage: usage(1_000_000, 0) }] })).toBe(false);
+    });
+  });
+
+  describe("resolveTokenBudget", () => {
+    const now = Date.UTC(2026, 0, 15, 12);
+
+    it("has no limit by default and lets clients only lower the request budget", () => {
+      const ledger = new UsageLedger();
+      expect(resolveTokenBudget(undefined, { ledger, now })).toMatchObject({ success: true, limit: null, kind: "request" });
+      expect(resolveTokenBudget(30_000, { ledger, now })).toMatchObject({ success: true, limit: 30_000, kind: "request" });
+
+      process.env.TOKEN_BUDGET_PER_REQUEST = "50000";
+      expect(resolveTokenBudget(80_000, { ledger, now })).toMatchObject({ limit: 50_000 });
+    });
+
+    it("caps the budget at what is left of the server's day", () => {
+      process.env.TOKEN_BUDGET_PER_REQUEST = "50000";
+      process.env.TOKEN_BUDGET_PER_DAY = "150000";
+      const ledger = new UsageLedger();
+      ledger.record(70_000, now);
+
+      const first = resolveTokenBudget(undefined, { ledger, now });
+      expect(first).toMatchObject({ success: true, limit: 50_000, kind: "request" });
+      // The running generation's request budget is held until it settles
+      expect(resolveTokenBudget(undefined, { ledger, now })).toMatchObject({ success: true, limit: 30_000, kind: "daily" });
+      expect(resolveTokenBudget(undefined, { ledger, now })).toMatchObject({ success: false });
+
+      if (!first.success) throw new Error(first.error);
+      first.reservation.settle(10_000, now);
+      first.reservation.settle(10_000, now);
+      expect(ledger.used(now)).toBe(70_000 + 10_000 + 30_000);
+      // A new UTC day starts a new budget
+      expect(resolveTokenBudget(undefined, { ledger, now: now + 24 * 60 * 60 * 1000 })).toMatchObject({
+        limit: 50_000,
+      });
+    });
+
+    it("reserves the estimate without a request budget", () => {
+      process.env.TOKEN_BUDGET_PER_DAY = "100000";
+      const ledger = new UsageLedger();
+      resolveTokenBudget(undefined, { ledger, now, estimate: 5_000 });
+      expect(ledger.used(now)).toBe(5_000);
+    });
+  });
+});